@@ -0,0 +1,486 @@
+#!/usr/bin/env node
+// ─────────────────────────────────────────────────────────────────────────────
+// OpenAPI → TypeScript client
+//
+// Reads the backend's OpenAPI schema (openapi/fasi.openapi.json, exported by
+// drf-spectacular) and writes src/app/lib/generated/fasiApi.ts:
+//   - one interface per component schema, plus a runtime schema (lib/schema.ts)
+//     that coerces DecimalFields and fills defaults,
+//   - one function per operation, named after its operationId.
+//
+//   node scripts/generate-api.mjs                  regenerate the client
+//   node scripts/generate-api.mjs --check          exit 1 if the committed client
+//                                                  does not match the schema
+//   node scripts/generate-api.mjs --check --schema <file|url>
+//                                                  compare against another schema,
+//                                                  e.g. a running backend's
+//                                                  /api/schema/ endpoint
+//
+// Vendor extensions understood on properties:
+//   x-aliases       older field names accepted in responses (dotted = nested)
+//   x-default-expr  TypeScript expression evaluated when the field is missing
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const DEFAULT_SCHEMA = resolve(ROOT, "openapi/fasi.openapi.json");
+const OUTPUT = resolve(ROOT, "src/app/lib/generated/fasiApi.ts");
+const METHODS = ["get", "post", "put", "patch", "delete"];
+
+// ─────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────
+
+const pascal = (name) =>
+  name.replace(/(^|[_\-\s.]+)([a-zA-Z0-9])/g, (_, __, c) => c.toUpperCase());
+const camel = (name) => {
+  const p = pascal(name);
+  return p.charAt(0).toLowerCase() + p.slice(1);
+};
+const str = (value) => JSON.stringify(value);
+const list = (values) => `[${values.map(str).join(", ")}]`;
+const isIdentifier = (key) => /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key);
+const propKey = (key) => (isIdentifier(key) ? key : str(key));
+const refName = (ref) => ref.split("/").pop();
+const schemaConst = (name) => `${camel(name)}Schema`;
+
+function fail(message) {
+  console.error(`generate-api: ${message}`);
+  process.exit(1);
+}
+
+/** `$ref` of a schema, also when wrapped as `allOf: [$ref]` to be nullable. */
+function unwrapRef(schema) {
+  if (schema.$ref) return schema.$ref;
+  if (schema.allOf?.length === 1 && schema.allOf[0].$ref) return schema.allOf[0].$ref;
+  return null;
+}
+
+function isObjectSchema(schema) {
+  return schema.type === "object" || schema.properties !== undefined;
+}
+
+function doc(text, indent) {
+  return text ? `${indent}/** ${text.replace(/\*\//g, "*\\/")} */\n` : "";
+}
+
+// ─────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────
+
+function baseType(schema, where) {
+  const ref = unwrapRef(schema);
+  if (ref) return refName(ref);
+  if (schema.enum) return schema.enum.map(str).join(" | ");
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf ?? schema.anyOf).map((s) => tsType(s, where)).join(" | ");
+  }
+  switch (schema.type) {
+    case "string":
+      if (schema.format === "binary") return "Blob";
+      // DRF DecimalFields are serialized as strings; the runtime schema turns
+      // them into numbers.
+      return schema.format === "decimal" ? "number" : "string";
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "array": {
+      const item = tsType(schema.items, `${where}[]`);
+      return /[ |]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case "object":
+      if (schema.properties && Object.keys(schema.properties).length > 0) {
+        fail(`inline object at ${where}; declare it under components.schemas`);
+      }
+      return schema.additionalProperties
+        ? `Record<string, ${tsType(schema.additionalProperties, `${where}{}`)}>`
+        : "Record<string, unknown>";
+    default:
+      return "unknown";
+  }
+}
+
+function tsType(schema, where) {
+  const type = baseType(schema, where);
+  return schema.nullable ? `${type} | null` : type;
+}
+
+// ─────────────────────────────────────────────
+// Runtime schemas
+// ─────────────────────────────────────────────
+
+function baseSchema(schema, where) {
+  const ref = unwrapRef(schema);
+  if (ref) return schemaConst(refName(ref));
+  if (schema.enum) return `s.enumOf(${list(schema.enum)})`;
+  switch (schema.type) {
+    case "string":
+      return schema.format === "decimal" ? "s.number()" : "s.string()";
+    case "integer":
+    case "number":
+      return "s.number()";
+    case "boolean":
+      return "s.boolean()";
+    case "array":
+      return `s.array(${fieldSchema(schema.items, true, `${where}[]`)})`;
+    case "object":
+      if (schema.properties && Object.keys(schema.properties).length > 0) {
+        fail(`inline object at ${where}; declare it under components.schemas`);
+      }
+      return schema.additionalProperties
+        ? `s.record(${fieldSchema(schema.additionalProperties, true, `${where}{}`)})`
+        : "s.record(s.unknown())";
+    default:
+      return "s.unknown()";
+  }
+}
+
+function hasDefault(schema) {
+  return schema.default !== undefined || schema["x-default-expr"] !== undefined;
+}
+
+function fieldSchema(schema, required, where) {
+  let out = baseSchema(schema, where);
+  if (schema["x-default-expr"] !== undefined) out += `.default(() => ${schema["x-default-expr"]})`;
+  else if (schema.default !== undefined) out += `.default(${str(schema.default)})`;
+  else if (schema.nullable) out += ".nullable()";
+  else if (!required) out += ".optional()";
+  return out;
+}
+
+// ─────────────────────────────────────────────
+// Components
+// ─────────────────────────────────────────────
+
+function refsOf(schema, out = new Set()) {
+  if (!schema || typeof schema !== "object") return out;
+  const ref = unwrapRef(schema);
+  if (ref) out.add(refName(ref));
+  Object.values(schema.properties ?? {}).forEach((p) => refsOf(p, out));
+  if (schema.items) refsOf(schema.items, out);
+  if (typeof schema.additionalProperties === "object") refsOf(schema.additionalProperties, out);
+  (schema.oneOf ?? schema.anyOf ?? []).forEach((s) => refsOf(s, out));
+  return out;
+}
+
+/** Component names ordered so every schema const is declared before use. */
+function sortComponents(components) {
+  const order = [];
+  const state = new Map();
+  const visit = (name, chain) => {
+    if (state.get(name) === "done") return;
+    if (state.get(name) === "visiting") {
+      fail(`circular reference ${[...chain, name].join(" → ")}`);
+    }
+    if (!components[name]) fail(`unknown component ${name} (from ${chain.at(-1)})`);
+    state.set(name, "visiting");
+    refsOf(components[name]).forEach((dep) => visit(dep, [...chain, name]));
+    state.set(name, "done");
+    order.push(name);
+  };
+  Object.keys(components).forEach((name) => visit(name, []));
+  return order;
+}
+
+/** Components reachable from a response body — the only ones parsed at runtime. */
+function responseComponents(spec) {
+  const components = spec.components?.schemas ?? {};
+  const found = new Set();
+  const walk = (name) => {
+    if (found.has(name)) return;
+    found.add(name);
+    refsOf(components[name]).forEach(walk);
+  };
+  Object.values(spec.paths ?? {}).forEach((item) => {
+    METHODS.forEach((method) => {
+      const response = item[method] && successResponse(item[method]);
+      if (response?.kind === "parsed") walk(response.type);
+    });
+  });
+  return found;
+}
+
+function renderComponent(name, schema, parsed) {
+  const constName = schemaConst(name);
+
+  if (schema.enum) {
+    const type = `${doc(schema.description, "")}export type ${name} = ${schema.enum.map(str).join(" | ")};`;
+    return parsed ? `${type}\n\nconst ${constName} = s.enumOf<${name}>(${list(schema.enum)});` : type;
+  }
+
+  if (!isObjectSchema(schema) || !schema.properties) {
+    const type = `${doc(schema.description, "")}export type ${name} = ${tsType(schema, name)};`;
+    return parsed ? `${type}\n\nconst ${constName} = ${baseSchema(schema, name)};` : type;
+  }
+
+  const required = new Set(schema.required ?? []);
+  const extra = schema.additionalProperties;
+  const props = Object.entries(schema.properties);
+
+  let iface = `${doc(schema.description, "")}export interface ${name} {\n`;
+  props.forEach(([key, prop]) => {
+    const optional = !required.has(key) && !hasDefault(prop);
+    iface += doc(prop.description, "  ");
+    iface += `  ${propKey(key)}${optional ? "?" : ""}: ${tsType(prop, `${name}.${key}`)};\n`;
+  });
+  if (extra) {
+    // The index signature has to admit the declared properties too.
+    const valueType = typeof extra === "object" ? tsType(extra, `${name}{}`) : "unknown";
+    const declared = props.map(([key, prop]) => tsType(prop, `${name}.${key}`));
+    const union = [...new Set([...declared, valueType].flatMap((t) => t.split(" | ")))];
+    iface += `  [key: string]: ${union.join(" | ")};\n`;
+  }
+  iface += "}";
+  if (!parsed) return iface;
+
+  const fields = props.map(([key, prop]) => {
+    const field = fieldSchema(prop, required.has(key), `${name}.${key}`);
+    const aliases = prop["x-aliases"];
+    return aliases
+      ? `${propKey(key)}: s.alias(${list([key, ...aliases])}, ${field}),`
+      : `${propKey(key)}: ${field},`;
+  });
+  const body = extra
+    ? `const ${constName} = s.object<${name}>(\n  {\n${fields.map((f) => `    ${f}`).join("\n")}\n  },\n  { passthrough: true },\n);`
+    : `const ${constName} = s.object<${name}>({\n${fields.map((f) => `  ${f}`).join("\n")}\n});`;
+
+  return `${iface}\n\n${body}`;
+}
+
+// ─────────────────────────────────────────────
+// Operations
+// ─────────────────────────────────────────────
+
+function successResponse(operation) {
+  const [status, response] =
+    Object.entries(operation.responses ?? {}).find(([code]) => /^2\d\d$/.test(code)) ?? [];
+  if (!status) return { kind: "void" };
+  const content = response.content ?? {};
+  const [media, body] = Object.entries(content)[0] ?? [];
+  if (!media || status === "204") return { kind: "void" };
+  const schema = body.schema ?? {};
+  if (schema.type === "string" && schema.format === "binary") return { kind: "blob" };
+  const ref = unwrapRef(schema);
+  if (ref) return { kind: "parsed", type: refName(ref), schema: schemaConst(refName(ref)) };
+  return { kind: "unknown" };
+}
+
+function renderOperation(path, method, operation, paramTypes) {
+  const id = operation.operationId;
+  if (!id) fail(`${method.toUpperCase()} ${path} has no operationId`);
+  const fn = camel(id);
+  const params = operation.parameters ?? [];
+  const pathParams = params.filter((p) => p.in === "path");
+  const queryParams = params.filter((p) => p.in === "query");
+  const isPublic = Array.isArray(operation.security) && operation.security.length === 0;
+
+  const args = pathParams.map((p) => `${camel(p.name)}: string`);
+  const init = [`method: ${str(method.toUpperCase())}`];
+
+  const requestBody = operation.requestBody?.content ?? {};
+  if (requestBody["multipart/form-data"]) {
+    const fields = Object.keys(requestBody["multipart/form-data"].schema?.properties ?? {});
+    args.push(`body: FormData`);
+    init.push("body");
+    operation = { ...operation, formFields: fields };
+  } else if (requestBody["application/json"]) {
+    const ref = unwrapRef(requestBody["application/json"].schema ?? {});
+    args.push(`body: ${ref ? refName(ref) : "unknown"}`);
+    init.push("body: JSON.stringify(body)");
+  }
+
+  if (queryParams.length > 0) {
+    const typeName = `${pascal(id)}Params`;
+    const required = queryParams.some((p) => p.required);
+    let type = `export type ${typeName} = {\n`;
+    queryParams.forEach((p) => {
+      type += doc(p.description, "  ");
+      type += `  ${propKey(p.name)}${p.required ? "" : "?"}: ${tsType(p.schema ?? {}, `${id}.${p.name}`)};\n`;
+    });
+    type += "};";
+    paramTypes.push(type);
+    args.push(`params${required ? "" : "?"}: ${typeName}`);
+    init.push("params");
+  }
+  if (isPublic) init.push("skipAuth: true");
+  args.push("opts?: RequestOptions");
+
+  const url = pathParams.reduce(
+    (acc, p) => acc.replace(`{${p.name}}`, `\${encodeURIComponent(${camel(p.name)})}`),
+    path,
+  );
+  const urlExpr = pathParams.length > 0 ? `\`${url}\`` : str(path);
+  const response = successResponse(operation);
+
+  let returnType;
+  let callee;
+  const head = [urlExpr];
+  const tail = [];
+  switch (response.kind) {
+    case "void":
+      returnType = "void";
+      callee = "apiFetch<void>";
+      break;
+    case "blob":
+      returnType = "Blob";
+      callee = "apiFetch<Blob>";
+      init.push('responseType: "blob"');
+      break;
+    case "unknown":
+      returnType = "unknown";
+      callee = "apiFetch<unknown>";
+      break;
+    default:
+      returnType = response.type;
+      callee = "request";
+      head.unshift(response.schema);
+      // Drift reports name the path template, not each id.
+      if (pathParams.length > 0) tail.push(str(path));
+  }
+  init.push("...opts");
+
+  const suffix = tail.map((arg) => `, ${arg}`).join("");
+  let call = `${callee}(${head.join(", ")}, { ${init.join(", ")} }${suffix})`;
+  if (call.length + 9 > 100 && tail.length === 0) {
+    call = `${callee}(${head.join(", ")}, {\n${init.map((e) => `    ${e},`).join("\n")}\n  })`;
+  } else if (call.length + 9 > 100) {
+    const initLine = `{ ${init.join(", ")} }`;
+    const initArg =
+      initLine.length + 4 > 100 ? `{\n${init.map((e) => `      ${e},`).join("\n")}\n    }` : initLine;
+    call = `${callee}(\n${[...head, initArg, ...tail].map((arg) => `    ${arg},`).join("\n")}\n  )`;
+  }
+
+  let summary = `${operation.summary ? `${operation.summary} — ` : ""}\`${method.toUpperCase()} ${path}\``;
+  if (operation.formFields) summary += ` (multipart: ${operation.formFields.join(", ")})`;
+  if (isPublic) summary += ", unauthenticated";
+  return (
+    `/** ${summary} */\n` +
+    `export function ${fn}(\n  ${args.join(",\n  ")},\n): Promise<${returnType}> {\n` +
+    `  return ${call};\n}`
+  );
+}
+
+// ─────────────────────────────────────────────
+// Module
+// ─────────────────────────────────────────────
+
+function generate(spec, schemaLabel) {
+  if (!String(spec.openapi ?? "").startsWith("3.")) fail("expected an OpenAPI 3 document");
+  const components = spec.components?.schemas ?? {};
+
+  const out = [];
+  out.push(
+    "// ─────────────────────────────────────────────────────────────────────────────",
+    `// GENERATED by scripts/generate-api.mjs from ${schemaLabel}`,
+    `// ${spec.info?.title ?? "API"} ${spec.info?.version ?? ""}`.trimEnd(),
+    "//",
+    "// Do not edit by hand: update the schema and run `npm run api:generate`.",
+    "// `npm run api:check` fails when this file and the schema disagree.",
+    "// ─────────────────────────────────────────────────────────────────────────────",
+    "",
+    'import { apiFetch, type RequestOptions } from "../api";',
+    'import { parseResponse, s, type Schema } from "../schema";',
+    "",
+    "/** Send a request and validate / normalize its JSON body with `schema`. */",
+    "function request<T>(",
+    "  schema: Schema<T>,",
+    "  url: string,",
+    "  init: RequestOptions,",
+    "  operation = url,",
+    "): Promise<T> {",
+    "  return apiFetch<unknown>(url, init).then((raw) => parseResponse(schema, raw, operation));",
+    "}",
+    "",
+    "// ─────────────────────────────────────────────",
+    "// Schemas",
+    "// ─────────────────────────────────────────────",
+    "",
+  );
+
+  const parsed = responseComponents(spec);
+  sortComponents(components).forEach((name) => {
+    out.push(renderComponent(name, components[name], parsed.has(name)), "");
+  });
+
+  const byTag = new Map();
+  Object.entries(spec.paths ?? {}).forEach(([path, item]) => {
+    METHODS.forEach((method) => {
+      const operation = item[method];
+      if (!operation) return;
+      const tag = operation.tags?.[0] ?? "default";
+      if (!byTag.has(tag)) byTag.set(tag, []);
+      byTag.get(tag).push([path, method, operation]);
+    });
+  });
+
+  const seen = new Set();
+  byTag.forEach((operations, tag) => {
+    out.push(
+      "// ─────────────────────────────────────────────",
+      `// Endpoints — ${tag}`,
+      "// ─────────────────────────────────────────────",
+      "",
+    );
+    const paramTypes = [];
+    const functions = operations.map(([path, method, operation]) => {
+      if (seen.has(operation.operationId)) fail(`duplicate operationId ${operation.operationId}`);
+      seen.add(operation.operationId);
+      return renderOperation(path, method, operation, paramTypes);
+    });
+    paramTypes.forEach((type) => out.push(type, ""));
+    functions.forEach((fn) => out.push(fn, ""));
+  });
+
+  return `${out.join("\n").trimEnd()}\n`;
+}
+
+async function loadSchema(source) {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source, { headers: { Accept: "application/json" } });
+    if (!response.ok) fail(`GET ${source} → ${response.status}`);
+    return response.json();
+  }
+  return JSON.parse(await readFile(source, "utf8"));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const check = args.includes("--check");
+  const schemaIndex = args.indexOf("--schema");
+  const source = schemaIndex >= 0 ? args[schemaIndex + 1] : DEFAULT_SCHEMA;
+  if (!source) fail("--schema needs a file path or URL");
+
+  // The header always names the committed schema so --check against a live
+  // backend compares only the generated code.
+  const code = generate(await loadSchema(source), relative(ROOT, DEFAULT_SCHEMA));
+  const target = relative(ROOT, OUTPUT);
+
+  if (!check) {
+    await mkdir(dirname(OUTPUT), { recursive: true });
+    await writeFile(OUTPUT, code);
+    console.log(`generate-api: wrote ${target}`);
+    return;
+  }
+
+  const current = await readFile(OUTPUT, "utf8").catch(() => "");
+  if (current === code) {
+    console.log(`generate-api: ${target} matches ${source === DEFAULT_SCHEMA ? relative(ROOT, source) : source}`);
+    return;
+  }
+  const a = current.split("\n");
+  const b = code.split("\n");
+  const line = a.findIndex((text, i) => text !== b[i]);
+  const at = line === -1 ? a.length : line;
+  console.error(`generate-api: ${target} is out of date with the schema (first difference at line ${at + 1})`);
+  console.error(`  committed: ${a[at] ?? "<end of file>"}`);
+  console.error(`  expected:  ${b[at] ?? "<end of file>"}`);
+  console.error("Run `npm run api:generate` and commit the result.");
+  process.exit(1);
+}
+
+main();
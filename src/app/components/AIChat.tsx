@@ -23,6 +23,7 @@ import {
   useState, useEffect, useRef, useCallback, KeyboardEvent,
 } from 'react';
 import { api } from '../lib/api';
+import { usePermission } from '../contexts/AuthContext';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -379,6 +380,7 @@ interface AIChatProps {
 }
 
 export function AIChat({ className = '' }: AIChatProps) {
+  const canExport = usePermission('export', 'ai-insights');
   const [messages,     setMessages]     = useState<ChatMessage[]>([INITIAL_MESSAGE]);
   const [input,        setInput]        = useState('');
   const [sending,      setSending]      = useState(false);
@@ -515,13 +517,15 @@ export function AIChat({ className = '' }: AIChatProps) {
             <span className="w-2 h-2 rounded-full bg-emerald-400 animate-pulse" />
             <span className="text-[10px] text-indigo-200 font-medium">Connected</span>
           </div>
-          <button
-            onClick={handleExport}
-            title="Export conversation"
-            className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
-          >
-            <Download className="h-3.5 w-3.5 text-indigo-200" />
-          </button>
+          {canExport && (
+            <button
+              onClick={handleExport}
+              title="Export conversation"
+              className="p-1.5 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <Download className="h-3.5 w-3.5 text-indigo-200" />
+            </button>
+          )}
           <button
             onClick={handleClear}
             title="New conversation"
@@ -3,6 +3,7 @@ import {
   ComposedChart, Bar, XAxis, YAxis, CartesianGrid,
   Tooltip, Legend, ResponsiveContainer, Line,
 } from 'recharts';
+import { api } from '../lib/api';
 
 interface SnapshotTrend {
   snapshot_id:         string;
@@ -109,12 +110,7 @@ export function AgingHistoricalTrend({ snapshotCount, branch }: AgingHistoricalT
   const fetchTrend = useCallback(() => {
     setLoading(true);
     setError(null);
-    const token = localStorage.getItem('fasi_access_token');
-    const headers: Record<string, string> = {};
-    if (token) headers['Authorization'] = `Bearer ${token}`;
-
-    fetch('/api/aging/historical-trend/', { headers })
-      .then(r => r.json())
+    api.get<{ trend?: SnapshotTrend[] }>('/aging/historical-trend/')
       .then(d => { setAllData(d.trend ?? []); setLoading(false); })
       .catch(() => { setError('Failed to load'); setLoading(false); });
   }, []);
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { GitBranch, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { api } from '../lib/api';
+
+interface BranchScopePickerProps {
+  /** Allowed branch names; empty means every branch. */
+  selected: string[];
+  onChange: (branches: string[]) => void;
+  disabled?: boolean;
+}
+
+/** Picks the branches an agent may see. No selection = all branches. */
+export function BranchScopePicker({ selected, onChange, disabled }: BranchScopePickerProps) {
+  const [branches, setBranches] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    api.get<{ branches?: string[] }>('/transactions/branches/')
+      .then(res => setBranches(res.branches ?? []))
+      .catch(() => setBranches([]))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Keep branches that are assigned but no longer have data, so they can be removed.
+  const names = [...new Set([...branches, ...selected])];
+
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter(b => b !== name) : [...selected, name]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <GitBranch className="h-4 w-4 text-muted-foreground" />
+            Allowed branches
+          </h4>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            {selected.length === 0
+              ? 'All branches — select some to limit the data this agent sees'
+              : `Data limited to ${selected.length} branch${selected.length > 1 ? 'es' : ''}`}
+          </p>
+        </div>
+        {selected.length > 0 && (
+          <Button type="button" size="sm" variant="ghost" className="h-auto py-1 text-xs"
+            onClick={() => onChange([])} disabled={disabled}>
+            Allow all
+          </Button>
+        )}
+      </div>
+      {loading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : names.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No branches found — import movements or inventory first.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {names.map(name => (
+            <label
+              key={name}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm cursor-pointer transition-colors ${
+                selected.includes(name)
+                  ? 'bg-indigo-50 border-indigo-300 dark:bg-indigo-950 dark:border-indigo-700'
+                  : 'hover:bg-accent'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(name)}
+                onChange={() => toggle(name)}
+                disabled={disabled}
+                className="h-3.5 w-3.5 rounded border-gray-300"
+              />
+              {name}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+import { useEffect, useRef, useState } from 'react';
+import * as XLSX from 'xlsx';
+import {
+  Upload, FileSpreadsheet, Download, Loader2, CheckCircle2, XCircle, AlertTriangle, ArrowLeft,
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { api } from '../lib/api';
+import { authApi, type BulkAgentResult, type BulkAgentRow, type RoleTemplate } from '../lib/authApi';
+import { toast } from 'sonner';
+
+interface BulkImportUsersDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Emails already on the team, flagged in the preview instead of failing on the server. */
+  existingEmails: string[];
+  /** Called once accounts were created, so the team list can reload. */
+  onCreated: () => Promise<void>;
+}
+
+type ColumnKey = 'name' | 'email' | 'phone' | 'branch' | 'template';
+
+// Header aliases are compared lower-cased and trimmed.
+const COLUMNS: { key: ColumnKey; header: string; aliases: string[] }[] = [
+  { key: 'name',     header: 'Name',          aliases: ['name', 'full name', 'full_name'] },
+  { key: 'email',    header: 'Email',         aliases: ['email', 'e-mail', 'email address'] },
+  { key: 'phone',    header: 'Phone',         aliases: ['phone', 'phone number', 'phone_number', 'mobile'] },
+  { key: 'branch',   header: 'Branch',        aliases: ['branch', 'branch name', 'branch_name'] },
+  { key: 'template', header: 'Role template', aliases: ['role template', 'role_template', 'template', 'role'] },
+];
+
+const MAX_ROWS = 200;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface PreviewRow extends Record<ColumnKey, string> {
+  /** Spreadsheet line, header being line 1. */
+  line: number;
+  templateId?: string;
+  errors: string[];
+}
+
+async function readSheet(file: File): Promise<{ rows: Record<ColumnKey, string>[]; missing: string[] }> {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const raw = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false, blankrows: true });
+  const headers = Object.keys(raw[0] ?? {}).map(h => h.trim().toLowerCase());
+  const missing = COLUMNS
+    .filter(c => (c.key === 'name' || c.key === 'email') && !c.aliases.some(a => headers.includes(a)))
+    .map(c => c.header);
+
+  const rows = raw.map(record => {
+    const row: Record<ColumnKey, string> = { name: '', email: '', phone: '', branch: '', template: '' };
+    for (const [header, value] of Object.entries(record)) {
+      const column = COLUMNS.find(c => c.aliases.includes(header.trim().toLowerCase()));
+      if (column) row[column.key] = String(value).trim();
+    }
+    return row;
+  });
+  return { rows, missing };
+}
+
+function validate(
+  rows: Record<ColumnKey, string>[],
+  existingEmails: string[],
+  branches: string[],
+  templates: RoleTemplate[],
+): PreviewRow[] {
+  const taken = new Set(existingEmails.map(e => e.toLowerCase()));
+  const seen = new Set<string>();
+  return rows
+    .map((row, i) => ({ ...row, line: i + 2 }))
+    .filter(row => COLUMNS.some(c => row[c.key]))
+    .map(row => {
+      const errors: string[] = [];
+      const email = row.email.toLowerCase();
+      if (!row.name) errors.push('Name is missing');
+      if (!row.email) errors.push('Email is missing');
+      else if (!EMAIL_RE.test(row.email)) errors.push('Invalid email');
+      else if (taken.has(email)) errors.push('Already on the team');
+      else if (seen.has(email)) errors.push('Duplicate email in the file');
+      seen.add(email);
+
+      const branch = row.branch && branches.find(b => b.toLowerCase() === row.branch.toLowerCase());
+      if (row.branch && !branch) errors.push(`Unknown branch "${row.branch}"`);
+      const template = row.template
+        ? templates.find(t => t.name.toLowerCase() === row.template.toLowerCase())
+        : undefined;
+      if (row.template && !template) errors.push(`Unknown role template "${row.template}"`);
+
+      return { ...row, branch: branch || row.branch, templateId: template?.id, errors };
+    });
+}
+
+function toPayload(row: PreviewRow): BulkAgentRow {
+  const nameParts = row.name.split(/\s+/);
+  return {
+    first_name: nameParts[0],
+    last_name: nameParts.slice(1).join(' ') || nameParts[0],
+    email: row.email,
+    ...(row.phone ? { phone_number: row.phone } : {}),
+    ...(row.branch ? { branch_name: row.branch } : {}),
+    ...(row.templateId ? { role_template: row.templateId } : {}),
+  };
+}
+
+function downloadTemplate() {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    COLUMNS.map(c => c.header),
+    ['Sara Haddad', 'sara.haddad@company.com', '+218 91 000 0000', 'Tripoli', 'Collector'],
+  ]);
+  sheet['!cols'] = COLUMNS.map(() => ({ wch: 24 }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Agents');
+  XLSX.writeFile(workbook, 'agents_import_template.xlsx');
+}
+
+export function BulkImportUsersDialog({ open, onClose, existingEmails, onCreated }: BulkImportUsersDialogProps) {
+  const [branches, setBranches] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<RoleTemplate[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<PreviewRow[] | null>(null);
+  const [results, setResults] = useState<{ row: PreviewRow; result: BulkAgentResult }[] | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [sendInvites, setSendInvites] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setRows(null);
+    setResults(null);
+    setFileName('');
+    setSendInvites(false);
+    api.get<{ branches?: string[] }>('/transactions/branches/')
+      .then(res => setBranches(res.branches ?? []))
+      .catch(() => setBranches([]));
+    authApi.getRoleTemplates()
+      .then(res => setTemplates(res.templates))
+      .catch(() => setTemplates([]));
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const sheet = await readSheet(file);
+      if (sheet.missing.length > 0) {
+        toast.error(`Missing column${sheet.missing.length > 1 ? 's' : ''}: ${sheet.missing.join(', ')}`);
+        return;
+      }
+      const preview = validate(sheet.rows, existingEmails, branches, templates);
+      if (preview.length === 0) {
+        toast.error('The file has no rows');
+        return;
+      }
+      if (preview.length > MAX_ROWS) {
+        toast.error(`At most ${MAX_ROWS} agents per import — split the file`);
+        return;
+      }
+      setFileName(file.name);
+      setRows(preview);
+    } catch {
+      toast.error('Unable to read the file — use .xlsx, .xls or .csv');
+    } finally {
+      setIsReading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const validRows = rows?.filter(r => r.errors.length === 0) ?? [];
+
+  const handleCreate = async () => {
+    if (validRows.length === 0) return;
+    setIsCreating(true);
+    try {
+      const res = await authApi.bulkCreateAgents(validRows.map(toPayload), sendInvites);
+      setResults(res.results.map(result => ({ row: validRows[result.row], result })));
+      if (res.created > 0) {
+        toast.success(sendInvites
+          ? `${res.created} invitation${res.created === 1 ? '' : 's'} sent`
+          : `${res.created} agent account${res.created === 1 ? '' : 's'} created`);
+        await onCreated();
+      }
+      if (res.failed > 0) toast.error(`${res.failed} row${res.failed === 1 ? '' : 's'} could not be created`);
+    } catch (err: any) {
+      toast.error(err?.userMessage ?? 'Error creating the accounts');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // What the agent signs in with: their invitation link, or a temporary password.
+  const credentialLabel = sendInvites ? 'Invitation link' : 'Temporary password';
+  const credential = (result: BulkAgentResult) => result.invite_url ?? result.temporary_password;
+
+  const downloadReport = () => {
+    if (!results) return;
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['Line', 'Name', 'Email', 'Branch', 'Status', credentialLabel, 'Error'],
+      ...results.map(({ row, result }) => [
+        row.line,
+        row.name,
+        result.email,
+        row.branch,
+        result.status,
+        credential(result) ?? '',
+        Object.values(result.errors ?? {}).flat().join('; '),
+      ]),
+    ]);
+    sheet['!cols'] = [{ wch: 6 }, { wch: 24 }, { wch: 30 }, { wch: 16 }, { wch: 10 }, { wch: sendInvites ? 60 : 22 }, { wch: 40 }];
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Report');
+    XLSX.writeFile(workbook, `agents_import_report_${new Date().toISOString().slice(0, 10)}.xlsx`);
+  };
+
+  const invalidCount = (rows?.length ?? 0) - validRows.length;
+  const createdCount = results?.filter(r => r.result.status === 'created').length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={() => { if (!isCreating) onClose(); }}>
+      <DialogContent className="max-w-[95vw] w-[1100px] max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import agents</DialogTitle>
+          <DialogDescription>
+            Create several agent accounts from an Excel or CSV file with Name, Email, Phone, Branch and Role template columns
+          </DialogDescription>
+        </DialogHeader>
+
+        {results ? (
+          <>
+            <div className="flex items-start gap-3 p-3 rounded-lg border border-amber-200 bg-amber-50 dark:bg-amber-950/30 dark:border-amber-800 text-sm">
+              <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+              {sendInvites ? (
+                <span>
+                  {createdCount} invitation{createdCount === 1 ? '' : 's'} sent. Each link is valid for 7 days —
+                  download the report to share a link another way if an email does not arrive.
+                </span>
+              ) : (
+                <span>
+                  {createdCount} account{createdCount === 1 ? '' : 's'} created. Temporary passwords are shown only now —
+                  download the report and hand them over; agents must change theirs at first login.
+                </span>
+              )}
+            </div>
+            <div className="flex-1 overflow-auto border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr className="text-left">
+                    <th className="p-2 font-medium">Line</th>
+                    <th className="p-2 font-medium">Name</th>
+                    <th className="p-2 font-medium">Email</th>
+                    <th className="p-2 font-medium">Result</th>
+                    <th className="p-2 font-medium">{credentialLabel}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map(({ row, result }) => (
+                    <tr key={result.row} className="border-t">
+                      <td className="p-2 text-muted-foreground">{row.line}</td>
+                      <td className="p-2">{row.name}</td>
+                      <td className="p-2">{result.email}</td>
+                      <td className="p-2">
+                        {result.status === 'created' ? (
+                          <span className="flex items-center gap-1 text-emerald-600"><CheckCircle2 className="h-4 w-4" /> Created</span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-rose-600">
+                            <XCircle className="h-4 w-4 shrink-0" />
+                            {Object.values(result.errors ?? {}).flat().join('; ') || 'Failed'}
+                          </span>
+                        )}
+                      </td>
+                      <td className="p-2 font-mono break-all">{credential(result) ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <Button type="button" variant="outline" onClick={downloadReport}>
+                <Download className="h-4 w-4 mr-1" /> Download report
+              </Button>
+              <Button onClick={onClose}>Done</Button>
+            </div>
+          </>
+        ) : rows ? (
+          <>
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span className="flex items-center gap-2 font-medium">
+                <FileSpreadsheet className="h-4 w-4 text-muted-foreground" /> {fileName}
+              </span>
+              <span className="text-muted-foreground">
+                {validRows.length} ready
+                {invalidCount > 0 && <span className="text-rose-600"> · {invalidCount} with errors, skipped</span>}
+              </span>
+            </div>
+            <div className="flex-1 overflow-auto border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr className="text-left">
+                    <th className="p-2 font-medium">Line</th>
+                    {COLUMNS.map(c => <th key={c.key} className="p-2 font-medium">{c.header}</th>)}
+                    <th className="p-2 font-medium">Check</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.line} className={`border-t ${row.errors.length > 0 ? 'bg-rose-50 dark:bg-rose-950/30' : ''}`}>
+                      <td className="p-2 text-muted-foreground">{row.line}</td>
+                      {COLUMNS.map(c => <td key={c.key} className="p-2">{row[c.key] || <span className="text-muted-foreground">—</span>}</td>)}
+                      <td className="p-2">
+                        {row.errors.length === 0 ? (
+                          <CheckCircle2 className="h-4 w-4 text-emerald-600" />
+                        ) : (
+                          <span className="text-rose-600 text-xs">{row.errors.join('; ')}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Agents get the permissions of their role template, or the default agent permissions without one.
+              A branch also limits the agent's data to that branch.
+            </p>
+            <label className="flex items-center gap-3 text-sm cursor-pointer">
+              <Switch checked={sendInvites} onCheckedChange={setSendInvites} disabled={isCreating} />
+              Email each agent an invitation to choose their own password, instead of a temporary password
+            </label>
+            <div className="flex justify-end gap-2 pt-4 border-t">
+              <Button type="button" variant="outline" onClick={() => setRows(null)} disabled={isCreating}>
+                <ArrowLeft className="h-4 w-4 mr-1" /> Another file
+              </Button>
+              <Button onClick={handleCreate} disabled={isCreating || validRows.length === 0}>
+                {isCreating
+                  ? <><Loader2 className="h-4 w-4 animate-spin mr-2" />Creating...</>
+                  : `${sendInvites ? 'Invite' : 'Create'} ${validRows.length} ${sendInvites ? 'agent' : 'account'}${validRows.length === 1 ? '' : 's'}`
+                }
+              </Button>
+            </div>
+          </>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              onDragOver={e => e.preventDefault()}
+              onDrop={e => { e.preventDefault(); handleFile(e.dataTransfer.files[0]); }}
+              disabled={isReading}
+              className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed rounded-lg hover:bg-accent transition-colors"
+            >
+              {isReading
+                ? <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                : <Upload className="h-8 w-8 text-muted-foreground" />}
+              <span className="font-medium">Drop a file here or click to browse</span>
+              <span className="text-xs text-muted-foreground">.xlsx, .xls or .csv · first sheet · up to {MAX_ROWS} agents</span>
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className="hidden"
+              onChange={e => handleFile(e.target.files?.[0])}
+            />
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                Name and Email are required; Branch and Role template must match existing ones.
+              </span>
+              <Button type="button" size="sm" variant="outline" onClick={downloadTemplate}>
+                <Download className="h-4 w-4 mr-1" /> Template
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,10 @@
-import { useState } from 'react';
-import { Check, Building } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Building, Layers, Send } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
-import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from './ui/form';
 import {
   Dialog,
   DialogContent,
@@ -10,7 +12,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from './ui/dialog';
-import { AVAILABLE_PERMISSIONS, DEFAULT_AGENT_PERMISSIONS, useAuth } from '../contexts/AuthContext';
+import { useAuth } from '../contexts/AuthContext';
+import { AVAILABLE_PERMISSIONS, DEFAULT_AGENT_PERMISSIONS, permissionDiff } from '../lib/permissions';
+import { authApi, type RoleTemplate } from '../lib/authApi';
+import { PermissionMatrix } from './PermissionMatrix';
+import { BranchScopePicker } from './BranchScopePicker';
+import { applyServerErrors, type ServerFieldMap } from '../lib/formErrors';
 import { toast } from 'sonner';
 
 interface UserAccount {
@@ -19,9 +26,28 @@ interface UserAccount {
   role: string;
   permissions: string[];
   branchId?: string;
+  allowedBranches?: string[];
+  roleTemplateId?: string;
   tempPassword?: string;
+  sendInvite?: boolean;
 }
 
+interface AgentFormValues {
+  name: string;
+  email: string;
+  tempPassword: string;
+}
+
+const EMPTY_FORM: AgentFormValues = { name: '', email: '', tempPassword: '' };
+
+// Backend serializer fields → form inputs. first/last name are derived from `name`.
+const SERVER_FIELDS: ServerFieldMap<AgentFormValues> = {
+  email: 'email',
+  first_name: 'name',
+  last_name: 'name',
+  temporary_password: 'tempPassword',
+};
+
 interface CreateUserDialogProps {
   open: boolean;
   onClose: () => void;
@@ -31,21 +57,31 @@ interface CreateUserDialogProps {
 export function CreateUserDialog({ open, onClose, onCreateUser }: CreateUserDialogProps) {
   const { user } = useAuth();
 
-  const [formData, setFormData] = useState({
-    name: '',
-    email: '',
-    tempPassword: '',
-  });
+  const form = useForm<AgentFormValues>({ defaultValues: EMPTY_FORM });
   const [selectedPermissions, setSelectedPermissions] = useState<string[]>(DEFAULT_AGENT_PERMISSIONS);
+  const [allowedBranches, setAllowedBranches] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<RoleTemplate[]>([]);
+  const [template, setTemplate] = useState<RoleTemplate | null>(null);
+  const [sendInvite, setSendInvite] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  useEffect(() => {
+    if (!open) return;
+    authApi.getRoleTemplates()
+      .then(res => setTemplates(res.templates))
+      .catch(() => setTemplates([]));
+  }, [open]);
 
-    if (!formData.name || !formData.email) {
-      toast.error('Please fill in all required fields');
-      return;
-    }
+  const applyTemplate = (next: RoleTemplate | null) => {
+    setTemplate(next);
+    setSelectedPermissions(next ? next.permissions_list : DEFAULT_AGENT_PERMISSIONS);
+  };
+
+  // The agent is linked to the template only while the selection still matches it.
+  const diff = template ? permissionDiff(template.permissions_list, selectedPermissions) : null;
+  const matchesTemplate = !!diff && diff.added.length === 0 && diff.removed.length === 0;
+
+  const handleSubmit = async (formData: AgentFormValues) => {
     if (selectedPermissions.length === 0) {
       toast.error('Please select at least one permission');
       return;
@@ -58,52 +94,25 @@ export function CreateUserDialog({ open, onClose, onCreateUser }: CreateUserDial
         email: formData.email,
         role: 'agent',
         permissions: selectedPermissions,
-        tempPassword: formData.tempPassword || undefined,
+        allowedBranches,
+        roleTemplateId: matchesTemplate ? template!.id : undefined,
+        tempPassword: sendInvite ? undefined : formData.tempPassword || undefined,
+        sendInvite,
       });
       // Only reset + close on success
-      setFormData({ name: '', email: '', tempPassword: '' });
-      setSelectedPermissions(DEFAULT_AGENT_PERMISSIONS);
+      form.reset(EMPTY_FORM);
+      applyTemplate(null);
+      setAllowedBranches([]);
+      setSendInvite(false);
       onClose();
-    } catch (err: any) {
-      const data = err?.data ?? {};
-      if (data.email) {
-        toast.error(`Email: ${Array.isArray(data.email) ? data.email[0] : data.email}`);
-      } else if (data.non_field_errors) {
-        toast.error(Array.isArray(data.non_field_errors) ? data.non_field_errors[0] : data.non_field_errors);
-      } else {
-        toast.error(err?.userMessage ?? 'Error creating account');
-      }
+    } catch (err) {
+      const message = applyServerErrors(err, form.setError, SERVER_FIELDS, 'Error creating account');
+      if (message) toast.error(message);
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const togglePermission = (permissionId: string) => {
-    setSelectedPermissions(prev =>
-      prev.includes(permissionId) ? prev.filter(p => p !== permissionId) : [...prev, permissionId]
-    );
-  };
-
-  const selectAllInCategory = (category: string) => {
-    const ids = AVAILABLE_PERMISSIONS.filter(p => p.category === category).map(p => p.id);
-    const allSelected = ids.every(p => selectedPermissions.includes(p));
-    setSelectedPermissions(prev =>
-      allSelected ? prev.filter(p => !ids.includes(p)) : [...new Set([...prev, ...ids])]
-    );
-  };
-
-  const groupedPermissions = AVAILABLE_PERMISSIONS.reduce((acc, p) => {
-    if (!acc[p.category]) acc[p.category] = [];
-    acc[p.category].push(p);
-    return acc;
-  }, {} as Record<string, typeof AVAILABLE_PERMISSIONS>);
-
-  const categoryLabels: Record<string, string> = {
-    data: 'Data Management',
-    analytics: 'Analytics & Reports',
-    sales: 'Sales & Inventory',
-    system: 'System Access',
-  };
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
@@ -115,7 +124,8 @@ export function CreateUserDialog({ open, onClose, onCreateUser }: CreateUserDial
           </DialogDescription>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="flex flex-col gap-6 flex-1 overflow-hidden">
+        <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-6 flex-1 overflow-hidden">
           {/* Company info — read only */}
           {user?.companyName && (
             <div className="flex items-center gap-3 p-3 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-lg">
@@ -132,47 +142,106 @@ export function CreateUserDialog({ open, onClose, onCreateUser }: CreateUserDial
 
           {/* Basic information */}
           <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Full name *</Label>
-              <Input
-                id="name"
-                placeholder="Agent name"
-                value={formData.name}
-                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="email">Email address *</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="agent@company.com"
-                value={formData.email}
-                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                required
-              />
-            </div>
+            <FormField
+              control={form.control}
+              name="name"
+              rules={{ required: 'Full name is required' }}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Agent name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="email"
+              rules={{ required: 'Email address is required' }}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email address *</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="agent@company.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
 
+          {/* Invitation */}
+          <label className="flex items-center justify-between gap-4 p-3 border rounded-lg cursor-pointer">
+            <span>
+              <span className="text-sm font-medium flex items-center gap-2">
+                <Send className="h-4 w-4 text-muted-foreground" />
+                Invite by email
+              </span>
+              <span className="block text-xs text-muted-foreground mt-0.5">
+                The agent receives a link, valid for 7 days, to choose their own password
+              </span>
+            </span>
+            <Switch checked={sendInvite} onCheckedChange={setSendInvite} />
+          </label>
+
           {/* Temporary password */}
-          <div className="space-y-2">
-            <Label htmlFor="tempPassword">Temporary password</Label>
-            <Input
-              id="tempPassword"
-              type="text"
-              placeholder="Leave blank for default password"
-              value={formData.tempPassword}
-              onChange={(e) => setFormData({ ...formData, tempPassword: e.target.value })}
+          {!sendInvite && (
+            <FormField
+              control={form.control}
+              name="tempPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Temporary password</FormLabel>
+                  <FormControl>
+                    <Input type="text" placeholder="Leave blank for default password" {...field} />
+                  </FormControl>
+                  <FormDescription>Default: Agent@123456</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
             />
-            <p className="text-xs text-muted-foreground">Default: Agent@123456</p>
+          )}
+
+          {/* Branch scope */}
+          <div className="p-3 border rounded-lg">
+            <BranchScopePicker selected={allowedBranches} onChange={setAllowedBranches} />
           </div>
 
+          {/* Role template */}
+          {templates.length > 0 && (
+            <div className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+              <div>
+                <span className="text-sm font-medium flex items-center gap-2">
+                  <Layers className="h-4 w-4 text-muted-foreground" />
+                  Role template
+                </span>
+                {template && (
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {matchesTemplate
+                      ? `Linked to "${template.name}" — re-applying it later updates this agent`
+                      : 'Permissions edited — the agent will not be linked to the template'}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap justify-end gap-2">
+                {templates.map(t => (
+                  <Button key={t.id} type="button" size="sm"
+                    variant={template?.id === t.id ? 'default' : 'outline'}
+                    onClick={() => applyTemplate(t)}>
+                    {t.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Quick permission selection */}
           <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
             <span className="text-sm font-medium">Quick selection:</span>
             <div className="flex gap-2">
-              <Button type="button" size="sm" variant="outline" onClick={() => setSelectedPermissions(DEFAULT_AGENT_PERMISSIONS)}>
+              <Button type="button" size="sm" variant="outline" onClick={() => applyTemplate(null)}>
                 Default agent
               </Button>
               <Button type="button" size="sm" variant="outline" onClick={() => setSelectedPermissions(AVAILABLE_PERMISSIONS.map(p => p.id))}>
@@ -193,46 +262,7 @@ export function CreateUserDialog({ open, onClose, onCreateUser }: CreateUserDial
               </p>
             </div>
 
-            {Object.entries(groupedPermissions).map(([category, permissions]) => (
-              <div key={category} className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <h4 className="font-medium text-sm">{categoryLabels[category]}</h4>
-                  <Button
-                    type="button"
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => selectAllInCategory(category)}
-                    className="h-auto py-1 text-xs"
-                  >
-                    {permissions.every(p => selectedPermissions.includes(p.id)) ? 'Deselect all' : 'Select all'}
-                  </Button>
-                </div>
-                <div className="grid gap-2">
-                  {permissions.map((permission) => (
-                    <label
-                      key={permission.id}
-                      className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-accent transition-colors"
-                    >
-                      <div className="flex items-center h-5">
-                        <input
-                          type="checkbox"
-                          checked={selectedPermissions.includes(permission.id)}
-                          onChange={() => togglePermission(permission.id)}
-                          className="h-4 w-4 rounded border-gray-300"
-                        />
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="font-medium text-sm">{permission.label}</div>
-                        <div className="text-xs text-muted-foreground mt-0.5">{permission.description}</div>
-                      </div>
-                      {selectedPermissions.includes(permission.id) && (
-                        <Check className="h-4 w-4 text-green-600 shrink-0" />
-                      )}
-                    </label>
-                  ))}
-                </div>
-              </div>
-            ))}
+            <PermissionMatrix selected={selectedPermissions} onChange={setSelectedPermissions} />
           </div>
 
           {/* Actions */}
@@ -241,10 +271,13 @@ export function CreateUserDialog({ open, onClose, onCreateUser }: CreateUserDial
               Cancel
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? 'Creating...' : 'Create agent account'}
+              {isSubmitting
+                ? (sendInvite ? 'Sending...' : 'Creating...')
+                : (sendInvite ? 'Send invitation' : 'Create agent account')}
             </Button>
           </div>
         </form>
+        </Form>
       </DialogContent>
     </Dialog>
   );
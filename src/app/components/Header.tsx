@@ -1,4 +1,4 @@
-import { Bell, User, Moon, Sun, UserPlus, Shield, LogOut } from 'lucide-react';
+import { Bell, User, Moon, Sun, UserPlus, Shield, LogOut, History } from 'lucide-react';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import {
@@ -15,6 +15,7 @@ import { toast } from 'sonner';
 import { CreateUserDialog } from './CreateUserDialog';
 import { ManagePermissionsDialog } from './ManagePermissionsDialog';
 import { useAuth } from '../contexts/AuthContext';
+import { ACTION_ACCESS, PAGE_ACCESS, canAccess } from '../lib/permissions';
 import { useNavigate } from 'react-router';
 
 interface HeaderProps {
@@ -27,6 +28,8 @@ interface UserAccountData {
   role: string;
   permissions: string[];
   branchId?: string;
+  allowedBranches?: string[];
+  roleTemplateId?: string;
   tempPassword?: string;
 }
 
@@ -63,8 +66,8 @@ export function Header({ onMenuClick }: HeaderProps) {
     toast.success('Agent créé avec succès');
   };
 
-  const handleUpdatePermissions = async (userId: string, permissions: string[]): Promise<void> => {
-    await updateUserPermissions(userId, permissions);
+  const handleUpdatePermissions = async (userId: string, permissions: string[], allowedBranches?: string[]): Promise<void> => {
+    await updateUserPermissions(userId, permissions, allowedBranches);
   };
 
   const handleLogout = () => {
@@ -112,58 +115,60 @@ export function Header({ onMenuClick }: HeaderProps) {
             </Button>
 
             {/* Notifications */}
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <button className="relative rounded-full p-2 hover:bg-accent transition-colors">
-                  <Bell className="h-5 w-5" />
-                  {alertCount > 0 && (
-                    <Badge className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 flex items-center justify-center bg-orange-500 text-white text-xs">
-                      {alertCount}
-                    </Badge>
-                  )}
-                </button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end" className="w-80">
-                <DropdownMenuLabel>Notifications</DropdownMenuLabel>
-                <DropdownMenuSeparator />
-                <div className="max-h-96 overflow-y-auto">
-                  <DropdownMenuItem className="flex flex-col items-start gap-1 p-3">
-                    <div className="flex items-center gap-2 w-full">
-                      <span className="text-red-500">🔴</span>
-                      <span className="text-sm font-medium flex-1">Low Stock Alert</span>
-                      <span className="text-xs text-muted-foreground">2h ago</span>
-                    </div>
-                    <p className="text-xs text-muted-foreground pl-6">
-                      Desk Office Chair stock below minimum threshold
-                    </p>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem className="flex flex-col items-start gap-1 p-3">
-                    <div className="flex items-center gap-2 w-full">
-                      <span className="text-orange-500">💰</span>
-                      <span className="text-sm font-medium flex-1">Overdue Payment</span>
-                      <span className="text-xs text-muted-foreground">5h ago</span>
-                    </div>
-                    <p className="text-xs text-muted-foreground pl-6">
-                      Digital Services LLC has overdue payment
-                    </p>
-                  </DropdownMenuItem>
-                  <DropdownMenuItem className="flex flex-col items-start gap-1 p-3">
-                    <div className="flex items-center gap-2 w-full">
-                      <span className="text-sky-500">📈</span>
-                      <span className="text-sm font-medium flex-1">High Sales</span>
-                      <span className="text-xs text-muted-foreground">1d ago</span>
-                    </div>
-                    <p className="text-xs text-muted-foreground pl-6">
-                      AirPods Pro sales increased by 300%
-                    </p>
+            {canAccess(user, PAGE_ACCESS.alerts) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="relative rounded-full p-2 hover:bg-accent transition-colors">
+                    <Bell className="h-5 w-5" />
+                    {alertCount > 0 && (
+                      <Badge className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 flex items-center justify-center bg-orange-500 text-white text-xs">
+                        {alertCount}
+                      </Badge>
+                    )}
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="w-80">
+                  <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <div className="max-h-96 overflow-y-auto">
+                    <DropdownMenuItem className="flex flex-col items-start gap-1 p-3">
+                      <div className="flex items-center gap-2 w-full">
+                        <span className="text-red-500">🔴</span>
+                        <span className="text-sm font-medium flex-1">Low Stock Alert</span>
+                        <span className="text-xs text-muted-foreground">2h ago</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground pl-6">
+                        Desk Office Chair stock below minimum threshold
+                      </p>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="flex flex-col items-start gap-1 p-3">
+                      <div className="flex items-center gap-2 w-full">
+                        <span className="text-orange-500">💰</span>
+                        <span className="text-sm font-medium flex-1">Overdue Payment</span>
+                        <span className="text-xs text-muted-foreground">5h ago</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground pl-6">
+                        Digital Services LLC has overdue payment
+                      </p>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="flex flex-col items-start gap-1 p-3">
+                      <div className="flex items-center gap-2 w-full">
+                        <span className="text-sky-500">📈</span>
+                        <span className="text-sm font-medium flex-1">High Sales</span>
+                        <span className="text-xs text-muted-foreground">1d ago</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground pl-6">
+                        AirPods Pro sales increased by 300%
+                      </p>
+                    </DropdownMenuItem>
+                  </div>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem className="justify-center text-sky-600 cursor-pointer">
+                    View all notifications
                   </DropdownMenuItem>
-                </div>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem className="justify-center text-sky-600 cursor-pointer">
-                  View all notifications
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
 
             {/* User Menu */}
             <DropdownMenu>
@@ -181,7 +186,7 @@ export function Header({ onMenuClick }: HeaderProps) {
               <DropdownMenuContent align="end" className="w-56">
                 <DropdownMenuLabel>My Account</DropdownMenuLabel>
                 <DropdownMenuSeparator />
-                {(user?.role === 'manager') && (
+                {canAccess(user, ACTION_ACCESS.manageTeam) && (
                   <>
                     <DropdownMenuItem onClick={() => setCreateUserOpen(true)} className="gap-2">
                       <UserPlus className="h-4 w-4" />
@@ -194,6 +199,15 @@ export function Header({ onMenuClick }: HeaderProps) {
                     <DropdownMenuSeparator />
                   </>
                 )}
+                {canAccess(user, PAGE_ACCESS.audit) && (
+                  <>
+                    <DropdownMenuItem onClick={() => navigate('/dashboard/audit')} className="gap-2">
+                      <History className="h-4 w-4" />
+                      Audit Log
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                  </>
+                )}
                 <DropdownMenuItem className="text-red-600" onClick={handleLogout}>
                   <LogOut className="h-4 w-4 mr-2" />
                   Log out
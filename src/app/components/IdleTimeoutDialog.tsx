@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { useAuth } from '../contexts/AuthContext';
+import { lastActivityAt, markActivity, sessionPolicy } from '../lib/session';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+function formatCountdown(ms: number) {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Signs the user out after sessionPolicy.idleTimeout without activity in any
+ * tab, with a countdown warning during the last sessionPolicy.idleWarning.
+ * Mounted once, in MainLayout.
+ */
+export function IdleTimeoutDialog() {
+  const { user, logout } = useAuth();
+  const [remaining, setRemaining] = useState<number | null>(null);
+  // While the warning is up only "Stay signed in" counts, not a stray mouse move.
+  const warningRef = useRef(false);
+
+  useEffect(() => {
+    if (!user || sessionPolicy.idleTimeout <= 0) return;
+
+    const onActivity = () => {
+      if (!warningRef.current) markActivity();
+    };
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, onActivity, { passive: true }));
+    markActivity();
+
+    const timer = setInterval(() => {
+      const left = lastActivityAt() + sessionPolicy.idleTimeout - Date.now();
+      if (left <= 0) {
+        clearInterval(timer);
+        warningRef.current = false;
+        setRemaining(null);
+        logout().then(() => toast.info('You were signed out after a period of inactivity.'));
+        return;
+      }
+      warningRef.current = left <= sessionPolicy.idleWarning;
+      setRemaining(warningRef.current ? left : null);
+    }, 1000);
+
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, onActivity));
+    };
+  }, [user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const staySignedIn = () => {
+    warningRef.current = false;
+    markActivity();
+    setRemaining(null);
+  };
+
+  return (
+    <AlertDialog open={remaining !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-amber-500" />
+            Are you still there?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            For security, you will be signed out in{' '}
+            <span className="font-semibold tabular-nums">{formatCountdown(remaining ?? 0)}</span>{' '}
+            because of inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => logout()}>Sign out</AlertDialogCancel>
+          <AlertDialogAction onClick={staySignedIn}>Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Shield, User, Mail, Check, Loader2 } from 'lucide-react';
+import { Shield, User, Mail, Loader2 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Label } from './ui/label';
 import {
@@ -9,15 +9,19 @@ import {
   DialogHeader,
   DialogTitle,
 } from './ui/dialog';
-import { User as UserAccount, AVAILABLE_PERMISSIONS, DEFAULT_AGENT_PERMISSIONS } from '../contexts/AuthContext';
+import { User as UserAccount } from '../contexts/AuthContext';
+import { AVAILABLE_PERMISSIONS, DEFAULT_AGENT_PERMISSIONS, expandPermissions } from '../lib/permissions';
+import { PermissionMatrix } from './PermissionMatrix';
+import { BranchScopePicker } from './BranchScopePicker';
+import { useReauth } from '../contexts/ReauthContext';
 import { toast } from 'sonner';
-import { api } from '../lib/api';
+import { api, type ApiError } from '../lib/api';
 
 interface ManagePermissionsDialogProps {
   open: boolean;
   onClose: () => void;
   users: UserAccount[];
-  onUpdatePermissions: (userId: string, permissions: string[]) => Promise<void>;
+  onUpdatePermissions: (userId: string, permissions: string[], allowedBranches?: string[]) => Promise<void>;
 }
 
 export function ManagePermissionsDialog({
@@ -28,8 +32,10 @@ export function ManagePermissionsDialog({
 }: ManagePermissionsDialogProps) {
   const [selectedUser, setSelectedUser] = useState<UserAccount | null>(null);
   const [selectedPermissions, setSelectedPermissions] = useState<string[]>([]);
+  const [allowedBranches, setAllowedBranches] = useState<string[]>([]);
   const [loadingUser, setLoadingUser] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const { requireRecentAuth } = useReauth();
 
   const handleUserSelect = async (user: UserAccount) => {
     setSelectedUser(user);
@@ -37,70 +43,49 @@ export function ManagePermissionsDialog({
     try {
       // Use the existing /agents/ endpoint which returns permissions_list
       const res = await api.get<{
-        agents: Array<{ id: string; permissions_list?: string[] }>;
+        agents: Array<{ id: string; permissions_list?: string[]; allowed_branches?: string[] }>;
       }>('/users/agents/');
       const found = res.agents.find(a => a.id === user.id);
-      setSelectedPermissions(found?.permissions_list ?? []);
+      setSelectedPermissions(expandPermissions(found?.permissions_list ?? []));
+      setAllowedBranches(found?.allowed_branches ?? user.allowedBranches);
     } catch {
-      setSelectedPermissions(user.permissions ?? []);
+      setSelectedPermissions(expandPermissions(user.permissions ?? []));
+      setAllowedBranches(user.allowedBranches);
       toast.error('Unable to load current permissions');
     } finally {
       setLoadingUser(false);
     }
   };
 
-  const togglePermission = (permissionId: string) => {
-    setSelectedPermissions(prev =>
-      prev.includes(permissionId)
-        ? prev.filter(p => p !== permissionId)
-        : [...prev, permissionId]
-    );
-  };
-
-  const selectAllInCategory = (category: string) => {
-    const ids = AVAILABLE_PERMISSIONS.filter(p => p.category === category).map(p => p.id);
-    const allSelected = ids.every(p => selectedPermissions.includes(p));
-    setSelectedPermissions(prev =>
-      allSelected ? prev.filter(p => !ids.includes(p)) : [...new Set([...prev, ...ids])]
-    );
-  };
-
   const handleSave = async () => {
     if (!selectedUser) return;
     if (selectedPermissions.length === 0) {
       toast.error('Please select at least one permission');
       return;
     }
+    if (!(await requireRecentAuth())) return;
     setIsSaving(true);
     try {
-      await onUpdatePermissions(selectedUser.id, selectedPermissions);
+      await onUpdatePermissions(
+        selectedUser.id,
+        selectedPermissions,
+        selectedUser.role === 'agent' ? allowedBranches : undefined,
+      );
       toast.success(`Permissions updated for ${selectedUser.name}`);
       setSelectedUser(null);
       setSelectedPermissions([]);
-    } catch (err: any) {
-      const data = err?.data ?? {};
+      setAllowedBranches([]);
+    } catch (err) {
+      const data = ((err as ApiError)?.data ?? {}) as { permissions_list?: string | string[] };
       const msg = data.permissions_list
         ? (Array.isArray(data.permissions_list) ? data.permissions_list[0] : data.permissions_list)
-        : (err?.userMessage ?? 'Error updating permissions');
+        : ((err as ApiError)?.userMessage ?? 'Error updating permissions');
       toast.error(msg);
     } finally {
       setIsSaving(false);
     }
   };
 
-  const groupedPermissions = AVAILABLE_PERMISSIONS.reduce((acc, p) => {
-    if (!acc[p.category]) acc[p.category] = [];
-    acc[p.category].push(p);
-    return acc;
-  }, {} as Record<string, typeof AVAILABLE_PERMISSIONS>);
-
-  const categoryLabels: Record<string, string> = {
-    data: 'Data Management',
-    analytics: 'Analytics & Reports',
-    sales: 'Sales & Inventory',
-    system: 'System Access',
-  };
-
   const editableUsers = users.filter(u => u.role !== 'admin');
 
   return (
@@ -229,49 +214,11 @@ export function ManagePermissionsDialog({
                     <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
                   </div>
                 ) : (
-                  <div className="flex-1 overflow-y-auto space-y-6 pr-2">
-                    {Object.entries(groupedPermissions).map(([category, permissions]) => (
-                      <div key={category} className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <h4 className="font-medium text-sm">{categoryLabels[category]}</h4>
-                          <Button
-                            type="button" size="sm" variant="ghost"
-                            onClick={() => selectAllInCategory(category)}
-                            className="h-auto py-1 text-xs"
-                          >
-                            {permissions.every(p => selectedPermissions.includes(p.id))
-                              ? 'Deselect all'
-                              : 'Select all'}
-                          </Button>
-                        </div>
-                        <div className="grid gap-2">
-                          {permissions.map((permission) => (
-                            <label
-                              key={permission.id}
-                              className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-accent transition-colors"
-                            >
-                              <div className="flex items-center h-5">
-                                <input
-                                  type="checkbox"
-                                  checked={selectedPermissions.includes(permission.id)}
-                                  onChange={() => togglePermission(permission.id)}
-                                  className="h-4 w-4 rounded border-gray-300"
-                                />
-                              </div>
-                              <div className="flex-1 min-w-0">
-                                <div className="font-medium text-sm">{permission.label}</div>
-                                <div className="text-xs text-muted-foreground mt-0.5">
-                                  {permission.description}
-                                </div>
-                              </div>
-                              {selectedPermissions.includes(permission.id) && (
-                                <Check className="h-4 w-4 text-green-600 shrink-0" />
-                              )}
-                            </label>
-                          ))}
-                        </div>
-                      </div>
-                    ))}
+                  <div className="flex-1 overflow-y-auto pr-2 space-y-6">
+                    {selectedUser.role === 'agent' && (
+                      <BranchScopePicker selected={allowedBranches} onChange={setAllowedBranches} />
+                    )}
+                    <PermissionMatrix selected={selectedPermissions} onChange={setSelectedPermissions} />
                   </div>
                 )}
 
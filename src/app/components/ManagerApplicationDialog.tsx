@@ -0,0 +1,312 @@
+import { useEffect, useState } from 'react';
+import {
+  Building2, Briefcase, MapPin, Server, FileText, Loader2, Download, Check, X,
+  FileQuestion, StickyNote, Send, CheckCircle2, XCircle, Inbox,
+} from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { SIGNUP_DOCUMENT_LABELS } from './SignupDocumentsField';
+import { authApi, type ManagerApplication, type ReviewEvent, type SignupDocument } from '../lib/authApi';
+import { useReauth } from '../contexts/ReauthContext';
+import { toast } from 'sonner';
+
+interface ManagerApplicationDialogProps {
+  /** Manager whose signup is reviewed; null closes the dialog. */
+  managerId: string | null;
+  onClose: () => void;
+  /** Called after the status changed, so the user list can reload. */
+  onStatusChanged: () => void;
+  onApprove: () => void;
+  onReject: () => void;
+}
+
+const EVENT_STYLE: Record<ReviewEvent['type'], { icon: typeof Check; label: string; tone: string }> = {
+  submitted:      { icon: Inbox,        label: 'Signed up',              tone: 'text-sky-600 bg-sky-100 dark:bg-sky-900/40' },
+  resubmitted:    { icon: Send,         label: 'Sent more information',  tone: 'text-sky-600 bg-sky-100 dark:bg-sky-900/40' },
+  note:           { icon: StickyNote,   label: 'Internal note',          tone: 'text-slate-600 bg-slate-100 dark:bg-slate-800' },
+  info_requested: { icon: FileQuestion, label: 'Requested information',  tone: 'text-orange-600 bg-orange-100 dark:bg-orange-900/40' },
+  approved:       { icon: CheckCircle2, label: 'Approved',               tone: 'text-emerald-600 bg-emerald-100 dark:bg-emerald-900/40' },
+  rejected:       { icon: XCircle,      label: 'Rejected',               tone: 'text-rose-600 bg-rose-100 dark:bg-rose-900/40' },
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export function ManagerApplicationDialog({ managerId, onClose, onStatusChanged, onApprove, onReject }: ManagerApplicationDialogProps) {
+  const [application, setApplication] = useState<ManagerApplication | null>(null);
+  const [selected, setSelected] = useState<SignupDocument | null>(null);
+  const [note, setNote] = useState('');
+  const [infoRequest, setInfoRequest] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { requireRecentAuth } = useReauth();
+
+  const load = async (id: string) => {
+    try {
+      const res = await authApi.getManagerApplication(id);
+      setApplication(res);
+      setSelected(prev => prev ?? res.documents[0] ?? null);
+    } catch (err: any) {
+      toast.error(err?.userMessage ?? 'Error loading the application');
+      onClose();
+    }
+  };
+
+  useEffect(() => {
+    setApplication(null);
+    setSelected(null);
+    setNote('');
+    setInfoRequest(null);
+    if (managerId) load(managerId);
+  }, [managerId]);
+
+  const handleAddNote = async () => {
+    if (!managerId || !note.trim()) return;
+    setIsSaving(true);
+    try {
+      const event = await authApi.addReviewNote(managerId, note.trim());
+      setApplication(prev => prev && { ...prev, history: [...prev.history, event] });
+      setNote('');
+    } catch (err: any) {
+      toast.error(err?.userMessage ?? 'Error saving the note');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRequestInfo = async () => {
+    if (!managerId || !infoRequest?.trim()) return;
+    if (!(await requireRecentAuth())) return;
+    setIsSaving(true);
+    try {
+      await authApi.reviewManager(managerId, { action: 'request_info', reason: infoRequest.trim() });
+      toast.success('Request sent — the applicant sees it when signing in');
+      setInfoRequest(null);
+      await load(managerId);
+      onStatusChanged();
+    } catch (err: any) {
+      toast.error(err?.userMessage ?? 'Error requesting information');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const manager = application?.manager;
+  const canDecide = manager?.status === 'pending' || manager?.status === 'info_requested';
+  const place = [application?.city, application?.country].filter(Boolean).join(', ');
+
+  return (
+    <Dialog open={!!managerId} onOpenChange={onClose}>
+      <DialogContent className="max-w-[95vw] w-[1200px] h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{manager ? `Application of ${manager.full_name}` : 'Application'}</DialogTitle>
+          <DialogDescription>
+            {manager ? `${manager.email} · ${manager.status.replace('_', ' ')}` : 'Loading…'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!application ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="flex gap-6 flex-1 overflow-hidden min-h-0">
+            {/* Company + documents */}
+            <div className="flex-1 flex flex-col gap-4 min-w-0">
+              <div className="flex flex-wrap gap-2 text-xs">
+                {[
+                  manager?.company_name && { icon: Building2, label: manager.company_name },
+                  application.industry && { icon: Briefcase, label: application.industry },
+                  place && { icon: MapPin, label: place },
+                  application.current_erp && { icon: Server, label: `ERP: ${application.current_erp}` },
+                ].filter(Boolean).map(item => {
+                  const { icon: Icon, label } = item as { icon: typeof Check; label: string };
+                  return (
+                    <span key={label} className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-sky-50 text-sky-700 dark:bg-sky-950 dark:text-sky-300">
+                      <Icon className="h-3 w-3" /> {label}
+                    </span>
+                  );
+                })}
+              </div>
+
+              {application.documents.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center border rounded-lg text-sm text-muted-foreground">
+                  No documents were attached to this signup
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {application.documents.map(doc => (
+                      <button key={doc.id} type="button" onClick={() => setSelected(doc)}
+                        className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-left text-sm transition-colors ${
+                          selected?.id === doc.id
+                            ? 'bg-indigo-50 border-indigo-300 dark:bg-indigo-950 dark:border-indigo-700'
+                            : 'hover:bg-accent'
+                        }`}>
+                        <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <span>
+                          <span className="block font-medium">{SIGNUP_DOCUMENT_LABELS[doc.kind]}</span>
+                          <span className="block text-xs text-muted-foreground">{doc.file_name} · {formatSize(doc.size)}</span>
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                  {selected && <DocumentPreview document={selected} />}
+                </>
+              )}
+            </div>
+
+            {/* Review history + notes */}
+            <div className="w-[380px] shrink-0 flex flex-col border-l pl-6 min-h-0">
+              <p className="font-semibold text-sm mb-3">Review history</p>
+              <ol className="flex-1 overflow-y-auto space-y-4 pr-1">
+                {application.history.map(event => {
+                  const style = EVENT_STYLE[event.type];
+                  const Icon = style.icon;
+                  return (
+                    <li key={event.id} className="flex gap-3">
+                      <span className={`flex h-7 w-7 shrink-0 items-center justify-center rounded-full ${style.tone}`}>
+                        <Icon className="h-3.5 w-3.5" />
+                      </span>
+                      <div className="min-w-0 text-sm">
+                        <p>
+                          <span className="font-medium">{style.label}</span>
+                          <span className="text-muted-foreground"> · {event.author ?? manager?.full_name}</span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">{formatDateTime(event.created_at)}</p>
+                        {event.message && (
+                          <p className={`mt-1 whitespace-pre-wrap rounded-md px-2.5 py-1.5 ${
+                            event.type === 'note' ? 'bg-amber-50 dark:bg-amber-950/30' : 'bg-muted'
+                          }`}>
+                            {event.message}
+                          </p>
+                        )}
+                        {event.documents.map(doc => (
+                          <button key={doc.id} type="button" onClick={() => setSelected(doc)}
+                            className="mt-1 mr-2 inline-flex items-center gap-1 text-xs text-indigo-600 hover:underline">
+                            <FileText className="h-3 w-3" /> {SIGNUP_DOCUMENT_LABELS[doc.kind]}
+                          </button>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+
+              <div className="pt-4 border-t mt-4 space-y-2">
+                <textarea
+                  value={note}
+                  onChange={e => setNote(e.target.value)}
+                  rows={2}
+                  disabled={isSaving}
+                  placeholder="Internal note — never shown to the applicant"
+                  className="w-full rounded-md border bg-background px-3 py-2 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-indigo-400/30"
+                />
+                <div className="flex justify-end">
+                  <Button type="button" size="sm" variant="outline" onClick={handleAddNote} disabled={isSaving || !note.trim()}>
+                    <StickyNote className="h-4 w-4 mr-1" /> Add note
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {application && canDecide && (
+          infoRequest !== null ? (
+            <div className="pt-4 border-t space-y-2">
+              <textarea
+                value={infoRequest}
+                onChange={e => setInfoRequest(e.target.value)}
+                rows={3}
+                disabled={isSaving}
+                autoFocus
+                placeholder="What the applicant should send or clarify — they see this message when signing in"
+                className="w-full rounded-md border bg-background px-3 py-2 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-orange-400/30"
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setInfoRequest(null)} disabled={isSaving}>Cancel</Button>
+                <Button onClick={handleRequestInfo} disabled={isSaving || !infoRequest.trim()}>
+                  {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Send className="h-4 w-4 mr-1" />}
+                  Send request
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 pt-4 border-t">
+              {application.info_request && (
+                <p className="text-xs text-orange-600 truncate">Waiting for the applicant: “{application.info_request}”</p>
+              )}
+              <div className="flex-1" />
+              <Button type="button" variant="outline" onClick={() => setInfoRequest('')}>
+                <FileQuestion className="h-4 w-4 mr-1" /> Request information
+              </Button>
+              <Button type="button" variant="outline" className="text-rose-600" onClick={onReject}>
+                <X className="h-4 w-4 mr-1" /> Reject
+              </Button>
+              <Button type="button" onClick={onApprove}>
+                <Check className="h-4 w-4 mr-1" /> Approve
+              </Button>
+            </div>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Inline preview of an image or PDF; other types can only be downloaded. */
+function DocumentPreview({ document }: { document: SignupDocument }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    setUrl(null);
+    setFailed(false);
+    authApi.downloadSignupDocument(document.id)
+      .then(blob => {
+        objectUrl = URL.createObjectURL(blob.type ? blob : new Blob([blob], { type: document.content_type }));
+        setUrl(objectUrl);
+      })
+      .catch(() => setFailed(true));
+    return () => { if (objectUrl) URL.revokeObjectURL(objectUrl); };
+  }, [document.id]);
+
+  const isImage = document.content_type.startsWith('image/');
+  const isPdf = document.content_type === 'application/pdf';
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col border rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-muted text-sm">
+        <span className="truncate">{document.file_name}</span>
+        {url && (
+          <a href={url} download={document.file_name} className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:underline">
+            <Download className="h-3.5 w-3.5" /> Download
+          </a>
+        )}
+      </div>
+      <div className="flex-1 min-h-0 flex items-center justify-center overflow-auto bg-slate-50 dark:bg-slate-900">
+        {failed ? (
+          <p className="text-sm text-muted-foreground">Unable to load this document</p>
+        ) : !url ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : isImage ? (
+          <img src={url} alt={document.file_name} className="max-h-full max-w-full object-contain" />
+        ) : isPdf ? (
+          <iframe src={url} title={document.file_name} className="w-full h-full" />
+        ) : (
+          <p className="text-sm text-muted-foreground">No preview for this file type — download it instead</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { Button } from './ui/button';
+import {
+  AVAILABLE_PERMISSIONS,
+  PERMISSION_ACTION_LABELS,
+  PERMISSION_CATEGORY_LABELS,
+  PERMISSION_RESOURCE_LABELS,
+  type Permission,
+  type PermissionAction,
+  type PermissionCategory,
+  type PermissionResource,
+} from '../lib/permissions';
+
+interface PermissionMatrixProps {
+  selected: string[];
+  onChange: (permissions: string[]) => void;
+  disabled?: boolean;
+}
+
+const ACTION_ORDER: PermissionAction[] = ['view', 'export', 'import', 'resolve', 'manage'];
+
+interface CategoryGrid {
+  category: PermissionCategory;
+  actions: PermissionAction[];
+  rows: { resource: PermissionResource; cells: Partial<Record<PermissionAction, Permission>> }[];
+  ids: string[];
+}
+
+// One grid per category: a row per resource, a column per action used in it.
+function buildGrids(): CategoryGrid[] {
+  const grids = new Map<PermissionCategory, CategoryGrid>();
+  AVAILABLE_PERMISSIONS.forEach(p => {
+    let grid = grids.get(p.category);
+    if (!grid) {
+      grid = { category: p.category, actions: [], rows: [], ids: [] };
+      grids.set(p.category, grid);
+    }
+    if (!grid.actions.includes(p.action)) grid.actions.push(p.action);
+    let row = grid.rows.find(r => r.resource === p.resource);
+    if (!row) {
+      row = { resource: p.resource, cells: {} };
+      grid.rows.push(row);
+    }
+    row.cells[p.action] = p;
+    grid.ids.push(p.id);
+  });
+  grids.forEach(grid => grid.actions.sort((a, b) => ACTION_ORDER.indexOf(a) - ACTION_ORDER.indexOf(b)));
+  return [...grids.values()];
+}
+
+const GRIDS = buildGrids();
+
+/** Permission checkboxes grouped by category, as a resource × action grid. */
+export function PermissionMatrix({ selected, onChange, disabled }: PermissionMatrixProps) {
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter(p => p !== id) : [...selected, id]);
+  };
+
+  const toggleCategory = (ids: string[]) => {
+    const allSelected = ids.every(id => selected.includes(id));
+    onChange(allSelected ? selected.filter(p => !ids.includes(p)) : [...new Set([...selected, ...ids])]);
+  };
+
+  return (
+    <div className="space-y-6">
+      {GRIDS.map(grid => (
+        <div key={grid.category} className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-sm">{PERMISSION_CATEGORY_LABELS[grid.category]}</h4>
+            <Button
+              type="button" size="sm" variant="ghost"
+              onClick={() => toggleCategory(grid.ids)}
+              disabled={disabled}
+              className="h-auto py-1 text-xs"
+            >
+              {grid.ids.every(id => selected.includes(id)) ? 'Deselect all' : 'Select all'}
+            </Button>
+          </div>
+          <div className="rounded-lg border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted/50 text-xs text-muted-foreground">
+                  <th className="text-left font-medium px-3 py-2">Resource</th>
+                  {grid.actions.map(action => (
+                    <th key={action} className="font-medium px-3 py-2 w-24">
+                      {PERMISSION_ACTION_LABELS[action]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {grid.rows.map(row => (
+                  <tr key={row.resource} className="border-t">
+                    <td className="px-3 py-2 font-medium">{PERMISSION_RESOURCE_LABELS[row.resource]}</td>
+                    {grid.actions.map(action => {
+                      const permission = row.cells[action];
+                      if (!permission) return <td key={action} className="px-3 py-2 text-center text-muted-foreground">—</td>;
+                      return (
+                        <td key={action} className="px-3 py-2 text-center">
+                          <label
+                            title={`${permission.label} — ${permission.description}`}
+                            className="inline-flex items-center cursor-pointer"
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selected.includes(permission.id)}
+                              onChange={() => toggle(permission.id)}
+                              disabled={disabled}
+                              aria-label={permission.label}
+                              className="h-4 w-4 rounded border-gray-300"
+                            />
+                          </label>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
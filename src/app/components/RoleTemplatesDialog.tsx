@@ -0,0 +1,313 @@
+import { useEffect, useState } from 'react';
+import { Layers, Loader2, Plus, Trash2, RefreshCw, ArrowLeft } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { PermissionMatrix } from './PermissionMatrix';
+import { useReauth } from '../contexts/ReauthContext';
+import type { ApiError } from '../lib/api';
+import { authApi, type RoleTemplate } from '../lib/authApi';
+import { AVAILABLE_PERMISSIONS, DEFAULT_AGENT_PERMISSIONS, permissionDiff } from '../lib/permissions';
+import { toast } from 'sonner';
+
+/** The part of an agent the re-apply preview needs. */
+export interface TemplateAgent {
+  id: string;
+  full_name: string;
+  permissions_list: string[];
+  role_template?: string | null;
+}
+
+interface RoleTemplatesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  agents: TemplateAgent[];
+  /** Called after agents' permissions changed, so the team list can reload. */
+  onAgentsUpdated: () => Promise<void>;
+}
+
+interface Draft {
+  id: string | null;
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const NEW_DRAFT: Draft = { id: null, name: '', description: '', permissions: DEFAULT_AGENT_PERMISSIONS };
+
+const permissionLabel = (id: string) => AVAILABLE_PERMISSIONS.find(p => p.id === id)?.label ?? id;
+
+function errorMessage(err: unknown, fallback: string): string {
+  const name = ((err as ApiError)?.data as { name?: string | string[] } | null)?.name;
+  if (name) return Array.isArray(name) ? name[0] : name;
+  return (err as ApiError)?.userMessage ?? fallback;
+}
+
+export function RoleTemplatesDialog({ open, onClose, agents, onAgentsUpdated }: RoleTemplatesDialogProps) {
+  const [templates, setTemplates] = useState<RoleTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [preview, setPreview] = useState<RoleTemplate | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { requireRecentAuth } = useReauth();
+
+  const loadTemplates = async () => {
+    setLoading(true);
+    try {
+      const res = await authApi.getRoleTemplates();
+      setTemplates(res.templates);
+    } catch (err) {
+      toast.error((err as ApiError)?.userMessage ?? 'Error loading role templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(null);
+    setPreview(null);
+    loadTemplates();
+  }, [open]);
+
+  const edit = (template: RoleTemplate) => {
+    setPreview(null);
+    setDraft({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      permissions: template.permissions_list,
+    });
+  };
+
+  // Agents on the template whose permissions would change if it were applied again.
+  const changesFor = (template: RoleTemplate) =>
+    agents
+      .filter(a => a.role_template === template.id)
+      .map(agent => ({ agent, diff: permissionDiff(agent.permissions_list ?? [], template.permissions_list) }))
+      .filter(({ diff }) => diff.added.length > 0 || diff.removed.length > 0);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error('Please name the template');
+      return;
+    }
+    if (draft.permissions.length === 0) {
+      toast.error('Please select at least one permission');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const payload = { name: draft.name.trim(), description: draft.description, permissions_list: draft.permissions };
+      const saved = draft.id
+        ? await authApi.updateRoleTemplate(draft.id, payload)
+        : await authApi.createRoleTemplate(payload);
+      toast.success(`Template "${saved.name}" saved`);
+      setTemplates(prev => draft.id ? prev.map(t => t.id === saved.id ? saved : t) : [...prev, saved]);
+      setDraft(null);
+      // Offer to bring the agents on an edited template in line with it.
+      if (changesFor(saved).length > 0) setPreview(saved);
+    } catch (err) {
+      toast.error(errorMessage(err, 'Error saving the template'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft?.id) return;
+    setIsSaving(true);
+    try {
+      await authApi.deleteRoleTemplate(draft.id);
+      toast.success(`Template "${draft.name}" deleted — agents keep their permissions`);
+      setTemplates(prev => prev.filter(t => t.id !== draft.id));
+      setDraft(null);
+    } catch (err) {
+      toast.error(errorMessage(err, 'Error deleting the template'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+    const ids = changesFor(preview).map(c => c.agent.id);
+    if (!(await requireRecentAuth())) return;
+    setIsSaving(true);
+    try {
+      const res = await authApi.applyRoleTemplate(preview.id, ids);
+      toast.success(`"${preview.name}" applied to ${res.updated} agent${res.updated === 1 ? '' : 's'}`);
+      setPreview(null);
+      await onAgentsUpdated();
+    } catch (err) {
+      toast.error((err as ApiError)?.userMessage ?? 'Error applying the template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const previewChanges = preview ? changesFor(preview) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-[95vw] w-[1200px] max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Role templates</DialogTitle>
+          <DialogDescription>
+            Named permission sets to start new agents from, and to re-apply when they change
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-6 flex-1 overflow-hidden min-h-0">
+          {/* Template list */}
+          <div className="w-[280px] shrink-0 flex flex-col gap-3 border-r pr-6 overflow-y-auto">
+            <Button type="button" size="sm" variant="outline" onClick={() => { setPreview(null); setDraft(NEW_DRAFT); }}>
+              <Plus className="h-4 w-4 mr-1" /> New template
+            </Button>
+            {loading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground mx-auto mt-4" />
+            ) : templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center mt-4">No templates yet</p>
+            ) : templates.map(template => {
+              const outdated = changesFor(template).length;
+              return (
+                <button
+                  key={template.id}
+                  onClick={() => edit(template)}
+                  className={`text-left p-3 rounded-lg border transition-colors ${
+                    draft?.id === template.id || preview?.id === template.id
+                      ? 'bg-indigo-50 border-indigo-300 dark:bg-indigo-950 dark:border-indigo-700'
+                      : 'hover:bg-accent'
+                  }`}
+                >
+                  <p className="font-medium text-sm">{template.name}</p>
+                  {template.description && (
+                    <p className="text-xs text-muted-foreground truncate mt-0.5">{template.description}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {template.permissions_list.length} permissions · {template.agent_count} agent{template.agent_count === 1 ? '' : 's'}
+                  </p>
+                  {outdated > 0 && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                      {outdated} agent{outdated === 1 ? '' : 's'} out of date
+                    </p>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Editor / re-apply preview */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            {preview ? (
+              <>
+                <div className="mb-4">
+                  <p className="font-semibold">Re-apply "{preview.name}"</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {previewChanges.length === 0
+                      ? 'Every agent on this template already has its permissions.'
+                      : `The permissions of ${previewChanges.length} agent${previewChanges.length === 1 ? '' : 's'} will be replaced:`}
+                  </p>
+                </div>
+                <div className="flex-1 overflow-y-auto pr-2 space-y-3">
+                  {previewChanges.map(({ agent, diff }) => (
+                    <div key={agent.id} className="p-3 border rounded-lg">
+                      <p className="font-medium text-sm mb-2">{agent.full_name}</p>
+                      <div className="flex flex-wrap gap-1.5">
+                        {diff.added.map(id => (
+                          <span key={id} className="text-xs px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300">
+                            + {permissionLabel(id)}
+                          </span>
+                        ))}
+                        {diff.removed.map(id => (
+                          <span key={id} className="text-xs px-2 py-0.5 rounded-full bg-rose-100 text-rose-700 dark:bg-rose-900 dark:text-rose-300 line-through">
+                            − {permissionLabel(id)}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2 pt-4 border-t mt-4">
+                  <Button type="button" variant="outline" onClick={() => setPreview(null)} disabled={isSaving}>
+                    Not now
+                  </Button>
+                  <Button onClick={handleApply} disabled={isSaving || previewChanges.length === 0}>
+                    {isSaving
+                      ? <><Loader2 className="h-4 w-4 animate-spin mr-2" />Applying...</>
+                      : `Apply to ${previewChanges.length} agent${previewChanges.length === 1 ? '' : 's'}`
+                    }
+                  </Button>
+                </div>
+              </>
+            ) : draft ? (
+              <>
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="template-name">Name *</Label>
+                    <Input id="template-name" placeholder="e.g. Warehouse clerk" value={draft.name}
+                      onChange={e => setDraft({ ...draft, name: e.target.value })} />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="template-description">Description</Label>
+                    <Input id="template-description" placeholder="What agents with this role do" value={draft.description}
+                      onChange={e => setDraft({ ...draft, description: e.target.value })} />
+                  </div>
+                </div>
+                <div className="flex-1 overflow-y-auto pr-2">
+                  <PermissionMatrix selected={draft.permissions} onChange={permissions => setDraft({ ...draft, permissions })} />
+                </div>
+                <div className="flex items-center gap-2 pt-4 border-t mt-4">
+                  {draft.id && (
+                    <>
+                      <Button type="button" variant="ghost" className="text-rose-600" onClick={handleDelete} disabled={isSaving}>
+                        <Trash2 className="h-4 w-4 mr-1" /> Delete
+                      </Button>
+                      <Button type="button" variant="ghost" disabled={isSaving}
+                        onClick={() => {
+                          const saved = templates.find(t => t.id === draft.id);
+                          if (saved) { setDraft(null); setPreview(saved); }
+                        }}>
+                        <RefreshCw className="h-4 w-4 mr-1" /> Re-apply to agents
+                      </Button>
+                    </>
+                  )}
+                  <div className="flex-1" />
+                  <Button type="button" variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>
+                    <ArrowLeft className="h-4 w-4 mr-1" /> Back
+                  </Button>
+                  <Button onClick={handleSave} disabled={isSaving}>
+                    {isSaving
+                      ? <><Loader2 className="h-4 w-4 animate-spin mr-2" />Saving...</>
+                      : 'Save template'
+                    }
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-center">
+                <div>
+                  <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted mx-auto mb-4">
+                    <Layers className="h-8 w-8 text-muted-foreground" />
+                  </div>
+                  <p className="font-medium">Select a template</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Or create one, such as "Collector" or "Analyst"
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
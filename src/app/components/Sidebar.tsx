@@ -13,11 +13,13 @@ import {
   X,
   ShieldCheck,
   Bell,
+  History,
 } from 'lucide-react';
 import weegLogo from './image/logo.jpeg';
 import weegLogoDark from './image/logoDark.png';
 import { cn } from '../lib/utils';
 import { useAuth } from '../contexts/AuthContext';
+import { PAGE_ACCESS, canAccess, type PageId } from '../lib/permissions';
 
 interface SidebarProps {
   currentPage: string;
@@ -26,43 +28,49 @@ interface SidebarProps {
   onClose: () => void;
 }
 
-const menuGroups = [
+// `page` is the item's entry in PAGE_ACCESS — the same rule the route enforces.
+const menuGroups: Array<{
+  label: string;
+  items: Array<{ id: string; page: PageId; label: string; icon: typeof Settings; highlight?: boolean }>;
+}> = [
   {
     label: 'Overview',
     items: [
-      { id: '', label: 'Dashboard', icon: LayoutDashboard, permission: 'view-dashboard' },
-      { id: 'team', label: 'My Team', icon: Users, permission: 'view-team' },
-      { id: 'alerts', label: 'Smart Alerts', icon: Bell, permission: 'receive-notifications'},
+      { id: '', page: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
+      { id: 'team', page: 'team', label: 'My Team', icon: Users },
+      { id: 'audit', page: 'audit', label: 'Audit Log', icon: History },
+      { id: 'alerts', page: 'alerts', label: 'Smart Alerts', icon: Bell },
     ],
   },
   {
     label: 'Data',
     items: [
-      { id: 'import', label: 'Data Import', icon: Upload, permission: 'import-data' },
-      { id: 'kpi', label: 'KPI Engine', icon: TrendingUp, permission: 'view-kpi' },
-      { id: 'sales', label: 'Sales & Purchases', icon: ShoppingCart, permission: 'view-sales' },
-      { id: 'inventory', label: 'Multi-Branch Inventory', icon: Package, permission: 'view-inventory' },
-      { id: 'aging', label: 'Aging Receivables', icon: AlertTriangle, permission: 'view-aging' },
+      { id: 'import', page: 'import', label: 'Data Import', icon: Upload },
+      { id: 'kpi', page: 'kpi', label: 'KPI Engine', icon: TrendingUp },
+      { id: 'sales', page: 'sales', label: 'Sales & Purchases', icon: ShoppingCart },
+      { id: 'inventory', page: 'inventory', label: 'Multi-Branch Inventory', icon: Package },
+      { id: 'aging', page: 'aging', label: 'Aging Receivables', icon: AlertTriangle },
     ],
   },
   {
     label: 'Insights',
     items: [
-      { id: 'reports', label: 'Reports', icon: FileText, permission: 'view-reports' },
-      { id: 'ai-insights', label: 'AI Insights', icon: Sparkles, permission: 'ai-insights', highlight: true },
+      { id: 'reports', page: 'reports', label: 'Reports', icon: FileText },
+      { id: 'ai-insights', page: 'ai-insights', label: 'AI Insights', icon: Sparkles, highlight: true },
     ],
   },
   {
     label: 'Account',
     items: [
-      { id: 'settings', label: 'Settings', icon: Settings, permission: 'view-profile' },
+      { id: 'settings', page: 'settings', label: 'Settings', icon: Settings },
     ],
   },
 ];
 
-const adminMenuItems = [
-  { id: 'admin-verification', label: 'Verify Managers', icon: ShieldCheck },
-  { id: 'settings', label: 'Settings', icon: Settings },
+const adminMenuItems: Array<{ id: string; page: PageId; label: string; icon: typeof Settings }> = [
+  { id: 'admin-verification', page: 'admin-verification', label: 'Verify Managers', icon: ShieldCheck },
+  { id: 'audit', page: 'audit', label: 'Audit Log', icon: History },
+  { id: 'settings', page: 'settings', label: 'Settings', icon: Settings },
 ];
 
 export function Sidebar({ currentPage, onNavigate, isOpen, onClose }: SidebarProps) {
@@ -81,23 +89,13 @@ export function Sidebar({ currentPage, onNavigate, isOpen, onClose }: SidebarPro
 
   const logoSrc = isDarkMode ? weegLogoDark : weegLogo;
 
-  const hasPermission = (permission: string) => {
-    if (!user) return false;
-    if (user.role === 'manager' || user.role === 'admin') return true;
-    return user.permissions.includes(permission);
-  };
-
-  const filterItems = (items: typeof menuGroups[0]['items']) => {
-    if (user?.role === 'admin') return [];
-    if (user?.role === 'manager') return items;
-    return items.filter(i => hasPermission(i.permission));
-  };
-
+  // The admin gets their own group below, with the pages of the platform.
   const visibleGroups = isAdmin
     ? []
     : menuGroups
-        .map(g => ({ ...g, items: filterItems(g.items) }))
+        .map(g => ({ ...g, items: g.items.filter(i => canAccess(user, PAGE_ACCESS[i.page])) }))
         .filter(g => g.items.length > 0);
+  const visibleAdminItems = adminMenuItems.filter(i => canAccess(user, PAGE_ACCESS[i.page]));
 
   const dark = isDarkMode;
 
@@ -206,7 +204,7 @@ export function Sidebar({ currentPage, onNavigate, isOpen, onClose }: SidebarPro
                     const Icon = item.icon;
                     const isActive = currentPage === item.id;
                     const isHov = hoveredItem === item.id && !isActive;
-                    const isHighlight = !!(item as any).highlight;
+                    const isHighlight = !!item.highlight;
                     const badge = (item as any).badge as number | undefined;
 
                     return (
@@ -307,7 +305,7 @@ export function Sidebar({ currentPage, onNavigate, isOpen, onClose }: SidebarPro
                 }}>Admin</p>
 
                 <div style={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
-                  {adminMenuItems.map((item) => {
+                  {visibleAdminItems.map((item) => {
                     const Icon = item.icon;
                     const isActive = currentPage === item.id;
                     const isHov = hoveredItem === `adm-${item.id}` && !isActive;
@@ -0,0 +1,82 @@
+import { useRef } from 'react';
+import { FileText, Paperclip, X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { SignupDocumentKind } from '../lib/authApi';
+
+export const SIGNUP_DOCUMENT_LABELS: Record<SignupDocumentKind, string> = {
+  commercial_register: 'Commercial register',
+  tax_id:              'Tax ID certificate',
+  other:               'Other document',
+};
+
+/** One file per document kind. */
+export type DocumentFiles = Partial<Record<SignupDocumentKind, File>>;
+
+const ACCEPT = '.pdf,.png,.jpg,.jpeg,application/pdf,image/png,image/jpeg';
+const MAX_SIZE = 10 * 1024 * 1024;
+
+export const documentUploads = (files: DocumentFiles) =>
+  (Object.entries(files) as [SignupDocumentKind, File | undefined][])
+    .filter((entry): entry is [SignupDocumentKind, File] => !!entry[1])
+    .map(([kind, file]) => ({ kind, file }));
+
+interface SignupDocumentsFieldProps {
+  kinds: SignupDocumentKind[];
+  value: DocumentFiles;
+  onChange: (value: DocumentFiles) => void;
+  disabled?: boolean;
+}
+
+export function SignupDocumentsField({ kinds, value, onChange, disabled }: SignupDocumentsFieldProps) {
+  return (
+    <div className="space-y-2">
+      {kinds.map(kind => (
+        <DocumentRow
+          key={kind}
+          label={SIGNUP_DOCUMENT_LABELS[kind]}
+          file={value[kind]}
+          disabled={disabled}
+          onChange={file => onChange({ ...value, [kind]: file })}
+        />
+      ))}
+      <p className="text-[11px] text-slate-400">PDF, PNG or JPEG, up to 10 MB each.</p>
+    </div>
+  );
+}
+
+function DocumentRow({ label, file, disabled, onChange }: {
+  label: string; file?: File; disabled?: boolean; onChange: (file: File | undefined) => void;
+}) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const pick = (picked: File | undefined) => {
+    if (inputRef.current) inputRef.current.value = '';
+    if (!picked) return;
+    if (picked.size > MAX_SIZE) {
+      toast.error(`${picked.name} is larger than 10 MB`);
+      return;
+    }
+    onChange(picked);
+  };
+
+  return (
+    <div className="flex items-center gap-3 rounded-md border border-slate-200 bg-slate-50 dark:bg-slate-800/50 px-3 h-10 text-sm">
+      <FileText className="h-4 w-4 text-slate-400 shrink-0" />
+      <span className="text-slate-500 shrink-0">{label}</span>
+      <span className="flex-1 min-w-0 truncate text-right text-slate-700 dark:text-slate-200">{file?.name}</span>
+      {file ? (
+        <button type="button" onClick={() => onChange(undefined)} disabled={disabled}
+          className="text-slate-400 hover:text-red-500" aria-label={`Remove ${label}`}>
+          <X className="h-4 w-4" />
+        </button>
+      ) : (
+        <button type="button" onClick={() => inputRef.current?.click()} disabled={disabled}
+          className="flex items-center gap-1 text-xs font-semibold text-sky-600 hover:underline">
+          <Paperclip className="h-3.5 w-3.5" /> Attach
+        </button>
+      )}
+      <input ref={inputRef} type="file" accept={ACCEPT} className="hidden"
+        onChange={e => pick(e.target.files?.[0])} />
+    </div>
+  );
+}
@@ -1,38 +1,13 @@
 import { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
 import { authApi, BackendUser, type UserListItem } from '../lib/authApi';
 import { TokenStorage, ApiError } from '../lib/api';
+import { clearQueryCache } from '../lib/queryCache';
+import { broadcastSessionEvent, onSessionEvent } from '../lib/session';
+import { hasPermission, permissionFor, type PermissionAction, type PermissionResource } from '../lib/permissions';
+import { restrictBranches, setBranchScope } from '../lib/branchScope';
 
 export type UserRole = 'admin' | 'manager' | 'agent';
 
-export interface Permission {
-  id: string;
-  label: string;
-  description: string;
-  category: 'data' | 'analytics' | 'sales' | 'system';
-}
-
-export const AVAILABLE_PERMISSIONS: Permission[] = [
-  { id: 'import-data',            label: 'Import Data',             description: 'Import Excel files into the database',        category: 'data' },
-  { id: 'view-dashboard',         label: 'View Dashboard',          description: 'Access main dashboard with KPIs',             category: 'analytics' },
-  { id: 'view-reports',           label: 'View Reports',            description: 'Access and view all reports',                 category: 'analytics' },
-  { id: 'view-kpi',               label: 'View KPIs',               description: 'Access KPI Engine and metrics',               category: 'analytics' },
-  { id: 'view-sales',             label: 'View Sales',              description: 'Access sales and purchases data',             category: 'sales' },
-  { id: 'view-inventory',         label: 'View Inventory',          description: 'Check product availability and stock levels', category: 'sales' },
-  { id: 'view-aging',             label: 'View Aging Receivables',  description: 'Track overdue payments and receivables',      category: 'sales' },
-  { id: 'receive-notifications',  label: 'Receive Notifications',   description: 'Get notified about important events',         category: 'system' },
-  { id: 'view-profile',           label: 'View Profile',            description: 'Access personal profile',                    category: 'system' },
-  { id: 'ai-insights',            label: 'AI Insights',             description: 'Access AI-powered insights and chat',         category: 'analytics' },
-];
-
-export const DEFAULT_AGENT_PERMISSIONS: string[] = [
-  'import-data', 'view-dashboard', 'view-reports',
-  'view-kpi', 'view-sales', 'view-inventory',
-  'receive-notifications',
-  'view-profile',
-];
-
-export const DEFAULT_MANAGER_PERMISSIONS: string[] = AVAILABLE_PERMISSIONS.map(p => p.id);
-
 export interface User {
   id: string;
   name: string;
@@ -44,8 +19,13 @@ export interface User {
   mustChangePassword?: boolean;
   branchId?: string | null;
   branchName?: string | null;
+  /** Branches whose data the user may see; empty means all of them. */
+  allowedBranches: string[];
   companyId?: string | null;
   companyName?: string | null;
+  twoFactorEnabled?: boolean;
+  /** The security policy requires 2FA for this user. */
+  twoFactorRequired?: boolean;
 }
 
 function mapBackendUser(backendUser: BackendUser): User {
@@ -60,8 +40,11 @@ function mapBackendUser(backendUser: BackendUser): User {
     mustChangePassword: backendUser.must_change_password,
     branchId: backendUser.branch,
     branchName: backendUser.branch_name,
+    allowedBranches: backendUser.allowed_branches ?? [],
     companyId: backendUser.company,
     companyName: backendUser.company_name,
+    twoFactorEnabled: backendUser.two_factor_enabled,
+    twoFactorRequired: backendUser.two_factor_required,
   };
 }
 
@@ -75,12 +58,31 @@ function mapListItem(item: UserListItem): User {
     isVerified: item.status !== 'pending',
     createdAt: item.created_at,
     branchName: item.branch_name,
+    allowedBranches: item.allowed_branches ?? [],
     companyId: item.company,
     companyName: item.company_name,
   };
 }
 
+interface LoginResult {
+  success: boolean;
+  message: string;
+  /** Set when the password was accepted but a 2FA code is still needed. */
+  challenge?: string;
+  /** The 2FA challenge is no longer valid; the password must be entered again. */
+  expired?: boolean;
+  /** The admin reviewing the signup asked for more information; `token` lets the applicant answer. */
+  infoRequest?: { message: string; token: string };
+}
+
 // ✅ FIXED — added industry, country, city, currentErp
+interface SignupResult {
+  success: boolean;
+  message: string;
+  /** The failed request's error, so the form can show field errors inline. */
+  error?: ApiError;
+}
+
 interface SignupData {
   name:         string;
   email:        string;
@@ -92,14 +94,18 @@ interface SignupData {
   country?:     string;   // ← NEW
   city?:        string;   // ← NEW
   currentErp?:  string;   // ← NEW
+  documents?:   string[]; // ids from authApi.uploadSignupDocuments
 }
 
 interface AuthContextType {
   user: User | null;
   users: User[];
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<{ success: boolean; message: string }>;
-  signup: (userData: SignupData) => Promise<{ success: boolean; message: string }>;
+  /** True while a stored session is being resumed (page load, new tab). */
+  isRestoring: boolean;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challenge: string, code: string) => Promise<LoginResult>;
+  signup: (userData: SignupData) => Promise<SignupResult>;
   logout: () => Promise<void>;
   verifyManager: (userId: string) => Promise<void>;
   rejectManager: (userId: string, reason?: string) => Promise<void>;
@@ -109,9 +115,12 @@ interface AuthContextType {
     role: string;
     permissions: string[];
     branchId?: string;
+    allowedBranches?: string[];
+    roleTemplateId?: string;
     tempPassword?: string;
-  }) => Promise<void>;
-  updateUserPermissions: (userId: string, permissions: string[]) => Promise<void>;
+    sendInvite?: boolean;
+  }) => Promise<string | null>;
+  updateUserPermissions: (userId: string, permissions: string[], allowedBranches?: string[]) => Promise<void>;
   refreshProfile: () => Promise<void>;
 }
 
@@ -132,51 +141,84 @@ async function fetchUserList(role: UserRole, setUsers: (u: User[]) => void) {
 }
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(() => {
-    try {
-      const saved = localStorage.getItem('fasi_user');
-      return saved ? JSON.parse(saved) : null;
-    } catch { return null; }
-  });
+  // The user is never persisted: it is loaded from the profile endpoint once
+  // the session (refresh token) has been resumed.
+  const [user, setUserState] = useState<User | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(() => TokenStorage.getRefresh() !== null);
 
-  useEffect(() => {
-    if (user) localStorage.setItem('fasi_user', JSON.stringify(user));
-    else localStorage.removeItem('fasi_user');
-  }, [user]);
+  // The branch scope is applied here rather than in an effect, so it is in
+  // place before the pages of the new user fetch anything.
+  const setUser = useCallback((next: User | null) => {
+    if (setBranchScope(next?.allowedBranches)) clearQueryCache();
+    setUserState(next);
+  }, []);
+
+  const loadSession = useCallback(async () => {
+    const profile = await authApi.getProfile();
+    const mappedUser = mapBackendUser(profile);
+    setUser(mappedUser);
+    await fetchUserList(mappedUser.role, setUsers);
+  }, [setUser]);
+
+  const endSession = useCallback(() => {
+    clearQueryCache();
+    setUser(null);
+    setUsers([]);
+  }, [setUser]);
 
   useEffect(() => {
-    const token = TokenStorage.getAccess();
-    if (!token) return;
-
-    authApi.getProfile()
-      .then(async profile => {
-        const mappedUser = mapBackendUser(profile);
-        setUser(mappedUser);
-        await fetchUserList(mappedUser.role, setUsers);
-      })
+    if (!TokenStorage.getRefresh()) return;
+
+    loadSession()
       .catch(() => {
         TokenStorage.clear();
         setUser(null);
-      });
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+      })
+      .finally(() => setIsRestoring(false));
+  }, [loadSession, setUser]);
+
+  // Keep this tab on the same session as the others.
+  useEffect(() => onSessionEvent(event => {
+    if (event.type === 'login' || event.type === 'profile') {
+      if (event.type === 'login') clearQueryCache();
+      loadSession().catch(() => { /* the failing request already ended the session */ });
+    } else if (event.type === 'logout') {
+      endSession();
+    }
+  }), [loadSession, endSession]);
 
   // ── LOGIN ──────────────────────────────────────────────────────────────
-  const login = async (email: string, password: string): Promise<{ success: boolean; message: string }> => {
+  const startSession = async (access: string, refresh: string) => {
+    TokenStorage.setTokens(access, refresh);
+    const profile = await authApi.getProfile();
+    const mappedUser = mapBackendUser(profile);
+    setUser(mappedUser);
+    await fetchUserList(mappedUser.role, setUsers);
+  };
+
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     setIsLoading(true);
     try {
       const response = await authApi.login({ email, password });
-      TokenStorage.setTokens(response.access, response.refresh);
-      const profile = await authApi.getProfile();
-      const mappedUser = mapBackendUser(profile);
-      setUser(mappedUser);
-      await fetchUserList(mappedUser.role, setUsers);
+      if (response.two_factor_required) {
+        return { success: false, message: 'Enter the code from your authenticator app', challenge: response.challenge };
+      }
+      await startSession(response.access!, response.refresh!);
       return { success: true, message: 'Login successful' };
     } catch (err) {
       TokenStorage.clear();
       if (err instanceof ApiError) {
         if (err.status === 401) return { success: false, message: 'Incorrect email or password' };
+        const data = err.data as { code?: string; info_request?: string; resubmit_token?: string } | undefined;
+        if (err.status === 403 && data?.code === 'info_requested') {
+          return {
+            success: false,
+            message: err.message,
+            infoRequest: { message: data.info_request ?? '', token: data.resubmit_token ?? '' },
+          };
+        }
         if (err.status === 403) return { success: false, message: 'Your account is pending validation' };
         return { success: false, message: err.message };
       }
@@ -186,8 +228,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const verifyTwoFactor = async (challenge: string, code: string): Promise<LoginResult> => {
+    setIsLoading(true);
+    try {
+      const tokens = await authApi.loginTwoFactor(challenge, code);
+      await startSession(tokens.access, tokens.refresh);
+      return { success: true, message: 'Login successful' };
+    } catch (err) {
+      TokenStorage.clear();
+      if (err instanceof ApiError) {
+        if (err.status === 401) return { success: false, expired: true, message: 'Your sign-in expired. Please enter your password again' };
+        if (err.status === 400) return { success: false, message: 'Invalid code' };
+        return { success: false, message: err.message };
+      }
+      return { success: false, message: 'Connection error' };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // ── SIGNUP ─────────────────────────────────────────────────────────────
-  const signup = async (userData: SignupData): Promise<{ success: boolean; message: string }> => {
+  const signup = async (userData: SignupData): Promise<SignupResult> => {
     if (userData.role !== 'manager') {
       return { success: false, message: 'Only managers can register via this form' };
     }
@@ -211,12 +272,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         country:          userData.country     ?? '',
         city:             userData.city        ?? '',
         current_erp:      userData.currentErp  ?? '',
+        documents:        userData.documents   ?? [],
         password:         userData.password,
         password_confirm: userData.password,
       });
       return { success: true, message: 'Account created! Awaiting verification by the admin.' };
     } catch (err) {
-      return { success: false, message: err instanceof ApiError ? err.message : 'Error during registration' };
+      if (err instanceof ApiError) return { success: false, message: err.userMessage, error: err };
+      return { success: false, message: 'Error during registration' };
     } finally {
       setIsLoading(false);
     }
@@ -224,18 +287,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logout = async () => {
     await authApi.logout();
-    setUser(null);
-    setUsers([]);
+    endSession();
   };
 
   const verifyManager = async (userId: string) => {
     await authApi.reviewManager(userId, { action: 'approve' });
     setUsers(prev => prev.map(u => u.id === userId ? { ...u, isVerified: true } : u));
+    broadcastSessionEvent({ type: 'profile' });
   };
 
   const rejectManager = async (userId: string, reason = 'Request rejected') => {
     await authApi.reviewManager(userId, { action: 'reject', reason });
     setUsers(prev => prev.filter(u => u.id !== userId));
+    broadcastSessionEvent({ type: 'profile' });
   };
 
   // ── CREATE AGENT ───────────────────────────────────────────────────────
@@ -245,8 +309,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     role: string;
     permissions: string[];
     branchId?: string;
+    allowedBranches?: string[];
+    roleTemplateId?: string;
     tempPassword?: string;
-  }) => {
+    sendInvite?: boolean;
+  }): Promise<string | null> => {
     const nameParts  = userData.name.trim().split(' ');
     const first_name = nameParts[0] || userData.name;
     const last_name  = nameParts.slice(1).join(' ') || first_name;
@@ -256,36 +323,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       first_name,
       last_name,
       ...(userData.branchId ? { branch: userData.branchId } : {}),
+      allowed_branches:   userData.allowedBranches ?? [],
+      ...(userData.roleTemplateId ? { role_template: userData.roleTemplateId } : {}),
       permissions_list:   userData.permissions,
-      temporary_password: userData.tempPassword || 'Agent@123456',
+      // Invited agents choose their own password from the emailed link.
+      ...(userData.sendInvite
+        ? { send_invite: true }
+        : { temporary_password: userData.tempPassword || 'Agent@123456' }),
     };
 
     try {
       const res = await authApi.createAgent(payload);
       setUsers(prev => [...prev, mapListItem(res.agent)]);
+      broadcastSessionEvent({ type: 'profile' });
+      return res.invite_url ?? null;
     } catch (err) {
       console.error('[createAgent] Error →', (err as { data?: unknown })?.data ?? err);
       throw err;
     }
   };
 
-  const updateUserPermissions = async (userId: string, permissions: string[]) => {
-    await authApi.updatePermissions(userId, permissions);
-    setUsers(prev => prev.map(u => u.id === userId ? { ...u, permissions } : u));
-    if (user?.id === userId) setUser({ ...user, permissions });
+  const updateUserPermissions = async (userId: string, permissions: string[], allowedBranches?: string[]) => {
+    const res = await authApi.updatePermissions(userId, permissions, allowedBranches);
+    const changes = { permissions, allowedBranches: res.allowed_branches };
+    setUsers(prev => prev.map(u => u.id === userId ? { ...u, ...changes } : u));
+    if (user?.id === userId) setUser({ ...user, ...changes });
+    broadcastSessionEvent({ type: 'profile' });
   };
 
   const refreshProfile = useCallback(async () => {
     try {
       const profile = await authApi.getProfile();
       setUser(mapBackendUser(profile));
+      broadcastSessionEvent({ type: 'profile' });
     } catch { /* ignore */ }
-  }, []);
+  }, [setUser]);
 
   return (
     <AuthContext.Provider value={{
-      user, users, isLoading,
-      login, signup, logout,
+      user, users, isLoading, isRestoring,
+      login, verifyTwoFactor, signup, logout,
       verifyManager, rejectManager,
       createAgent, updateUserPermissions,
       refreshProfile,
@@ -299,4 +376,29 @@ export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) throw new Error('useAuth must be used within an AuthProvider');
   return context;
+}
+
+/** Whether the signed-in user may perform `action` on `resource`, e.g. `usePermission('export', 'aging')`. */
+export function usePermission(action: PermissionAction, resource: PermissionResource): boolean {
+  const { user } = useAuth();
+  return hasPermission(user, permissionFor(action, resource));
+}
+
+/**
+ * The branch filter of a data page, limited to the user's allowed branches.
+ * `options(names, allKey)` builds the dropdown: the "all" entry stands for
+ * every allowed branch, and a user with a single branch gets only that one.
+ */
+export function useBranchScope() {
+  const { user } = useAuth();
+  const allowed = user?.allowedBranches ?? [];
+  const allLabel = allowed.length === 0 ? 'All Branches' : allowed.length === 1 ? allowed[0] : 'All my branches';
+  return {
+    allowed,
+    restricted: allowed.length > 0,
+    options: (names: readonly string[], allKey = 'all') => [
+      { key: allKey, label: allLabel },
+      ...(allowed.length === 1 ? [] : restrictBranches(names)).map(b => ({ key: b, label: b })),
+    ],
+  };
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { createContext, useContext, useState, useCallback, useRef, ReactNode, FormEvent } from 'react';
+import { Loader2, Lock } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../components/ui/dialog';
+import { useAuth } from './AuthContext';
+import { authApi } from '../lib/authApi';
+import { ApiError } from '../lib/api';
+import { isRecentlyAuthenticated } from '../lib/session';
+
+interface ReauthContextType {
+  /**
+   * Call before a destructive action. Resolves `true` straight away when the
+   * last sign-in is recent (sessionPolicy.reauthAfter), otherwise asks for the
+   * password first; resolves `false` if the user cancels.
+   */
+  requireRecentAuth: () => Promise<boolean>;
+}
+
+const ReauthContext = createContext<ReauthContextType | undefined>(undefined);
+
+export function ReauthProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [password, setPassword] = useState('');
+  // Accounts with 2FA confirm with a code as well, asked for once the password is accepted
+  const [code, setCode] = useState('');
+  const [needsCode, setNeedsCode] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const requireRecentAuth = useCallback(() => {
+    if (isRecentlyAuthenticated()) return Promise.resolve(true);
+    // A second request while the prompt is open replaces the first one.
+    resolveRef.current?.(false);
+    setPassword('');
+    setCode('');
+    setNeedsCode(false);
+    setError(null);
+    setOpen(true);
+    return new Promise<boolean>(resolve => { resolveRef.current = resolve; });
+  }, []);
+
+  const finish = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setOpen(false);
+    setPassword('');
+    setCode('');
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!user || !password || (needsCode && !code.trim())) return;
+    setIsVerifying(true);
+    setError(null);
+    try {
+      if (await authApi.reauthenticate(user.email, password, needsCode ? code.trim() : undefined)) {
+        finish(true);
+      } else {
+        setNeedsCode(true);
+      }
+    } catch (err) {
+      const status = err instanceof ApiError ? err.status : null;
+      setError(status === 401
+        ? 'Incorrect password'
+        : status === 400 && needsCode
+          ? 'Invalid code'
+          : (err as ApiError)?.userMessage ?? 'Unable to verify your password');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <ReauthContext.Provider value={{ requireRecentAuth }}>
+      {children}
+      <Dialog open={open} onOpenChange={isOpen => { if (!isOpen) finish(false); }}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5 text-indigo-600" />
+                Confirm your password
+              </DialogTitle>
+              <DialogDescription>
+                This action needs a recent sign-in. Enter the password of {user?.email} to continue.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2 py-4">
+              <Label htmlFor="reauth-password">Password</Label>
+              <Input
+                id="reauth-password"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                aria-invalid={error !== null}
+              />
+              {needsCode && (
+                <>
+                  <Label htmlFor="reauth-code" className="pt-2">Authentication code</Label>
+                  <Input
+                    id="reauth-code"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    placeholder="6-digit code or recovery code"
+                    autoFocus
+                    value={code}
+                    onChange={e => setCode(e.target.value)}
+                  />
+                </>
+              )}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => finish(false)} disabled={isVerifying}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isVerifying || !password || (needsCode && !code.trim())}>
+                {isVerifying
+                  ? <><Loader2 className="h-4 w-4 animate-spin mr-2" />Verifying...</>
+                  : 'Confirm'
+                }
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </ReauthContext.Provider>
+  );
+}
+
+export function useReauth() {
+  const context = useContext(ReauthContext);
+  if (context === undefined) throw new Error('useReauth must be used within a ReauthProvider');
+  return context;
+}
@@ -1,17 +1,23 @@
 import { useState, useEffect } from 'react';
-import { Outlet, useNavigate, useLocation } from 'react-router';
+import { Outlet, useNavigate, useLocation, useMatches } from 'react-router';
 import { Header } from '../components/Header';
 import { Sidebar } from '../components/Sidebar';
+import { IdleTimeoutDialog } from '../components/IdleTimeoutDialog';
 import { useAuth } from '../contexts/AuthContext';
+import { ReauthProvider } from '../contexts/ReauthContext';
+import { ForbiddenPage } from '../pages/ForbiddenPage';
+import { PAGE_ACCESS, canAccess, type PageHandle } from '../lib/permissions';
 
 export function MainLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const { user } = useAuth();
+  const { user, isRestoring } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  const matches = useMatches();
 
   // Redirect to login if not authenticated
 useEffect(() => {
+  if (isRestoring) return;
   if (!user) {
     navigate('/login');
     return;
@@ -19,8 +25,13 @@ useEffect(() => {
   // Redirect admin away from dashboard to their own page
   if (user.role === 'admin' && location.pathname === '/dashboard') {
     navigate('/dashboard/admin-verification');
+    return;
+  }
+  // The security policy requires 2FA: keep the user on its setup until it is on
+  if (user.twoFactorRequired && !user.twoFactorEnabled && location.pathname !== '/dashboard/settings') {
+    navigate('/dashboard/settings?tab=security', { replace: true });
   }
-}, [user, navigate, location.pathname]);
+}, [user, isRestoring, navigate, location.pathname]);
 
   // Get current page from location
 const currentPage = location.pathname
@@ -35,28 +46,36 @@ const handleNavigate = (page: string) => {
     return null; // Don't render anything while redirecting
   }
 
+  // A page without a declared rule is refused rather than left open.
+  const pageId = (matches[matches.length - 1]?.handle as PageHandle | undefined)?.page;
+  const rule = pageId ? PAGE_ACCESS[pageId] : undefined;
+  const allowed = rule !== undefined && canAccess(user, rule);
+
   return (
-    <div className="h-screen bg-slate-50 dark:bg-slate-900 lg:flex overflow-hidden">
-      {/* Sidebar */}
-      <Sidebar
-        currentPage={currentPage}
-        onNavigate={handleNavigate}
-        isOpen={sidebarOpen}
-        onClose={() => setSidebarOpen(false)}
-      />
-
-      {/* Main Content */}
-      <div className="flex-1 flex flex-col min-w-0 h-screen">
-        {/* Header */}
-        <Header onMenuClick={() => setSidebarOpen(true)} />
-
-        {/* Page Content */}
-        <main className="p-6 flex-1 overflow-y-auto">
-          <div className="mx-auto max-w-7xl">
-            <Outlet />
-          </div>
-        </main>
+    <ReauthProvider>
+      <div className="h-screen bg-slate-50 dark:bg-slate-900 lg:flex overflow-hidden">
+        {/* Sidebar */}
+        <Sidebar
+          currentPage={currentPage}
+          onNavigate={handleNavigate}
+          isOpen={sidebarOpen}
+          onClose={() => setSidebarOpen(false)}
+        />
+
+        {/* Main Content */}
+        <div className="flex-1 flex flex-col min-w-0 h-screen">
+          {/* Header */}
+          <Header onMenuClick={() => setSidebarOpen(true)} />
+
+          {/* Page Content */}
+          <main className="p-6 flex-1 overflow-y-auto">
+            <div className="mx-auto max-w-7xl">
+              {allowed ? <Outlet /> : <ForbiddenPage rule={rule} />}
+            </div>
+          </main>
+        </div>
       </div>
-    </div>
+      <IdleTimeoutDialog />
+    </ReauthProvider>
   );
 }
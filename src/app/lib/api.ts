@@ -1,50 +1,164 @@
 /**
  * FASI API Service
- * Centralized HTTP client with JWT authentication, auto-refresh, and error handling
+ * Centralized HTTP client with JWT authentication, auto-refresh, and error handling.
+ * Every module talks to the backend through apiFetch / api — never raw fetch or axios.
  */
 
-const BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000/api';
+import { TokenStorage, needsRefresh, setRefreshHandler, withRefreshLock } from './session';
+import { withBranchScope } from './branchScope';
+
+export { TokenStorage } from './session';
+
+export const BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8000/api';
 
 // ─────────────────────────────────────────────
-// Token Management
+// Errors
 // ─────────────────────────────────────────────
 
-export const TokenStorage = {
-  getAccess: () => localStorage.getItem('fasi_access_token'),
-  getRefresh: () => localStorage.getItem('fasi_refresh_token'),
-  setTokens: (access: string, refresh: string) => {
-    localStorage.setItem('fasi_access_token', access);
-    localStorage.setItem('fasi_refresh_token', refresh);
-  },
-  setAccess: (access: string) => localStorage.setItem('fasi_access_token', access),
-  clear: () => {
-    localStorage.removeItem('fasi_access_token');
-    localStorage.removeItem('fasi_refresh_token');
-    localStorage.removeItem('fasi_user');
-  },
-};
+/** DRF-style validation errors: field name → messages (`non_field_errors` included). */
+export type FieldErrors = Record<string, string[]>;
+
+// Keys DRF / our views use for a single top-level message rather than a field.
+const MESSAGE_KEYS = ['message', 'detail', 'error'];
+
+// Flatten `{ email: ['…'], profile: { phone: ['…'] } }` into
+// `{ email: ['…'], 'profile.phone': ['…'] }`, keeping only string messages.
+function extractFieldErrors(data: unknown, prefix = ''): FieldErrors {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return {};
+  const out: FieldErrors = {};
+  Object.entries(data as Record<string, unknown>).forEach(([key, value]) => {
+    if (!prefix && MESSAGE_KEYS.includes(key)) return;
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(out, extractFieldErrors(value, name));
+      return;
+    }
+    const messages = (Array.isArray(value) ? value : [value])
+      .filter((m): m is string => typeof m === 'string' && m !== '');
+    if (messages.length) out[name] = messages;
+  });
+  return out;
+}
+
+/**
+ * Base class for every error apiFetch throws (except AbortError).
+ * `data` is the raw response body; `fieldErrors` holds its DRF field errors.
+ */
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+  fieldErrors: FieldErrors;
+
+  constructor(status: number, data: unknown, message?: string) {
+    const fieldErrors = extractFieldErrors(data);
+    super(
+      message ||
+      (data as any)?.message ||
+      (data as any)?.detail ||
+      (data as any)?.error ||
+      fieldErrors.non_field_errors?.[0] ||
+      Object.values(fieldErrors)[0]?.[0] ||
+      `Error ${status}`
+    );
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+    this.fieldErrors = fieldErrors;
+  }
+
+  /** Message suitable for a toast. */
+  get userMessage(): string {
+    return this.message;
+  }
+}
+
+/** 400 / 422 — the payload was rejected; see `fieldErrors`. */
+export class ValidationError extends ApiError {
+  constructor(status: number, data: unknown) {
+    super(status, data);
+    this.name = 'ValidationError';
+  }
+}
+
+/** 401 — missing or expired credentials (after the refresh attempt). */
+export class AuthError extends ApiError {
+  constructor(data: unknown, message?: string) {
+    super(401, data, message);
+    this.name = 'AuthError';
+  }
+}
+
+/** 403 — authenticated but not allowed. */
+export class PermissionError extends ApiError {
+  constructor(data: unknown) {
+    super(403, data);
+    this.name = 'PermissionError';
+  }
+}
+
+/** 404 */
+export class NotFoundError extends ApiError {
+  constructor(data: unknown) {
+    super(404, data);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 409 — e.g. a duplicate email or a concurrent edit. */
+export class ConflictError extends ApiError {
+  constructor(data: unknown) {
+    super(409, data);
+    this.name = 'ConflictError';
+  }
+}
+
+/** 5xx */
+export class ServerError extends ApiError {
+  constructor(status: number, data: unknown) {
+    super(status, data);
+    this.name = 'ServerError';
+  }
+
+  get userMessage(): string {
+    return 'The server ran into a problem. Please try again later.';
+  }
+}
+
+/** The request never got a response (offline, DNS, CORS…). `status` is 0. */
+export class NetworkError extends ApiError {
+  cause: unknown;
+
+  constructor(cause: unknown) {
+    super(0, null, 'Unable to reach the server.');
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+/** Pick the ApiError subclass matching an HTTP error status. */
+export function createApiError(status: number, data: unknown): ApiError {
+  if (status === 400 || status === 422) return new ValidationError(status, data);
+  if (status === 401) return new AuthError(data);
+  if (status === 403) return new PermissionError(data);
+  if (status === 404) return new NotFoundError(data);
+  if (status === 409) return new ConflictError(data);
+  if (status >= 500) return new ServerError(status, data);
+  return new ApiError(status, data);
+}
 
 // ─────────────────────────────────────────────
 // Core fetch wrapper with auth + refresh logic
 // ─────────────────────────────────────────────
 
-let isRefreshing = false;
-let refreshSubscribers: Array<(token: string) => void> = [];
-
-const onRefreshed = (token: string) => {
-  refreshSubscribers.forEach(cb => cb(token));
-  refreshSubscribers = [];
-};
-
 async function refreshAccessToken(): Promise<string> {
   const refreshToken = TokenStorage.getRefresh();
   if (!refreshToken) {
     TokenStorage.clear();
     window.location.href = '/login';
-    throw new Error('No refresh token available');
+    throw new AuthError(null, 'No refresh token available');
   }
 
-  const res = await fetch(`${BASE_URL}/auth/token/refresh/`, {
+  const res = await transport(`${BASE_URL}/auth/token/refresh/`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ refresh: refreshToken }),
@@ -53,23 +167,234 @@ async function refreshAccessToken(): Promise<string> {
   if (!res.ok) {
     TokenStorage.clear();
     window.location.href = '/login';
-    throw new Error('Refresh token invalid or expired');
+    throw new AuthError(null, 'Refresh token invalid or expired');
   }
 
   const data = await res.json();
+  if (data.refresh) TokenStorage.setRefresh(data.refresh);
   TokenStorage.setAccess(data.access);
   return data.access;
 }
 
-type RequestOptions = RequestInit & { skipAuth?: boolean };
+let pendingRefresh: Promise<string> | null = null;
+
+/**
+ * Get a new access token. Concurrent callers — a burst of 401s, the proactive
+ * timer in lib/session.ts — share one request, and other tabs wait on a lock.
+ */
+export function refreshSession(): Promise<string> {
+  if (!pendingRefresh) {
+    const stale = TokenStorage.getAccess();
+    pendingRefresh = withRefreshLock(() => {
+      // Another tab may have refreshed (and broadcast the token) while this one waited.
+      const current = TokenStorage.getAccess();
+      return current && current !== stale && !needsRefresh() ? Promise.resolve(current) : refreshAccessToken();
+    }).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
+setRefreshHandler(refreshSession);
+
+type QueryValue = string | number | boolean | null | undefined;
+
+// ─────────────────────────────────────────────
+// Transport
+// ─────────────────────────────────────────────
+
+/**
+ * Sends one HTTP request. The default goes to the network (fetch, or XHR when
+ * upload progress is wanted); mock mode swaps in an in-memory backend.
+ */
+export type Transport = (
+  url: string,
+  init: RequestInit,
+  onUploadProgress?: (percent: number) => void,
+) => Promise<Response>;
+
+const networkTransport: Transport = (url, init, onUploadProgress) =>
+  onUploadProgress ? xhrFetch(url, init, onUploadProgress) : fetch(url, init);
+
+let transport: Transport = networkTransport;
+
+/** Replace the transport used by every request (see lib/mockBackend.ts). */
+export function setTransport(next: Transport) {
+  transport = next;
+}
+
+// ─────────────────────────────────────────────
+// Retry policy
+// ─────────────────────────────────────────────
+
+export interface RetryConfig {
+  /** Extra attempts after the first one. */
+  retries: number;
+  /** Backoff ceiling for the first retry (ms); doubles on each attempt. */
+  baseDelay: number;
+  /** Upper bound for a computed backoff delay (ms). */
+  maxDelay: number;
+  /** Give up instead of waiting when the server's Retry-After is longer than this (ms). */
+  maxRetryAfter: number;
+}
+
+const retryDefaults: RetryConfig = {
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 8_000,
+  maxRetryAfter: 30_000,
+};
+
+/** Change the app-wide retry defaults (e.g. `configureRetry({ retries: 5 })`). */
+export function configureRetry(config: Partial<RetryConfig>) {
+  Object.assign(retryDefaults, config);
+}
+
+// Only idempotent reads are retried — a POST that timed out may already have
+// been applied server-side.
+const RETRYABLE_METHODS = ['GET', 'HEAD'];
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+// "Full jitter": a random delay in [0, min(maxDelay, baseDelay * 2^attempt)],
+// so offices that lost the link together don't all come back at once.
+function backoffDelay(attempt: number, config: RetryConfig): number {
+  return Math.random() * Math.min(config.maxDelay, config.baseDelay * 2 ** attempt);
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Options accepted by apiFetch and the `api` helpers.
+ * Pass `signal` to cancel the request (and its 401 retry) — see isAbortError.
+ */
+export type RequestOptions = RequestInit & {
+  skipAuth?: boolean;
+  /** Query-string params. undefined, null and '' values are dropped. */
+  params?: Record<string, QueryValue>;
+  /**
+   * Upload progress in percent (0–100). fetch cannot report upload progress,
+   * so setting this sends the request through XMLHttpRequest instead.
+   */
+  onUploadProgress?: (percent: number) => void;
+  /** How to read a successful response body (default: 'json'). */
+  responseType?: 'json' | 'blob' | 'text';
+  /**
+   * Retry policy for this request, merged over the defaults (see configureRetry).
+   * `false` disables retries. Only GET/HEAD are ever retried, on network
+   * errors and 502/503/504.
+   */
+  retry?: false | Partial<RetryConfig>;
+};
+
+/** True when `err` comes from a request cancelled through its AbortSignal. */
+export function isAbortError(err: unknown): boolean {
+  return (err as { name?: string } | null)?.name === 'AbortError';
+}
+
+/** Resolve `endpoint` against BASE_URL and append `params` as a query string. */
+export function buildUrl(endpoint: string, params?: Record<string, QueryValue>): string {
+  const url = endpoint.startsWith('http') ? endpoint : `${BASE_URL}${endpoint.startsWith('/') ? '' : '/'}${endpoint}`;
+  if (!params) return url;
+
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') query.set(key, String(value));
+  });
+  const qs = query.toString();
+  if (!qs) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}${qs}`;
+}
+
+// XMLHttpRequest transport — only used when the caller wants upload progress.
+// Resolves with a standard Response so apiFetch handles both paths the same way.
+function xhrFetch(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: (percent: number) => void
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method || 'GET', url);
+    xhr.responseType = 'blob';
+    xhr.withCredentials = init.credentials === 'include';
+    Object.entries((init.headers || {}) as Record<string, string>).forEach(([key, value]) => {
+      xhr.setRequestHeader(key, value);
+    });
+
+    xhr.upload.onprogress = event => {
+      if (event.lengthComputable) {
+        onUploadProgress(Math.round((event.loaded * 100) / event.total));
+      }
+    };
+
+    xhr.onload = () => {
+      const headers = new Headers();
+      xhr.getAllResponseHeaders().trim().split(/[\r\n]+/).forEach(line => {
+        const idx = line.indexOf(':');
+        if (idx > 0) headers.append(line.slice(0, idx).trim(), line.slice(idx + 1).trim());
+      });
+      const nullBody = xhr.status === 204 || xhr.status === 205 || xhr.status === 304;
+      resolve(new Response(nullBody ? null : xhr.response, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers,
+      }));
+    };
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.onabort = () => reject(new DOMException('Aborted', 'AbortError'));
+
+    if (init.signal) {
+      if (init.signal.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+      init.signal.addEventListener('abort', () => xhr.abort(), { once: true });
+    }
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
 
 export async function apiFetch<T = unknown>(
   endpoint: string,
   options: RequestOptions = {}
 ): Promise<T> {
-  const { skipAuth = false, ...fetchOptions } = options;
+  const {
+    skipAuth = false,
+    params,
+    onUploadProgress,
+    responseType = 'json',
+    retry,
+    ...fetchOptions
+  } = options;
 
-  const url = endpoint.startsWith('http') ? endpoint : `${BASE_URL}${endpoint.startsWith('/') ? '' : '/'}${endpoint}`;
+  const url = buildUrl(endpoint, withBranchScope(endpoint, params));
 
   const headers: HeadersInit = {
     ...(fetchOptions.headers || {}),
@@ -77,6 +402,9 @@ export async function apiFetch<T = unknown>(
 
   // Ajout automatique du token si pas skipAuth
   if (!skipAuth) {
+    // After a reload, or when the token is about to expire: refresh first
+    // rather than sending a request that will come back 401.
+    if (needsRefresh()) await refreshSession();
     const token = TokenStorage.getAccess();
     if (token) {
       (headers as Record<string, string>)['Authorization'] = `Bearer ${token}`;
@@ -89,34 +417,51 @@ export async function apiFetch<T = unknown>(
       (headers as Record<string, string>)['Content-Type'] || 'application/json';
   }
 
-  let response = await fetch(url, {
-    ...fetchOptions,
-    headers,
-    credentials: 'same-origin',
-  });
+  const send = async () => {
+    const init: RequestInit = { credentials: 'same-origin', ...fetchOptions, headers };
+    try {
+      return await transport(url, init, onUploadProgress);
+    } catch (err) {
+      // fetch rejects with a TypeError when no response came back at all.
+      throw isAbortError(err) ? err : new NetworkError(err);
+    }
+  };
+
+  const method = (fetchOptions.method || 'GET').toUpperCase();
+  const retryConfig: RetryConfig = { ...retryDefaults, ...(retry || {}) };
+  const maxRetries = retry === false || !RETRYABLE_METHODS.includes(method) ? 0 : retryConfig.retries;
+
+  // send() with jittered exponential backoff on network errors and 502/503/504.
+  const sendWithRetry = async () => {
+    for (let attempt = 0; ; attempt++) {
+      let res: Response;
+      try {
+        res = await send();
+      } catch (err) {
+        if (!(err instanceof NetworkError) || attempt >= maxRetries) throw err;
+        await sleep(backoffDelay(attempt, retryConfig), fetchOptions.signal);
+        continue;
+      }
+
+      if (attempt >= maxRetries || !RETRYABLE_STATUSES.includes(res.status)) return res;
+      const retryAfter = parseRetryAfter(res.headers.get('Retry-After'));
+      if (retryAfter !== null && retryAfter > retryConfig.maxRetryAfter) return res;
+      res.body?.cancel().catch(() => {});
+      await sleep(retryAfter ?? backoffDelay(attempt, retryConfig), fetchOptions.signal);
+    }
+  };
+
+  let response = await sendWithRetry();
 
   // Gestion auto-refresh sur 401 (sauf si skipAuth)
   if (response.status === 401 && !skipAuth) {
-    if (isRefreshing) {
-      // En attente du refresh en cours
-      const newToken = await new Promise<string>(resolve => {
-        refreshSubscribers.push(resolve);
-      });
+    try {
+      const newToken = await refreshSession();
       (headers as Record<string, string>)['Authorization'] = `Bearer ${newToken}`;
-      response = await fetch(url, { ...fetchOptions, headers });
-    } else {
-      isRefreshing = true;
-      try {
-        const newToken = await refreshAccessToken();
-        onRefreshed(newToken);
-        (headers as Record<string, string>)['Authorization'] = `Bearer ${newToken}`;
-        response = await fetch(url, { ...fetchOptions, headers });
-      } catch (refreshErr) {
-        console.error('Refresh token failed:', refreshErr);
-        throw refreshErr;
-      } finally {
-        isRefreshing = false;
-      }
+      response = await sendWithRetry();
+    } catch (refreshErr) {
+      console.error('Refresh token failed:', refreshErr);
+      throw refreshErr;
     }
   }
 
@@ -128,21 +473,11 @@ export async function apiFetch<T = unknown>(
       errorData = { detail: response.statusText || 'Unknown error' };
     }
 
-    const err = new Error(
-      (errorData as any)?.message ||
-      (errorData as any)?.detail ||
-      (errorData as any)?.error ||
-      `Request failed (${response.status})`
-    );
-
-    (err as any).status = response.status;
-    (err as any).data = errorData;
-
     if (response.status === 401) {
       console.warn('401 Unauthorized - Possible token issue');
     }
 
-    throw err;
+    throw createApiError(response.status, errorData);
   }
 
   // Réponses vides (DELETE, 204)
@@ -150,6 +485,8 @@ export async function apiFetch<T = unknown>(
     return null as T;
   }
 
+  if (responseType === 'blob') return response.blob() as Promise<T>;
+  if (responseType === 'text') return response.text() as Promise<T>;
   return response.json() as Promise<T>;
 }
 
@@ -185,23 +522,3 @@ export const api = {
   delete: <T>(endpoint: string, opts?: RequestOptions) =>
     apiFetch<T>(endpoint, { method: 'DELETE', ...opts }),
 };
-
-// ─────────────────────────────────────────────
-// ApiError (optionnel – pour typer les erreurs)
-// ─────────────────────────────────────────────
-
-export class ApiError extends Error {
-  status: number;
-  data: unknown;
-
-  constructor(status: number, data: unknown) {
-    super(
-      (data as any)?.message ||
-      (data as any)?.detail ||
-      (data as any)?.error ||
-      `Error ${status}`
-    );
-    this.status = status;
-    this.data = data;
-  }
-}
\ No newline at end of file
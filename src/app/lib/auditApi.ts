@@ -0,0 +1,61 @@
+/**
+ * src/app/lib/auditApi.ts
+ * ─────────────────────────────
+ * Audit trail: who changed users, permissions, templates and company data.
+ * Generated from openapi/fasi.openapi.json (see ./generated/fasiApi.ts).
+ */
+
+import type { RequestOptions } from './api';
+import * as fasi from './generated/fasiApi';
+import type { AuditAction, AuditLogEntry, AuditTargetType, ListAuditLogParams } from './generated/fasiApi';
+
+export type { AuditAction, AuditLogEntry, AuditLogListResponse, AuditTargetType, ListAuditLogParams } from './generated/fasiApi';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'user.create':             'Created user',
+  'user.delete':             'Deleted user',
+  'user.permissions':        'Changed permissions',
+  'user.status':             'Changed status',
+  'manager.approve':         'Approved manager',
+  'manager.reject':          'Rejected manager',
+  'role_template.create':    'Created role template',
+  'role_template.update':    'Edited role template',
+  'role_template.delete':    'Deleted role template',
+  'role_template.apply':     'Applied role template',
+  'company.create':          'Created company',
+  'company.update':          'Edited company',
+  'inventory.delete':        'Deleted inventory snapshot',
+  'alert.resolve':           'Resolved alert',
+  'alert.reopen':            'Re-opened alert',
+  'user.two_factor_enable':  'Turned on 2FA',
+  'user.two_factor_disable': 'Turned off 2FA',
+  'security_policy.update':  'Changed security policy',
+  'user.invite_resend':      'Resent invitation',
+  'user.invite_revoke':      'Revoked invitation',
+  'manager.request_info':    'Requested information',
+};
+
+export const AUDIT_TARGET_LABELS: Record<AuditTargetType, string> = {
+  user:               'User',
+  role_template:      'Role template',
+  company:            'Company',
+  inventory_snapshot: 'Inventory snapshot',
+  alert:              'Alert',
+  security_policy:    'Security policy',
+};
+
+const EXPORT_PAGE_SIZE = 500;
+
+export const auditApi = {
+  list: (params?: ListAuditLogParams, opts?: RequestOptions) => fasi.listAuditLog(params, opts),
+
+  /** Every entry matching `params`, page by page — for the CSV export. */
+  listAll: async (params: ListAuditLogParams, opts?: RequestOptions): Promise<AuditLogEntry[]> => {
+    const entries: AuditLogEntry[] = [];
+    for (let page = 1; ; page++) {
+      const res = await fasi.listAuditLog({ ...params, page, page_size: EXPORT_PAGE_SIZE }, opts);
+      entries.push(...res.entries);
+      if (page >= res.total_pages || res.entries.length === 0) return entries;
+    }
+  },
+};
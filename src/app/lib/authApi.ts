@@ -1,110 +1,39 @@
-import { api, apiFetch, TokenStorage } from './api';
-
-
-export interface LoginPayload {
-  email: string;
-  password: string;
-}
-
-export interface LoginResponse {
-  access: string;
-  refresh: string;
-}
-
-export interface BackendUser {
-  id: string;
-  email: string;
-  first_name: string;
-  last_name: string;
-  full_name: string;
-  phone_number: string | null;
-  role: 'admin' | 'manager' | 'agent';
-  status: 'pending' | 'approved' | 'rejected' | 'active' | 'suspended';
-  permissions_list: string[];
-  branch: string | null;
-  branch_name: string | null;
-  company: string | null;
-  company_name: string | null;
-  must_change_password: boolean;
-  is_verified: boolean;
-  created_at: string;
-}
-
-export interface ManagerSignupPayload {
-  email: string;
-  first_name: string;
-  last_name: string;
-  phone_number?: string;
-  company_name: string;
-  password: string;
-  password_confirm: string;
-  industry?: string;   // ← NEW
-  country?: string;   // ← NEW
-  city?: string;   // ← NEW
-  current_erp?: string; 
-}
-
-export interface CreateAgentPayload {
-  email: string;
-  first_name: string;
-  last_name: string;
-  phone_number?: string;
-  branch?: string;
-  permissions_list: string[];
-  temporary_password: string;
-// NB: the company is automatically inherited from the manager on the backend side
-}
-
-export interface ChangePasswordPayload {
-  old_password: string;
-  new_password: string;
-  new_password_confirm: string;
-}
-
-export interface UpdateProfilePayload {
-  first_name?: string;
-  last_name?: string;
-  phone_number?: string;
-}
-
-export interface ApproveRejectPayload {
-  action: 'approve' | 'reject';
-  reason?: string;
-}
-
-export interface UserListItem {
-  id: string;
-  email: string;
-  full_name: string;
-  phone_number: string | null;
-  role: string;
-  status: string;
-  branch_name: string | null;
-  company: string | null;
-  company_name: string | null;
-  created_at: string;
-  permissions_list: string[];
-}
-
-export interface PendingManagersResponse {
-  count: number;
-  pending_managers: UserListItem[];
-}
-
-export interface AgentListResponse {
-  count: number;
-  agents: UserListItem[];
-}
-
-export interface Company {
-  id: string;
-  name: string;
-  industry: string | null;
-  phone: string | null;
-  address: string | null;
-  is_active: boolean;
-  created_at: string;
-}
+import { TokenStorage } from './api';
+import { markAuthenticated } from './session';
+import * as fasi from './generated/fasiApi';
+import type { BulkAgentRow, Company, SignupDocumentKind, UpdateStatusPayload } from './generated/fasiApi';
+
+// Types and endpoints are generated from openapi/fasi.openapi.json.
+export type {
+  LoginPayload,
+  LoginResponse,
+  BackendUser,
+  UserRole,
+  UserStatus,
+  ManagerSignupPayload,
+  CreateAgentPayload,
+  ChangePasswordPayload,
+  UpdateProfilePayload,
+  ApproveRejectPayload,
+  UserListItem,
+  PendingManagersResponse,
+  AgentListResponse,
+  Company,
+  RoleTemplate,
+  RoleTemplatePayload,
+  BulkAgentRow,
+  BulkAgentResult,
+  TwoFactorStatus,
+  TwoFactorSetupResponse,
+  SecurityPolicy,
+  Session,
+  Invitation,
+  InviteDetails,
+  SignupDocument,
+  SignupDocumentKind,
+  ManagerApplication,
+  ReviewEvent,
+} from './generated/fasiApi';
 
 // ─────────────────────────────────────────────
 // Auth Service
@@ -114,28 +43,21 @@ export const authApi = {
 
   // ── JWT (token_security app → /api/auth/) ──────────────────────────────
 
-  login: async (payload: LoginPayload): Promise<LoginResponse> => {
-    return apiFetch<LoginResponse>('/auth/login/', {
-      method: 'POST',
-      body: JSON.stringify(payload),
-      skipAuth: true,
-    });
-  },
+  login: fasi.login,
+
+  /** Second login step: trades the challenge from `login` and a TOTP or recovery code for tokens. */
+  loginTwoFactor: (challenge: string, code: string) => fasi.loginTwoFactor({ challenge, code }),
 
   logout: async (): Promise<void> => {
     const refresh = TokenStorage.getRefresh();
     const access = TokenStorage.getAccess();
-    const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:8000/api';
 
     if (refresh) {
       try {
-        await fetch(`${API_BASE}/auth/logout/`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...(access ? { Authorization: `Bearer ${access}` } : {}),
-          },
-          body: JSON.stringify({ refresh }),
+        // The endpoint is unauthenticated: an expired access token must not
+        // trigger a refresh + redirect here
+        await fasi.logout({ refresh }, {
+          headers: access ? { Authorization: `Bearer ${access}` } : {},
         });
       } catch {
         // réseau mort — logout local garanti
@@ -145,92 +67,158 @@ export const authApi = {
     TokenStorage.clear();
   },
 
+  /**
+   * Confirm the signed-in user's password before a sensitive action. Signs in
+   * again with the same credentials and keeps the fresh tokens, without
+   * announcing a new login to the other tabs. The session the old tokens
+   * belonged to is then logged out, so each confirmation does not leave a
+   * stray session behind. Resolves to false, without signing in, when the
+   * account has 2FA and no `code` was given.
+   */
+  reauthenticate: async (email: string, password: string, code?: string): Promise<boolean> => {
+    const res = await fasi.login({ email, password });
+    if (res.two_factor_required && !code) return false;
+    const { access, refresh } = res.two_factor_required
+      ? await fasi.loginTwoFactor({ challenge: res.challenge!, code: code! })
+      : { access: res.access!, refresh: res.refresh! };
+    const previous = TokenStorage.getRefresh();
+    TokenStorage.setRefresh(refresh);
+    TokenStorage.setAccess(access);
+    markAuthenticated();
+    if (previous && previous !== refresh) {
+      // Best effort: the old session expires on its own if this fails.
+      fasi.logout({ refresh: previous }, { headers: { Authorization: `Bearer ${access}` } }).catch(() => {});
+    }
+    return true;
+  },
+
+  // ── Sessions ────────────────────────────────────────────────────────────
+
+  getSessions: fasi.listSessions,
+
+  revokeSession: fasi.revokeSession,
+
+  revokeOtherSessions: fasi.revokeOtherSessions,
+
   // ── Profile ─────────────────────────
 
-  getProfile: (): Promise<BackendUser> =>
-    api.get<BackendUser>('/users/profile/'),
+  getProfile: fasi.getProfile,
 
-  updateProfile: (data: UpdateProfilePayload) =>
-    api.patch<{ message: string; user: BackendUser }>('/users/profile/', data),
+  updateProfile: fasi.updateProfile,
+
+  // ── Two-factor ──────────────────────────────────────────────────────────
+
+  getTwoFactorStatus: fasi.getTwoFactorStatus,
+
+  /** A fresh secret; 2FA stays off until `enableTwoFactor` confirms a code from it. */
+  setupTwoFactor: fasi.setupTwoFactor,
+
+  enableTwoFactor: (code: string) => fasi.enableTwoFactor({ code }),
+
+  disableTwoFactor: (password: string) => fasi.disableTwoFactor({ password }),
+
+  regenerateRecoveryCodes: (code: string) => fasi.regenerateRecoveryCodes({ code }),
+
+  getSecurityPolicy: fasi.getSecurityPolicy,
+
+  updateSecurityPolicy: fasi.updateSecurityPolicy,
 
   // ── Signup Manager ──────────────────────────────────────────────────────
 
-  managerSignup: (payload: ManagerSignupPayload) =>
-    apiFetch<{ message: string; email: string }>('/users/signup/', {
-      method: 'POST',
-      body: JSON.stringify(payload),
-      skipAuth: true,
-    }),
+  managerSignup: fasi.managerSignup,
+
+  /** Public: returns the ids to pass as the signup's (or resubmission's) `documents`. */
+  uploadSignupDocuments: (files: { kind: SignupDocumentKind; file: File }[]) =>
+    Promise.all(files.map(async ({ kind, file }) => {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('kind', kind);
+      return (await fasi.uploadSignupDocument(form)).id;
+    })),
+
+  /** Answers an admin's request for information with the `resubmit_token` from the 403 login error. */
+  resubmitApplication: (token: string, message: string, documents: string[]) =>
+    fasi.resubmitApplication({ token, message, documents }),
 
   // ── Password ────────────────────────────────────────────────────────────
 
-  changePassword: (payload: ChangePasswordPayload) =>
-    api.post<{ message: string }>('/users/change-password/', payload),
+  changePassword: fasi.changePassword,
 
   requestPasswordReset: (user_id: string) =>
-    api.post<{ message: string }>('/users/password-reset/request/', { user_id }),
+    fasi.requestPasswordReset({ user_id }),
 
   confirmPasswordReset: (token: string, new_password: string, new_password_confirm: string) =>
-    apiFetch<{ message: string }>('/users/password-reset/confirm/', {
-      method: 'POST',
-      body: JSON.stringify({ token, new_password, new_password_confirm }),
-      skipAuth: true,
-    }),
+    fasi.confirmPasswordReset({ token, new_password, new_password_confirm }),
 
   // ── Manager approval ────────────────────────────────────────────────────
 
-  getPendingManagers: (): Promise<PendingManagersResponse> =>
-    api.get<PendingManagersResponse>('/users/signup/pending/'),
+  getPendingManagers: fasi.listPendingManagers,
+
+  reviewManager: fasi.reviewManager,
+
+  getManagerApplication: fasi.getManagerApplication,
 
-  reviewManager: (managerId: string, payload: ApproveRejectPayload) =>
-    api.post<{ message: string; manager: UserListItem }>(
-      `/users/signup/review/${managerId}/`,
-      payload
-    ),
+  /** Internal: notes are never shown to the applicant. */
+  addReviewNote: (id: string, message: string) => fasi.addReviewNote(id, { message }),
+
+  downloadSignupDocument: fasi.downloadSignupDocument,
 
   // ── Agents ──────────────────────────────────────────────────────────────
 
-  getAgents: (): Promise<AgentListResponse> =>
-    api.get<AgentListResponse>('/users/agents/'),
+  getAgents: fasi.listAgents,
+
+  createAgent: fasi.createAgent,
+
+  /** Rows are created independently; see each result's `status`. */
+  bulkCreateAgents: (agents: BulkAgentRow[], send_invites = false) =>
+    fasi.bulkCreateAgents({ agents, send_invites }),
+
+  deleteAgent: fasi.deleteAgent,
+
+  // ── Invitations ─────────────────────────────────────────────────────────
+
+  /** A new link with a fresh expiry; the previous one stops working. */
+  resendInvite: fasi.resendInvite,
 
-  createAgent: (payload: CreateAgentPayload) =>
-    api.post<{ message: string; agent: UserListItem }>('/users/agents/create/', payload),
+  revokeInvite: fasi.revokeInvite,
 
-  deleteAgent: (agentId: string) =>
-    api.delete<{ message: string }>(`/users/agents/${agentId}/`),
+  /** Public: 410 with `code` invite_expired / invite_revoked / invite_used once the link is dead. */
+  getInvite: fasi.getInvite,
+
+  acceptInvite: (token: string, password: string, password_confirm: string) =>
+    fasi.acceptInvite(token, { password, password_confirm }),
+
+  // ── Role templates ──────────────────────────────────────────────────────
+
+  getRoleTemplates: fasi.listRoleTemplates,
+
+  createRoleTemplate: fasi.createRoleTemplate,
+
+  updateRoleTemplate: fasi.updateRoleTemplate,
+
+  deleteRoleTemplate: fasi.deleteRoleTemplate,
+
+  /** Every agent using the template, or only `user_ids` when given. */
+  applyRoleTemplate: (templateId: string, user_ids?: string[]) =>
+    fasi.applyRoleTemplate(templateId, user_ids ? { user_ids } : {}),
 
   // ── All Users (admin) ───────────────────────────────────────────────────
 
-  getAllUsers: (filters?: { role?: string; status?: string }) => {
-    const params = new URLSearchParams();
-    if (filters?.role) params.set('role', filters.role);
-    if (filters?.status) params.set('status', filters.status);
-    const qs = params.toString();
-    return api.get<{ count: number; users: UserListItem[] }>(
-      `/users/users/${qs ? '?' + qs : ''}`
-    );
-  },
+  getAllUsers: fasi.listUsers,
 
-  updatePermissions: (userId: string, permissions_list: string[]) =>
-    api.patch<{ message: string; permissions_list: string[] }>(
-      `/users/users/${userId}/permissions/`,
-      { permissions_list }
-    ),
+  /** `allowed_branches` is left unchanged when omitted. */
+  updatePermissions: (userId: string, permissions_list: string[], allowed_branches?: string[]) =>
+    fasi.updateUserPermissions(userId, { permissions_list, ...(allowed_branches ? { allowed_branches } : {}) }),
 
-  updateStatus: (userId: string, status: 'active' | 'suspended', reason?: string) =>
-    api.patch<{ message: string }>(
-      `/users/users/${userId}/status/`,
-      { status, reason }
-    ),
+  updateStatus: (userId: string, status: UpdateStatusPayload['status'], reason?: string) =>
+    fasi.updateUserStatus(userId, { status, reason }),
 
   // ── Companies (admin) ───────────────────────────────────────────────────
 
-  getCompanies: (): Promise<{ count: number; companies: Company[] }> =>
-    api.get('/companies/'),
+  getCompanies: fasi.listCompanies,
 
-  createCompany: (data: Partial<Company>) =>
-    api.post<Company>('/companies/', data),
+  createCompany: (data: Partial<Company>) => fasi.createCompany(data),
 
   updateCompany: (companyId: string, data: Partial<Company>) =>
-    api.patch<Company>(`/companies/${companyId}/`, data),
+    fasi.updateCompany(companyId, data),
 };
@@ -0,0 +1,47 @@
+/**
+ * Branch scope
+ * A user with `allowed_branches` only sees the data of those branches. Once
+ * AuthContext has set the scope, apiFetch adds `branches=` to every request
+ * for branch-level data, so a page that forgets a filter still can't mix in
+ * other branches' figures. The server enforces the same list.
+ *
+ * An empty scope means every branch of the company (managers, and agents
+ * without a restriction).
+ */
+
+/** Endpoints whose figures are split by branch and accept `?branches=`. */
+const BRANCH_SCOPED_PATHS = ['/transactions/', '/inventory/', '/kpi/sales/', '/kpi/stock/', '/kpi/supply/', '/ai-insights/'];
+
+let scope: string[] = [];
+
+/** Returns true when the scope changed, so cached data can be dropped. */
+export function setBranchScope(branches: readonly string[] | null | undefined): boolean {
+  const next = [...new Set(branches ?? [])].sort();
+  const changed = next.join('\n') !== scope.join('\n');
+  scope = next;
+  return changed;
+}
+
+export function getBranchScope(): readonly string[] {
+  return scope;
+}
+
+export function isBranchAllowed(branch: string): boolean {
+  return scope.length === 0 || scope.includes(branch);
+}
+
+/** The branches of `names` the user may pick in a filter. */
+export function restrictBranches(names: readonly string[]): string[] {
+  return names.filter(isBranchAllowed);
+}
+
+/**
+ * `params` plus the scope, when `endpoint` serves branch-level data. Branches
+ * the caller asked for are narrowed to the scope; when none of them is
+ * allowed, the whole scope is sent instead.
+ */
+export function withBranchScope<T extends Record<string, unknown>>(endpoint: string, params?: T): T | undefined {
+  if (scope.length === 0 || !BRANCH_SCOPED_PATHS.some(path => endpoint.startsWith(path))) return params;
+  const requested = params?.branches ? String(params.branches).split(',').filter(isBranchAllowed) : [];
+  return { ...params, branches: (requested.length ? requested : scope).join(',') } as unknown as T;
+}
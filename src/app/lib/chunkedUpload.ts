@@ -0,0 +1,312 @@
+import { ConflictError, NetworkError, NotFoundError, isAbortError } from './api';
+import { dataImportApi } from './dataApi';
+import type { ChunkedUpload, ImportLogEntry, UploadOptions } from './dataApi';
+
+// ─────────────────────────────────────────────
+// Resumable chunked uploads
+// Sends a workbook in chunks so a large file shows real byte progress, can be
+// paused, and picks up where it stopped after a dropped connection — or, for
+// the same file and options, after a page reload. Once every byte is in, the
+// import log is polled until the server has finished processing the file, or
+// for PROCESSING_TIMEOUT at most.
+// ─────────────────────────────────────────────
+
+/** What the upload is doing right now. `processing` means the file is uploaded and the server is importing it. */
+export type UploadPhase = 'uploading' | 'paused' | 'reconnecting' | 'processing' | 'done' | 'cancelled';
+
+export interface UploadProgress {
+  phase: UploadPhase;
+  /** Bytes the server has (or is receiving) so far. */
+  sent: number;
+  total: number;
+}
+
+export interface ChunkedUploadHandle {
+  pause: () => void;
+  resume: () => void;
+  /** Stops the upload and discards what the server received. Has no effect once processing started. */
+  cancel: () => void;
+  /**
+   * The import log once processing finished, whatever its status — still
+   * `pending` or `processing` when the server took longer than
+   * PROCESSING_TIMEOUT. Rejects with an AbortError when cancelled or stopped.
+   */
+  result: Promise<ImportLogEntry>;
+}
+
+export interface ChunkedUploadOptions {
+  /**
+   * Stops the run (e.g. the page unmounted). Unlike cancel(), what the server
+   * received is kept, so picking the same file again resumes the upload.
+   */
+  signal?: AbortSignal;
+  /**
+   * Identifies the file across reloads when `file` is built from another one,
+   * e.g. a workbook rebuilt without some rows: a rebuilt File gets a new
+   * lastModified each time, so its own fingerprint never matches again.
+   */
+  resumeKey?: string;
+}
+
+/** Upload ids by file fingerprint, so a reload can resume an unfinished upload. */
+const PENDING_KEY = 'fasi_pending_uploads';
+const RECONNECT_MIN = 1_000;
+const RECONNECT_MAX = 30_000;
+const POLL_INTERVAL = 1_500;
+/** How long the import log is polled before the page is told to look in the import history instead. */
+const PROCESSING_TIMEOUT = 2 * 60_000;
+
+const FINISHED: ImportLogEntry['status'][] = ['success', 'partial', 'failed'];
+
+function pendingUploads(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function setPending(key: string, id: string | null) {
+  const pending = pendingUploads();
+  if (id) pending[key] = id;
+  else delete pending[key];
+  localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+}
+
+const fingerprint = (file: File, { onProgress: _onProgress, ...options }: UploadOptions, resumeKey?: string) =>
+  JSON.stringify([resumeKey ?? [file.name, file.size, file.lastModified], options]);
+
+/**
+ * A random (v4) UUID. crypto.randomUUID() only exists in secure contexts, so a
+ * deployment served over plain HTTP builds one from getRandomValues instead.
+ */
+function uploadId(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/** Waits `ms`, or less if the browser comes back online first. */
+function waitToReconnect(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const done = () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', done);
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      done();
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(done, ms);
+    window.addEventListener('online', done);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal.aborted) onAbort();
+    else signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Uploads `file` for import in chunks, reporting each change through
+ * `onProgress`. Chunk size comes from the server; a chunk the server rejects
+ * as out of order is resent from where the server says it left off.
+ */
+export function uploadInChunks(
+  file: File,
+  options: UploadOptions,
+  onProgress: (progress: UploadProgress) => void,
+  { signal, resumeKey }: ChunkedUploadOptions = {},
+): ChunkedUploadHandle {
+  const key = fingerprint(file, options, resumeKey);
+  let stage: 'uploading' | 'processing' | 'done' = 'uploading';
+  let paused = false;
+  let reconnecting = false;
+  let cancelled = false;
+  let sent = 0;
+  let upload: ChunkedUpload | null = null;
+  let controller = new AbortController();
+  let wake: (() => void) | null = null;
+  /** Ends the whole run: aborted by cancel() and by `signal`. */
+  const stop = new AbortController();
+
+  const report = (inFlight = 0) => {
+    const phase: UploadPhase = cancelled ? 'cancelled'
+      : stage !== 'uploading' ? stage
+      : paused ? 'paused'
+      : reconnecting ? 'reconnecting'
+      : 'uploading';
+    onProgress({ phase, sent: Math.min(file.size, sent + inFlight), total: file.size });
+  };
+
+  /** Holds while paused; throws once cancelled or stopped. */
+  async function checkpoint() {
+    while (paused && !stop.signal.aborted) await new Promise<void>(resolve => { wake = resolve; });
+    if (stop.signal.aborted) throw new DOMException('Upload stopped', 'AbortError');
+  }
+
+  const end = () => {
+    stop.abort();
+    controller.abort();
+    wake?.();
+  };
+
+  /**
+   * Runs `step` until it gets through, waiting out pauses and lost connections.
+   * Only GETs and chunks (placed by offset) are safe to send twice. For the
+   * other POSTs pass `recover`: after an attempt whose answer was lost it asks
+   * the server whether that attempt went through, and returns its result if
+   * so — `step` is only sent again when it returns null.
+   */
+  async function attempt<T>(
+    step: (signal: AbortSignal) => Promise<T>,
+    recover?: (signal: AbortSignal) => Promise<T | null>,
+  ): Promise<T> {
+    let delay = RECONNECT_MIN;
+    let lost = false;
+    for (;;) {
+      await checkpoint();
+      controller = new AbortController();
+      try {
+        const result = (lost && recover ? await recover(controller.signal) : null) ?? await step(controller.signal);
+        if (reconnecting) {
+          reconnecting = false;
+          report();
+        }
+        return result;
+      } catch (err) {
+        if (isAbortError(err)) {
+          lost = true;
+          continue;
+        }
+        if (!(err instanceof NetworkError)) throw err;
+        lost = true;
+        reconnecting = true;
+        report();
+        await waitToReconnect(delay, controller.signal).catch(() => {});
+        delay = Math.min(delay * 2, RECONNECT_MAX);
+      }
+    }
+  }
+
+  /** The unfinished upload of this file from an earlier attempt, if the server still has it. */
+  async function previousUpload(): Promise<ChunkedUpload | null> {
+    const id = pendingUploads()[key];
+    if (!id) return null;
+    try {
+      const previous = await attempt(signal => dataImportApi.getChunkedUpload(id, { signal }));
+      if (previous.status === 'uploading' && previous.size === file.size) return previous;
+    } catch (err) {
+      if (!(err instanceof NotFoundError)) throw err;
+    }
+    setPending(key, null);
+    return null;
+  }
+
+  /** Starts a new upload. Its id is ours, so a start whose answer was lost can be looked up. */
+  async function startUpload(): Promise<ChunkedUpload> {
+    const newId = uploadId();
+    // Stored first, so a reload during the start still finds the upload.
+    setPending(key, newId);
+    return attempt(
+      signal => dataImportApi.startChunkedUpload(newId, file, options, { signal }),
+      signal => dataImportApi.getChunkedUpload(newId, { signal }).catch(err => {
+        if (err instanceof NotFoundError) return null;
+        throw err;
+      }),
+    );
+  }
+
+  async function run(): Promise<ImportLogEntry> {
+    upload = await previousUpload() ?? await startUpload();
+    const { id, chunk_size } = upload;
+    sent = upload.received;
+    report();
+
+    while (sent < file.size) {
+      const chunk = file.slice(sent, sent + chunk_size);
+      sent = await attempt(async signal => {
+        try {
+          const res = await dataImportApi.uploadChunk(id, sent, chunk, {
+            signal,
+            onUploadProgress: percent => report(Math.round(chunk.size * percent / 100)),
+          });
+          return res.received;
+        } catch (err) {
+          // The server already had this chunk (its answer was lost) or missed one.
+          if (err instanceof ConflictError) {
+            const { received } = (err.data ?? {}) as { received?: unknown };
+            if (typeof received === 'number') return received;
+          }
+          throw err;
+        }
+      });
+      report();
+    }
+
+    stage = 'processing';
+    report();
+    let log = await attempt(
+      signal => dataImportApi.completeChunkedUpload(id, { signal }),
+      async signal => (await dataImportApi.getChunkedUpload(id, { signal })).import_log ?? null,
+    );
+    setPending(key, null);
+    const deadline = Date.now() + PROCESSING_TIMEOUT;
+    while (!FINISHED.includes(log.status) && Date.now() < deadline) {
+      await wait(POLL_INTERVAL, stop.signal);
+      log = await attempt(signal => dataImportApi.getImportLog(log.id, { signal }));
+    }
+    stage = 'done';
+    report();
+    return log;
+  }
+
+  if (signal?.aborted) end();
+  signal?.addEventListener('abort', end, { once: true });
+
+  return {
+    pause: () => {
+      if (stage !== 'uploading' || paused || cancelled) return;
+      paused = true;
+      controller.abort();
+      report();
+    },
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      report();
+      wake?.();
+    },
+    cancel: () => {
+      if (stage !== 'uploading' || cancelled) return;
+      cancelled = true;
+      end();
+      report();
+    },
+    result: run()
+      .catch(err => {
+        if (cancelled) {
+          setPending(key, null);
+          if (upload) dataImportApi.cancelChunkedUpload(upload.id).catch(() => {});
+        }
+        throw err;
+      })
+      .finally(() => signal?.removeEventListener('abort', end)),
+  };
+}
@@ -0,0 +1,109 @@
+import type { ColumnMapping, MappingProfile } from './dataApi';
+
+// ─────────────────────────────────────────────
+// Import column mapping
+// Matches the headers of an uploaded workbook to the columns of an import
+// template, for ERP exports that name their columns differently. The result
+// is sent with the upload as `column_mapping` (template column → file header).
+// ─────────────────────────────────────────────
+
+/** How a template column got its file column: same header, a saved profile, a similar header or by hand. */
+export type MatchKind = 'exact' | 'profile' | 'similar' | 'manual';
+
+export interface ColumnMatch {
+  source: string;
+  kind: MatchKind;
+}
+
+/** Template column → the file column that holds it. Unmatched template columns are absent. */
+export type ColumnMatches = Record<string, ColumnMatch>;
+
+/** Share of words two headers must have in common to be suggested as a match. */
+const SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Header text reduced to what matters for matching: case, spacing, punctuation,
+ * Arabic diacritics and tatweel, and alef / ta marbuta / alef maqsura variants
+ * are ignored, and digits are split from letters ("الهاتف1" → "الهاتف 1").
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFKC')
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .toLowerCase()
+    .replace(/(\p{L})(\p{N})|(\p{N})(\p{L})/gu, '$1$3 $2$4')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/** A header's distinct words, without the Arabic article so "المجموع" and "مجموع" agree. */
+const words = (header: string) =>
+  new Set(normalizeHeader(header).split(' ').filter(Boolean).map(word => word.replace(/^ال(?=\p{L}{2})/u, '')));
+
+/** Words the two headers share, over all their distinct words (0–1). */
+function similarity(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  const total = new Set([...wordsA, ...wordsB]).size;
+  return total ? shared / total : 0;
+}
+
+/**
+ * Suggests a file column for each template column. A profile's choices win,
+ * then identical headers, then the most similar remaining header. Each file
+ * column is used at most once.
+ */
+export function suggestMatches(targets: string[], headers: string[], profile?: MappingProfile | null): ColumnMatches {
+  const matches: ColumnMatches = {};
+  const free = new Set(headers.filter(h => h.trim()));
+  const take = (target: string, source: string, kind: MatchKind) => {
+    matches[target] = { source, kind };
+    free.delete(source);
+  };
+
+  if (profile) {
+    for (const target of targets) {
+      const source = profile.mapping[target];
+      if (source && free.has(source)) take(target, source, 'profile');
+    }
+  }
+  for (const target of targets) {
+    if (matches[target]) continue;
+    const key = normalizeHeader(target);
+    const source = [...free].find(h => normalizeHeader(h) === key);
+    if (source) take(target, source, 'exact');
+  }
+  for (const target of targets) {
+    if (matches[target]) continue;
+    let best: string | null = null;
+    let bestScore = SIMILARITY_THRESHOLD;
+    for (const source of free) {
+      const score = similarity(target, source);
+      if (score >= bestScore) { best = source; bestScore = score; }
+    }
+    if (best) take(target, best, 'similar');
+  }
+  return matches;
+}
+
+/**
+ * The saved profile that fits a file best: all of its file columns are present
+ * and it maps the most columns. Null when none fits.
+ */
+export function pickProfile(profiles: MappingProfile[], headers: string[]): MappingProfile | null {
+  const present = new Set(headers);
+  return profiles
+    .filter(p => Object.values(p.mapping).every(source => present.has(source)))
+    .sort((a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length)[0] ?? null;
+}
+
+export const toColumnMapping = (matches: ColumnMatches): ColumnMapping =>
+  Object.fromEntries(Object.entries(matches).map(([target, { source }]) => [target, source]));
+
+/** Whether the upload needs a mapping at all — some template column comes from a differently named header. */
+export const needsMapping = (matches: ColumnMatches) =>
+  Object.entries(matches).some(([target, { source }]) => target !== source);
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { ApiError } from "./api";
+import { ApiError, isAbortError } from "./api";
 import {
   salesKpiApi,
   stockKpiApi,
@@ -29,6 +29,15 @@ import {
   type KPIData,
   type QueryParams,
 } from "./dataApi";
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryData,
+  invalidateQueries,
+  isQueryStale,
+  queryKey,
+  subscribeQuery,
+} from "./queryCache";
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Movement-type normaliser
@@ -75,44 +84,120 @@ interface AsyncState<T> {
   refetch: () => void;
 }
 
+interface AsyncOptions {
+  /** How long (ms) cached data is served without revalidating. */
+  staleTime?: number;
+}
+
+/**
+ * Fetch through the shared query cache (see queryCache.ts).
+ *
+ * `key` identifies the request — build it with queryKey(endpoint, params).
+ * Cached data for the key is returned right away; `loading` is only true
+ * when there is nothing to show yet or the caller asked for a refetch.
+ * Pass `null` as the key to skip fetching (e.g. no snapshot selected).
+ *
+ * Every run gets its own AbortController: a new key (filters changed), a
+ * refetch or an unmount aborts the previous run, so a slow response for old
+ * params can never overwrite the data for the current ones. A new key also
+ * drops the previous key's data right away, so old numbers never show under
+ * new filters.
+ */
 function useAsync<T>(
-  fetchFn: () => Promise<T>,
-  deps: unknown[] = [],
+  key: string | null,
+  fetchFn: (signal: AbortSignal) => Promise<T>,
+  options: AsyncOptions = {},
 ): AsyncState<T> {
-  const [data, setData] = useState<T | null>(null);
-  const [loading, setLoading] = useState(true);
+  const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+  const [data, setData] = useState<T | null>(() =>
+    key ? (getQueryData<T>(key) ?? null) : null,
+  );
+  const [loading, setLoading] = useState(
+    () => key !== null && getQueryData<T>(key) === undefined,
+  );
   const [error, setError] = useState<string | null>(null);
-  const mountedRef = useRef(true);
-
-  const execute = useCallback(async () => {
-    setLoading(true);
+  const [dataKey, setDataKey] = useState(key);
+  const controllerRef = useRef<AbortController | null>(null);
+  const fetchRef = useRef(fetchFn);
+  fetchRef.current = fetchFn;
+
+  // Reset during render rather than in the effect, so the first render with
+  // the new key already shows its cached data (or the loading state).
+  if (dataKey !== key) {
+    const cached = key ? getQueryData<T>(key) : undefined;
+    setDataKey(key);
+    setData(cached ?? null);
+    setLoading(key !== null && cached === undefined);
     setError(null);
-    try {
-      const result = await fetchFn();
-      if (mountedRef.current) setData(result);
-    } catch (err) {
-      if (mountedRef.current) {
+  }
+
+  const execute = useCallback(
+    async (force = false) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      if (key === null) {
+        setData(null);
+        setError(null);
+        setLoading(false);
+        return;
+      }
+
+      // Nothing cached (e.g. the cache was cleared on logout) means nothing to show.
+      const cached = getQueryData<T>(key);
+      setData(cached ?? null);
+      if (!force && cached !== undefined && !isQueryStale(key, staleTime)) {
+        setError(null);
+        setLoading(false);
+        return;
+      }
+
+      // Stale data stays on screen while it revalidates in the background.
+      setLoading(force || cached === undefined);
+      setError(null);
+      try {
+        const result = await fetchQuery(key, fetchRef.current, controller.signal);
+        if (!controller.signal.aborted) setData(result);
+      } catch (err) {
+        // Superseded or unmounted — the newer run owns the state now.
+        if (controller.signal.aborted || isAbortError(err)) return;
         if (err instanceof ApiError) {
           setError(err.message);
         } else {
           setError(String(err));
         }
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
       }
-    } finally {
-      if (mountedRef.current) setLoading(false);
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, deps);
+    },
+    [key, staleTime],
+  );
 
   useEffect(() => {
-    mountedRef.current = true;
     execute();
+    if (key === null) {
+      return () => {
+        controllerRef.current?.abort();
+      };
+    }
+    // Pick up data fetched by other hooks sharing this key, and refetch
+    // when the key is invalidated.
+    const unsubscribe = subscribeQuery(key, () => {
+      if (isQueryStale(key, Infinity)) execute();
+      else setData(getQueryData<T>(key) ?? null);
+    });
     return () => {
-      mountedRef.current = false;
+      controllerRef.current?.abort();
+      unsubscribe();
     };
+  }, [execute, key]);
+
+  const refetch = useCallback(() => {
+    execute(true);
   }, [execute]);
 
-  return { data, loading, error, refetch: execute };
+  return { data, loading, error, refetch };
 }
 
 // ─────────────────────────────────────────────
@@ -120,18 +205,21 @@ function useAsync<T>(
 // ─────────────────────────────────────────────
 
 export function useProducts(params?: QueryParams & { category?: string }) {
-  return useAsync(() => productsApi.list(params), [JSON.stringify(params)]);
+  return useAsync(queryKey("/products/", params), (signal) =>
+    productsApi.list(params, { signal }),
+  );
 }
 
 export function useProduct(id: string | null) {
-  return useAsync(
-    () => (id ? productsApi.get(id) : Promise.resolve(null as any)),
-    [id],
+  return useAsync(id ? `/products/${id}/` : null, (signal) =>
+    productsApi.get(id!, { signal }),
   );
 }
 
 export function useProductCategories() {
-  return useAsync(() => productsApi.categories(), []);
+  return useAsync("/products/categories/", (signal) =>
+    productsApi.categories({ signal }),
+  );
 }
 
 // ─────────────────────────────────────────────
@@ -139,7 +227,9 @@ export function useProductCategories() {
 // ─────────────────────────────────────────────
 
 export function useCustomers(params?: QueryParams & { area_code?: string }) {
-  return useAsync(() => customersApi.list(params), [JSON.stringify(params)]);
+  return useAsync(queryKey("/customers/", params), (signal) =>
+    customersApi.list(params, { signal }),
+  );
 }
 
 // ─────────────────────────────────────────────
@@ -149,9 +239,8 @@ export function useCustomers(params?: QueryParams & { area_code?: string }) {
 export function useInventorySnapshots(
   params?: QueryParams & { search?: string },
 ) {
-  return useAsync(
-    () => inventoryApi.listSnapshots(params),
-    [JSON.stringify(params)],
+  return useAsync(queryKey("/inventory/", params), (signal) =>
+    inventoryApi.listSnapshots(params, { signal }),
   );
 }
 
@@ -160,29 +249,26 @@ export function useInventoryLines(
   params?: QueryParams & { branch?: string; search?: string },
 ) {
   return useAsync(
-    () =>
-      snapshotId
-        ? inventoryApi.getLines(snapshotId, params)
-        : Promise.resolve(null as any),
-    [snapshotId, JSON.stringify(params)],
+    snapshotId ? queryKey(`/inventory/${snapshotId}/lines/`, params) : null,
+    (signal) => inventoryApi.getLines(snapshotId!, params, { signal }),
   );
 }
 
 export function useInventoryDates() {
-  return useAsync(() => inventoryApi.dates(), []);
+  return useAsync("/inventory/dates/", (signal) =>
+    inventoryApi.dates({ signal }),
+  );
 }
 
 export function useBranchSummary(params?: { snapshot_id?: string ; branch?: string  }) {
-  return useAsync(
-    () => inventoryApi.branchSummary(params),
-    [JSON.stringify(params)],
+  return useAsync(queryKey("/inventory/branch-summary/", params), (signal) =>
+    inventoryApi.branchSummary(params, { signal }),
   );
 }
 
 export function useCategoryBreakdown(params?: { snapshot_id?: string ; branch?: string   }) {
-  return useAsync(
-    () => inventoryApi.categoryBreakdown(params),
-    [JSON.stringify(params)],
+  return useAsync(queryKey("/inventory/category-breakdown/", params), (signal) =>
+    inventoryApi.categoryBreakdown(params, { signal }),
   );
 }
 
@@ -201,9 +287,8 @@ export function useTransactions(
 ) {
   // FIX: normalise movement_type before sending to API
   const normalized = normalizeMovementType(params);
-  return useAsync(
-    () => transactionsApi.list(normalized),
-    [JSON.stringify(normalized)],
+  return useAsync(queryKey("/transactions/", normalized), (signal) =>
+    transactionsApi.list(normalized, { signal }),
   );
 }
 
@@ -213,9 +298,8 @@ export function useTransactionSummary(params?: {
   date_to?: string;
   branch?: string;
 }) {
-  return useAsync(
-    () => transactionsApi.summary(params),
-    [JSON.stringify(params)],
+  return useAsync(queryKey("/transactions/summary/", params), (signal) =>
+    transactionsApi.summary(params, { signal }),
   );
 }
 
@@ -239,9 +323,8 @@ export function useBranchBreakdown(params?: {
 }) {
   // FIX: normalise movement_type before sending to API
   const normalized = normalizeMovementType(params);
-  return useAsync(
-    () => transactionsApi.branchBreakdown(normalized),
-    [JSON.stringify(normalized)],
+  return useAsync(queryKey("/transactions/branch-breakdown/", normalized), (signal) =>
+    transactionsApi.branchBreakdown(normalized, { signal }),
   );
 }
 
@@ -259,9 +342,8 @@ export function useBranchMonthly(params?: {
 }) {
   // FIX: normalise movement_type before sending to API
   const normalized = normalizeMovementType(params);
-  return useAsync(
-    () => transactionsApi.branchMonthly(normalized),
-    [JSON.stringify(normalized)],
+  return useAsync(queryKey("/transactions/branch-monthly/", normalized), (signal) =>
+    transactionsApi.branchMonthly(normalized, { signal }),
   );
 }
 
@@ -270,9 +352,8 @@ export function useTypeBreakdown(params?: {
   date_to?: string;
   branch?: string;
 }) {
-  return useAsync(
-    () => transactionsApi.typeBreakdown(params),
-    [JSON.stringify(params)],
+  return useAsync(queryKey("/transactions/type-breakdown/", params), (signal) =>
+    transactionsApi.typeBreakdown(params, { signal }),
   );
 }
 
@@ -281,7 +362,9 @@ export function useTypeBreakdown(params?: {
  * Use this to dynamically populate filter <Select> dropdowns on the frontend.
  */
 export function useMovementTypes() {
-  return useAsync(() => transactionsApi.movementTypes(), []);
+  return useAsync("/transactions/movement-types/", (signal) =>
+    transactionsApi.movementTypes({ signal }),
+  );
 }
 
 // ─────────────────────────────────────────────
@@ -291,11 +374,15 @@ export function useMovementTypes() {
 export function useAgingList(
   params?: QueryParams & { report_date?: string; risk?: string },
 ) {
-  return useAsync(() => agingApi.list(params), [JSON.stringify(params)]);
+  return useAsync(queryKey("/aging/", params), (signal) =>
+    agingApi.list(params, { signal }),
+  );
 }
 
 export function useAgingDates() {
-  return useAsync(() => agingApi.dates(), []);
+  return useAsync("/aging/dates/", (signal) =>
+    agingApi.dates({ signal }),
+  );
 }
 
 export function useAgingRisk(params?: {
@@ -303,13 +390,14 @@ export function useAgingRisk(params?: {
   risk?: string;
   limit?: number;
 }) {
-  return useAsync(() => agingApi.risk(params), [JSON.stringify(params)]);
+  return useAsync(queryKey("/aging/risk/", params), (signal) =>
+    agingApi.risk(params, { signal }),
+  );
 }
 
 export function useAgingDistribution(params?: { report_date?: string }) {
-  return useAsync(
-    () => agingApi.distribution(params),
-    [JSON.stringify(params)],
+  return useAsync(queryKey("/aging/distribution/", params), (signal) =>
+    agingApi.distribution(params, { signal }),
   );
 }
 
@@ -318,9 +406,39 @@ export function useAgingDistribution(params?: { report_date?: string }) {
 // ─────────────────────────────────────────────
 
 export function useKPIs() {
-  return useAsync(() => kpiApi.getAll(), []);
+  return useAsync("/kpi/overview/", (signal) =>
+    kpiApi.getAll({ signal }),
+  );
 }
 
+// ─────────────────────────────────────────────
+// Cache invalidation
+// ─────────────────────────────────────────────
+
+/** Query-key prefixes whose data changes when a file of each type is imported. */
+const IMPORT_INVALIDATION: Record<string, string[]> = {
+  customers: ["/customers/", "/aging/"],
+  branches: ["/inventory/", "/transactions/"],
+  aging: ["/aging/", "/customers/"],
+  inventory: ["/inventory/", "/products/"],
+  movements: ["/transactions/", "/products/", "/customers/"],
+};
+
+/**
+ * Mark everything an import of `fileType` may have changed as stale.
+ * KPI aggregates are always invalidated; an unknown type invalidates all.
+ */
+export function invalidateAfterImport(fileType?: string) {
+  const prefixes = fileType ? IMPORT_INVALIDATION[fileType] : undefined;
+  if (!prefixes) {
+    invalidateQueries("/");
+    return;
+  }
+  invalidateQueries(...prefixes, "/kpi/");
+}
+
+export { invalidateQueries };
+
 // ─────────────────────────────────────────────
 // Re-exports
 // ─────────────────────────────────────────────
@@ -409,7 +527,9 @@ export function useSalesKPI(params?: {
   date_to?: string;
   top_n?: number;
 }) {
-  return useAsync(() => salesKpiApi.getAll(params), [JSON.stringify(params)]);
+  return useAsync(queryKey("/kpi/sales/", params), (signal) =>
+    salesKpiApi.getAll(params, { signal }),
+  );
 }
 
 export function useStockKPI(params?: {
@@ -417,11 +537,15 @@ export function useStockKPI(params?: {
   year?: number;
   low_rotation_threshold?: number;
 }) {
-  return useAsync(() => stockKpiApi.getAll(params), [JSON.stringify(params)]);
+  return useAsync(queryKey("/kpi/stock/", params), (signal) =>
+    stockKpiApi.getAll(params, { signal }),
+  );
 }
 
 export function useCreditKPI(params?: { report_date?: string }) {
-  return useAsync(() => creditKpiApi.getAll(params), [JSON.stringify(params)]);
+  return useAsync(queryKey("/kpi/credit/", params), (signal) =>
+    creditKpiApi.getAll(params, { signal }),
+  );
 }
 
 // Also re-export the new types for convenience:
@@ -0,0 +1,47 @@
+/**
+ * Server-side validation errors → react-hook-form.
+ * Maps the DRF field errors carried by an ApiError onto the inputs of a form
+ * so they render next to the field instead of as a generic toast.
+ */
+
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { ApiError } from './api';
+
+/** Backend field name → form field name, for every field the form renders. */
+export type ServerFieldMap<T extends FieldValues> = Partial<Record<string, Path<T>>>;
+
+/**
+ * Set one form error per backend field listed in `fieldMap` (first message
+ * only) and focus the first one.
+ *
+ * Returns the message that could not be attached to an input — a
+ * `non_field_errors` entry, a field the form doesn't show, or the error
+ * itself when it isn't a validation error — so the caller can toast it.
+ * `fallback` is used when the error carries no message at all.
+ * Returns null when everything was shown inline.
+ */
+export function applyServerErrors<T extends FieldValues>(
+  err: unknown,
+  setError: UseFormSetError<T>,
+  fieldMap: ServerFieldMap<T>,
+  fallback = 'Something went wrong',
+): string | null {
+  if (!(err instanceof ApiError)) {
+    return (err instanceof Error && err.message) || fallback;
+  }
+
+  let placed = 0;
+  let leftover: string | null = null;
+  for (const [field, messages] of Object.entries(err.fieldErrors)) {
+    const target = fieldMap[field];
+    if (target) {
+      setError(target, { type: 'server', message: messages[0] }, { shouldFocus: placed === 0 });
+      placed += 1;
+    } else if (!leftover) {
+      leftover = messages[0];
+    }
+  }
+
+  if (leftover) return leftover;
+  return placed ? null : err.userMessage || fallback;
+}
@@ -0,0 +1,4069 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// GENERATED by scripts/generate-api.mjs from openapi/fasi.openapi.json
+// FASI API 1.0.0
+//
+// Do not edit by hand: update the schema and run `npm run api:generate`.
+// `npm run api:check` fails when this file and the schema disagree.
+// ─────────────────────────────────────────────────────────────────────────────
+
+import { apiFetch, type RequestOptions } from "../api";
+import { parseResponse, s, type Schema } from "../schema";
+
+/** Send a request and validate / normalize its JSON body with `schema`. */
+function request<T>(
+  schema: Schema<T>,
+  url: string,
+  init: RequestOptions,
+  operation = url,
+): Promise<T> {
+  return apiFetch<unknown>(url, init).then((raw) => parseResponse(schema, raw, operation));
+}
+
+// ─────────────────────────────────────────────
+// Schemas
+// ─────────────────────────────────────────────
+
+export interface MessageResponse {
+  message: string;
+}
+
+const messageResponseSchema = s.object<MessageResponse>({
+  message: s.string(),
+});
+
+export type ImportStatus = "pending" | "processing" | "success" | "partial" | "failed";
+
+const importStatusSchema = s.enumOf<ImportStatus>(["pending", "processing", "success", "partial", "failed"]);
+
+export interface ImportErrorDetail {
+  row?: number;
+  error: string;
+  /** Header of the offending column, when the error is about one cell */
+  column?: string;
+  /** The cell value as read from the file */
+  value?: string;
+}
+
+const importErrorDetailSchema = s.object<ImportErrorDetail>({
+  row: s.number().optional(),
+  error: s.string(),
+  column: s.string().optional(),
+  value: s.string().optional(),
+});
+
+export interface ImportLogEntry {
+  id: string;
+  file_type: string;
+  original_filename: string;
+  uploaded_by?: string | null;
+  uploaded_by_name: string;
+  status: ImportStatus;
+  row_count: number;
+  success_count: number;
+  error_count: number;
+  error_details: ImportErrorDetail[];
+  started_at: string;
+  completed_at?: string | null;
+}
+
+const importLogEntrySchema = s.object<ImportLogEntry>({
+  id: s.string(),
+  file_type: s.string(),
+  original_filename: s.string(),
+  uploaded_by: s.string().nullable(),
+  uploaded_by_name: s.string().default(""),
+  status: importStatusSchema,
+  row_count: s.number().default(0),
+  success_count: s.number().default(0),
+  error_count: s.number().default(0),
+  error_details: s.array(importErrorDetailSchema).default([]),
+  started_at: s.string(),
+  completed_at: s.string().nullable(),
+});
+
+export interface ImportUploader {
+  id: string;
+  name: string;
+}
+
+const importUploaderSchema = s.object<ImportUploader>({
+  id: s.string(),
+  name: s.string(),
+});
+
+export interface ImportLogListResponse {
+  count: number;
+  page: number;
+  page_size?: number;
+  total_pages: number;
+  logs: ImportLogEntry[];
+  /** Everyone who uploaded an import visible to the caller, for the uploader filter */
+  uploaders: ImportUploader[];
+}
+
+const importLogListResponseSchema = s.object<ImportLogListResponse>({
+  count: s.number().default(0),
+  page: s.number().default(1),
+  page_size: s.number().optional(),
+  total_pages: s.number().default(1),
+  logs: s.array(importLogEntrySchema),
+  uploaders: s.array(importUploaderSchema).default([]),
+});
+
+export type AuditAction = "user.create" | "user.delete" | "user.permissions" | "user.status" | "manager.approve" | "manager.reject" | "role_template.create" | "role_template.update" | "role_template.delete" | "role_template.apply" | "company.create" | "company.update" | "inventory.delete" | "alert.resolve" | "alert.reopen" | "user.two_factor_enable" | "user.two_factor_disable" | "security_policy.update" | "user.invite_resend" | "user.invite_revoke" | "manager.request_info";
+
+const auditActionSchema = s.enumOf<AuditAction>(["user.create", "user.delete", "user.permissions", "user.status", "manager.approve", "manager.reject", "role_template.create", "role_template.update", "role_template.delete", "role_template.apply", "company.create", "company.update", "inventory.delete", "alert.resolve", "alert.reopen", "user.two_factor_enable", "user.two_factor_disable", "security_policy.update", "user.invite_resend", "user.invite_revoke", "manager.request_info"]);
+
+export type AuditTargetType = "user" | "role_template" | "company" | "inventory_snapshot" | "alert" | "security_policy";
+
+const auditTargetTypeSchema = s.enumOf<AuditTargetType>(["user", "role_template", "company", "inventory_snapshot", "alert", "security_policy"]);
+
+/** One change made by a user. `before` / `after` hold the changed fields only. */
+export interface AuditLogEntry {
+  id: string;
+  timestamp: string;
+  actor: string | null;
+  actor_name: string;
+  actor_email: string;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string;
+  target_label: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+const auditLogEntrySchema = s.object<AuditLogEntry>({
+  id: s.string(),
+  timestamp: s.string(),
+  actor: s.string().nullable(),
+  actor_name: s.string().default(""),
+  actor_email: s.string().default(""),
+  action: auditActionSchema,
+  target_type: auditTargetTypeSchema,
+  target_id: s.string(),
+  target_label: s.string().default(""),
+  before: s.record(s.unknown()).nullable(),
+  after: s.record(s.unknown()).nullable(),
+});
+
+export interface AuditLogListResponse {
+  count: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  entries: AuditLogEntry[];
+}
+
+const auditLogListResponseSchema = s.object<AuditLogListResponse>({
+  count: s.number(),
+  page: s.number().default(1),
+  page_size: s.number(),
+  total_pages: s.number().default(1),
+  entries: s.array(auditLogEntrySchema),
+});
+
+export interface ImportResultSummary {
+  file_type: string;
+  total_rows: number;
+  created: number;
+  updated: number;
+  errors: string[];
+}
+
+const importResultSummarySchema = s.object<ImportResultSummary>({
+  file_type: s.string(),
+  total_rows: s.number().default(0),
+  created: s.number().default(0),
+  updated: s.number().default(0),
+  errors: s.array(s.string()).default([]),
+});
+
+export interface ImportResult {
+  message: string;
+  import_log: ImportLogEntry;
+  result: ImportResultSummary;
+}
+
+const importResultSchema = s.object<ImportResult>({
+  message: s.string().default(""),
+  import_log: importLogEntrySchema,
+  result: importResultSummarySchema,
+});
+
+/** A customer account the import would create. */
+export interface ImportDiffCustomer {
+  account_code: string;
+  name: string;
+}
+
+const importDiffCustomerSchema = s.object<ImportDiffCustomer>({
+  account_code: s.string(),
+  name: s.string(),
+});
+
+/** An aging account whose total balance would change. */
+export interface ImportDiffBalance {
+  account_code: string;
+  account: string;
+  before: number;
+  after: number;
+  change: number;
+}
+
+const importDiffBalanceSchema = s.object<ImportDiffBalance>({
+  account_code: s.string(),
+  account: s.string(),
+  before: s.number(),
+  after: s.number(),
+  change: s.number(),
+});
+
+/** A product whose total quantity across branches would change. */
+export interface ImportDiffQuantity {
+  product_code: string;
+  product_name: string;
+  before: number;
+  after: number;
+  /** Change relative to before, in percent; null when before is 0 */
+  change_pct: number | null;
+}
+
+const importDiffQuantitySchema = s.object<ImportDiffQuantity>({
+  product_code: s.string(),
+  product_name: s.string(),
+  before: s.number(),
+  after: s.number(),
+  change_pct: s.number().nullable(),
+});
+
+/** A row of the data being replaced that the file no longer has. */
+export interface ImportDiffRemoved {
+  /** Account or product code */
+  key: string;
+  label: string;
+}
+
+const importDiffRemovedSchema = s.object<ImportDiffRemoved>({
+  key: s.string(),
+  label: s.string(),
+});
+
+export interface ImportDiff {
+  /** The aging report date or inventory snapshot the import would overwrite, if any */
+  replaces?: string | null;
+  new_customers: ImportDiffCustomer[];
+  changed_balances: ImportDiffBalance[];
+  quantity_changes: ImportDiffQuantity[];
+  removed: ImportDiffRemoved[];
+  unchanged_count: number;
+}
+
+const importDiffSchema = s.object<ImportDiff>({
+  replaces: s.string().nullable(),
+  new_customers: s.array(importDiffCustomerSchema).default([]),
+  changed_balances: s.array(importDiffBalanceSchema).default([]),
+  quantity_changes: s.array(importDiffQuantitySchema).default([]),
+  removed: s.array(importDiffRemovedSchema).default([]),
+  unchanged_count: s.number().default(0),
+});
+
+/** A parsed upload held back until it is committed or discarded. */
+export interface ImportPreview {
+  id: string;
+  file_type: string;
+  original_filename: string;
+  expires_at: string;
+  result: ImportResultSummary;
+  diff: ImportDiff;
+}
+
+const importPreviewSchema = s.object<ImportPreview>({
+  id: s.string(),
+  file_type: s.string(),
+  original_filename: s.string(),
+  expires_at: s.string(),
+  result: importResultSummarySchema,
+  diff: importDiffSchema,
+});
+
+export type ChunkedUploadStatus = "uploading" | "complete" | "cancelled";
+
+const chunkedUploadStatusSchema = s.enumOf<ChunkedUploadStatus>(["uploading", "complete", "cancelled"]);
+
+/** A workbook uploaded in chunks. `received` is the offset the next chunk must start at. */
+export interface ChunkedUpload {
+  id: string;
+  file_name: string;
+  /** Total size in bytes */
+  size: number;
+  /** Largest chunk the server accepts, in bytes */
+  chunk_size: number;
+  received: number;
+  status: ChunkedUploadStatus;
+  import_log?: ImportLogEntry | null;
+  expires_at: string;
+}
+
+const chunkedUploadSchema = s.object<ChunkedUpload>({
+  id: s.string(),
+  file_name: s.string(),
+  size: s.number(),
+  chunk_size: s.number(),
+  received: s.number().default(0),
+  status: chunkedUploadStatusSchema,
+  import_log: importLogEntrySchema.nullable(),
+  expires_at: s.string(),
+});
+
+/** Template column → header of the column in the uploaded file that holds it */
+export type ColumnMapping = Record<string, string>;
+
+const columnMappingSchema = s.record(s.string());
+
+export interface StartChunkedUploadPayload {
+  /** Chosen by the client, so a start whose response was lost can be looked up with getChunkedUpload before starting again */
+  id: string;
+  file_name: string;
+  size: number;
+  file_type?: string;
+  column_mapping?: ColumnMapping;
+  snapshot_date?: string;
+  report_date?: string;
+}
+
+export interface DetectResult {
+  filename: string;
+  detected_file_type: string;
+  headers: string[];
+  preview_rows: Array<Record<string, string>>;
+  total_rows_estimate?: number | null;
+}
+
+const detectResultSchema = s.object<DetectResult>({
+  filename: s.string(),
+  detected_file_type: s.string().default(""),
+  headers: s.array(s.string()),
+  preview_rows: s.array(s.record(s.string().default(""))),
+  total_rows_estimate: s.number().nullable(),
+});
+
+/** A saved column mapping for one source of files, e.g. one branch's ERP export. */
+export interface MappingProfile {
+  id: string;
+  name: string;
+  file_type: string;
+  mapping: ColumnMapping;
+  created_by_name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const mappingProfileSchema = s.object<MappingProfile>({
+  id: s.string(),
+  name: s.string(),
+  file_type: s.string(),
+  mapping: columnMappingSchema,
+  created_by_name: s.string().default(""),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+export interface MappingProfilePayload {
+  name: string;
+  file_type: string;
+  mapping: ColumnMapping;
+}
+
+export interface MappingProfileListResponse {
+  count: number;
+  profiles: MappingProfile[];
+}
+
+const mappingProfileListResponseSchema = s.object<MappingProfileListResponse>({
+  count: s.number(),
+  profiles: s.array(mappingProfileSchema),
+});
+
+export interface Product {
+  id: string;
+  product_code: string;
+  lab_code: string | null;
+  product_name: string;
+  category: string | null;
+  movement_count?: number;
+  latest_snapshot_date?: string | null;
+  total_stock?: number | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+const productSchema = s.object<Product>({
+  id: s.string(),
+  product_code: s.string(),
+  lab_code: s.string().nullable(),
+  product_name: s.string(),
+  category: s.string().nullable(),
+  movement_count: s.number().optional(),
+  latest_snapshot_date: s.string().nullable(),
+  total_stock: s.number().nullable(),
+  created_at: s.string().optional(),
+  updated_at: s.string().optional(),
+});
+
+export interface ProductsListResponse {
+  count: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  products: Product[];
+}
+
+const productsListResponseSchema = s.object<ProductsListResponse>({
+  count: s.number(),
+  page: s.number().default(1),
+  page_size: s.number(),
+  total_pages: s.number().default(1),
+  products: s.array(productSchema),
+});
+
+export interface CategoryListResponse {
+  categories: string[];
+}
+
+const categoryListResponseSchema = s.object<CategoryListResponse>({
+  categories: s.array(s.string()),
+});
+
+export interface Customer {
+  id: string;
+  customer_name: string;
+  account_code: string;
+  area_code: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  movement_count?: number;
+  latest_aging_total?: number | null;
+  latest_aging_risk?: string | null;
+  created_at?: string;
+}
+
+const customerSchema = s.object<Customer>({
+  id: s.string(),
+  customer_name: s.string(),
+  account_code: s.string(),
+  area_code: s.string().nullable(),
+  phone: s.string().nullable(),
+  email: s.string().nullable(),
+  address: s.string().nullable(),
+  movement_count: s.number().optional(),
+  latest_aging_total: s.number().nullable(),
+  latest_aging_risk: s.string().nullable(),
+  created_at: s.string().optional(),
+});
+
+export interface CustomersListResponse {
+  count: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  customers: Customer[];
+}
+
+const customersListResponseSchema = s.object<CustomersListResponse>({
+  count: s.number(),
+  page: s.number().default(1),
+  page_size: s.number(),
+  total_pages: s.number().default(1),
+  customers: s.array(customerSchema),
+});
+
+/** One import-session record per uploaded Excel file. */
+export interface InventorySnapshot {
+  id: string;
+  company_name: string;
+  label: string;
+  snapshot_date: string | null;
+  fiscal_year: string;
+  source_file: string;
+  notes: string;
+  uploaded_at: string;
+  uploaded_by: string | null;
+  uploaded_by_name: string | null;
+  line_count: number;
+  total_lines_value: number | null;
+  branches?: string[];
+}
+
+const inventorySnapshotSchema = s.object<InventorySnapshot>({
+  id: s.string(),
+  company_name: s.string().default(""),
+  label: s.string().default(""),
+  snapshot_date: s.string().nullable(),
+  fiscal_year: s.string().default(""),
+  source_file: s.string().default(""),
+  notes: s.string().default(""),
+  uploaded_at: s.string(),
+  uploaded_by: s.string().nullable(),
+  uploaded_by_name: s.string().nullable(),
+  line_count: s.number().default(0),
+  total_lines_value: s.number().nullable(),
+  branches: s.array(s.string()).optional(),
+});
+
+export interface InventorySnapshotListResponse {
+  count: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  items: InventorySnapshot[];
+}
+
+const inventorySnapshotListResponseSchema = s.object<InventorySnapshotListResponse>({
+  count: s.number(),
+  page: s.number().default(1),
+  page_size: s.number(),
+  total_pages: s.number().default(1),
+  items: s.array(inventorySnapshotSchema),
+});
+
+/** One product × branch row produced by the horizontal-melt import. */
+export interface InventorySnapshotLine {
+  id: string;
+  product_category: string;
+  product_code: string;
+  product_name: string;
+  branch_name: string;
+  quantity: number;
+  unit_cost: number;
+  line_value: number;
+}
+
+const inventorySnapshotLineSchema = s.object<InventorySnapshotLine>({
+  id: s.string(),
+  product_category: s.string().default(""),
+  product_code: s.string(),
+  product_name: s.string(),
+  branch_name: s.string(),
+  quantity: s.number(),
+  unit_cost: s.number(),
+  line_value: s.number(),
+});
+
+export interface InventoryLinesTotals {
+  grand_total_qty: number;
+  grand_total_value: number;
+  distinct_products: number;
+  out_of_stock_count: number;
+  critical_count: number;
+  low_count: number;
+}
+
+const inventoryLinesTotalsSchema = s.object<InventoryLinesTotals>({
+  grand_total_qty: s.number(),
+  grand_total_value: s.number(),
+  distinct_products: s.number().default(0),
+  out_of_stock_count: s.number().default(0),
+  critical_count: s.number().default(0),
+  low_count: s.number().default(0),
+});
+
+export interface InventoryLinesResponse {
+  snapshot_id: string;
+  count: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  totals: InventoryLinesTotals;
+  lines: InventorySnapshotLine[];
+}
+
+const inventoryLinesResponseSchema = s.object<InventoryLinesResponse>({
+  snapshot_id: s.string(),
+  count: s.number(),
+  page: s.number().default(1),
+  page_size: s.number(),
+  total_pages: s.number().default(1),
+  totals: inventoryLinesTotalsSchema,
+  lines: s.array(inventorySnapshotLineSchema),
+});
+
+export interface DateListResponse {
+  dates: string[];
+}
+
+const dateListResponseSchema = s.object<DateListResponse>({
+  dates: s.array(s.string()),
+});
+
+export interface BranchSummary {
+  branch: string;
+  total_qty: number;
+  total_value: number;
+}
+
+const branchSummarySchema = s.object<BranchSummary>({
+  branch: s.string(),
+  total_qty: s.number(),
+  total_value: s.number(),
+});
+
+export interface BranchSummaryResponse {
+  branches: BranchSummary[];
+}
+
+const branchSummaryResponseSchema = s.object<BranchSummaryResponse>({
+  branches: s.array(branchSummarySchema),
+});
+
+export interface CategoryBreakdown {
+  category: string;
+  total_qty: number;
+  total_value: number;
+}
+
+const categoryBreakdownSchema = s.object<CategoryBreakdown>({
+  category: s.string(),
+  total_qty: s.number(),
+  total_value: s.number(),
+});
+
+export interface CategoryBreakdownResponse {
+  categories: CategoryBreakdown[];
+}
+
+const categoryBreakdownResponseSchema = s.object<CategoryBreakdownResponse>({
+  categories: s.array(categoryBreakdownSchema),
+});
+
+export interface Movement {
+  id: string;
+  material_code: string;
+  material_name: string;
+  movement_date: string;
+  /** Raw Arabic label as stored in the DB, e.g. "ف بيع" */
+  movement_type: string;
+  /** Friendly English label returned by the serializer */
+  movement_type_display: string;
+  qty_in: number;
+  qty_out: number;
+  total_in: number;
+  total_out: number;
+  balance_price: number;
+  branch_name: string | null;
+  customer_name: string | null;
+}
+
+const movementSchema = s.object<Movement>({
+  id: s.string(),
+  material_code: s.string(),
+  material_name: s.string(),
+  movement_date: s.string(),
+  movement_type: s.string(),
+  movement_type_display: s.string().default(""),
+  qty_in: s.number().default(0),
+  qty_out: s.number().default(0),
+  total_in: s.number().default(0),
+  total_out: s.number().default(0),
+  balance_price: s.number().default(0),
+  branch_name: s.string().nullable(),
+  customer_name: s.string().nullable(),
+});
+
+export interface MovementTotals {
+  total_in_value: number;
+  total_out_value: number;
+}
+
+const movementTotalsSchema = s.object<MovementTotals>({
+  total_in_value: s.number(),
+  total_out_value: s.number(),
+});
+
+export interface MovementsListResponse {
+  count: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  totals: MovementTotals;
+  movements: Movement[];
+}
+
+const movementsListResponseSchema = s.object<MovementsListResponse>({
+  count: s.number(),
+  page: s.number().default(1),
+  page_size: s.number(),
+  total_pages: s.number().default(1),
+  totals: movementTotalsSchema,
+  movements: s.array(movementSchema),
+});
+
+export interface MonthlySummaryItem {
+  year: number;
+  month: number;
+  month_label: string;
+  total_sales: number;
+  total_purchases: number;
+  total_profit?: number;
+  total_qty?: number;
+  sales_count: number;
+  purchases_count: number;
+}
+
+const monthlySummaryItemSchema = s.object<MonthlySummaryItem>({
+  year: s.number(),
+  month: s.number(),
+  month_label: s.string().default(""),
+  total_sales: s.number(),
+  total_purchases: s.number(),
+  total_profit: s.number().optional(),
+  total_qty: s.number().optional(),
+  sales_count: s.number().default(0),
+  purchases_count: s.number().default(0),
+});
+
+export interface MonthlySummaryResponse {
+  summary: MonthlySummaryItem[];
+}
+
+const monthlySummaryResponseSchema = s.object<MonthlySummaryResponse>({
+  summary: s.array(monthlySummaryItemSchema),
+});
+
+export interface TypeBreakdownItem {
+  /** Raw Arabic movement_type value */
+  movement_type: string;
+  /** Friendly English label */
+  label: string;
+  count: number;
+  total_in: number;
+  total_out: number;
+}
+
+const typeBreakdownItemSchema = s.object<TypeBreakdownItem>({
+  movement_type: s.string(),
+  label: s.string().default(""),
+  count: s.number(),
+  total_in: s.number().default(0),
+  total_out: s.number().default(0),
+});
+
+export interface TypeBreakdownResponse {
+  breakdown: TypeBreakdownItem[];
+}
+
+const typeBreakdownResponseSchema = s.object<TypeBreakdownResponse>({
+  breakdown: s.array(typeBreakdownItemSchema),
+});
+
+export interface BranchBreakdownItem {
+  branch: string;
+  count: number;
+  total: number;
+}
+
+const branchBreakdownItemSchema = s.object<BranchBreakdownItem>({
+  branch: s.string(),
+  count: s.number(),
+  total: s.number(),
+});
+
+export interface BranchBreakdownResponse {
+  movement_type: string;
+  branches: BranchBreakdownItem[];
+}
+
+const branchBreakdownResponseSchema = s.object<BranchBreakdownResponse>({
+  movement_type: s.string().default(""),
+  branches: s.array(branchBreakdownItemSchema),
+});
+
+/** Every key besides month/year is a branch name → amount. */
+export interface BranchMonthlyItem {
+  month: string;
+  year: number;
+  [key: string]: string | number;
+}
+
+const branchMonthlyItemSchema = s.object<BranchMonthlyItem>(
+  {
+    month: s.string(),
+    year: s.number(),
+  },
+  { passthrough: true },
+);
+
+export interface BranchMonthlyResponse {
+  movement_type: string;
+  branches: string[];
+  monthly_data: BranchMonthlyItem[];
+}
+
+const branchMonthlyResponseSchema = s.object<BranchMonthlyResponse>({
+  movement_type: s.string().default(""),
+  branches: s.array(s.string()),
+  monthly_data: s.array(branchMonthlyItemSchema),
+});
+
+export interface MovementTypesResponse {
+  types: string[];
+}
+
+const movementTypesResponseSchema = s.object<MovementTypesResponse>({
+  types: s.array(s.string()),
+});
+
+export type RiskScore = "low" | "medium" | "high" | "critical";
+
+const riskScoreSchema = s.enumOf<RiskScore>(["low", "medium", "high", "critical"]);
+
+export interface AgingRecord {
+  id: string;
+  report_date: string;
+  customer: string | null;
+  customer_name: string | null;
+  account: string;
+  account_code: string;
+  current: number;
+  d1_30: number;
+  d31_60: number;
+  d61_90: number;
+  d91_120: number;
+  d121_150: number;
+  d151_180: number;
+  d181_210: number;
+  d211_240: number;
+  d241_270: number;
+  d271_300: number;
+  d301_330: number;
+  over_330: number;
+  total: number;
+  overdue_total: number;
+  risk_score: RiskScore;
+}
+
+const agingRecordSchema = s.object<AgingRecord>({
+  id: s.string(),
+  report_date: s.string(),
+  customer: s.string().nullable(),
+  customer_name: s.string().nullable(),
+  account: s.string(),
+  account_code: s.string(),
+  current: s.number(),
+  d1_30: s.number(),
+  d31_60: s.number(),
+  d61_90: s.number(),
+  d91_120: s.number(),
+  d121_150: s.number(),
+  d151_180: s.number(),
+  d181_210: s.number(),
+  d211_240: s.number(),
+  d241_270: s.number(),
+  d271_300: s.number(),
+  d301_330: s.number(),
+  over_330: s.number(),
+  total: s.number(),
+  overdue_total: s.number(),
+  risk_score: riskScoreSchema,
+});
+
+export interface AgingListResponse {
+  report_date: string | null;
+  count: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+  grand_total: number;
+  records: AgingRecord[];
+}
+
+const agingListResponseSchema = s.object<AgingListResponse>({
+  report_date: s.string().nullable(),
+  count: s.number(),
+  page: s.number().default(1),
+  page_size: s.number(),
+  total_pages: s.number().default(1),
+  grand_total: s.number().default(0),
+  records: s.array(agingRecordSchema),
+});
+
+export interface AgingRiskItem {
+  id: string;
+  account: string;
+  account_code: string;
+  customer_name: string | null;
+  total: number;
+  overdue_total: number;
+  risk_score: string;
+}
+
+const agingRiskItemSchema = s.object<AgingRiskItem>({
+  id: s.string(),
+  account: s.string(),
+  account_code: s.string(),
+  customer_name: s.string().nullable(),
+  total: s.number(),
+  overdue_total: s.number(),
+  risk_score: s.string(),
+});
+
+export interface AgingRiskResponse {
+  report_date: string | null;
+  count: number;
+  top_risk: AgingRiskItem[];
+}
+
+const agingRiskResponseSchema = s.object<AgingRiskResponse>({
+  report_date: s.string().nullable(),
+  count: s.number().default(0),
+  top_risk: s.array(agingRiskItemSchema),
+});
+
+export interface AgingDistributionItem {
+  bucket: string;
+  label: string;
+  total: number;
+  percentage: number;
+  midpoint_days: number;
+}
+
+const agingDistributionItemSchema = s.object<AgingDistributionItem>({
+  bucket: s.string(),
+  label: s.string().default(""),
+  total: s.number(),
+  percentage: s.number().default(0),
+  midpoint_days: s.number().default(0),
+});
+
+export interface AgingDistributionResponse {
+  report_date: string | null;
+  grand_total: number;
+  distribution: AgingDistributionItem[];
+}
+
+const agingDistributionResponseSchema = s.object<AgingDistributionResponse>({
+  report_date: s.string().nullable(),
+  grand_total: s.number().default(0),
+  distribution: s.array(agingDistributionItemSchema),
+});
+
+export interface CreditKPIItem {
+  value: number;
+  label: string;
+  unit: string;
+  description: string;
+  numerator?: number;
+  denominator?: number;
+  ca_credit?: number;
+  ca_total?: number;
+  overdue_amount?: number;
+  total_receivables?: number;
+  recovered_amount?: number;
+  total_credit?: number;
+}
+
+const creditKPIItemSchema = s.object<CreditKPIItem>({
+  value: s.number(),
+  label: s.string().default(""),
+  unit: s.string().default(""),
+  description: s.string().default(""),
+  numerator: s.number().optional(),
+  denominator: s.number().optional(),
+  ca_credit: s.number().optional(),
+  ca_total: s.number().optional(),
+  overdue_amount: s.number().optional(),
+  total_receivables: s.number().optional(),
+  recovered_amount: s.number().optional(),
+  total_credit: s.number().optional(),
+});
+
+export interface RiskyCustomer {
+  id: string;
+  account: string;
+  account_code: string;
+  customer_name: string;
+  total: number;
+  current: number;
+  overdue_total: number;
+  risk_score: RiskScore;
+  overdue_percentage: number;
+  dmp_days: number;
+  buckets: Record<string, number>;
+}
+
+const riskyCustomerSchema = s.object<RiskyCustomer>({
+  id: s.string(),
+  account: s.string(),
+  account_code: s.string(),
+  customer_name: s.string().default(""),
+  total: s.number(),
+  current: s.number().default(0),
+  overdue_total: s.number(),
+  risk_score: riskScoreSchema,
+  overdue_percentage: s.number().default(0),
+  dmp_days: s.number().default(0),
+  buckets: s.record(s.number()).default({}),
+});
+
+export interface BucketDistributionItem {
+  bucket: string;
+  label: string;
+  amount: number;
+  percentage: number;
+  midpoint_days: number;
+}
+
+const bucketDistributionItemSchema = s.object<BucketDistributionItem>({
+  bucket: s.string(),
+  label: s.string().default(""),
+  amount: s.number(),
+  percentage: s.number().default(0),
+  midpoint_days: s.number().default(0),
+});
+
+export interface CreditKPIs {
+  taux_clients_credit: CreditKPIItem;
+  taux_credit_total: CreditKPIItem;
+  taux_impayes: CreditKPIItem;
+  dmp: CreditKPIItem;
+  taux_recouvrement: CreditKPIItem;
+}
+
+const creditKPIsSchema = s.object<CreditKPIs>({
+  taux_clients_credit: creditKPIItemSchema,
+  taux_credit_total: creditKPIItemSchema,
+  taux_impayes: creditKPIItemSchema,
+  dmp: creditKPIItemSchema,
+  taux_recouvrement: creditKPIItemSchema,
+});
+
+export interface CreditKPISummary {
+  total_customers: number;
+  credit_customers: number;
+  grand_total_receivables: number;
+  overdue_amount: number;
+  ca_credit: number;
+  ca_total: number;
+}
+
+const creditKPISummarySchema = s.object<CreditKPISummary>({
+  total_customers: s.number(),
+  credit_customers: s.number(),
+  grand_total_receivables: s.number(),
+  overdue_amount: s.number(),
+  ca_credit: s.number(),
+  ca_total: s.number(),
+});
+
+export interface CreditKPIData {
+  report_date: string | null;
+  kpis: CreditKPIs;
+  top5_risky_customers: RiskyCustomer[];
+  bucket_distribution: BucketDistributionItem[];
+  summary: CreditKPISummary;
+}
+
+const creditKPIDataSchema = s.object<CreditKPIData>({
+  report_date: s.string().nullable(),
+  kpis: creditKPIsSchema,
+  top5_risky_customers: s.array(riskyCustomerSchema),
+  bucket_distribution: s.array(bucketDistributionItemSchema),
+  summary: creditKPISummarySchema,
+});
+
+export interface SalesKPIProduct {
+  material_code: string;
+  material_name: string;
+  total_revenue: number;
+  total_qty: number;
+  total_profit?: number;
+  transaction_count: number;
+  /** % */
+  revenue_share: number;
+  /** only in product_margins */
+  margin_pct?: number;
+  rotation_rate?: number;
+  coverage_days?: number;
+  total_price_out_x_qty?: number;
+  total_balance_price_x_qty?: number;
+}
+
+const salesKPIProductSchema = s.object<SalesKPIProduct>({
+  material_code: s.string(),
+  material_name: s.string().default(""),
+  total_revenue: s.alias(["total_revenue", "revenue"], s.number()),
+  total_qty: s.number().default(0),
+  total_profit: s.number().optional(),
+  transaction_count: s.number().default(0),
+  revenue_share: s.number().default(0),
+  margin_pct: s.number().optional(),
+  rotation_rate: s.number().optional(),
+  coverage_days: s.number().optional(),
+  total_price_out_x_qty: s.number().optional(),
+  total_balance_price_x_qty: s.number().optional(),
+});
+
+export interface SalesKPIClient {
+  customer_name: string;
+  total_revenue: number;
+  total_profit?: number;
+  transaction_count: number;
+  revenue_share: number;
+}
+
+const salesKPIClientSchema = s.object<SalesKPIClient>({
+  customer_name: s.string().default(""),
+  total_revenue: s.number(),
+  total_profit: s.number().optional(),
+  transaction_count: s.number().default(0),
+  revenue_share: s.number().default(0),
+});
+
+export interface MonthlySalesKPIItem {
+  year: number;
+  month: number;
+  month_label: string;
+  total_revenue: number;
+  total_qty: number;
+  count: number;
+}
+
+const monthlySalesKPIItemSchema = s.object<MonthlySalesKPIItem>({
+  year: s.number(),
+  month: s.number(),
+  month_label: s.string().default(""),
+  total_revenue: s.number(),
+  total_qty: s.number().default(0),
+  count: s.number().default(0),
+});
+
+export interface SalesVelocityProduct {
+  material_code: string;
+  material_name: string;
+  avg_daily_revenue: number;
+  avg_daily_qty: number;
+  days_to_sell_100: number;
+  total_qty: number;
+}
+
+const salesVelocityProductSchema = s.object<SalesVelocityProduct>({
+  material_code: s.string(),
+  material_name: s.string().default(""),
+  avg_daily_revenue: s.number().default(0),
+  avg_daily_qty: s.number().default(0),
+  days_to_sell_100: s.alias(["days_to_sell_100", "days_to_sell_100_units"], s.number().default(0)),
+  total_qty: s.number().default(0),
+});
+
+export interface SalesCA {
+  total: number;
+  previous: number;
+  label: string;
+  unit: string;
+}
+
+const salesCASchema = s.object<SalesCA>({
+  total: s.number(),
+  previous: s.number().default(0),
+  label: s.string().default("Chiffre d'Affaires"),
+  unit: s.string().default("LYD"),
+});
+
+export interface SalesEvolution {
+  value: number;
+  is_up: boolean;
+  label: string;
+  unit: string;
+  description: string;
+}
+
+const salesEvolutionSchema = s.object<SalesEvolution>({
+  value: s.number().default(0),
+  is_up: s.boolean().default(false),
+  label: s.string().default("Sales Evolution"),
+  unit: s.string().default("%"),
+  description: s.string().default("Comparison with previous period"),
+});
+
+export interface SalesVelocity {
+  avg_daily_revenue: number;
+  avg_daily_qty: number;
+  n_days: number;
+  by_product: SalesVelocityProduct[];
+}
+
+const salesVelocitySchema = s.object<SalesVelocity>({
+  avg_daily_revenue: s.number().default(0),
+  avg_daily_qty: s.number().default(0),
+  n_days: s.alias(["n_days", "total_days"], s.number().default(0)),
+  by_product: s.array(salesVelocityProductSchema).default([]),
+});
+
+export interface SalesKPIData {
+  year: number;
+  period_from: string | null;
+  period_to: string | null;
+  ca: SalesCA;
+  sales_evolution: SalesEvolution;
+  top_products: SalesKPIProduct[];
+  monthly_sales: MonthlySalesKPIItem[];
+  product_margins: SalesKPIProduct[];
+  top_clients: SalesKPIClient[];
+  sales_velocity: SalesVelocity;
+  avg_price_out?: number;
+  avg_balance_price?: number;
+}
+
+const salesKPIDataSchema = s.object<SalesKPIData>({
+  year: s.number().default(() => new Date().getFullYear()),
+  period_from: s.alias(["period_from", "period.from"], s.string().nullable()),
+  period_to: s.alias(["period_to", "period.to"], s.string().nullable()),
+  ca: salesCASchema,
+  sales_evolution: salesEvolutionSchema,
+  top_products: s.array(salesKPIProductSchema).default([]),
+  monthly_sales: s.array(monthlySalesKPIItemSchema).default([]),
+  product_margins: s.array(salesKPIProductSchema).default([]),
+  top_clients: s.array(salesKPIClientSchema).default([]),
+  sales_velocity: salesVelocitySchema,
+  avg_price_out: s.number().optional(),
+  avg_balance_price: s.number().optional(),
+});
+
+export interface StockKPIProduct {
+  material_code: string;
+  product_name: string;
+  category: string | null;
+  stock_qty: number;
+  stock_value: number;
+  cost_price: number;
+  qty_sold: number;
+  revenue: number;
+  /** qty_sold / (qty_opening + qty_purchased) */
+  rotation_rate: number;
+  coverage_days: number | null;
+  /** ف.أول المدة — opening balance qty */
+  qty_opening: number;
+  /** ف شراء — purchased qty during the year */
+  qty_purchased: number;
+  /** qty_opening + qty_purchased (the divisor) */
+  denominator: number;
+}
+
+const stockKPIProductSchema = s.object<StockKPIProduct>({
+  material_code: s.string(),
+  product_name: s.string().default(""),
+  category: s.string().nullable(),
+  stock_qty: s.number().default(0),
+  stock_value: s.number().default(0),
+  cost_price: s.number().default(0),
+  qty_sold: s.number().default(0),
+  revenue: s.number().default(0),
+  rotation_rate: s.number().default(0),
+  coverage_days: s.number().nullable(),
+  qty_opening: s.number().default(0),
+  qty_purchased: s.number().default(0),
+  denominator: s.number().default(0),
+});
+
+export interface StockSummary {
+  total_products: number;
+  total_qty: number;
+  total_value: number;
+  zero_stock_count: number;
+  low_rotation_count: number;
+  low_rotation_threshold: number;
+  avg_rotation_rate?: number;
+}
+
+const stockSummarySchema = s.object<StockSummary>({
+  total_products: s.number(),
+  total_qty: s.alias(["total_qty", "total_stock_qty"], s.number()),
+  total_value: s.alias(["total_value", "total_stock_value"], s.number()),
+  zero_stock_count: s.number().default(0),
+  low_rotation_count: s.number().default(0),
+  low_rotation_threshold: s.number().default(0),
+  avg_rotation_rate: s.number().optional(),
+});
+
+export interface StockKPIData {
+  snapshot_date: string | null;
+  year: number;
+  rotation_formula: string;
+  stock_summary: StockSummary;
+  top_rotation_products: StockKPIProduct[];
+  low_rotation_products: StockKPIProduct[];
+  zero_stock_products: StockKPIProduct[];
+  coverage_at_risk: StockKPIProduct[];
+}
+
+const stockKPIDataSchema = s.object<StockKPIData>({
+  snapshot_date: s.string().nullable(),
+  year: s.number().default(() => new Date().getFullYear()),
+  rotation_formula: s.string().default("qty_sold / (stock_initial + achats)"),
+  stock_summary: stockSummarySchema,
+  top_rotation_products: s.array(stockKPIProductSchema).default([]),
+  low_rotation_products: s.array(stockKPIProductSchema).default([]),
+  zero_stock_products: s.array(stockKPIProductSchema).default([]),
+  coverage_at_risk: s.array(stockKPIProductSchema).default([]),
+});
+
+export type UserRole = "admin" | "manager" | "agent";
+
+const userRoleSchema = s.enumOf<UserRole>(["admin", "manager", "agent"]);
+
+export type UserStatus = "pending" | "approved" | "rejected" | "active" | "suspended" | "invited" | "info_requested";
+
+const userStatusSchema = s.enumOf<UserStatus>(["pending", "approved", "rejected", "active", "suspended", "invited", "info_requested"]);
+
+export type InvitationStatus = "pending" | "accepted" | "expired" | "revoked";
+
+const invitationStatusSchema = s.enumOf<InvitationStatus>(["pending", "accepted", "expired", "revoked"]);
+
+export interface LoginPayload {
+  email: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  access?: string;
+  refresh?: string;
+  /** True when the password was right but a TOTP or recovery code is still needed. No tokens are returned then. */
+  two_factor_required: boolean;
+  /** Short-lived token to send with the code to /auth/login/2fa/. */
+  challenge?: string;
+}
+
+const loginResponseSchema = s.object<LoginResponse>({
+  access: s.string().optional(),
+  refresh: s.string().optional(),
+  two_factor_required: s.boolean().default(false),
+  challenge: s.string().optional(),
+});
+
+export interface TwoFactorLoginPayload {
+  challenge: string;
+  /** 6-digit TOTP code or a recovery code. */
+  code: string;
+}
+
+export interface TokenPair {
+  access: string;
+  refresh: string;
+}
+
+const tokenPairSchema = s.object<TokenPair>({
+  access: s.string(),
+  refresh: s.string(),
+});
+
+export interface LogoutPayload {
+  refresh: string;
+}
+
+/** A signed-in device: one refresh token and the access tokens issued from it. */
+export interface Session {
+  id: string;
+  /** Device / OS parsed from the User-Agent, e.g. "Windows PC" or "iPhone". */
+  device: string;
+  browser: string;
+  ip_address: string | null;
+  /** City / country looked up from the IP address. */
+  location: string | null;
+  created_at: string;
+  last_activity: string;
+  /** The session of the access token making the request. */
+  current: boolean;
+}
+
+const sessionSchema = s.object<Session>({
+  id: s.string(),
+  device: s.string(),
+  browser: s.string(),
+  ip_address: s.string().nullable(),
+  location: s.string().nullable(),
+  created_at: s.string(),
+  last_activity: s.string(),
+  current: s.boolean().default(false),
+});
+
+export interface SessionListResponse {
+  count: number;
+  sessions: Session[];
+}
+
+const sessionListResponseSchema = s.object<SessionListResponse>({
+  count: s.number(),
+  sessions: s.array(sessionSchema),
+});
+
+export interface RevokeSessionsResponse {
+  message: string;
+  revoked: number;
+}
+
+const revokeSessionsResponseSchema = s.object<RevokeSessionsResponse>({
+  message: s.string(),
+  revoked: s.number(),
+});
+
+export interface BackendUser {
+  id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  full_name: string;
+  phone_number: string | null;
+  role: UserRole;
+  status: UserStatus;
+  permissions_list: string[];
+  branch: string | null;
+  branch_name: string | null;
+  company: string | null;
+  company_name: string | null;
+  must_change_password: boolean;
+  is_verified: boolean;
+  created_at: string;
+  /** Names of the branches whose data the user may see. Empty means every branch of the company. */
+  allowed_branches: string[];
+  /** Role template the user's permissions were last set from. */
+  role_template?: string | null;
+  two_factor_enabled: boolean;
+  /** The security policy requires this user to enable 2FA. */
+  two_factor_required: boolean;
+}
+
+const backendUserSchema = s.object<BackendUser>({
+  id: s.string(),
+  email: s.string(),
+  first_name: s.string(),
+  last_name: s.string(),
+  full_name: s.string().default(""),
+  phone_number: s.string().nullable(),
+  role: userRoleSchema,
+  status: userStatusSchema,
+  permissions_list: s.array(s.string()).default([]),
+  branch: s.string().nullable(),
+  branch_name: s.string().nullable(),
+  company: s.string().nullable(),
+  company_name: s.string().nullable(),
+  must_change_password: s.boolean().default(false),
+  is_verified: s.boolean().default(false),
+  created_at: s.string(),
+  allowed_branches: s.array(s.string()).default([]),
+  role_template: s.string().nullable(),
+  two_factor_enabled: s.boolean().default(false),
+  two_factor_required: s.boolean().default(false),
+});
+
+export interface ManagerSignupPayload {
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone_number?: string;
+  company_name: string;
+  password: string;
+  password_confirm: string;
+  industry?: string;
+  country?: string;
+  city?: string;
+  current_erp?: string;
+  /** Ids returned by /users/signup/documents/ (commercial register, tax ID…). */
+  documents?: string[];
+}
+
+export interface ManagerSignupResponse {
+  message: string;
+  email: string;
+}
+
+const managerSignupResponseSchema = s.object<ManagerSignupResponse>({
+  message: s.string(),
+  email: s.string(),
+});
+
+export type SignupDocumentKind = "commercial_register" | "tax_id" | "other";
+
+const signupDocumentKindSchema = s.enumOf<SignupDocumentKind>(["commercial_register", "tax_id", "other"]);
+
+/** A company document attached to a manager signup. */
+export interface SignupDocument {
+  id: string;
+  kind: SignupDocumentKind;
+  file_name: string;
+  content_type: string;
+  size: number;
+  uploaded_at: string;
+}
+
+const signupDocumentSchema = s.object<SignupDocument>({
+  id: s.string(),
+  kind: signupDocumentKindSchema,
+  file_name: s.string(),
+  content_type: s.string(),
+  size: s.number(),
+  uploaded_at: s.string(),
+});
+
+export type ReviewEventType = "submitted" | "resubmitted" | "note" | "info_requested" | "approved" | "rejected";
+
+const reviewEventTypeSchema = s.enumOf<ReviewEventType>(["submitted", "resubmitted", "note", "info_requested", "approved", "rejected"]);
+
+/** One step of a signup review. `note` events are internal to admins. */
+export interface ReviewEvent {
+  id: string;
+  type: ReviewEventType;
+  /** Admin name; null for the applicant's own events. */
+  author: string | null;
+  message: string | null;
+  documents: SignupDocument[];
+  created_at: string;
+}
+
+const reviewEventSchema = s.object<ReviewEvent>({
+  id: s.string(),
+  type: reviewEventTypeSchema,
+  author: s.string().nullable(),
+  message: s.string().nullable(),
+  documents: s.array(signupDocumentSchema).default([]),
+  created_at: s.string(),
+});
+
+/** Email invitation of an agent created with `send_invite`. */
+export interface Invitation {
+  status: InvitationStatus;
+  sent_at: string;
+  expires_at: string;
+  accepted_at: string | null;
+}
+
+const invitationSchema = s.object<Invitation>({
+  status: invitationStatusSchema,
+  sent_at: s.string(),
+  expires_at: s.string(),
+  accepted_at: s.string().nullable(),
+});
+
+export interface UserListItem {
+  id: string;
+  email: string;
+  full_name: string;
+  phone_number: string | null;
+  role: string;
+  status: string;
+  branch_name: string | null;
+  company: string | null;
+  company_name: string | null;
+  created_at: string;
+  permissions_list: string[];
+  /** Names of the branches whose data the user may see. Empty means every branch of the company. */
+  allowed_branches: string[];
+  /** Role template the user's permissions were last set from. */
+  role_template?: string | null;
+  invitation?: Invitation | null;
+}
+
+const userListItemSchema = s.object<UserListItem>({
+  id: s.string(),
+  email: s.string(),
+  full_name: s.string().default(""),
+  phone_number: s.string().nullable(),
+  role: s.string(),
+  status: s.string(),
+  branch_name: s.string().nullable(),
+  company: s.string().nullable(),
+  company_name: s.string().nullable(),
+  created_at: s.string(),
+  permissions_list: s.array(s.string()).default([]),
+  allowed_branches: s.array(s.string()).default([]),
+  role_template: s.string().nullable(),
+  invitation: invitationSchema.nullable(),
+});
+
+export interface ManagerApplication {
+  manager: UserListItem;
+  industry: string | null;
+  country: string | null;
+  city: string | null;
+  current_erp: string | null;
+  documents: SignupDocument[];
+  /** Open request for more information, while the status is `info_requested`. */
+  info_request: string | null;
+  /** Oldest first. */
+  history: ReviewEvent[];
+}
+
+const managerApplicationSchema = s.object<ManagerApplication>({
+  manager: userListItemSchema,
+  industry: s.string().nullable(),
+  country: s.string().nullable(),
+  city: s.string().nullable(),
+  current_erp: s.string().nullable(),
+  documents: s.array(signupDocumentSchema),
+  info_request: s.string().nullable(),
+  history: s.array(reviewEventSchema),
+});
+
+export interface ReviewNotePayload {
+  message: string;
+}
+
+export interface ResubmitApplicationPayload {
+  /** `resubmit_token` from the 403 login answer. */
+  token: string;
+  message?: string;
+  documents?: string[];
+}
+
+/** The company is inherited from the manager on the backend side. */
+export interface CreateAgentPayload {
+  email: string;
+  first_name: string;
+  last_name: string;
+  phone_number?: string;
+  branch?: string;
+  permissions_list: string[];
+  /** Required unless `send_invite`. */
+  temporary_password?: string;
+  allowed_branches?: string[];
+  role_template?: string;
+  /** Email the agent a link to set their own password instead of using `temporary_password`. The agent stays `invited` until the link is used. */
+  send_invite?: boolean;
+}
+
+export interface ChangePasswordPayload {
+  old_password: string;
+  new_password: string;
+  new_password_confirm: string;
+  /** Also revoke every other session of the user. */
+  logout_other_sessions?: boolean;
+}
+
+export interface UpdateProfilePayload {
+  first_name?: string;
+  last_name?: string;
+  phone_number?: string;
+}
+
+export interface ProfileUpdateResponse {
+  message: string;
+  user: BackendUser;
+}
+
+const profileUpdateResponseSchema = s.object<ProfileUpdateResponse>({
+  message: s.string(),
+  user: backendUserSchema,
+});
+
+export interface PasswordResetRequestPayload {
+  user_id: string;
+}
+
+export interface PasswordResetConfirmPayload {
+  token: string;
+  new_password: string;
+  new_password_confirm: string;
+}
+
+export interface ApproveRejectPayload {
+  action: "approve" | "reject" | "request_info";
+  /** Required to reject or request information; a request is shown to the applicant at login. */
+  reason?: string;
+}
+
+export interface PendingManagersResponse {
+  count: number;
+  pending_managers: UserListItem[];
+}
+
+const pendingManagersResponseSchema = s.object<PendingManagersResponse>({
+  count: s.number().default(0),
+  pending_managers: s.array(userListItemSchema),
+});
+
+export interface ReviewManagerResponse {
+  message: string;
+  manager: UserListItem;
+}
+
+const reviewManagerResponseSchema = s.object<ReviewManagerResponse>({
+  message: s.string(),
+  manager: userListItemSchema,
+});
+
+export interface AgentListResponse {
+  count: number;
+  agents: UserListItem[];
+}
+
+const agentListResponseSchema = s.object<AgentListResponse>({
+  count: s.number().default(0),
+  agents: s.array(userListItemSchema),
+});
+
+export interface CreateAgentResponse {
+  message: string;
+  agent: UserListItem;
+  /** Link emailed to an invited agent, for the manager to share another way. */
+  invite_url?: string | null;
+}
+
+const createAgentResponseSchema = s.object<CreateAgentResponse>({
+  message: s.string(),
+  agent: userListItemSchema,
+  invite_url: s.string().nullable(),
+});
+
+export interface BulkAgentRow {
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone_number?: string;
+  /** Branch the agent works at; also limits the agent's data to it. */
+  branch_name?: string;
+  /** Permissions come from the template; the default agent permissions otherwise. */
+  role_template?: string;
+}
+
+/** Each row is created on its own: a rejected row does not stop the others. */
+export interface BulkCreateAgentsPayload {
+  agents: BulkAgentRow[];
+  /** Email every agent an invitation instead of generating temporary passwords. */
+  send_invites?: boolean;
+}
+
+export interface BulkAgentResult {
+  /** Index of the row in the payload. */
+  row: number;
+  email: string;
+  status: "created" | "failed";
+  agent: UserListItem | null;
+  /** Generated for each created agent, who must change it at first login. */
+  temporary_password: string | null;
+  /** Set instead of `temporary_password` when invitations were sent. */
+  invite_url: string | null;
+  errors: Record<string, string[]> | null;
+}
+
+const bulkAgentResultSchema = s.object<BulkAgentResult>({
+  row: s.number(),
+  email: s.string(),
+  status: s.enumOf(["created", "failed"]),
+  agent: userListItemSchema.nullable(),
+  temporary_password: s.string().nullable(),
+  invite_url: s.string().nullable(),
+  errors: s.record(s.array(s.string())).nullable(),
+});
+
+export interface BulkCreateAgentsResponse {
+  created: number;
+  failed: number;
+  results: BulkAgentResult[];
+}
+
+const bulkCreateAgentsResponseSchema = s.object<BulkCreateAgentsResponse>({
+  created: s.number(),
+  failed: s.number(),
+  results: s.array(bulkAgentResultSchema),
+});
+
+export interface InviteResponse {
+  message: string;
+  invitation: Invitation;
+  invite_url: string;
+}
+
+const inviteResponseSchema = s.object<InviteResponse>({
+  message: s.string(),
+  invitation: invitationSchema,
+  invite_url: s.string(),
+});
+
+/** What the accept page shows about a pending invitation. */
+export interface InviteDetails {
+  email: string;
+  first_name: string;
+  company_name: string | null;
+  invited_by: string;
+  expires_at: string;
+}
+
+const inviteDetailsSchema = s.object<InviteDetails>({
+  email: s.string(),
+  first_name: s.string(),
+  company_name: s.string().nullable(),
+  invited_by: s.string(),
+  expires_at: s.string(),
+});
+
+export interface AcceptInvitePayload {
+  password: string;
+  password_confirm: string;
+}
+
+export interface UserListResponse {
+  count: number;
+  users: UserListItem[];
+}
+
+const userListResponseSchema = s.object<UserListResponse>({
+  count: s.number().default(0),
+  users: s.array(userListItemSchema),
+});
+
+export interface UpdatePermissionsPayload {
+  permissions_list: string[];
+  allowed_branches?: string[];
+}
+
+export interface UpdatePermissionsResponse {
+  message: string;
+  permissions_list: string[];
+  allowed_branches: string[];
+}
+
+const updatePermissionsResponseSchema = s.object<UpdatePermissionsResponse>({
+  message: s.string(),
+  permissions_list: s.array(s.string()),
+  allowed_branches: s.array(s.string()).default([]),
+});
+
+export interface UpdateStatusPayload {
+  status: "active" | "suspended";
+  reason?: string;
+}
+
+/** A named set of permissions a manager can assign to agents. */
+export interface RoleTemplate {
+  id: string;
+  name: string;
+  description: string;
+  permissions_list: string[];
+  /** Agents whose permissions were last set from this template. */
+  agent_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+const roleTemplateSchema = s.object<RoleTemplate>({
+  id: s.string(),
+  name: s.string(),
+  description: s.string().default(""),
+  permissions_list: s.array(s.string()),
+  agent_count: s.number(),
+  created_at: s.string(),
+  updated_at: s.string(),
+});
+
+export interface RoleTemplatePayload {
+  name: string;
+  description?: string;
+  permissions_list: string[];
+}
+
+export interface RoleTemplateListResponse {
+  count: number;
+  templates: RoleTemplate[];
+}
+
+const roleTemplateListResponseSchema = s.object<RoleTemplateListResponse>({
+  count: s.number(),
+  templates: s.array(roleTemplateSchema),
+});
+
+export interface ApplyRoleTemplatePayload {
+  /** Agents to update. Defaults to every agent using the template. */
+  user_ids?: string[];
+}
+
+export interface ApplyRoleTemplateResponse {
+  message: string;
+  updated: number;
+}
+
+const applyRoleTemplateResponseSchema = s.object<ApplyRoleTemplateResponse>({
+  message: s.string(),
+  updated: s.number(),
+});
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recovery_codes_left: number;
+}
+
+const twoFactorStatusSchema = s.object<TwoFactorStatus>({
+  enabled: s.boolean(),
+  required: s.boolean(),
+  recovery_codes_left: s.number(),
+});
+
+export interface TwoFactorSetupResponse {
+  /** Base32 TOTP secret, for manual entry. */
+  secret: string;
+  otpauth_url: string;
+  /** The otpauth URL rendered as a PNG data URI. */
+  qr_code: string | null;
+}
+
+const twoFactorSetupResponseSchema = s.object<TwoFactorSetupResponse>({
+  secret: s.string(),
+  otpauth_url: s.string(),
+  qr_code: s.string().nullable(),
+});
+
+export interface TwoFactorCodePayload {
+  code: string;
+}
+
+export interface TwoFactorDisablePayload {
+  password: string;
+}
+
+export interface RecoveryCodesResponse {
+  message: string;
+  recovery_codes: string[];
+}
+
+const recoveryCodesResponseSchema = s.object<RecoveryCodesResponse>({
+  message: s.string(),
+  recovery_codes: s.array(s.string()),
+});
+
+export interface SecurityPolicy {
+  require_manager_2fa: boolean;
+}
+
+const securityPolicySchema = s.object<SecurityPolicy>({
+  require_manager_2fa: s.boolean().default(false),
+});
+
+export interface Company {
+  id: string;
+  name: string;
+  industry: string | null;
+  phone: string | null;
+  address: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+const companySchema = s.object<Company>({
+  id: s.string(),
+  name: s.string(),
+  industry: s.string().nullable(),
+  phone: s.string().nullable(),
+  address: s.string().nullable(),
+  is_active: s.boolean().default(true),
+  created_at: s.string(),
+});
+
+export interface CompanyPayload {
+  name?: string;
+  industry?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  is_active?: boolean;
+}
+
+export interface CompanyListResponse {
+  count: number;
+  companies: Company[];
+}
+
+const companyListResponseSchema = s.object<CompanyListResponse>({
+  count: s.number().default(0),
+  companies: s.array(companySchema),
+});
+
+export type Severity = "low" | "medium" | "high" | "critical";
+
+const severitySchema = s.enumOf<Severity>(["low", "medium", "high", "critical"]);
+
+export type Confidence = "low" | "medium" | "high";
+
+const confidenceSchema = s.enumOf<Confidence>(["low", "medium", "high"]);
+
+export type TrafficLight = "green" | "amber" | "red";
+
+const trafficLightSchema = s.enumOf<TrafficLight>(["green", "amber", "red"]);
+
+export interface CriticalSituation {
+  source: string;
+  title: string;
+  severity: Severity;
+  composite_score: number;
+  summary: string;
+  financial_exposure_lyd: number;
+  recommended_action: string;
+  urgency_hours: number;
+  /** churn situations */
+  customer_name?: string;
+  /** aging situations */
+  account_name?: string;
+  /** stock situations */
+  product_name?: string;
+}
+
+const criticalSituationSchema = s.object<CriticalSituation>({
+  source: s.string(),
+  title: s.string(),
+  severity: severitySchema,
+  composite_score: s.number(),
+  summary: s.string(),
+  financial_exposure_lyd: s.number(),
+  recommended_action: s.string(),
+  urgency_hours: s.number(),
+  customer_name: s.string().optional(),
+  account_name: s.string().optional(),
+  product_name: s.string().optional(),
+});
+
+export interface GroupedAction {
+  situation: string;
+  action: string;
+  owner: string;
+}
+
+const groupedActionSchema = s.object<GroupedAction>({
+  situation: s.string(),
+  action: s.string(),
+  owner: s.string(),
+});
+
+export interface CausalCluster {
+  cluster_name: string;
+  situations: string[];
+  common_cause: string;
+  unified_action: string;
+  combined_exposure_lyd?: number;
+}
+
+const causalClusterSchema = s.object<CausalCluster>({
+  cluster_name: s.string(),
+  situations: s.array(s.string()),
+  common_cause: s.string(),
+  unified_action: s.string(),
+  combined_exposure_lyd: s.number().optional(),
+});
+
+export interface GroupedActions {
+  act_within_24h: GroupedAction[];
+  act_this_week: GroupedAction[];
+  monitor: GroupedAction[];
+}
+
+const groupedActionsSchema = s.object<GroupedActions>({
+  act_within_24h: s.array(groupedActionSchema).default([]),
+  act_this_week: s.array(groupedActionSchema).default([]),
+  monitor: s.array(groupedActionSchema).default([]),
+});
+
+export interface CriticalDetectionResult {
+  generated_at: string;
+  user_role?: string;
+  allowed_sources?: string[];
+  critical_count: number;
+  total_situations: number;
+  total_exposure_lyd: number;
+  risk_level: Severity;
+  executive_briefing: string;
+  situations: CriticalSituation[];
+  causal_clusters: CausalCluster[];
+  grouped_actions: GroupedActions;
+  confidence: Confidence;
+  cached: boolean;
+}
+
+const criticalDetectionResultSchema = s.object<CriticalDetectionResult>({
+  generated_at: s.string(),
+  user_role: s.string().optional(),
+  allowed_sources: s.array(s.string()).optional(),
+  critical_count: s.number(),
+  total_situations: s.number(),
+  total_exposure_lyd: s.number(),
+  risk_level: severitySchema,
+  executive_briefing: s.string().default(""),
+  situations: s.array(criticalSituationSchema),
+  causal_clusters: s.array(causalClusterSchema).default([]),
+  grouped_actions: groupedActionsSchema,
+  confidence: confidenceSchema,
+  cached: s.boolean().default(false),
+});
+
+export interface KPIValue {
+  current: number;
+  baseline: number;
+  delta_pct: number;
+  status: TrafficLight;
+}
+
+const kPIValueSchema = s.object<KPIValue>({
+  current: s.number(),
+  baseline: s.number(),
+  delta_pct: s.number(),
+  status: trafficLightSchema,
+});
+
+export interface KPIRecommendation {
+  priority: number;
+  action: string;
+  owner: string;
+  impact: string;
+}
+
+const kPIRecommendationSchema = s.object<KPIRecommendation>({
+  priority: s.number(),
+  action: s.string(),
+  owner: s.string(),
+  impact: s.string(),
+});
+
+export interface KPIHealthSummary {
+  total_kpis: number;
+  green: number;
+  amber: number;
+  red: number;
+}
+
+const kPIHealthSummarySchema = s.object<KPIHealthSummary>({
+  total_kpis: s.number(),
+  green: s.number(),
+  amber: s.number(),
+  red: s.number(),
+});
+
+export interface KPIResult {
+  period_days: number;
+  computed_at: string;
+  health_score: number;
+  health_label: string;
+  kpis: Record<string, KPIValue>;
+  executive_summary: string;
+  top_insight: string;
+  kpi_commentary: Record<string, string>;
+  recommended_actions: KPIRecommendation[];
+  risk_flags: string[];
+  summary: KPIHealthSummary;
+  confidence: Confidence;
+  cached: boolean;
+}
+
+const kPIResultSchema = s.object<KPIResult>({
+  period_days: s.number(),
+  computed_at: s.string(),
+  health_score: s.number(),
+  health_label: s.string(),
+  kpis: s.record(kPIValueSchema),
+  executive_summary: s.string().default(""),
+  top_insight: s.string().default(""),
+  kpi_commentary: s.record(s.string()).default({}),
+  recommended_actions: s.array(kPIRecommendationSchema).default([]),
+  risk_flags: s.array(s.string()).default([]),
+  summary: kPIHealthSummarySchema,
+  confidence: confidenceSchema,
+  cached: s.boolean().default(false),
+});
+
+export interface Anomaly {
+  stream: string;
+  date: string;
+  observed_value: number;
+  expected_value: number;
+  z_score: number;
+  deviation_pct: number;
+  direction: "spike" | "drop";
+  severity: Severity;
+  anomaly_type: string;
+  baseline_mean: number;
+  baseline_std: number;
+  ai_explanation: string;
+  likely_causes: string[];
+  business_impact: string;
+  recommended_actions: string[];
+  confidence: Confidence;
+}
+
+const anomalySchema = s.object<Anomaly>({
+  stream: s.string(),
+  date: s.string(),
+  observed_value: s.number(),
+  expected_value: s.number(),
+  z_score: s.number(),
+  deviation_pct: s.number(),
+  direction: s.enumOf(["spike", "drop"]),
+  severity: severitySchema,
+  anomaly_type: s.string(),
+  baseline_mean: s.number(),
+  baseline_std: s.number(),
+  ai_explanation: s.string().default(""),
+  likely_causes: s.array(s.string()).default([]),
+  business_impact: s.string().default(""),
+  recommended_actions: s.array(s.string()).default([]),
+  confidence: confidenceSchema,
+});
+
+export interface SeverityCounts {
+  total: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+}
+
+const severityCountsSchema = s.object<SeverityCounts>({
+  total: s.number(),
+  critical: s.number(),
+  high: s.number(),
+  medium: s.number(),
+  low: s.number(),
+});
+
+export interface AnomalyResult {
+  detection_window_days: number;
+  baseline_weeks: number;
+  summary: SeverityCounts;
+  anomalies: Anomaly[];
+  cached: boolean;
+}
+
+const anomalyResultSchema = s.object<AnomalyResult>({
+  detection_window_days: s.number(),
+  baseline_weeks: s.number(),
+  summary: severityCountsSchema,
+  anomalies: s.array(anomalySchema),
+  cached: s.boolean().default(false),
+});
+
+export interface SeasonalityIndex {
+  month_num: number;
+  month_name: string;
+  seasonality_index: number | null;
+  avg_monthly_revenue_lyd: number;
+  data_points: number;
+  label: "peak" | "trough" | "normal" | "no_data";
+}
+
+const seasonalityIndexSchema = s.object<SeasonalityIndex>({
+  month_num: s.number(),
+  month_name: s.string(),
+  seasonality_index: s.number().nullable(),
+  avg_monthly_revenue_lyd: s.number(),
+  data_points: s.number(),
+  label: s.enumOf(["peak", "trough", "normal", "no_data"]),
+});
+
+export interface SeasonalTrend {
+  direction: string;
+  slope_pct_per_month: number;
+  slope_lyd_per_month: number;
+  r_squared: number;
+}
+
+const seasonalTrendSchema = s.object<SeasonalTrend>({
+  direction: s.string(),
+  slope_pct_per_month: s.number(),
+  slope_lyd_per_month: s.number(),
+  r_squared: s.number(),
+});
+
+export interface CategoryPattern {
+  category: string;
+  peak_month: number;
+  peak_month_name: string;
+  peak_index: number;
+  trough_month: number;
+  trough_month_name: string;
+  trough_index: number;
+}
+
+const categoryPatternSchema = s.object<CategoryPattern>({
+  category: s.string(),
+  peak_month: s.number(),
+  peak_month_name: s.string(),
+  peak_index: s.number(),
+  trough_month: s.number(),
+  trough_month_name: s.string(),
+  trough_index: s.number(),
+});
+
+export interface StockCalendarItem {
+  month: string;
+  action: string;
+  lead_time_weeks: number;
+  rationale: string;
+}
+
+const stockCalendarItemSchema = s.object<StockCalendarItem>({
+  month: s.string(),
+  action: s.string(),
+  lead_time_weeks: s.number(),
+  rationale: s.string(),
+});
+
+export interface RamadanAnalysis {
+  detected: boolean;
+  years_analyzed: number[];
+  avg_ramadan_index: number;
+  dominant_effect: string;
+  adjustment_note: string;
+}
+
+const ramadanAnalysisSchema = s.object<RamadanAnalysis>({
+  detected: s.boolean(),
+  years_analyzed: s.array(s.number()),
+  avg_ramadan_index: s.number(),
+  dominant_effect: s.string(),
+  adjustment_note: s.string(),
+});
+
+export interface SeasonalResult {
+  /** Set by the backend when there is insufficient data */
+  error?: string;
+  history_months: number;
+  current_season: string;
+  upcoming_peak_alert: boolean;
+  trend: SeasonalTrend;
+  seasonality_indices: Record<string, SeasonalityIndex>;
+  peak_months: number[];
+  peak_month_names: string[];
+  trough_months: number[];
+  trough_month_names: string[];
+  category_patterns: CategoryPattern[];
+  ramadan_analysis?: RamadanAnalysis;
+  seasonal_narrative: string;
+  stock_preparation_calendar: StockCalendarItem[];
+  staffing_implications: string;
+  ai_recommendations: string[];
+  confidence: Confidence;
+  cached: boolean;
+}
+
+const seasonalResultSchema = s.object<SeasonalResult>({
+  error: s.string().optional(),
+  history_months: s.number(),
+  current_season: s.string(),
+  upcoming_peak_alert: s.boolean().default(false),
+  trend: seasonalTrendSchema,
+  seasonality_indices: s.record(seasonalityIndexSchema),
+  peak_months: s.array(s.number()).default([]),
+  peak_month_names: s.array(s.string()).default([]),
+  trough_months: s.array(s.number()).default([]),
+  trough_month_names: s.array(s.string()).default([]),
+  category_patterns: s.array(categoryPatternSchema).default([]),
+  ramadan_analysis: ramadanAnalysisSchema.optional(),
+  seasonal_narrative: s.string().default(""),
+  stock_preparation_calendar: s.array(stockCalendarItemSchema).default([]),
+  staffing_implications: s.string().default(""),
+  ai_recommendations: s.array(s.string()).default([]),
+  confidence: confidenceSchema,
+  cached: s.boolean().default(false),
+});
+
+export interface ChurnPrediction {
+  customer_id: string | null;
+  account_code: string;
+  customer_name: string;
+  churn_score: number;
+  churn_label: Severity;
+  days_since_last_purchase: number;
+  purchase_count_12m: number;
+  avg_monthly_revenue_lyd: number;
+  avg_order_value_lyd: number;
+  revenue_trend: number;
+  aging_risk_score: string;
+  overdue_ratio: number;
+  total_receivable_lyd: number;
+  ai_explanation: string;
+  recommended_actions: string[];
+  key_risk_factors: string[];
+  confidence: Confidence;
+}
+
+const churnPredictionSchema = s.object<ChurnPrediction>({
+  customer_id: s.string().nullable(),
+  account_code: s.string(),
+  customer_name: s.string(),
+  churn_score: s.number(),
+  churn_label: severitySchema,
+  days_since_last_purchase: s.number(),
+  purchase_count_12m: s.number(),
+  avg_monthly_revenue_lyd: s.number(),
+  avg_order_value_lyd: s.number(),
+  revenue_trend: s.number(),
+  aging_risk_score: s.string(),
+  overdue_ratio: s.number(),
+  total_receivable_lyd: s.number(),
+  ai_explanation: s.string().default(""),
+  recommended_actions: s.array(s.string()).default([]),
+  key_risk_factors: s.array(s.string()).default([]),
+  confidence: confidenceSchema,
+});
+
+export interface ChurnSummary {
+  total: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+  avg_churn_score: number;
+}
+
+const churnSummarySchema = s.object<ChurnSummary>({
+  total: s.number(),
+  critical: s.number(),
+  high: s.number(),
+  medium: s.number(),
+  low: s.number(),
+  avg_churn_score: s.number(),
+});
+
+export interface ChurnResult {
+  company_id: string;
+  top_n: number;
+  ai_used: boolean;
+  summary: ChurnSummary;
+  predictions: ChurnPrediction[];
+  cached: boolean;
+}
+
+const churnResultSchema = s.object<ChurnResult>({
+  company_id: s.string(),
+  top_n: s.number(),
+  ai_used: s.boolean().default(false),
+  summary: churnSummarySchema,
+  predictions: s.array(churnPredictionSchema),
+  cached: s.boolean().default(false),
+});
+
+export interface OrderSuggestion {
+  quantity: number;
+  timing: string;
+  rationale: string;
+}
+
+const orderSuggestionSchema = s.object<OrderSuggestion>({
+  quantity: s.number(),
+  timing: s.string(),
+  rationale: s.string(),
+});
+
+export interface StockItem {
+  product_code: string;
+  product_name: string;
+  abc_class: "A" | "B" | "C";
+  total_revenue_lyd: number;
+  revenue_pct: number;
+  cumulative_pct: number;
+  current_stock: number;
+  avg_daily_demand: number;
+  revenue_per_unit_lyd: number;
+  reorder_point: number;
+  safety_stock: number;
+  eoq: number;
+  estimated_days_to_stockout: number | null;
+  urgency: "immediate" | "soon" | "watch" | "ok";
+  ai_recommendation: string;
+  order_suggestion: OrderSuggestion;
+  revenue_at_risk_lyd: number;
+  confidence: Confidence;
+}
+
+const stockItemSchema = s.object<StockItem>({
+  product_code: s.string(),
+  product_name: s.string(),
+  abc_class: s.enumOf(["A", "B", "C"]),
+  total_revenue_lyd: s.number(),
+  revenue_pct: s.number(),
+  cumulative_pct: s.number(),
+  current_stock: s.number(),
+  avg_daily_demand: s.number(),
+  revenue_per_unit_lyd: s.number(),
+  reorder_point: s.number(),
+  safety_stock: s.number(),
+  eoq: s.number(),
+  estimated_days_to_stockout: s.number().nullable(),
+  urgency: s.enumOf(["immediate", "soon", "watch", "ok"]),
+  ai_recommendation: s.string().default(""),
+  order_suggestion: orderSuggestionSchema,
+  revenue_at_risk_lyd: s.number(),
+  confidence: confidenceSchema,
+});
+
+export interface StockOptimizerSummary {
+  total_items: number;
+  class_a_count: number;
+  class_b_count: number;
+  class_c_count: number;
+  immediate_reorders: number;
+  soon_reorders: number;
+  items_at_or_below_rop: number;
+  total_revenue_covered_lyd: number;
+}
+
+const stockOptimizerSummarySchema = s.object<StockOptimizerSummary>({
+  total_items: s.number(),
+  class_a_count: s.number(),
+  class_b_count: s.number(),
+  class_c_count: s.number(),
+  immediate_reorders: s.number(),
+  soon_reorders: s.number(),
+  items_at_or_below_rop: s.number(),
+  total_revenue_covered_lyd: s.number(),
+});
+
+export interface StockResult {
+  analysis_window_days: number;
+  lead_time_days: number;
+  service_level: string;
+  total_sku_count: number;
+  summary: StockOptimizerSummary;
+  items: StockItem[];
+  cached: boolean;
+}
+
+const stockResultSchema = s.object<StockResult>({
+  analysis_window_days: s.number(),
+  lead_time_days: s.number(),
+  service_level: s.string(),
+  total_sku_count: s.number(),
+  summary: stockOptimizerSummarySchema,
+  items: s.array(stockItemSchema),
+  cached: s.boolean().default(false),
+});
+
+export interface ForecastMonth {
+  month: number;
+  year: number;
+  period: string;
+  base_lyd: number;
+  optimistic_lyd: number;
+  pessimistic_lyd: number;
+  seasonality_index: number;
+  trend_component: number;
+  upside_pct: number;
+  downside_pct: number;
+}
+
+const forecastMonthSchema = s.object<ForecastMonth>({
+  month: s.number(),
+  year: s.number(),
+  period: s.string(),
+  base_lyd: s.number(),
+  optimistic_lyd: s.number(),
+  pessimistic_lyd: s.number(),
+  seasonality_index: s.number(),
+  trend_component: s.number(),
+  upside_pct: s.number(),
+  downside_pct: s.number(),
+});
+
+export interface TrendModel {
+  slope: number;
+  intercept: number;
+  slope_pct: number;
+  r_squared: number;
+  residual_std: number;
+  last_t: number;
+  avg_revenue: number;
+  direction: string;
+}
+
+const trendModelSchema = s.object<TrendModel>({
+  slope: s.number(),
+  intercept: s.number(),
+  slope_pct: s.number(),
+  r_squared: s.number(),
+  residual_std: s.number(),
+  last_t: s.number(),
+  avg_revenue: s.number(),
+  direction: s.string(),
+});
+
+export interface PredictorRecommendation {
+  month_target: string;
+  action: string;
+  owner: string;
+  expected_impact_lyd: number;
+}
+
+const predictorRecommendationSchema = s.object<PredictorRecommendation>({
+  month_target: s.string(),
+  action: s.string(),
+  owner: s.string(),
+  expected_impact_lyd: s.number(),
+});
+
+export interface CashFlowMonth {
+  period: string;
+  expected_revenue_lyd: number;
+  expected_cash_collected_lyd: number;
+  collection_rate_pct: number;
+  collection_gap_lyd: number;
+}
+
+const cashFlowMonthSchema = s.object<CashFlowMonth>({
+  period: s.string(),
+  expected_revenue_lyd: s.number(),
+  expected_cash_collected_lyd: s.number(),
+  collection_rate_pct: s.number(),
+  collection_gap_lyd: s.number(),
+});
+
+export interface CustomerForecastMonth {
+  period: string;
+  projected_active_customers: number;
+  trend_per_month: number;
+}
+
+const customerForecastMonthSchema = s.object<CustomerForecastMonth>({
+  period: s.string(),
+  projected_active_customers: s.number(),
+  trend_per_month: s.number(),
+});
+
+export interface CashFlowForecast {
+  current_receivable_lyd: number;
+  current_overdue_lyd: number;
+  collection_rate_pct: number;
+  monthly_projections: CashFlowMonth[];
+}
+
+const cashFlowForecastSchema = s.object<CashFlowForecast>({
+  current_receivable_lyd: s.number(),
+  current_overdue_lyd: s.number(),
+  collection_rate_pct: s.number(),
+  monthly_projections: s.array(cashFlowMonthSchema).default([]),
+});
+
+export interface PredictorResult {
+  error?: string;
+  forecast_months: number;
+  history_months_used: number;
+  trend_model: TrendModel;
+  revenue_forecast: ForecastMonth[];
+  forecast_total_base_lyd: number;
+  forecast_total_optimistic_lyd: number;
+  forecast_total_pessimistic_lyd: number;
+  customer_forecast: CustomerForecastMonth[];
+  cash_flow_forecast: CashFlowForecast;
+  forecast_narrative: string;
+  primary_risk: string;
+  recommendations: PredictorRecommendation[];
+  confidence: Confidence;
+  cached: boolean;
+}
+
+const predictorResultSchema = s.object<PredictorResult>({
+  error: s.string().optional(),
+  forecast_months: s.number(),
+  history_months_used: s.number(),
+  trend_model: trendModelSchema,
+  revenue_forecast: s.array(forecastMonthSchema).default([]),
+  forecast_total_base_lyd: s.number(),
+  forecast_total_optimistic_lyd: s.number(),
+  forecast_total_pessimistic_lyd: s.number(),
+  customer_forecast: s.array(customerForecastMonthSchema).default([]),
+  cash_flow_forecast: cashFlowForecastSchema,
+  forecast_narrative: s.string().default(""),
+  primary_risk: s.string().default(""),
+  recommendations: s.array(predictorRecommendationSchema).default([]),
+  confidence: confidenceSchema,
+  cached: s.boolean().default(false),
+});
+
+// ─────────────────────────────────────────────
+// Endpoints — aging
+// ─────────────────────────────────────────────
+
+export type ListAgingParams = {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+  report_date?: string;
+  risk?: string;
+};
+
+export type GetAgingDistributionParams = {
+  report_date?: string;
+};
+
+export type GetAgingRiskParams = {
+  report_date?: string;
+  risk?: string;
+  limit?: number;
+};
+
+/** Paginated aging records of one report date — `GET /aging/` */
+export function listAging(
+  params?: ListAgingParams,
+  opts?: RequestOptions,
+): Promise<AgingListResponse> {
+  return request(agingListResponseSchema, "/aging/", { method: "GET", params, ...opts });
+}
+
+/** Distinct report dates — `GET /aging/dates/` */
+export function listAgingDates(
+  opts?: RequestOptions,
+): Promise<DateListResponse> {
+  return request(dateListResponseSchema, "/aging/dates/", { method: "GET", ...opts });
+}
+
+/** Receivables per aging bucket — `GET /aging/distribution/` */
+export function getAgingDistribution(
+  params?: GetAgingDistributionParams,
+  opts?: RequestOptions,
+): Promise<AgingDistributionResponse> {
+  return request(agingDistributionResponseSchema, "/aging/distribution/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Riskiest accounts — `GET /aging/risk/` */
+export function getAgingRisk(
+  params?: GetAgingRiskParams,
+  opts?: RequestOptions,
+): Promise<AgingRiskResponse> {
+  return request(agingRiskResponseSchema, "/aging/risk/", { method: "GET", params, ...opts });
+}
+
+/** Aging record detail — `GET /aging/{id}/` */
+export function getAgingRecord(
+  id: string,
+  opts?: RequestOptions,
+): Promise<AgingRecord> {
+  return request(
+    agingRecordSchema,
+    `/aging/${encodeURIComponent(id)}/`,
+    { method: "GET", ...opts },
+    "/aging/{id}/",
+  );
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — ai-insights
+// ─────────────────────────────────────────────
+
+export type GetAiInsightsAnomaliesParams = {
+  use_ai?: boolean;
+  refresh?: boolean;
+};
+
+export type GetAiInsightsChurnParams = {
+  top_n?: number;
+  use_ai?: boolean;
+  refresh?: boolean;
+};
+
+export type GetAiInsightsCriticalParams = {
+  use_ai?: boolean;
+  refresh?: boolean;
+};
+
+export type GetAiInsightsKpisParams = {
+  use_ai?: boolean;
+  refresh?: boolean;
+};
+
+export type GetAiInsightsPredictParams = {
+  use_ai?: boolean;
+  refresh?: boolean;
+};
+
+export type GetAiInsightsSeasonalParams = {
+  use_ai?: boolean;
+  refresh?: boolean;
+};
+
+export type GetAiInsightsStockParams = {
+  use_ai?: boolean;
+  refresh?: boolean;
+};
+
+/** AI insights — anomalies — `GET /ai-insights/anomalies/` */
+export function getAiInsightsAnomalies(
+  params?: GetAiInsightsAnomaliesParams,
+  opts?: RequestOptions,
+): Promise<AnomalyResult> {
+  return request(anomalyResultSchema, "/ai-insights/anomalies/", { method: "GET", params, ...opts });
+}
+
+/** AI insights — churn — `GET /ai-insights/churn/` */
+export function getAiInsightsChurn(
+  params?: GetAiInsightsChurnParams,
+  opts?: RequestOptions,
+): Promise<ChurnResult> {
+  return request(churnResultSchema, "/ai-insights/churn/", { method: "GET", params, ...opts });
+}
+
+/** AI insights — critical — `GET /ai-insights/critical/` */
+export function getAiInsightsCritical(
+  params?: GetAiInsightsCriticalParams,
+  opts?: RequestOptions,
+): Promise<CriticalDetectionResult> {
+  return request(criticalDetectionResultSchema, "/ai-insights/critical/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** AI insights — kpis — `GET /ai-insights/kpis/` */
+export function getAiInsightsKpis(
+  params?: GetAiInsightsKpisParams,
+  opts?: RequestOptions,
+): Promise<KPIResult> {
+  return request(kPIResultSchema, "/ai-insights/kpis/", { method: "GET", params, ...opts });
+}
+
+/** AI insights — predict — `GET /ai-insights/predict/` */
+export function getAiInsightsPredict(
+  params?: GetAiInsightsPredictParams,
+  opts?: RequestOptions,
+): Promise<PredictorResult> {
+  return request(predictorResultSchema, "/ai-insights/predict/", { method: "GET", params, ...opts });
+}
+
+/** AI insights — seasonal — `GET /ai-insights/seasonal/` */
+export function getAiInsightsSeasonal(
+  params?: GetAiInsightsSeasonalParams,
+  opts?: RequestOptions,
+): Promise<SeasonalResult> {
+  return request(seasonalResultSchema, "/ai-insights/seasonal/", { method: "GET", params, ...opts });
+}
+
+/** AI insights — stock — `GET /ai-insights/stock/` */
+export function getAiInsightsStock(
+  params?: GetAiInsightsStockParams,
+  opts?: RequestOptions,
+): Promise<StockResult> {
+  return request(stockResultSchema, "/ai-insights/stock/", { method: "GET", params, ...opts });
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — audit
+// ─────────────────────────────────────────────
+
+export type ListAuditLogParams = {
+  page?: number;
+  page_size?: number;
+  /** Matches the actor, the target and the before / after values */
+  search?: string;
+  /** Comma-separated AuditAction values */
+  action?: string;
+  target_type?: string;
+  target_id?: string;
+  /** User id of the actor */
+  actor?: string;
+  /** YYYY-MM-DD */
+  date_from?: string;
+  /** YYYY-MM-DD */
+  date_to?: string;
+};
+
+/** Audit trail, newest first — `GET /audit/` */
+export function listAuditLog(
+  params?: ListAuditLogParams,
+  opts?: RequestOptions,
+): Promise<AuditLogListResponse> {
+  return request(auditLogListResponseSchema, "/audit/", { method: "GET", params, ...opts });
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — auth
+// ─────────────────────────────────────────────
+
+/** Look up an invitation — `GET /auth/invites/{token}/`, unauthenticated */
+export function getInvite(
+  token: string,
+  opts?: RequestOptions,
+): Promise<InviteDetails> {
+  return request(
+    inviteDetailsSchema,
+    `/auth/invites/${encodeURIComponent(token)}/`,
+    { method: "GET", skipAuth: true, ...opts },
+    "/auth/invites/{token}/",
+  );
+}
+
+/** Set a password and activate the invited account — `POST /auth/invites/{token}/accept/`, unauthenticated */
+export function acceptInvite(
+  token: string,
+  body: AcceptInvitePayload,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(
+    messageResponseSchema,
+    `/auth/invites/${encodeURIComponent(token)}/accept/`,
+    { method: "POST", body: JSON.stringify(body), skipAuth: true, ...opts },
+    "/auth/invites/{token}/accept/",
+  );
+}
+
+/** Obtain a JWT pair — `POST /auth/login/`, unauthenticated */
+export function login(
+  body: LoginPayload,
+  opts?: RequestOptions,
+): Promise<LoginResponse> {
+  return request(loginResponseSchema, "/auth/login/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    skipAuth: true,
+    ...opts,
+  });
+}
+
+/** Complete a login with a TOTP or recovery code — `POST /auth/login/2fa/`, unauthenticated */
+export function loginTwoFactor(
+  body: TwoFactorLoginPayload,
+  opts?: RequestOptions,
+): Promise<TokenPair> {
+  return request(tokenPairSchema, "/auth/login/2fa/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    skipAuth: true,
+    ...opts,
+  });
+}
+
+/** Blacklist a refresh token — `POST /auth/logout/`, unauthenticated */
+export function logout(
+  body: LogoutPayload,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(messageResponseSchema, "/auth/logout/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    skipAuth: true,
+    ...opts,
+  });
+}
+
+/** Signed-in sessions of the current user — `GET /auth/sessions/` */
+export function listSessions(
+  opts?: RequestOptions,
+): Promise<SessionListResponse> {
+  return request(sessionListResponseSchema, "/auth/sessions/", { method: "GET", ...opts });
+}
+
+/** Sign out every session but the current one — `POST /auth/sessions/revoke-others/` */
+export function revokeOtherSessions(
+  opts?: RequestOptions,
+): Promise<RevokeSessionsResponse> {
+  return request(revokeSessionsResponseSchema, "/auth/sessions/revoke-others/", {
+    method: "POST",
+    ...opts,
+  });
+}
+
+/** Sign a session out — `DELETE /auth/sessions/{id}/` */
+export function revokeSession(
+  id: string,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(
+    messageResponseSchema,
+    `/auth/sessions/${encodeURIComponent(id)}/`,
+    { method: "DELETE", ...opts },
+    "/auth/sessions/{id}/",
+  );
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — companies
+// ─────────────────────────────────────────────
+
+/** All companies (admin) — `GET /companies/` */
+export function listCompanies(
+  opts?: RequestOptions,
+): Promise<CompanyListResponse> {
+  return request(companyListResponseSchema, "/companies/", { method: "GET", ...opts });
+}
+
+/** Create a company — `POST /companies/` */
+export function createCompany(
+  body: CompanyPayload,
+  opts?: RequestOptions,
+): Promise<Company> {
+  return request(companySchema, "/companies/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Update a company — `PATCH /companies/{id}/` */
+export function updateCompany(
+  id: string,
+  body: CompanyPayload,
+  opts?: RequestOptions,
+): Promise<Company> {
+  return request(
+    companySchema,
+    `/companies/${encodeURIComponent(id)}/`,
+    { method: "PATCH", body: JSON.stringify(body), ...opts },
+    "/companies/{id}/",
+  );
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — customers
+// ─────────────────────────────────────────────
+
+export type ListCustomersParams = {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+  area_code?: string;
+};
+
+export type GetCustomerMovementsParams = {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+};
+
+/** Paginated customers — `GET /customers/` */
+export function listCustomers(
+  params?: ListCustomersParams,
+  opts?: RequestOptions,
+): Promise<CustomersListResponse> {
+  return request(customersListResponseSchema, "/customers/", { method: "GET", params, ...opts });
+}
+
+/** Customer detail — `GET /customers/{id}/` */
+export function getCustomer(
+  id: string,
+  opts?: RequestOptions,
+): Promise<Customer> {
+  return request(
+    customerSchema,
+    `/customers/${encodeURIComponent(id)}/`,
+    { method: "GET", ...opts },
+    "/customers/{id}/",
+  );
+}
+
+/** Aging history of a customer — `GET /customers/{id}/aging/` */
+export function getCustomerAging(
+  id: string,
+  opts?: RequestOptions,
+): Promise<unknown> {
+  return apiFetch<unknown>(`/customers/${encodeURIComponent(id)}/aging/`, {
+    method: "GET",
+    ...opts,
+  });
+}
+
+/** Movements of a customer — `GET /customers/{id}/movements/` */
+export function getCustomerMovements(
+  id: string,
+  params?: GetCustomerMovementsParams,
+  opts?: RequestOptions,
+): Promise<unknown> {
+  return apiFetch<unknown>(`/customers/${encodeURIComponent(id)}/movements/`, {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — import
+// ─────────────────────────────────────────────
+
+export type ListImportLogsParams = {
+  page?: number;
+  page_size?: number;
+  file_type?: string;
+  status?: string;
+  /** User id of the uploader */
+  uploaded_by?: string;
+  /** YYYY-MM-DD, matched against started_at */
+  date_from?: string;
+  /** YYYY-MM-DD, matched against started_at */
+  date_to?: string;
+};
+
+export type ListMappingProfilesParams = {
+  file_type?: string;
+};
+
+/** Detect the file type of a workbook and preview its rows — `POST /import/detect/` (multipart: file) */
+export function detectImport(
+  body: FormData,
+  opts?: RequestOptions,
+): Promise<DetectResult> {
+  return request(detectResultSchema, "/import/detect/", { method: "POST", body, ...opts });
+}
+
+/** Import history — `GET /import/logs/` */
+export function listImportLogs(
+  params?: ListImportLogsParams,
+  opts?: RequestOptions,
+): Promise<ImportLogListResponse> {
+  return request(importLogListResponseSchema, "/import/logs/", { method: "GET", params, ...opts });
+}
+
+/** One import log — `GET /import/logs/{id}/` */
+export function getImportLog(
+  id: string,
+  opts?: RequestOptions,
+): Promise<ImportLogEntry> {
+  return request(
+    importLogEntrySchema,
+    `/import/logs/${encodeURIComponent(id)}/`,
+    { method: "GET", ...opts },
+    "/import/logs/{id}/",
+  );
+}
+
+/** Saved column mappings of the caller's company — `GET /import/mapping-profiles/` */
+export function listMappingProfiles(
+  params?: ListMappingProfilesParams,
+  opts?: RequestOptions,
+): Promise<MappingProfileListResponse> {
+  return request(mappingProfileListResponseSchema, "/import/mapping-profiles/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Save a column mapping under a name — `POST /import/mapping-profiles/` */
+export function createMappingProfile(
+  body: MappingProfilePayload,
+  opts?: RequestOptions,
+): Promise<MappingProfile> {
+  return request(mappingProfileSchema, "/import/mapping-profiles/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Rename or change a saved column mapping — `PATCH /import/mapping-profiles/{id}/` */
+export function updateMappingProfile(
+  id: string,
+  body: MappingProfilePayload,
+  opts?: RequestOptions,
+): Promise<MappingProfile> {
+  return request(
+    mappingProfileSchema,
+    `/import/mapping-profiles/${encodeURIComponent(id)}/`,
+    { method: "PATCH", body: JSON.stringify(body), ...opts },
+    "/import/mapping-profiles/{id}/",
+  );
+}
+
+/** Delete a saved column mapping — `DELETE /import/mapping-profiles/{id}/` */
+export function deleteMappingProfile(
+  id: string,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(
+    messageResponseSchema,
+    `/import/mapping-profiles/${encodeURIComponent(id)}/`,
+    { method: "DELETE", ...opts },
+    "/import/mapping-profiles/{id}/",
+  );
+}
+
+/** Dry-run an upload and describe what it would change — `POST /import/previews/` (multipart: file, file_type, snapshot_date, report_date, column_mapping) */
+export function previewImport(
+  body: FormData,
+  opts?: RequestOptions,
+): Promise<ImportPreview> {
+  return request(importPreviewSchema, "/import/previews/", { method: "POST", body, ...opts });
+}
+
+/** Discard a dry-run upload — `DELETE /import/previews/{id}/` */
+export function discardImportPreview(
+  id: string,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(
+    messageResponseSchema,
+    `/import/previews/${encodeURIComponent(id)}/`,
+    { method: "DELETE", ...opts },
+    "/import/previews/{id}/",
+  );
+}
+
+/** Import a dry-run upload — `POST /import/previews/{id}/commit/` */
+export function commitImportPreview(
+  id: string,
+  opts?: RequestOptions,
+): Promise<ImportResult> {
+  return request(
+    importResultSchema,
+    `/import/previews/${encodeURIComponent(id)}/commit/`,
+    { method: "POST", ...opts },
+    "/import/previews/{id}/commit/",
+  );
+}
+
+/** Blank import template for a file type — `GET /import/template/{file_type}/` */
+export function downloadImportTemplate(
+  fileType: string,
+  opts?: RequestOptions,
+): Promise<Blob> {
+  return apiFetch<Blob>(`/import/template/${encodeURIComponent(fileType)}/`, {
+    method: "GET",
+    responseType: "blob",
+    ...opts,
+  });
+}
+
+/** Upload a workbook and import it — `POST /import/upload/` (multipart: file, file_type, snapshot_date, report_date, column_mapping) */
+export function uploadImport(
+  body: FormData,
+  opts?: RequestOptions,
+): Promise<ImportResult> {
+  return request(importResultSchema, "/import/upload/", { method: "POST", body, ...opts });
+}
+
+/** Start a resumable chunked upload — `POST /import/uploads/` */
+export function startChunkedUpload(
+  body: StartChunkedUploadPayload,
+  opts?: RequestOptions,
+): Promise<ChunkedUpload> {
+  return request(chunkedUploadSchema, "/import/uploads/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** How much of a chunked upload has arrived — `GET /import/uploads/{id}/` */
+export function getChunkedUpload(
+  id: string,
+  opts?: RequestOptions,
+): Promise<ChunkedUpload> {
+  return request(
+    chunkedUploadSchema,
+    `/import/uploads/${encodeURIComponent(id)}/`,
+    { method: "GET", ...opts },
+    "/import/uploads/{id}/",
+  );
+}
+
+/** Cancel a chunked upload and drop its chunks — `DELETE /import/uploads/{id}/` */
+export function cancelChunkedUpload(
+  id: string,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(
+    messageResponseSchema,
+    `/import/uploads/${encodeURIComponent(id)}/`,
+    { method: "DELETE", ...opts },
+    "/import/uploads/{id}/",
+  );
+}
+
+/** Append one chunk — `POST /import/uploads/{id}/chunks/` (multipart: offset, chunk) */
+export function uploadChunk(
+  id: string,
+  body: FormData,
+  opts?: RequestOptions,
+): Promise<ChunkedUpload> {
+  return request(
+    chunkedUploadSchema,
+    `/import/uploads/${encodeURIComponent(id)}/chunks/`,
+    { method: "POST", body, ...opts },
+    "/import/uploads/{id}/chunks/",
+  );
+}
+
+/** Import a fully received chunked upload — `POST /import/uploads/{id}/complete/` */
+export function completeChunkedUpload(
+  id: string,
+  opts?: RequestOptions,
+): Promise<ImportLogEntry> {
+  return request(
+    importLogEntrySchema,
+    `/import/uploads/${encodeURIComponent(id)}/complete/`,
+    { method: "POST", ...opts },
+    "/import/uploads/{id}/complete/",
+  );
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — inventory
+// ─────────────────────────────────────────────
+
+export type ListInventorySnapshotsParams = {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+};
+
+export type GetInventoryBranchSummaryParams = {
+  snapshot_id?: string;
+  branch?: string;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+export type GetInventoryCategoryBreakdownParams = {
+  snapshot_id?: string;
+  branch?: string;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+export type ListInventoryLinesParams = {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+  branch?: string;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+/** Snapshot sessions, newest first — `GET /inventory/` */
+export function listInventorySnapshots(
+  params?: ListInventorySnapshotsParams,
+  opts?: RequestOptions,
+): Promise<InventorySnapshotListResponse> {
+  return request(inventorySnapshotListResponseSchema, "/inventory/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Stock totals per branch — `GET /inventory/branch-summary/` */
+export function getInventoryBranchSummary(
+  params?: GetInventoryBranchSummaryParams,
+  opts?: RequestOptions,
+): Promise<BranchSummaryResponse> {
+  return request(branchSummaryResponseSchema, "/inventory/branch-summary/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Stock totals per category — `GET /inventory/category-breakdown/` */
+export function getInventoryCategoryBreakdown(
+  params?: GetInventoryCategoryBreakdownParams,
+  opts?: RequestOptions,
+): Promise<CategoryBreakdownResponse> {
+  return request(categoryBreakdownResponseSchema, "/inventory/category-breakdown/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Distinct upload dates — `GET /inventory/dates/` */
+export function listInventoryDates(
+  opts?: RequestOptions,
+): Promise<DateListResponse> {
+  return request(dateListResponseSchema, "/inventory/dates/", { method: "GET", ...opts });
+}
+
+/** Snapshot detail including its branches — `GET /inventory/{id}/` */
+export function getInventorySnapshot(
+  id: string,
+  opts?: RequestOptions,
+): Promise<InventorySnapshot> {
+  return request(
+    inventorySnapshotSchema,
+    `/inventory/${encodeURIComponent(id)}/`,
+    { method: "GET", ...opts },
+    "/inventory/{id}/",
+  );
+}
+
+/** Delete a snapshot and all its lines — `DELETE /inventory/{id}/` */
+export function deleteInventorySnapshot(
+  id: string,
+  opts?: RequestOptions,
+): Promise<void> {
+  return apiFetch<void>(`/inventory/${encodeURIComponent(id)}/`, { method: "DELETE", ...opts });
+}
+
+/** Product × branch lines of one snapshot — `GET /inventory/{snapshot_id}/lines/` */
+export function listInventoryLines(
+  snapshotId: string,
+  params?: ListInventoryLinesParams,
+  opts?: RequestOptions,
+): Promise<InventoryLinesResponse> {
+  return request(
+    inventoryLinesResponseSchema,
+    `/inventory/${encodeURIComponent(snapshotId)}/lines/`,
+    { method: "GET", params, ...opts },
+    "/inventory/{snapshot_id}/lines/",
+  );
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — kpi
+// ─────────────────────────────────────────────
+
+export type GetCreditKpisParams = {
+  report_date?: string;
+};
+
+export type GetSalesKpisParams = {
+  year?: number;
+  date_from?: string;
+  date_to?: string;
+  branch?: string;
+  top_n?: number;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+export type GetStockKpisParams = {
+  snapshot_date?: string;
+  year?: number;
+  branch?: string;
+  low_rotation_threshold?: number;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+/** Credit KPIs — `GET /kpi/credit/` */
+export function getCreditKpis(
+  params?: GetCreditKpisParams,
+  opts?: RequestOptions,
+): Promise<CreditKPIData> {
+  return request(creditKPIDataSchema, "/kpi/credit/", { method: "GET", params, ...opts });
+}
+
+/** Sales KPIs — `GET /kpi/sales/` */
+export function getSalesKpis(
+  params?: GetSalesKpisParams,
+  opts?: RequestOptions,
+): Promise<SalesKPIData> {
+  return request(salesKPIDataSchema, "/kpi/sales/", { method: "GET", params, ...opts });
+}
+
+/** Stock KPIs — `GET /kpi/stock/` */
+export function getStockKpis(
+  params?: GetStockKpisParams,
+  opts?: RequestOptions,
+): Promise<StockKPIData> {
+  return request(stockKPIDataSchema, "/kpi/stock/", { method: "GET", params, ...opts });
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — products
+// ─────────────────────────────────────────────
+
+export type ListProductsParams = {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+  category?: string;
+};
+
+export type GetProductInventoryParams = {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+};
+
+export type GetProductMovementsParams = {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+};
+
+/** Paginated products — `GET /products/` */
+export function listProducts(
+  params?: ListProductsParams,
+  opts?: RequestOptions,
+): Promise<ProductsListResponse> {
+  return request(productsListResponseSchema, "/products/", { method: "GET", params, ...opts });
+}
+
+/** Distinct product categories — `GET /products/categories/` */
+export function listProductCategories(
+  opts?: RequestOptions,
+): Promise<CategoryListResponse> {
+  return request(categoryListResponseSchema, "/products/categories/", { method: "GET", ...opts });
+}
+
+/** Product detail — `GET /products/{id}/` */
+export function getProduct(
+  id: string,
+  opts?: RequestOptions,
+): Promise<Product> {
+  return request(
+    productSchema,
+    `/products/${encodeURIComponent(id)}/`,
+    { method: "GET", ...opts },
+    "/products/{id}/",
+  );
+}
+
+/** Inventory history of a product — `GET /products/{id}/inventory/` */
+export function getProductInventory(
+  id: string,
+  params?: GetProductInventoryParams,
+  opts?: RequestOptions,
+): Promise<unknown> {
+  return apiFetch<unknown>(`/products/${encodeURIComponent(id)}/inventory/`, {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Movements of a product — `GET /products/{id}/movements/` */
+export function getProductMovements(
+  id: string,
+  params?: GetProductMovementsParams,
+  opts?: RequestOptions,
+): Promise<unknown> {
+  return apiFetch<unknown>(`/products/${encodeURIComponent(id)}/movements/`, {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — transactions
+// ─────────────────────────────────────────────
+
+export type ListTransactionsParams = {
+  page?: number;
+  page_size?: number;
+  search?: string;
+  ordering?: string;
+  /** Raw Arabic movement_type value, e.g. "ف بيع" */
+  movement_type?: string;
+  branch?: string;
+  date_from?: string;
+  date_to?: string;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+export type GetTransactionsBranchBreakdownParams = {
+  movement_type?: string;
+  date_from?: string;
+  date_to?: string;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+export type GetTransactionsBranchMonthlyParams = {
+  movement_type?: string;
+  year?: number;
+  date_from?: string;
+  date_to?: string;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+export type GetTransactionsSummaryParams = {
+  year?: number;
+  months?: number;
+  branch?: string;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+export type GetTransactionsTypeBreakdownParams = {
+  date_from?: string;
+  date_to?: string;
+  branch?: string;
+  /** Comma-separated branch names the caller is limited to. Sent by the client for users with allowed_branches; the server also enforces it. */
+  branches?: string;
+};
+
+/** Paginated movements — `GET /transactions/` */
+export function listTransactions(
+  params?: ListTransactionsParams,
+  opts?: RequestOptions,
+): Promise<MovementsListResponse> {
+  return request(movementsListResponseSchema, "/transactions/", { method: "GET", params, ...opts });
+}
+
+/** Totals per branch for one movement type (sales by default) — `GET /transactions/branch-breakdown/` */
+export function getTransactionsBranchBreakdown(
+  params?: GetTransactionsBranchBreakdownParams,
+  opts?: RequestOptions,
+): Promise<BranchBreakdownResponse> {
+  return request(branchBreakdownResponseSchema, "/transactions/branch-breakdown/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Monthly totals per branch — `GET /transactions/branch-monthly/` */
+export function getTransactionsBranchMonthly(
+  params?: GetTransactionsBranchMonthlyParams,
+  opts?: RequestOptions,
+): Promise<BranchMonthlyResponse> {
+  return request(branchMonthlyResponseSchema, "/transactions/branch-monthly/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Distinct raw movement_type values for this company — `GET /transactions/movement-types/` */
+export function listMovementTypes(
+  opts?: RequestOptions,
+): Promise<MovementTypesResponse> {
+  return request(movementTypesResponseSchema, "/transactions/movement-types/", {
+    method: "GET",
+    ...opts,
+  });
+}
+
+/** Monthly sales / purchases summary — `GET /transactions/summary/` */
+export function getTransactionsSummary(
+  params?: GetTransactionsSummaryParams,
+  opts?: RequestOptions,
+): Promise<MonthlySummaryResponse> {
+  return request(monthlySummaryResponseSchema, "/transactions/summary/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Totals per movement type — `GET /transactions/type-breakdown/` */
+export function getTransactionsTypeBreakdown(
+  params?: GetTransactionsTypeBreakdownParams,
+  opts?: RequestOptions,
+): Promise<TypeBreakdownResponse> {
+  return request(typeBreakdownResponseSchema, "/transactions/type-breakdown/", {
+    method: "GET",
+    params,
+    ...opts,
+  });
+}
+
+/** Movement detail — `GET /transactions/{id}/` */
+export function getTransaction(
+  id: string,
+  opts?: RequestOptions,
+): Promise<unknown> {
+  return apiFetch<unknown>(`/transactions/${encodeURIComponent(id)}/`, { method: "GET", ...opts });
+}
+
+// ─────────────────────────────────────────────
+// Endpoints — users
+// ─────────────────────────────────────────────
+
+export type ListUsersParams = {
+  role?: string;
+  /** One status, or several separated by commas. */
+  status?: string;
+};
+
+/** 2FA state of the current user — `GET /users/2fa/` */
+export function getTwoFactorStatus(
+  opts?: RequestOptions,
+): Promise<TwoFactorStatus> {
+  return request(twoFactorStatusSchema, "/users/2fa/", { method: "GET", ...opts });
+}
+
+/** Turn 2FA off — `POST /users/2fa/disable/` */
+export function disableTwoFactor(
+  body: TwoFactorDisablePayload,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(messageResponseSchema, "/users/2fa/disable/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Confirm enrollment with a first code — `POST /users/2fa/enable/` */
+export function enableTwoFactor(
+  body: TwoFactorCodePayload,
+  opts?: RequestOptions,
+): Promise<RecoveryCodesResponse> {
+  return request(recoveryCodesResponseSchema, "/users/2fa/enable/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Replace the recovery codes — `POST /users/2fa/recovery-codes/` */
+export function regenerateRecoveryCodes(
+  body: TwoFactorCodePayload,
+  opts?: RequestOptions,
+): Promise<RecoveryCodesResponse> {
+  return request(recoveryCodesResponseSchema, "/users/2fa/recovery-codes/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Start 2FA enrollment with a new secret — `POST /users/2fa/setup/` */
+export function setupTwoFactor(
+  opts?: RequestOptions,
+): Promise<TwoFactorSetupResponse> {
+  return request(twoFactorSetupResponseSchema, "/users/2fa/setup/", { method: "POST", ...opts });
+}
+
+/** Agents of the manager's company — `GET /users/agents/` */
+export function listAgents(
+  opts?: RequestOptions,
+): Promise<AgentListResponse> {
+  return request(agentListResponseSchema, "/users/agents/", { method: "GET", ...opts });
+}
+
+/** Create several agent accounts at once — `POST /users/agents/bulk-create/` */
+export function bulkCreateAgents(
+  body: BulkCreateAgentsPayload,
+  opts?: RequestOptions,
+): Promise<BulkCreateAgentsResponse> {
+  return request(bulkCreateAgentsResponseSchema, "/users/agents/bulk-create/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Create an agent account — `POST /users/agents/create/` */
+export function createAgent(
+  body: CreateAgentPayload,
+  opts?: RequestOptions,
+): Promise<CreateAgentResponse> {
+  return request(createAgentResponseSchema, "/users/agents/create/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Delete an agent — `DELETE /users/agents/{id}/` */
+export function deleteAgent(
+  id: string,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(
+    messageResponseSchema,
+    `/users/agents/${encodeURIComponent(id)}/`,
+    { method: "DELETE", ...opts },
+    "/users/agents/{id}/",
+  );
+}
+
+/** Revoke a pending invitation — `DELETE /users/agents/{id}/invite/` */
+export function revokeInvite(
+  id: string,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(
+    messageResponseSchema,
+    `/users/agents/${encodeURIComponent(id)}/invite/`,
+    { method: "DELETE", ...opts },
+    "/users/agents/{id}/invite/",
+  );
+}
+
+/** Email a new invitation link — `POST /users/agents/{id}/invite/resend/` */
+export function resendInvite(
+  id: string,
+  opts?: RequestOptions,
+): Promise<InviteResponse> {
+  return request(
+    inviteResponseSchema,
+    `/users/agents/${encodeURIComponent(id)}/invite/resend/`,
+    { method: "POST", ...opts },
+    "/users/agents/{id}/invite/resend/",
+  );
+}
+
+/** Change the current password — `POST /users/change-password/` */
+export function changePassword(
+  body: ChangePasswordPayload,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(messageResponseSchema, "/users/change-password/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Set a new password from a reset token — `POST /users/password-reset/confirm/`, unauthenticated */
+export function confirmPasswordReset(
+  body: PasswordResetConfirmPayload,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(messageResponseSchema, "/users/password-reset/confirm/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    skipAuth: true,
+    ...opts,
+  });
+}
+
+/** Ask an admin to reset a password — `POST /users/password-reset/request/` */
+export function requestPasswordReset(
+  body: PasswordResetRequestPayload,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(messageResponseSchema, "/users/password-reset/request/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Current user — `GET /users/profile/` */
+export function getProfile(
+  opts?: RequestOptions,
+): Promise<BackendUser> {
+  return request(backendUserSchema, "/users/profile/", { method: "GET", ...opts });
+}
+
+/** Update the current user — `PATCH /users/profile/` */
+export function updateProfile(
+  body: UpdateProfilePayload,
+  opts?: RequestOptions,
+): Promise<ProfileUpdateResponse> {
+  return request(profileUpdateResponseSchema, "/users/profile/", {
+    method: "PATCH",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Role templates of the manager's company — `GET /users/role-templates/` */
+export function listRoleTemplates(
+  opts?: RequestOptions,
+): Promise<RoleTemplateListResponse> {
+  return request(roleTemplateListResponseSchema, "/users/role-templates/", {
+    method: "GET",
+    ...opts,
+  });
+}
+
+/** Create a role template — `POST /users/role-templates/` */
+export function createRoleTemplate(
+  body: RoleTemplatePayload,
+  opts?: RequestOptions,
+): Promise<RoleTemplate> {
+  return request(roleTemplateSchema, "/users/role-templates/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Rename or change the permissions of a role template — `PATCH /users/role-templates/{id}/` */
+export function updateRoleTemplate(
+  id: string,
+  body: RoleTemplatePayload,
+  opts?: RequestOptions,
+): Promise<RoleTemplate> {
+  return request(
+    roleTemplateSchema,
+    `/users/role-templates/${encodeURIComponent(id)}/`,
+    { method: "PATCH", body: JSON.stringify(body), ...opts },
+    "/users/role-templates/{id}/",
+  );
+}
+
+/** Delete a role template — `DELETE /users/role-templates/{id}/` */
+export function deleteRoleTemplate(
+  id: string,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(
+    messageResponseSchema,
+    `/users/role-templates/${encodeURIComponent(id)}/`,
+    { method: "DELETE", ...opts },
+    "/users/role-templates/{id}/",
+  );
+}
+
+/** Replace the permissions of agents with those of a template — `POST /users/role-templates/{id}/apply/` */
+export function applyRoleTemplate(
+  id: string,
+  body: ApplyRoleTemplatePayload,
+  opts?: RequestOptions,
+): Promise<ApplyRoleTemplateResponse> {
+  return request(
+    applyRoleTemplateResponseSchema,
+    `/users/role-templates/${encodeURIComponent(id)}/apply/`,
+    { method: "POST", body: JSON.stringify(body), ...opts },
+    "/users/role-templates/{id}/apply/",
+  );
+}
+
+/** Platform security policy — `GET /users/security-policy/` */
+export function getSecurityPolicy(
+  opts?: RequestOptions,
+): Promise<SecurityPolicy> {
+  return request(securityPolicySchema, "/users/security-policy/", { method: "GET", ...opts });
+}
+
+/** Update the platform security policy (admin) — `PATCH /users/security-policy/` */
+export function updateSecurityPolicy(
+  body: SecurityPolicy,
+  opts?: RequestOptions,
+): Promise<SecurityPolicy> {
+  return request(securityPolicySchema, "/users/security-policy/", {
+    method: "PATCH",
+    body: JSON.stringify(body),
+    ...opts,
+  });
+}
+
+/** Manager self-registration — `POST /users/signup/`, unauthenticated */
+export function managerSignup(
+  body: ManagerSignupPayload,
+  opts?: RequestOptions,
+): Promise<ManagerSignupResponse> {
+  return request(managerSignupResponseSchema, "/users/signup/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    skipAuth: true,
+    ...opts,
+  });
+}
+
+/** Signup details, documents and review history (admin) — `GET /users/signup/applications/{id}/` */
+export function getManagerApplication(
+  id: string,
+  opts?: RequestOptions,
+): Promise<ManagerApplication> {
+  return request(
+    managerApplicationSchema,
+    `/users/signup/applications/${encodeURIComponent(id)}/`,
+    { method: "GET", ...opts },
+    "/users/signup/applications/{id}/",
+  );
+}
+
+/** Add an internal review note (admin) — `POST /users/signup/applications/{id}/notes/` */
+export function addReviewNote(
+  id: string,
+  body: ReviewNotePayload,
+  opts?: RequestOptions,
+): Promise<ReviewEvent> {
+  return request(
+    reviewEventSchema,
+    `/users/signup/applications/${encodeURIComponent(id)}/notes/`,
+    { method: "POST", body: JSON.stringify(body), ...opts },
+    "/users/signup/applications/{id}/notes/",
+  );
+}
+
+/** Upload a company document for a signup — `POST /users/signup/documents/` (multipart: file, kind), unauthenticated */
+export function uploadSignupDocument(
+  body: FormData,
+  opts?: RequestOptions,
+): Promise<SignupDocument> {
+  return request(signupDocumentSchema, "/users/signup/documents/", {
+    method: "POST",
+    body,
+    skipAuth: true,
+    ...opts,
+  });
+}
+
+/** Content of a signup document (admin) — `GET /users/signup/documents/{id}/` */
+export function downloadSignupDocument(
+  id: string,
+  opts?: RequestOptions,
+): Promise<Blob> {
+  return apiFetch<Blob>(`/users/signup/documents/${encodeURIComponent(id)}/`, {
+    method: "GET",
+    responseType: "blob",
+    ...opts,
+  });
+}
+
+/** Managers awaiting approval — `GET /users/signup/pending/` */
+export function listPendingManagers(
+  opts?: RequestOptions,
+): Promise<PendingManagersResponse> {
+  return request(pendingManagersResponseSchema, "/users/signup/pending/", {
+    method: "GET",
+    ...opts,
+  });
+}
+
+/** Answer a request for information — `POST /users/signup/resubmit/`, unauthenticated */
+export function resubmitApplication(
+  body: ResubmitApplicationPayload,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(messageResponseSchema, "/users/signup/resubmit/", {
+    method: "POST",
+    body: JSON.stringify(body),
+    skipAuth: true,
+    ...opts,
+  });
+}
+
+/** Approve or reject a manager — `POST /users/signup/review/{id}/` */
+export function reviewManager(
+  id: string,
+  body: ApproveRejectPayload,
+  opts?: RequestOptions,
+): Promise<ReviewManagerResponse> {
+  return request(
+    reviewManagerResponseSchema,
+    `/users/signup/review/${encodeURIComponent(id)}/`,
+    { method: "POST", body: JSON.stringify(body), ...opts },
+    "/users/signup/review/{id}/",
+  );
+}
+
+/** All users (admin) — `GET /users/users/` */
+export function listUsers(
+  params?: ListUsersParams,
+  opts?: RequestOptions,
+): Promise<UserListResponse> {
+  return request(userListResponseSchema, "/users/users/", { method: "GET", params, ...opts });
+}
+
+/** Replace the permissions of a user — `PATCH /users/users/{id}/permissions/` */
+export function updateUserPermissions(
+  id: string,
+  body: UpdatePermissionsPayload,
+  opts?: RequestOptions,
+): Promise<UpdatePermissionsResponse> {
+  return request(
+    updatePermissionsResponseSchema,
+    `/users/users/${encodeURIComponent(id)}/permissions/`,
+    { method: "PATCH", body: JSON.stringify(body), ...opts },
+    "/users/users/{id}/permissions/",
+  );
+}
+
+/** Activate or suspend a user — `PATCH /users/users/{id}/status/` */
+export function updateUserStatus(
+  id: string,
+  body: UpdateStatusPayload,
+  opts?: RequestOptions,
+): Promise<MessageResponse> {
+  return request(
+    messageResponseSchema,
+    `/users/users/${encodeURIComponent(id)}/status/`,
+    { method: "PATCH", body: JSON.stringify(body), ...opts },
+    "/users/users/{id}/status/",
+  );
+}
@@ -0,0 +1,255 @@
+import { MOVEMENT_TYPES } from './dataApi';
+import type { ColumnMatches } from './columnMapping';
+import type { SheetRowsMessage, SheetRowsRequest } from './sheetRows.worker';
+
+// ─────────────────────────────────────────────
+// Import pre-validation
+// Reads a workbook in the browser and checks it against the rules of its
+// template before anything is uploaded, so a bad aging file fails in seconds
+// instead of after a full upload and server parse. Columns are the template's
+// exact headers; the column mapping says which file column holds each one.
+// ─────────────────────────────────────────────
+
+type ValueKind = 'text' | 'number' | 'date' | 'movement_type';
+
+interface ColumnRule {
+  kind: ValueKind;
+  /** The column must be in the file and every row must have a value. */
+  required?: boolean;
+  /** No two rows may share a value. */
+  unique?: boolean;
+  /** Backend field the column is stored in, shown next to the header. */
+  field?: string;
+}
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface CellIssue {
+  /** Template column the issue is about. */
+  column: string;
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface CheckedRow {
+  /** Row number in the sheet. */
+  row: number;
+  /** Display value of each checked template column. */
+  values: Record<string, string>;
+  issues: CellIssue[];
+}
+
+export interface ValidationReport {
+  /** Template columns that were checked, in template order. */
+  columns: string[];
+  /** Required template columns the file does not have. */
+  missingColumns: string[];
+  rows: CheckedRow[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/** A workbook's first sheet as rows of cell values, from sheet row 1 on (title rows and headers included). */
+export type SheetRows = unknown[][];
+
+interface TemplateRules {
+  /** Sheet row holding the headers, below any title rows; the data starts on the next row. Defaults to 1. */
+  headerRow?: number;
+  /** Keyed by exact template header. Columns without a rule are not checked. */
+  columns: Record<string, ColumnRule>;
+}
+
+const number = (field?: string): ColumnRule => ({ kind: 'number', field });
+
+const AGING_BUCKETS: Record<string, string> = {
+  'الحالي': 'current',
+  '1-30 يوم': 'd1_30',
+  '31-60 يوم': 'd31_60',
+  '61-90 يوم': 'd61_90',
+  '91-120 يوم': 'd91_120',
+  '121-150 يوم': 'd121_150',
+  '151-180 يوم': 'd151_180',
+  '181-210 يوم': 'd181_210',
+  '211-240 يوم': 'd211_240',
+  '241-270 يوم': 'd241_270',
+  '271-300 يوم': 'd271_300',
+  '301-330 يوم': 'd301_330',
+  'أكثر من 330 يوم': 'over_330',
+  'المجموع': 'total',
+};
+
+/** Checks per template. */
+export const IMPORT_RULES: Record<string, TemplateRules> = {
+  customers: {
+    columns: {
+      'اسم العميل': { kind: 'text', required: true },
+      'رمز الحساب': { kind: 'text', required: true, unique: true },
+    },
+  },
+  branches: {
+    columns: {
+      'الفرع': { kind: 'text', required: true, unique: true },
+    },
+  },
+  aging: {
+    columns: {
+      'الحساب': { kind: 'text', required: true },
+      ...Object.fromEntries(Object.entries(AGING_BUCKETS).map(([header, field]) => [header, number(field)])),
+    },
+  },
+  inventory: {
+    columns: {
+      'رمز المادة': { kind: 'text', required: true, unique: true },
+      'اسم المادة': { kind: 'text', required: true },
+      'إجمالي كمية (الوحدة الافتراضية)': number(),
+      'السعر (كلفة الشركة)': number(),
+      'إجمالي قيمة': number(),
+    },
+  },
+  movements: {
+    columns: {
+      'رمز  المادة': { kind: 'text', required: true },
+      'تاريخ': { kind: 'date', required: true },
+      'حركة.1': { kind: 'movement_type', required: true },
+      'كمية  الادخلات': number(),
+      'سعر  الادخلات': number(),
+      'اجمالي  الادخلات': number(),
+      'كمية  الاخراجات': number(),
+      'سعر  الاخراجات': number(),
+      'اجمالي   الاخراجات': number(),
+      'سعر  الرصيد': number(),
+    },
+  },
+};
+
+const KNOWN_MOVEMENT_TYPES: string[] = Object.values(MOVEMENT_TYPES);
+
+/** Runs one request in a Web Worker of its own, so large workbooks don't block the page. */
+function inWorker(request: SheetRowsRequest): Promise<Exclude<SheetRowsMessage, { error: string }>> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./sheetRows.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<SheetRowsMessage>) => {
+      worker.terminate();
+      if ('error' in event.data) reject(new Error(event.data.error));
+      else resolve(event.data);
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    worker.postMessage(request);
+  });
+}
+
+/** The first sheet of `file`. */
+export async function readSheetRows(file: File): Promise<SheetRows> {
+  const result = await inWorker({ file });
+  return 'rows' in result ? result.rows : [];
+}
+
+const display = (value: unknown): string =>
+  value instanceof Date ? value.toISOString().slice(0, 10) : String(value ?? '');
+
+/** "1,234.50", "(250)" and Arabic-Indic digits count as numbers; blank cells too. */
+function isNumeric(value: unknown): boolean {
+  if (typeof value === 'number') return Number.isFinite(value);
+  const text = String(value)
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/٫/g, '.')
+    .replace(/[,\s٬]/g, '')
+    .replace(/^\((.*)\)$/, '-$1');
+  return text === '' || /^-?\d+(\.\d+)?$/.test(text);
+}
+
+/** Excel dates, serial numbers, YYYY-MM-DD and D/M/YYYY (or with - or .) parse. */
+function isDate(value: unknown): boolean {
+  if (value instanceof Date) return !Number.isNaN(value.getTime());
+  if (typeof value === 'number') return value > 0;
+  const text = String(value).trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return validDay(+match[1], +match[2], +match[3]);
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) return validDay(+match[3] < 100 ? 2000 + +match[3] : +match[3], +match[2], +match[1]);
+  return false;
+}
+
+function validDay(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function checkValue(rule: ColumnRule, value: unknown): Omit<CellIssue, 'column'> | null {
+  const text = display(value);
+  if (!text.trim()) return rule.required ? { severity: 'error', message: 'Required value is empty.' } : null;
+  switch (rule.kind) {
+    case 'number':
+      return isNumeric(value) ? null : { severity: 'error', message: 'Not a number.' };
+    case 'date':
+      return isDate(value) ? null : { severity: 'error', message: 'Not a date the import can read.' };
+    case 'movement_type': {
+      const trimmed = text.trim().replace(/\s+/g, ' ');
+      if (!KNOWN_MOVEMENT_TYPES.includes(trimmed)) return { severity: 'warning', message: 'Unknown movement type.' };
+      return trimmed === text ? null : { severity: 'warning', message: 'Movement type has stray spaces.' };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks every data row of a sheet against the rules of `fileType`, reading
+ * each template column from the file column `matches` assigns to it.
+ */
+export function validateSheet(rows: SheetRows, fileType: string, matches: ColumnMatches): ValidationReport {
+  const { headerRow = 1, columns: rules } = IMPORT_RULES[fileType] ?? { columns: {} };
+  const headers = (rows[headerRow - 1] ?? []).map(display);
+  const columns = Object.keys(rules).filter(column => matches[column]);
+  const missingColumns = Object.keys(rules).filter(column => rules[column].required && !matches[column]);
+  const indexOf = Object.fromEntries(columns.map(column => [column, headers.indexOf(matches[column].source)]));
+  const seen: Record<string, Map<string, number>> = {};
+
+  const checked: CheckedRow[] = [];
+  rows.slice(headerRow).forEach((cells, i) => {
+    if (cells.every(cell => !display(cell).trim())) return;
+    const row = headerRow + i + 1;
+    const values: Record<string, string> = {};
+    const issues: CellIssue[] = [];
+    for (const column of columns) {
+      const rule = rules[column];
+      const value = cells[indexOf[column]];
+      values[column] = display(value);
+      const issue = checkValue(rule, value);
+      if (issue) issues.push({ column, ...issue });
+      const key = values[column].trim();
+      if (rule.unique && key) {
+        const codes = seen[column] ?? (seen[column] = new Map());
+        const first = codes.get(key);
+        if (first) issues.push({ column, severity: 'error', message: `Duplicate — also on row ${first}.` });
+        else codes.set(key, row);
+      }
+    }
+    checked.push({ row, values, issues });
+  });
+
+  const count = (severity: IssueSeverity) =>
+    checked.reduce((n, r) => n + r.issues.filter(issue => issue.severity === severity).length, 0);
+  return {
+    columns,
+    missingColumns,
+    rows: checked,
+    errorCount: count('error') + missingColumns.length,
+    warningCount: count('warning'),
+  };
+}
+
+/**
+ * `file` without the excluded sheet rows, to upload in place of the original.
+ * The other sheets and the rest of the first one stay as they are.
+ */
+export async function withoutRows(file: File, excluded: Set<number>): Promise<File> {
+  const result = await inWorker({ file, exclude: [...excluded] });
+  if (!('workbook' in result)) throw new Error('The workbook could not be rewritten.');
+  return new File([result.workbook], file.name.replace(/\.xls$/i, '.xlsx'), {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
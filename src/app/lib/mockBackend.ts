@@ -0,0 +1,3337 @@
+/**
+ * Mock backend — VITE_API_MODE=mock
+ *
+ * An in-memory stand-in for the Django API, installed as the apiFetch
+ * transport (see setTransport in ./api). Every endpoint of the OpenAPI schema
+ * answers with data derived from the fixtures in ./mockData, including
+ * pagination, the usual filters (branch, date_from/date_to, movement_type,
+ * search, …), JWT login / refresh / logout and DRF-style error bodies, so the
+ * whole app runs without the server.
+ *
+ * Demo accounts (password `demo1234`):
+ *   admin@fasi.demo · manager@fasi.demo · agent@fasi.demo · pending@fasi.demo
+ * The invitation of invited@fasi.demo opens at /accept-invite/demo-invite.
+ *
+ * State lives for the page load only; reloading resets it.
+ */
+
+import * as XLSX from 'xlsx';
+import { BASE_URL, setTransport, type Transport } from './api';
+import {
+  MOVEMENT_TYPE_LABELS,
+  MOVEMENT_TYPES,
+  isPurchaseType,
+  isSaleType,
+} from './dataApi';
+import type {
+  AgingRecord,
+  AuditAction,
+  AuditLogEntry,
+  AuditTargetType,
+  BackendUser,
+  Company,
+  ChunkedUpload,
+  CriticalSituation,
+  ForecastMonth,
+  ImportDiff,
+  ImportErrorDetail,
+  ImportLogEntry,
+  Invitation,
+  InventorySnapshot,
+  InventorySnapshotLine,
+  MappingProfile,
+  Movement,
+  ReviewEvent,
+  ReviewEventType,
+  RiskScore,
+  RoleTemplate,
+  SalesKPIProduct,
+  SecurityPolicy,
+  Session,
+  Severity,
+  SignupDocument,
+  SignupDocumentKind,
+  StockItem,
+  StockKPIProduct,
+  UserListItem,
+} from './generated/fasiApi';
+import * as fixtures from './mockData';
+import {
+  DEFAULT_AGENT_PERMISSIONS,
+  DEFAULT_MANAGER_PERMISSIONS,
+  IMPORT_PERMISSIONS,
+  hasPermission,
+} from './permissions';
+
+const DEMO_PASSWORD = 'demo1234';
+/** Short on purpose, so the refresh flow runs during a demo session. */
+const ACCESS_TTL = 5 * 60_000;
+const LATENCY = 120;
+const DAY = 86_400_000;
+
+// ─────────────────────────────────────────────
+// Router
+// ─────────────────────────────────────────────
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  params: Record<string, string>;
+  body: unknown;
+  user: MockUser | null;
+  /** Session of the access token, see MockSession. */
+  session: MockSession | null;
+}
+
+type Handler = (req: MockRequest) => unknown | Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: Handler;
+  isPublic: boolean;
+}
+
+/** Thrown by handlers to answer with an error status and a DRF-style body. */
+class MockHttpError {
+  constructor(
+    readonly status: number,
+    readonly data: unknown,
+  ) {}
+}
+
+/** Lets a handler choose the status / content type of a successful response. */
+class MockResponse {
+  constructor(
+    readonly status: number,
+    readonly body: BodyInit | null,
+    readonly contentType = 'application/json',
+  ) {}
+}
+
+const routes: Route[] = [];
+
+function route(method: string, path: string, handler: Handler, isPublic = false) {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  routes.push({ method, pattern: new RegExp(`^${source}$`), keys, handler, isPublic });
+}
+
+const notFound = () => new MockHttpError(404, { detail: 'Not found.' });
+const forbidden = () =>
+  new MockHttpError(403, { detail: 'You do not have permission to perform this action.' });
+
+function requireRole(req: MockRequest, ...roles: BackendUser['role'][]) {
+  if (!req.user || !roles.includes(req.user.role)) throw forbidden();
+}
+
+function requirePermission(req: MockRequest, permission: string) {
+  const subject = req.user && { role: req.user.role, permissions: req.user.permissions_list };
+  if (!hasPermission(subject ?? null, permission)) throw forbidden();
+}
+
+// ─────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+const sum = <T>(items: T[], pick: (item: T) => number) =>
+  items.reduce((total, item) => total + pick(item), 0);
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+const monthLabel = (year: number, month: number) =>
+  new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+const TODAY = isoDate(new Date());
+
+/** Deterministic UUID-shaped ids, so links survive a reload. */
+function mockId(kind: number, n: number | string): string {
+  const value = typeof n === 'number' ? n : [...n].reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+  return `00000000-0000-4000-8${kind.toString(16).padStart(3, '0')}-${value.toString(16).padStart(12, '0')}`;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const k = key(item);
+    const group = groups.get(k);
+    if (group) group.push(item);
+    else groups.set(k, [item]);
+  });
+  return groups;
+}
+
+function intParam(query: URLSearchParams, key: string, fallback: number): number {
+  const value = Number(query.get(key));
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+function matches(query: URLSearchParams, ...fields: Array<string | null | undefined>): boolean {
+  const search = query.get('search')?.trim().toLowerCase();
+  return !search || fields.some((field) => field?.toLowerCase().includes(search));
+}
+
+/** `?branch=` (one branch) and `?branches=a,b` (the caller's branch scope). */
+function inBranch(query: URLSearchParams, name: string | null): boolean {
+  const branch = query.get('branch');
+  if (branch && name !== branch) return false;
+  const scope = query.get('branches')?.split(',').filter(Boolean) ?? [];
+  return scope.length === 0 || (name !== null && scope.includes(name));
+}
+
+/** Narrow `?branches=` to the user's allowed branches, as the server does. */
+function enforceBranchScope(query: URLSearchParams, allowed: string[]) {
+  if (allowed.length === 0) return;
+  const requested = query.get('branches')?.split(',').filter(Boolean) ?? [];
+  const scope = requested.length ? requested.filter((b) => allowed.includes(b)) : allowed;
+  // An empty intersection must still match nothing, not everything.
+  query.set('branches', scope.length ? scope.join(',') : '(none)');
+}
+
+/** `?ordering=-field` on plain objects. */
+function order<T>(items: T[], ordering: string | null, fallback?: string): T[] {
+  const spec = ordering || fallback;
+  if (!spec) return items;
+  const desc = spec.startsWith('-');
+  const field = spec.replace(/^-/, '') as keyof T;
+  return [...items].sort((a, b) => {
+    const x = a[field] as unknown;
+    const y = b[field] as unknown;
+    const cmp = typeof x === 'number' && typeof y === 'number' ? x - y : String(x ?? '').localeCompare(String(y ?? ''));
+    return desc ? -cmp : cmp;
+  });
+}
+
+/** DRF page-number pagination, with the list under `key` like the real views. */
+function paginate<T, K extends string>(items: T[], query: URLSearchParams, key: K, pageSize = 25) {
+  const size = intParam(query, 'page_size', pageSize);
+  const totalPages = Math.max(1, Math.ceil(items.length / size));
+  const page = intParam(query, 'page', 1);
+  if (page > totalPages) throw new MockHttpError(404, { detail: 'Invalid page.' });
+  return {
+    count: items.length,
+    page,
+    page_size: size,
+    total_pages: totalPages,
+    [key]: items.slice((page - 1) * size, page * size),
+  } as { count: number; page: number; page_size: number; total_pages: number } & Record<K, T[]>;
+}
+
+function inRange(date: string, query: URLSearchParams): boolean {
+  const from = query.get('date_from');
+  const to = query.get('date_to');
+  return (!from || date >= from) && (!to || date <= to);
+}
+
+// ─────────────────────────────────────────────
+// Auth state
+// ─────────────────────────────────────────────
+
+interface MockUser extends BackendUser {
+  password: string;
+  totp_secret: string | null;
+  /** Secret handed out by /users/2fa/setup/, until a first code confirms it. */
+  pending_totp_secret: string | null;
+  recovery_codes: string[];
+  invite: MockInvite | null;
+  /** permissions_list was stored before the permission split and is not migrated yet. */
+  pre_split_permissions?: boolean;
+}
+
+const company: Company = {
+  id: mockId(1, 1),
+  name: 'FASI Demo Trading',
+  industry: 'Retail',
+  phone: '+218 21 000 0000',
+  address: 'Tripoli',
+  is_active: true,
+  created_at: '2025-01-15T09:00:00Z',
+};
+const companies: Company[] = [company];
+
+function makeUser(
+  n: number,
+  email: string,
+  first: string,
+  last: string,
+  role: BackendUser['role'],
+  status: BackendUser['status'],
+  permissions: string[],
+): MockUser {
+  return {
+    id: mockId(2, n),
+    email,
+    first_name: first,
+    last_name: last,
+    full_name: `${first} ${last}`,
+    phone_number: null,
+    role,
+    status,
+    permissions_list: permissions,
+    branch: role === 'agent' ? fixtures.branches[0].id : null,
+    branch_name: role === 'agent' ? fixtures.branches[0].name : null,
+    company: role === 'admin' ? null : company.id,
+    company_name: role === 'admin' ? null : company.name,
+    must_change_password: false,
+    is_verified: status === 'active',
+    created_at: '2025-01-15T09:00:00Z',
+    allowed_branches: role === 'agent' ? [fixtures.branches[0].name] : [],
+    role_template: null,
+    two_factor_enabled: false,
+    two_factor_required: false,
+    password: DEMO_PASSWORD,
+    totp_secret: null,
+    pending_totp_secret: null,
+    recovery_codes: [],
+    invite: null,
+  };
+}
+
+const users: MockUser[] = [
+  makeUser(1, 'admin@fasi.demo', 'Amina', 'Admin', 'admin', 'active', DEFAULT_MANAGER_PERMISSIONS),
+  makeUser(2, 'manager@fasi.demo', 'Karim', 'Manager', 'manager', 'active', DEFAULT_MANAGER_PERMISSIONS),
+  makeUser(3, 'agent@fasi.demo', 'Sara', 'Agent', 'agent', 'active', DEFAULT_AGENT_PERMISSIONS),
+  makeUser(4, 'pending@fasi.demo', 'Omar', 'Pending', 'manager', 'pending', DEFAULT_MANAGER_PERMISSIONS),
+  makeUser(5, 'invited@fasi.demo', 'Lina', 'Invited', 'agent', 'invited', DEFAULT_AGENT_PERMISSIONS),
+];
+let nextUser = users.length + 1;
+
+interface MockRoleTemplate extends Omit<RoleTemplate, 'agent_count'> {
+  company: string;
+  /** permissions_list was stored before the permission split and is not migrated yet. */
+  pre_split_permissions?: boolean;
+}
+
+function makeTemplate(n: number, name: string, description: string, permissions: string[]): MockRoleTemplate {
+  return {
+    id: mockId(11, n),
+    name,
+    description,
+    permissions_list: permissions,
+    company: company.id,
+    created_at: '2025-01-15T09:00:00Z',
+    updated_at: '2025-01-15T09:00:00Z',
+  };
+}
+
+const roleTemplates: MockRoleTemplate[] = [
+  makeTemplate(1, 'Warehouse clerk', 'Stock counts and movements', [
+    'view-dashboard', 'view-inventory', 'import-inventory', 'import-movements', 'import-branches', 'view-profile',
+  ]),
+  makeTemplate(2, 'Collector', 'Follows up on receivables', [
+    'view-dashboard', 'view-aging', 'export-aging', 'import-aging', 'import-customers',
+    'receive-notifications', 'resolve-alerts', 'view-profile',
+  ]),
+  makeTemplate(3, 'Analyst', 'Read-only access to reports and KPIs', [
+    'view-dashboard', 'view-reports', 'export-reports', 'view-kpi', 'view-sales', 'view-inventory',
+    'view-aging', 'ai-insights', 'view-profile',
+  ]),
+];
+let nextTemplate = roleTemplates.length + 1;
+
+// ── Permission split migration ──────────────
+// Before actions were split out, seeing a page also meant exporting from it or
+// resolving its alerts. The server migrates each list stored before the split
+// once, going by its `pre_split_permissions` mark; every list saved afterwards
+// is read exactly as saved, so a manager can take those actions away. Here the
+// migration runs at load time.
+
+const PRE_SPLIT_ACTIONS: Record<string, string[]> = {
+  'view-reports':          ['export-reports'],
+  'view-aging':            ['export-aging'],
+  'receive-notifications': ['resolve-alerts'],
+  'ai-insights':           ['export-ai-insights'],
+};
+
+function migratePermissions(stored: MockUser | MockRoleTemplate) {
+  if (!stored.pre_split_permissions) return;
+  stored.permissions_list = [...new Set(stored.permissions_list.flatMap((id) => [id, ...(PRE_SPLIT_ACTIONS[id] ?? [])]))];
+  delete stored.pre_split_permissions;
+}
+
+[...users, ...roleTemplates].forEach(migratePermissions);
+
+// ── Sessions ────────────────────────────────
+
+/** One signed-in device: its refresh token is `mock-refresh.<user id>.<session id>`. */
+interface MockSession extends Omit<Session, 'current'> {
+  user: string;
+  revoked: boolean;
+}
+
+const sessions: MockSession[] = [];
+
+function makeSession(user: MockUser, id: string, device: string, browser: string, ip: string | null,
+  location: string | null, lastActivity = new Date().toISOString()): MockSession {
+  const session = {
+    id, user: user.id, device, browser, ip_address: ip, location,
+    created_at: lastActivity, last_activity: lastActivity, revoked: false,
+  };
+  sessions.push(session);
+  return session;
+}
+
+/** What the Django view reads from the User-Agent header; here, this browser's. */
+function describeAgent(ua: string): { device: string; browser: string } {
+  const device = /iPhone/.test(ua) ? 'iPhone'
+    : /iPad/.test(ua) ? 'iPad'
+    : /Android/.test(ua) ? 'Android'
+    : /Mac OS X/.test(ua) ? 'Mac'
+    : /Windows/.test(ua) ? 'Windows PC'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'Unknown device';
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /OPR\//.test(ua) ? 'Opera'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Browser';
+  return { device, browser };
+}
+
+/** Looks a session up; tokens from before a reload get theirs back, as the state was reset. */
+function sessionFor(user: MockUser, id: string): MockSession {
+  const found = sessions.find((s) => s.id === id);
+  if (found) return found;
+  const { device, browser } = describeAgent(navigator.userAgent);
+  return makeSession(user, id, device, browser, '127.0.0.1', null);
+}
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3_600_000).toISOString();
+
+// Other devices of the demo accounts, so the sessions list has something to revoke.
+makeSession(users[1], mockId(13, 1), 'iPhone', 'Safari', '41.208.70.12', 'Benghazi, Libya', hoursAgo(3));
+makeSession(users[1], mockId(13, 2), 'Windows PC', 'Edge', '197.0.12.4', 'Tripoli, Libya', hoursAgo(50));
+makeSession(users[0], mockId(13, 3), 'Mac', 'Chrome', '102.164.9.31', 'Misrata, Libya', hoursAgo(20));
+
+const base64url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+/** Unsigned but JWT-shaped, so the client can read `exp` like a real token. */
+function issueAccess(user: MockUser, session: MockSession) {
+  const exp = Math.floor((Date.now() + ACCESS_TTL) / 1000);
+  return `${base64url({ alg: 'none', typ: 'JWT' })}.${base64url({ user_id: user.id, sid: session.id, exp })}.mock`;
+}
+
+/** A new session for this browser, and its token pair. */
+function signIn(user: MockUser) {
+  const { device, browser } = describeAgent(navigator.userAgent);
+  const session = makeSession(user, mockId(13, `${Date.now()}${sessions.length}`), device, browser, '127.0.0.1', null);
+  return { access: issueAccess(user, session), refresh: `mock-refresh.${user.id}.${session.id}` };
+}
+
+function fromAccess(header: string | null): { user: MockUser; session: MockSession } | null {
+  try {
+    const payload = header?.replace(/^Bearer\s+/i, '').split('.')[1] ?? '';
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    if (claims.exp * 1000 < Date.now()) return null;
+    const user = users.find((u) => u.id === claims.user_id && u.status === 'active');
+    if (!user) return null;
+    const session = sessionFor(user, claims.sid);
+    return session.revoked ? null : { user, session };
+  } catch {
+    return null;
+  }
+}
+
+function profile(user: MockUser): BackendUser {
+  const {
+    password: _password, totp_secret: _secret, pending_totp_secret: _pending, recovery_codes: _codes, invite: _invite,
+    pre_split_permissions: _preSplit, ...rest
+  } = user;
+  return { ...rest, two_factor_required: twoFactorRequired(user) };
+}
+
+function listItem(user: MockUser): UserListItem {
+  return {
+    id: user.id,
+    email: user.email,
+    full_name: user.full_name,
+    phone_number: user.phone_number,
+    role: user.role,
+    status: user.status,
+    branch_name: user.branch_name,
+    company: user.company,
+    company_name: user.company_name,
+    created_at: user.created_at,
+    permissions_list: user.permissions_list,
+    allowed_branches: user.allowed_branches,
+    role_template: user.role_template,
+    invitation: user.invite && invitation(user.invite),
+  };
+}
+
+function templateItem(template: MockRoleTemplate): RoleTemplate {
+  const { company: _company, pre_split_permissions: _preSplit, ...rest } = template;
+  const agentCount = users.filter((u) => u.role === 'agent' && u.role_template === template.id).length;
+  return { ...rest, agent_count: agentCount };
+}
+
+function field<T>(body: unknown, key: string): T | undefined {
+  return (body as Record<string, T> | null)?.[key];
+}
+
+function requireFields(body: unknown, ...keys: string[]) {
+  const errors: Record<string, string[]> = {};
+  keys.forEach((key) => {
+    const value = field<unknown>(body, key);
+    if (value === undefined || value === null || value === '') errors[key] = ['This field is required.'];
+  });
+  if (Object.keys(errors).length > 0) throw new MockHttpError(400, errors);
+}
+
+// ── Two-factor ──────────────────────────────
+
+const securityPolicy: SecurityPolicy = { require_manager_2fa: false };
+
+const twoFactorRequired = (user: MockUser) => user.role === 'manager' && securityPolicy.require_manager_2fa;
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_STEP = 30;
+const CHALLENGE_TTL = 5 * 60_000;
+const RECOVERY_CODE_COUNT = 10;
+
+/** Password-checked logins waiting for their second factor, by challenge token. */
+const loginChallenges = new Map<string, { user: string; expires: number; attempts: number }>();
+
+function randomBase32(length: number) {
+  return Array.from(crypto.getRandomValues(new Uint8Array(length)), (b) => BASE32[b % 32]).join('');
+}
+
+function base32Decode(secret: string): Uint8Array {
+  const bits = [...secret].map((ch) => BASE32.indexOf(ch).toString(2).padStart(5, '0')).join('');
+  const bytes = new Uint8Array(Math.floor(bits.length / 8));
+  bytes.forEach((_, i) => (bytes[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2)));
+  return bytes;
+}
+
+/** RFC 6238 code (HMAC-SHA1, 6 digits) for the given 30-second step. */
+async function totpAt(secret: string, step: number) {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret).buffer as ArrayBuffer, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(4, step);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer));
+  const offset = mac[mac.length - 1] & 0xf;
+  const value = new DataView(mac.buffer).getUint32(offset) & 0x7fffffff;
+  return String(value % 1_000_000).padStart(6, '0');
+}
+
+/** Accepts the current code and one step either side, for clock drift. */
+async function verifyTotp(secret: string, code: string) {
+  const step = Math.floor(Date.now() / 1000 / TOTP_STEP);
+  for (const drift of [-1, 0, 1]) {
+    if ((await totpAt(secret, step + drift)) === code) return true;
+  }
+  return false;
+}
+
+/** A TOTP code, or one of the recovery codes — which is then used up. */
+async function verifySecondFactor(user: MockUser, code: string) {
+  const value = code.replace(/\s/g, '').toLowerCase();
+  if (/^\d{6}$/.test(value)) return !!user.totp_secret && verifyTotp(user.totp_secret, value);
+  const index = user.recovery_codes.indexOf(value);
+  if (index === -1) return false;
+  user.recovery_codes.splice(index, 1);
+  return true;
+}
+
+const newRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => randomBase32(8).toLowerCase().replace(/^(.{4})/, '$1-'));
+
+// ── Invitations ─────────────────────────────
+
+const INVITE_TTL = 7 * DAY;
+
+interface MockInvite extends Invitation {
+  token: string;
+  invited_by: string;
+}
+
+/** Replaces any previous invitation of `user`, so only the newest link works. */
+function sendInvite(user: MockUser, invitedBy: string, token = randomBase32(32)): string {
+  const now = Date.now();
+  user.invite = {
+    token,
+    invited_by: invitedBy,
+    status: 'pending',
+    sent_at: new Date(now).toISOString(),
+    expires_at: new Date(now + INVITE_TTL).toISOString(),
+    accepted_at: null,
+  };
+  return inviteUrl(user.invite);
+}
+
+const inviteUrl = (invite: MockInvite) => `${window.location.origin}/accept-invite/${invite.token}`;
+
+function invitation(invite: MockInvite): Invitation {
+  const { token: _token, invited_by: _invitedBy, ...rest } = invite;
+  const expired = rest.status === 'pending' && Date.parse(rest.expires_at) <= Date.now();
+  return { ...rest, status: expired ? 'expired' : rest.status };
+}
+
+/** The invited agent behind `token`, or the 404 / 410 the accept page explains. */
+function pendingInvite(token: string): MockUser & { invite: MockInvite } {
+  const user = users.find((u) => u.invite?.token === token);
+  if (!user?.invite) throw new MockHttpError(404, { detail: 'This invitation link is not valid.', code: 'invite_invalid' });
+  const { status } = invitation(user.invite);
+  if (status === 'accepted') {
+    throw new MockHttpError(410, { detail: 'This invitation has already been used.', code: 'invite_used' });
+  }
+  if (status === 'revoked') throw new MockHttpError(410, { detail: 'This invitation was revoked.', code: 'invite_revoked' });
+  if (status === 'expired') throw new MockHttpError(410, { detail: 'This invitation has expired.', code: 'invite_expired' });
+  return user as MockUser & { invite: MockInvite };
+}
+
+sendInvite(users[4], users[1].full_name, 'demo-invite');
+
+// ── Signup review ───────────────────────────
+
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+const DOCUMENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg'];
+const DOCUMENT_KINDS: SignupDocumentKind[] = ['commercial_register', 'tax_id', 'other'];
+
+interface MockApplication {
+  industry: string | null;
+  country: string | null;
+  city: string | null;
+  current_erp: string | null;
+  documents: string[];
+  info_request: string | null;
+  /** Lets the applicant answer `info_request` without being able to sign in. */
+  resubmit_token: string | null;
+  history: ReviewEvent[];
+}
+
+/** Uploads stay unclaimed until a signup or a resubmission attaches them. */
+const signupDocuments = new Map<string, { document: SignupDocument; file: Blob; claimed: boolean }>();
+const applications = new Map<string, MockApplication>();
+let nextDocument = 1;
+let nextReviewEvent = 1;
+
+function storeDocument(kind: SignupDocumentKind, file: Blob, fileName: string, claimed = false): SignupDocument {
+  const document: SignupDocument = {
+    id: mockId(14, nextDocument++),
+    kind,
+    file_name: fileName,
+    content_type: file.type || 'application/octet-stream',
+    size: file.size,
+    uploaded_at: new Date().toISOString(),
+  };
+  signupDocuments.set(document.id, { document, file, claimed });
+  return document;
+}
+
+function claimDocuments(ids: string[] | undefined): string[] {
+  const claimed = ids ?? [];
+  if (claimed.some((id) => !signupDocuments.get(id) || signupDocuments.get(id)!.claimed)) {
+    throw new MockHttpError(400, { documents: ['A document is missing — upload it again.'] });
+  }
+  claimed.forEach((id) => { signupDocuments.get(id)!.claimed = true; });
+  return claimed;
+}
+
+function applicationFor(manager: MockUser): MockApplication {
+  let application = applications.get(manager.id);
+  if (!application) {
+    application = {
+      industry: null, country: null, city: null, current_erp: null,
+      documents: [], info_request: null, resubmit_token: null, history: [],
+    };
+    applications.set(manager.id, application);
+  }
+  return application;
+}
+
+function reviewEvent(
+  application: MockApplication,
+  type: ReviewEventType,
+  author: MockUser | null,
+  message: string | null,
+  documents: string[] = [],
+): ReviewEvent {
+  const event: ReviewEvent = {
+    id: mockId(15, nextReviewEvent++),
+    type,
+    author: author?.full_name ?? null,
+    message,
+    documents: documents.map((id) => signupDocuments.get(id)!.document),
+    created_at: new Date().toISOString(),
+  };
+  application.history.push(event);
+  return event;
+}
+
+/** A one-page stand-in for a scanned document, so the admin preview has something to show. */
+function sampleDocument(title: string, lines: string[]): Blob {
+  const text = lines.map((line, i) => `<text x="60" y="${200 + i * 32}" font-size="18">${line}</text>`).join('');
+  return new Blob([
+    '<svg xmlns="http://www.w3.org/2000/svg" width="595" height="842" font-family="Arial, sans-serif">',
+    '<rect width="595" height="842" fill="#fff" stroke="#cbd5e1"/>',
+    `<text x="60" y="120" font-size="28" font-weight="bold">${title}</text>`,
+    text,
+    '</svg>',
+  ], { type: 'image/svg+xml' });
+}
+
+const pendingApplication = applicationFor(users[3]);
+Object.assign(pendingApplication, { industry: 'Wholesale & Distribution', country: 'Libya', city: 'Misrata', current_erp: 'Odoo' });
+pendingApplication.documents = [
+  storeDocument('commercial_register', sampleDocument('Commercial Register', [
+    `Company: ${company.name}`, 'Register no. 30-44871', 'Registered: 12 March 2019',
+  ]), 'commercial-register.svg', true).id,
+  storeDocument('tax_id', sampleDocument('Tax Identification', ['Tax ID: 1-402-77815', 'Issued by the Tax Authority']),
+    'tax-id.svg', true).id,
+];
+reviewEvent(pendingApplication, 'submitted', null, null, pendingApplication.documents).created_at = users[3].created_at;
+
+// ─────────────────────────────────────────────
+// Business data (derived once from the fixtures)
+// ─────────────────────────────────────────────
+
+const productById = new Map(fixtures.products.map((p) => [p.id, p]));
+const branchById = new Map(fixtures.branches.map((b) => [b.id, b]));
+const customerById = new Map(fixtures.customers.map((c) => [c.id, c]));
+const branchNames = fixtures.branches.map((b) => b.name);
+
+const movements: Movement[] = [
+  ...fixtures.sales.map((sale, i): Movement => {
+    const product = productById.get(sale.productId)!;
+    // Every 20th sale is a return, so the type filters have something to show.
+    const isReturn = i % 20 === 19;
+    const total = round(sale.total);
+    return {
+      id: mockId(3, i + 1),
+      material_code: product.sku,
+      material_name: product.name,
+      movement_date: sale.date,
+      movement_type: isReturn ? MOVEMENT_TYPES.SALE_RETURN : MOVEMENT_TYPES.SALE,
+      movement_type_display: MOVEMENT_TYPE_LABELS[isReturn ? MOVEMENT_TYPES.SALE_RETURN : MOVEMENT_TYPES.SALE],
+      qty_in: isReturn ? sale.quantity : 0,
+      qty_out: isReturn ? 0 : sale.quantity,
+      total_in: isReturn ? total : 0,
+      total_out: isReturn ? 0 : total,
+      balance_price: product.purchasePrice,
+      branch_name: branchById.get(sale.branchId)?.name ?? null,
+      customer_name: customerById.get(sale.customerId)?.name ?? null,
+    };
+  }),
+  ...fixtures.purchases.map((purchase, i): Movement => {
+    const product = productById.get(purchase.productId)!;
+    return {
+      id: mockId(4, i + 1),
+      material_code: product.sku,
+      material_name: product.name,
+      movement_date: purchase.date,
+      movement_type: MOVEMENT_TYPES.PURCHASE,
+      movement_type_display: MOVEMENT_TYPE_LABELS[MOVEMENT_TYPES.PURCHASE],
+      qty_in: purchase.quantity,
+      qty_out: 0,
+      total_in: round(purchase.total),
+      total_out: 0,
+      balance_price: product.purchasePrice,
+      branch_name: branchById.get(purchase.branchId)?.name ?? null,
+      customer_name: null,
+    };
+  }),
+].sort((a, b) => b.movement_date.localeCompare(a.movement_date));
+
+/** Net sales amount of a movement (returns count negative). */
+const saleAmount = (m: Movement) => m.total_out - (m.movement_type === MOVEMENT_TYPES.SALE_RETURN ? m.total_in : 0);
+const saleQty = (m: Movement) => m.qty_out - (m.movement_type === MOVEMENT_TYPES.SALE_RETURN ? m.qty_in : 0);
+const salesOf = (items: Movement[]) => items.filter((m) => isSaleType(m.movement_type));
+
+function movementsFor(query: URLSearchParams): Movement[] {
+  const type = query.get('movement_type');
+  return movements.filter(
+    (m) =>
+      (!type || m.movement_type === type) &&
+      inBranch(query, m.branch_name) &&
+      inRange(m.movement_date, query) &&
+      matches(query, m.material_name, m.material_code, m.customer_name),
+  );
+}
+
+// ── Inventory ───────────────────────────────
+
+interface SnapshotState {
+  snapshot: InventorySnapshot;
+  lines: InventorySnapshotLine[];
+}
+
+function buildSnapshot(n: number, date: string, scale: number): SnapshotState {
+  const id = mockId(5, n);
+  const lines = fixtures.inventory.map((item, i): InventorySnapshotLine => {
+    const product = productById.get(item.productId)!;
+    const quantity = Math.round(item.quantity * scale);
+    return {
+      id: mockId(6, n * 10_000 + i),
+      product_category: product.category,
+      product_code: product.sku,
+      product_name: product.name,
+      branch_name: branchById.get(item.branchId)!.name,
+      quantity,
+      unit_cost: product.purchasePrice,
+      line_value: round(quantity * product.purchasePrice),
+    };
+  });
+  return {
+    snapshot: {
+      id,
+      company_name: company.name,
+      label: `Inventory ${date}`,
+      snapshot_date: date,
+      fiscal_year: date.slice(0, 4),
+      source_file: 'جرد_افقي_نهاية_السنة.xlsx',
+      notes: '',
+      uploaded_at: `${date}T08:00:00Z`,
+      uploaded_by: users[1].id,
+      uploaded_by_name: users[1].full_name,
+      line_count: lines.length,
+      total_lines_value: round(sum(lines, (l) => l.line_value)),
+      branches: branchNames,
+    },
+    lines,
+  };
+}
+
+const snapshots: SnapshotState[] = [
+  buildSnapshot(1, TODAY, 1),
+  buildSnapshot(2, isoDate(new Date(Date.now() - 90 * DAY)), 0.85),
+];
+
+function snapshotFor(query: URLSearchParams): SnapshotState {
+  const id = query.get('snapshot_id');
+  const found = id ? snapshots.find((s) => s.snapshot.id === id) : snapshots[0];
+  if (!found) throw notFound();
+  return found;
+}
+
+function productStock(lines: InventorySnapshotLine[], code: string) {
+  return sum(lines.filter((l) => l.product_code === code), (l) => l.quantity);
+}
+
+// ── Aging ───────────────────────────────────
+
+const BUCKETS = [
+  ['current', 'Current', 0],
+  ['d1_30', '1-30 days', 15],
+  ['d31_60', '31-60 days', 45],
+  ['d61_90', '61-90 days', 75],
+  ['d91_120', '91-120 days', 105],
+  ['d121_150', '121-150 days', 135],
+  ['d151_180', '151-180 days', 165],
+  ['d181_210', '181-210 days', 195],
+  ['d211_240', '211-240 days', 225],
+  ['d241_270', '241-270 days', 255],
+  ['d271_300', '271-300 days', 285],
+  ['d301_330', '301-330 days', 315],
+  ['over_330', 'Over 330 days', 360],
+] as const;
+
+type BucketKey = (typeof BUCKETS)[number][0];
+
+function bucketOf(daysOverdue: number): BucketKey {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue > 330) return 'over_330';
+  return BUCKETS[Math.ceil(daysOverdue / 30)][0];
+}
+
+function riskOf(total: number, overdue: number): RiskScore {
+  const ratio = total > 0 ? overdue / total : 0;
+  if (ratio > 0.75) return 'critical';
+  if (ratio > 0.5) return 'high';
+  if (ratio > 0.2) return 'medium';
+  return 'low';
+}
+
+const agingRecords: AgingRecord[] = [...groupBy(fixtures.agingReceivables, (r) => r.customerId)].map(
+  ([customerId, receivables], i) => {
+    const customer = customerById.get(customerId)!;
+    const buckets = Object.fromEntries(BUCKETS.map(([key]) => [key, 0])) as Record<BucketKey, number>;
+    receivables.forEach((r) => {
+      buckets[bucketOf(r.daysOverdue)] += r.remainingBalance;
+    });
+    const total = sum(receivables, (r) => r.remainingBalance);
+    const overdue = total - buckets.current;
+    return {
+      id: mockId(7, i + 1),
+      report_date: TODAY,
+      customer: mockId(8, Number(customer.id)),
+      customer_name: customer.name,
+      account: customer.name,
+      account_code: customer.code,
+      ...buckets,
+      total,
+      overdue_total: overdue,
+      risk_score: riskOf(total, overdue),
+    };
+  },
+);
+
+function agingFor(query: URLSearchParams): AgingRecord[] {
+  const date = query.get('report_date');
+  const risk = query.get('risk');
+  return agingRecords.filter(
+    (r) =>
+      (!date || r.report_date === date) &&
+      (!risk || r.risk_score === risk) &&
+      matches(query, r.account, r.account_code, r.customer_name),
+  );
+}
+
+function agingDistribution(records: AgingRecord[]) {
+  const grandTotal = sum(records, (r) => r.total);
+  return BUCKETS.map(([bucket, label, midpoint]) => {
+    const total = sum(records, (r) => r[bucket]);
+    return {
+      bucket,
+      label,
+      total,
+      percentage: grandTotal ? round((total / grandTotal) * 100) : 0,
+      midpoint_days: midpoint,
+    };
+  });
+}
+
+/** Weighted average days outstanding (DMP). */
+function dmpDays(record: AgingRecord) {
+  return record.total ? round(sum([...BUCKETS], ([bucket, , mid]) => record[bucket] * mid) / record.total, 1) : 0;
+}
+
+// ── Import history ──────────────────────────
+
+interface MockImportLog extends ImportLogEntry {
+  company: string | null;
+}
+
+const importLogs: MockImportLog[] = [];
+
+function seedImport(daysAgo: number, uploader: MockUser, fileType: string, fileName: string, rows: number, errors: ImportErrorDetail[]) {
+  const startedAt = Date.now() - daysAgo * DAY;
+  const failed = rows > 0 && errors.length >= rows;
+  importLogs.push({
+    id: mockId(9, importLogs.length + 1),
+    file_type: fileType,
+    original_filename: fileName,
+    uploaded_by: uploader.id,
+    uploaded_by_name: uploader.full_name,
+    company: uploader.company,
+    status: failed ? 'failed' : errors.length ? 'partial' : 'success',
+    row_count: rows,
+    success_count: rows - errors.length,
+    error_count: errors.length,
+    error_details: errors,
+    started_at: new Date(startedAt).toISOString(),
+    completed_at: new Date(startedAt + 40_000).toISOString(),
+  });
+}
+
+// Newest first, like the uploads prepended by /import/upload/.
+seedImport(2, users[2], 'movements', 'حركة_المادة.xlsx', 412, []);
+seedImport(6, users[1], 'aging', 'أعمار_الذمم.xlsx', 186, [
+  { row: 14, column: 'المجموع', value: '12,40O', error: 'Not a number.' },
+  { row: 37, column: 'الحساب', value: '', error: 'Account is required.' },
+  { row: 58, column: 'رمز الحساب', value: 'C-0991', error: 'Unknown customer account.' },
+  { row: 121, column: '1-30 يوم', value: '-250', error: 'Aging buckets cannot be negative.' },
+]);
+seedImport(8, users[2], 'customers', 'العملاء.xlsx', 3, [
+  { row: 2, column: 'رمز الحساب', value: '', error: 'Account code is required.' },
+  { row: 3, column: 'رمز الحساب', value: '', error: 'Account code is required.' },
+  { row: 4, column: 'بريد الكتروني', value: 'sales@', error: 'Enter a valid email address.' },
+]);
+seedImport(13, users[1], 'inventory', 'جرد_افقي_نهاية_السنة.xlsx', 1_240, []);
+
+const TEMPLATE_HEADERS: Record<string, string[]> = {
+  customers: ['اسم العميل', 'رمز الحساب', 'العنوان التفصيلي', 'رمز المنطقة', 'رقم الهاتف1', 'بريد الكتروني'],
+  branches: ['الفرع', 'العنوان / الموقع', 'رقم الهاتف'],
+  aging: ['#', 'الحساب', 'الحالي', '1-30 يوم', '31-60 يوم', '61-90 يوم', 'أكثر من 330 يوم', 'المجموع'],
+  inventory: ['الفهرس', 'رمز المادة', 'اسم المادة', 'إجمالي كمية (الوحدة الافتراضية)', 'السعر (كلفة الشركة)', 'إجمالي قيمة'],
+  movements: ['الفهرس', 'رمز  المادة', 'اسم   المادة', 'تاريخ', 'حركة.1', 'كمية  الادخلات', 'كمية  الاخراجات', 'الفرع', 'العميل'],
+};
+
+function detectType(headers: string[]): string {
+  const has = (text: string) => headers.some((h) => h.replace(/\s+/g, ' ').includes(text));
+  if (has('اسم العميل')) return 'customers';
+  if (has('الحالي') || has('المجموع')) return 'aging';
+  if (has('تاريخ')) return 'movements';
+  if (has('رمز المادة') || has('إجمالي قيمة')) return 'inventory';
+  if (has('الفرع')) return 'branches';
+  return 'unknown';
+}
+
+// ── Column mapping profiles ─────────────────
+
+interface MockMappingProfile extends MappingProfile {
+  company: string | null;
+}
+
+const mappingProfiles: MockMappingProfile[] = [
+  {
+    id: mockId(16, 1),
+    name: 'Misrata branch ERP',
+    file_type: 'customers',
+    mapping: {
+      'اسم العميل': 'اسم الزبون',
+      'رمز الحساب': 'كود الزبون',
+      'العنوان التفصيلي': 'العنوان',
+      'رمز المنطقة': 'المنطقة',
+      'رقم الهاتف1': 'الهاتف',
+      'بريد الكتروني': 'البريد الإلكتروني',
+    },
+    created_by_name: users[1].full_name,
+    company: company.id,
+    created_at: '2025-03-02T10:00:00Z',
+    updated_at: '2025-03-02T10:00:00Z',
+  },
+];
+let nextMappingProfile = mappingProfiles.length + 1;
+
+/** A `column_mapping` form field or profile mapping: an object of header strings. */
+function parseMapping(value: unknown, fieldName: string): Record<string, string> {
+  let mapping = value;
+  if (typeof value === 'string') {
+    try {
+      mapping = JSON.parse(value);
+    } catch {
+      throw new MockHttpError(400, { [fieldName]: ['Not valid JSON.'] });
+    }
+  }
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)
+    || Object.values(mapping).some((source) => typeof source !== 'string')) {
+    throw new MockHttpError(400, { [fieldName]: ['Expected an object of template column → file column.'] });
+  }
+  return mapping as Record<string, string>;
+}
+
+async function readSheet(file: unknown): Promise<string[][]> {
+  if (!(file instanceof Blob)) throw new MockHttpError(400, { file: ['No file was submitted.'] });
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  return sheet ? XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, defval: '', raw: false }) : [];
+}
+
+// ── Audit trail ─────────────────────────────
+
+interface MockAuditEntry extends AuditLogEntry {
+  company: string | null;
+}
+
+const auditLog: MockAuditEntry[] = [];
+
+interface AuditTarget {
+  type: AuditTargetType;
+  id: string;
+  label: string;
+  /** Company the change belongs to; defaults to the actor's. */
+  company?: string | null;
+}
+
+/** Records a change made by the signed-in user, newest first. */
+function audit(
+  req: MockRequest,
+  action: AuditAction,
+  target: AuditTarget,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+) {
+  auditLog.unshift({
+    id: mockId(12, auditLog.length + 1),
+    timestamp: new Date().toISOString(),
+    actor: req.user?.id ?? null,
+    actor_name: req.user?.full_name ?? '',
+    actor_email: req.user?.email ?? '',
+    action,
+    target_type: target.type,
+    target_id: target.id,
+    target_label: target.label,
+    before,
+    after,
+    company: target.company === undefined ? req.user?.company ?? null : target.company,
+  });
+}
+
+const userTarget = (user: MockUser): AuditTarget => ({
+  type: 'user',
+  id: user.id,
+  label: `${user.full_name} <${user.email}>`,
+  company: user.company,
+});
+
+// ─────────────────────────────────────────────
+// Routes — auth & users
+// ─────────────────────────────────────────────
+
+route('POST', '/auth/login/', ({ body }) => {
+  const email = String(field(body, 'email') ?? '').toLowerCase();
+  const user = users.find((u) => u.email === email && u.password === field(body, 'password'));
+  if (!user) throw new MockHttpError(401, { detail: 'No active account found with the given credentials' });
+  if (user.status === 'invited') {
+    throw new MockHttpError(403, { detail: 'Your account is not set up yet. Use the link in your invitation email.' });
+  }
+  if (user.status === 'info_requested') {
+    const application = applicationFor(user);
+    throw new MockHttpError(403, {
+      detail: 'The administrator needs more information to validate your account.',
+      code: 'info_requested',
+      info_request: application.info_request,
+      resubmit_token: application.resubmit_token,
+    });
+  }
+  if (user.status !== 'active') throw new MockHttpError(403, { detail: 'Your account is pending validation.' });
+  if (user.two_factor_enabled) {
+    const challenge = randomBase32(32);
+    loginChallenges.set(challenge, { user: user.id, expires: Date.now() + CHALLENGE_TTL, attempts: 0 });
+    return { two_factor_required: true, challenge };
+  }
+  return signIn(user);
+}, true);
+
+route('POST', '/auth/login/2fa/', async ({ body }) => {
+  requireFields(body, 'challenge', 'code');
+  const token = String(field(body, 'challenge'));
+  const challenge = loginChallenges.get(token);
+  const user = challenge && challenge.expires > Date.now() ? users.find((u) => u.id === challenge.user) : undefined;
+  if (!challenge || !user || challenge.attempts >= 5) {
+    loginChallenges.delete(token);
+    throw new MockHttpError(401, { detail: 'Your sign-in expired. Please enter your password again.', code: 'challenge_expired' });
+  }
+  if (!(await verifySecondFactor(user, String(field(body, 'code'))))) {
+    challenge.attempts += 1;
+    throw new MockHttpError(400, { code: ['Invalid code.'] });
+  }
+  loginChallenges.delete(token);
+  return signIn(user);
+}, true);
+
+route('POST', '/auth/token/refresh/', ({ body }) => {
+  const refresh = String(field(body, 'refresh') ?? '');
+  const [, id, sid] = refresh.split('.');
+  const user = users.find((u) => u.id === id && u.status === 'active');
+  const session = user && sid ? sessionFor(user, sid) : null;
+  if (!user || !session || session.revoked) {
+    throw new MockHttpError(401, { detail: 'Token is invalid or expired', code: 'token_not_valid' });
+  }
+  session.last_activity = new Date().toISOString();
+  return { access: issueAccess(user, session) };
+}, true);
+
+route('POST', '/auth/logout/', ({ body }) => {
+  const [, , sid] = String(field(body, 'refresh') ?? '').split('.');
+  const session = sessions.find((s) => s.id === sid);
+  if (session) session.revoked = true;
+  return { message: 'Logged out successfully.' };
+}, true);
+
+const sessionItem = (session: MockSession, current: MockSession | null): Session => {
+  const { user: _user, revoked: _revoked, ...rest } = session;
+  return { ...rest, current: session.id === current?.id };
+};
+
+/** Revokes the user's sessions other than `keep`; returns how many were open. */
+function revokeOtherSessions(user: MockUser, keep: MockSession | null) {
+  const others = sessions.filter((s) => s.user === user.id && !s.revoked && s.id !== keep?.id);
+  others.forEach((s) => (s.revoked = true));
+  return others.length;
+}
+
+route('GET', '/auth/sessions/', ({ user, session }) => {
+  const open = sessions
+    .filter((s) => s.user === user!.id && !s.revoked)
+    .sort((a, b) => b.last_activity.localeCompare(a.last_activity));
+  return { count: open.length, sessions: open.map((s) => sessionItem(s, session)) };
+});
+
+route('DELETE', '/auth/sessions/:id/', ({ user, params }) => {
+  const target = sessions.find((s) => s.id === params.id && s.user === user!.id && !s.revoked);
+  if (!target) throw notFound();
+  target.revoked = true;
+  return { message: 'Session signed out.' };
+});
+
+route('POST', '/auth/sessions/revoke-others/', ({ user, session }) => {
+  const revoked = revokeOtherSessions(user!, session);
+  return { message: `${revoked} session${revoked === 1 ? '' : 's'} signed out.`, revoked };
+});
+
+route('GET', '/users/profile/', ({ user }) => profile(user!));
+
+route('PATCH', '/users/profile/', ({ user, body }) => {
+  Object.assign(user!, body);
+  user!.full_name = `${user!.first_name} ${user!.last_name}`;
+  return { message: 'Profile updated successfully.', user: profile(user!) };
+});
+
+route('POST', '/users/signup/', ({ body }) => {
+  requireFields(body, 'email', 'first_name', 'last_name', 'company_name', 'password', 'password_confirm');
+  const email = String(field(body, 'email')).toLowerCase();
+  const errors: Record<string, string[]> = {};
+  if (users.some((u) => u.email === email)) errors.email = ['A user with this email already exists.'];
+  if (String(field(body, 'password')).length < 8) {
+    errors.password = ['This password is too short. It must contain at least 8 characters.'];
+  }
+  if (field(body, 'password') !== field(body, 'password_confirm')) {
+    errors.password_confirm = ["Passwords don't match."];
+  }
+  if (Object.keys(errors).length > 0) throw new MockHttpError(400, errors);
+  const documents = claimDocuments(field<string[]>(body, 'documents'));
+
+  const user = makeUser(
+    nextUser++,
+    email,
+    String(field(body, 'first_name')),
+    String(field(body, 'last_name')),
+    'manager',
+    'pending',
+    DEFAULT_MANAGER_PERMISSIONS,
+  );
+  user.password = String(field(body, 'password'));
+  user.company_name = String(field(body, 'company_name'));
+  users.push(user);
+  const application = applicationFor(user);
+  application.industry = field<string>(body, 'industry') || null;
+  application.country = field<string>(body, 'country') || null;
+  application.city = field<string>(body, 'city') || null;
+  application.current_erp = field<string>(body, 'current_erp') || null;
+  application.documents = documents;
+  reviewEvent(application, 'submitted', null, null, documents);
+  return new MockResponse(201, JSON.stringify({ message: 'Registration received. Awaiting admin approval.', email }));
+}, true);
+
+route('GET', '/auth/invites/:token/', ({ params }) => {
+  const user = pendingInvite(params.token);
+  return {
+    email: user.email,
+    first_name: user.first_name,
+    company_name: user.company_name,
+    invited_by: user.invite.invited_by,
+    expires_at: user.invite.expires_at,
+  };
+}, true);
+
+route('POST', '/auth/invites/:token/accept/', ({ params, body }) => {
+  const user = pendingInvite(params.token);
+  requireFields(body, 'password', 'password_confirm');
+  const errors: Record<string, string[]> = {};
+  if (String(field(body, 'password')).length < 8) {
+    errors.password = ['This password is too short. It must contain at least 8 characters.'];
+  }
+  if (field(body, 'password') !== field(body, 'password_confirm')) {
+    errors.password_confirm = ["Passwords don't match."];
+  }
+  if (Object.keys(errors).length > 0) throw new MockHttpError(400, errors);
+
+  user.password = String(field(body, 'password'));
+  user.status = 'active';
+  user.is_verified = true;
+  user.must_change_password = false;
+  user.invite.status = 'accepted';
+  user.invite.accepted_at = new Date().toISOString();
+  return { message: 'Your account is ready. You can now sign in.' };
+}, true);
+
+route('POST', '/users/change-password/', ({ user, session, body }) => {
+  requireFields(body, 'old_password', 'new_password', 'new_password_confirm');
+  if (field(body, 'old_password') !== user!.password) {
+    throw new MockHttpError(400, { old_password: ['Old password is incorrect.'] });
+  }
+  if (field(body, 'new_password') !== field(body, 'new_password_confirm')) {
+    throw new MockHttpError(400, { new_password_confirm: ["Passwords don't match."] });
+  }
+  user!.password = String(field(body, 'new_password'));
+  user!.must_change_password = false;
+  if (field(body, 'logout_other_sessions')) revokeOtherSessions(user!, session);
+  return { message: 'Password changed successfully.' };
+});
+
+// ── Two-factor ──────────────────────────────
+
+route('GET', '/users/2fa/', ({ user }) => ({
+  enabled: user!.two_factor_enabled,
+  required: twoFactorRequired(user!),
+  recovery_codes_left: user!.recovery_codes.length,
+}));
+
+route('POST', '/users/2fa/setup/', ({ user }) => {
+  if (user!.two_factor_enabled) throw new MockHttpError(400, { detail: 'Two-factor authentication is already on.' });
+  const secret = randomBase32(32);
+  user!.pending_totp_secret = secret;
+  return {
+    secret,
+    otpauth_url: `otpauth://totp/FASI:${encodeURIComponent(user!.email)}?secret=${secret}&issuer=FASI`,
+    qr_code: null, // the Django view renders a PNG; the mock leaves it to manual entry
+  };
+});
+
+route('POST', '/users/2fa/enable/', async (req) => {
+  const user = req.user!;
+  requireFields(req.body, 'code');
+  if (!user.pending_totp_secret) throw new MockHttpError(400, { detail: 'Start the setup again.' });
+  if (!(await verifyTotp(user.pending_totp_secret, String(field(req.body, 'code')).replace(/\s/g, '')))) {
+    throw new MockHttpError(400, { code: ['Invalid code.'] });
+  }
+  user.totp_secret = user.pending_totp_secret;
+  user.pending_totp_secret = null;
+  user.two_factor_enabled = true;
+  user.recovery_codes = newRecoveryCodes();
+  audit(req, 'user.two_factor_enable', userTarget(user), { two_factor_enabled: false }, { two_factor_enabled: true });
+  return { message: 'Two-factor authentication enabled.', recovery_codes: [...user.recovery_codes] };
+});
+
+route('POST', '/users/2fa/disable/', (req) => {
+  const user = req.user!;
+  requireFields(req.body, 'password');
+  if (field(req.body, 'password') !== user.password) {
+    throw new MockHttpError(400, { password: ['Password is incorrect.'] });
+  }
+  if (twoFactorRequired(user)) {
+    throw new MockHttpError(403, { detail: 'Your administrator requires two-factor authentication for managers.' });
+  }
+  user.two_factor_enabled = false;
+  user.totp_secret = null;
+  user.recovery_codes = [];
+  audit(req, 'user.two_factor_disable', userTarget(user), { two_factor_enabled: true }, { two_factor_enabled: false });
+  return { message: 'Two-factor authentication disabled.' };
+});
+
+route('POST', '/users/2fa/recovery-codes/', async ({ user, body }) => {
+  requireFields(body, 'code');
+  if (!user!.totp_secret || !(await verifyTotp(user!.totp_secret, String(field(body, 'code')).replace(/\s/g, '')))) {
+    throw new MockHttpError(400, { code: ['Invalid code.'] });
+  }
+  user!.recovery_codes = newRecoveryCodes();
+  return { message: 'New recovery codes generated.', recovery_codes: [...user!.recovery_codes] };
+});
+
+route('GET', '/users/security-policy/', () => securityPolicy);
+
+route('PATCH', '/users/security-policy/', (req) => {
+  requireRole(req, 'admin');
+  const before = { ...securityPolicy };
+  const requireManager = field<boolean>(req.body, 'require_manager_2fa');
+  if (requireManager !== undefined) securityPolicy.require_manager_2fa = !!requireManager;
+  audit(req, 'security_policy.update', { type: 'security_policy', id: 'platform', label: 'Security policy', company: null },
+    before, { ...securityPolicy });
+  return securityPolicy;
+});
+
+route('POST', '/users/password-reset/request/', () => ({
+  message: 'The administrator has been notified.',
+}));
+
+route('POST', '/users/password-reset/confirm/', ({ body }) => {
+  requireFields(body, 'token', 'new_password', 'new_password_confirm');
+  if (field(body, 'new_password') !== field(body, 'new_password_confirm')) {
+    throw new MockHttpError(400, { new_password_confirm: ["Passwords don't match."] });
+  }
+  return { message: 'Password has been reset.' };
+}, true);
+
+route('GET', '/users/signup/pending/', (req) => {
+  requireRole(req, 'admin');
+  const pending = users.filter((u) => u.role === 'manager' && u.status === 'pending');
+  return { count: pending.length, pending_managers: pending.map(listItem) };
+});
+
+route('POST', '/users/signup/documents/', ({ body }) => {
+  const form = body as FormData;
+  const file = form.get('file');
+  const kind = String(form.get('kind') ?? '') as SignupDocumentKind;
+  if (!(file instanceof File)) throw new MockHttpError(400, { file: ['No file was submitted.'] });
+  if (!DOCUMENT_KINDS.includes(kind)) throw new MockHttpError(400, { kind: [`"${kind}" is not a valid choice.`] });
+  if (!DOCUMENT_TYPES.includes(file.type)) throw new MockHttpError(400, { file: ['Upload a PDF, PNG or JPEG file.'] });
+  if (file.size > MAX_DOCUMENT_SIZE) throw new MockHttpError(400, { file: ['The file is larger than 10 MB.'] });
+  return new MockResponse(201, JSON.stringify(storeDocument(kind, file, file.name)));
+}, true);
+
+route('GET', '/users/signup/documents/:id/', (req) => {
+  requireRole(req, 'admin');
+  const entry = signupDocuments.get(req.params.id);
+  if (!entry?.claimed) throw notFound();
+  return new MockResponse(200, entry.file, entry.document.content_type);
+});
+
+route('GET', '/users/signup/applications/:id/', (req) => {
+  requireRole(req, 'admin');
+  const manager = users.find((u) => u.id === req.params.id && u.role === 'manager');
+  if (!manager) throw notFound();
+  const { resubmit_token: _token, documents, ...application } = applicationFor(manager);
+  return {
+    ...application,
+    manager: listItem(manager),
+    documents: documents.map((id) => signupDocuments.get(id)!.document),
+  };
+});
+
+route('POST', '/users/signup/applications/:id/notes/', (req) => {
+  requireRole(req, 'admin');
+  requireFields(req.body, 'message');
+  const manager = users.find((u) => u.id === req.params.id && u.role === 'manager');
+  if (!manager) throw notFound();
+  const note = reviewEvent(applicationFor(manager), 'note', req.user, String(field(req.body, 'message')).trim());
+  return new MockResponse(201, JSON.stringify(note));
+});
+
+route('POST', '/users/signup/review/:id/', (req) => {
+  requireRole(req, 'admin');
+  const manager = users.find((u) => u.id === req.params.id && (u.status === 'pending' || u.status === 'info_requested'));
+  if (!manager) throw notFound();
+  const action = field(req.body, 'action');
+  const reason = field<string>(req.body, 'reason')?.trim() || null;
+  const application = applicationFor(manager);
+  const before = { status: manager.status };
+  if (action === 'request_info') {
+    if (!reason) throw new MockHttpError(400, { reason: ['Tell the applicant what is missing.'] });
+    manager.status = 'info_requested';
+    application.info_request = reason;
+    application.resubmit_token = randomBase32(32);
+    reviewEvent(application, 'info_requested', req.user, reason);
+    audit(req, 'manager.request_info', userTarget(manager), before, { status: manager.status, reason });
+    return { message: 'Information requested.', manager: listItem(manager) };
+  }
+  const approve = action === 'approve';
+  manager.status = approve ? 'active' : 'rejected';
+  manager.is_verified = approve;
+  application.info_request = null;
+  application.resubmit_token = null;
+  reviewEvent(application, approve ? 'approved' : 'rejected', req.user, reason);
+  audit(req, approve ? 'manager.approve' : 'manager.reject', userTarget(manager), before, {
+    status: manager.status,
+    ...(reason ? { reason } : {}),
+  });
+  return { message: approve ? 'Manager approved.' : 'Manager rejected.', manager: listItem(manager) };
+});
+
+route('POST', '/users/signup/resubmit/', ({ body }) => {
+  requireFields(body, 'token');
+  const manager = users.find((u) =>
+    u.status === 'info_requested' && applications.get(u.id)?.resubmit_token === field(body, 'token'));
+  if (!manager) throw new MockHttpError(404, { detail: 'This request is no longer open. Sign in again to check your account.' });
+  const message = field<string>(body, 'message')?.trim() || null;
+  if (!message && !field<string[]>(body, 'documents')?.length) {
+    throw new MockHttpError(400, { detail: 'Add a document or a message for the administrator.' });
+  }
+  const documents = claimDocuments(field<string[]>(body, 'documents'));
+  const application = applicationFor(manager);
+  application.documents.push(...documents);
+  application.info_request = null;
+  application.resubmit_token = null;
+  reviewEvent(application, 'resubmitted', null, message, documents);
+  manager.status = 'pending';
+  return { message: 'Thanks — your application is back with the administrator.' };
+}, true);
+
+const knownBranches = (names: string[] | undefined) => (names ?? []).filter((n) => branchNames.includes(n));
+
+route('GET', '/users/agents/', (req) => {
+  requireRole(req, 'manager', 'admin');
+  const agents = users.filter((u) => u.role === 'agent' && u.company === req.user!.company);
+  return { count: agents.length, agents: agents.map(listItem) };
+});
+
+/** Validates and stores one agent from a CreateAgentPayload-shaped body. */
+function addAgent(req: MockRequest, body: unknown): MockUser {
+  const invite = !!field(body, 'send_invite');
+  requireFields(body, 'email', 'first_name', 'last_name', ...(invite ? [] : ['temporary_password']));
+  const email = String(field(body, 'email')).toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new MockHttpError(400, { email: ['Enter a valid email address.'] });
+  }
+  if (users.some((u) => u.email === email)) {
+    throw new MockHttpError(400, { email: ['A user with this email already exists.'] });
+  }
+  const agent = makeUser(
+    nextUser++,
+    email,
+    String(field(body, 'first_name')),
+    String(field(body, 'last_name')),
+    'agent',
+    invite ? 'invited' : 'active',
+    field<string[]>(body, 'permissions_list') ?? DEFAULT_AGENT_PERMISSIONS,
+  );
+  agent.phone_number = field<string>(body, 'phone_number') || null;
+  const branch = branchById.get(String(field(body, 'branch') ?? ''));
+  agent.branch = branch?.id ?? null;
+  agent.branch_name = branch?.name ?? null;
+  agent.allowed_branches = knownBranches(field<string[]>(body, 'allowed_branches'));
+  const template = roleTemplates.find((t) => t.id === field(body, 'role_template'));
+  agent.role_template = template?.company === req.user!.company ? template.id : null;
+  if (invite) {
+    // Unusable until the agent sets their own on the accept page.
+    agent.password = randomBase32(32);
+    sendInvite(agent, req.user!.full_name);
+  } else {
+    agent.password = String(field(body, 'temporary_password'));
+    agent.must_change_password = true;
+  }
+  users.push(agent);
+  audit(req, 'user.create', userTarget(agent), null, {
+    role: agent.role,
+    permissions_list: agent.permissions_list,
+    allowed_branches: agent.allowed_branches,
+    role_template: agent.role_template,
+    ...(invite ? { invited: true } : {}),
+  });
+  return agent;
+}
+
+route('POST', '/users/agents/create/', (req) => {
+  requireRole(req, 'manager');
+  const agent = addAgent(req, req.body);
+  return new MockResponse(201, JSON.stringify({
+    message: agent.invite ? `Invitation sent to ${agent.email}.` : 'Agent created.',
+    agent: listItem(agent),
+    invite_url: agent.invite ? inviteUrl(agent.invite) : null,
+  }));
+});
+
+const temporaryPassword = () => `${randomBase32(4)}-${randomBase32(4)}-${randomBase32(4)}`;
+
+route('POST', '/users/agents/bulk-create/', (req) => {
+  requireRole(req, 'manager');
+  const rows = field<Record<string, string | undefined>[]>(req.body, 'agents');
+  if (!Array.isArray(rows) || rows.length === 0) throw new MockHttpError(400, { agents: ['Add at least one row.'] });
+  if (rows.length > 200) throw new MockHttpError(400, { agents: ['At most 200 rows per import.'] });
+  const sendInvites = !!field(req.body, 'send_invites');
+
+  const results = rows.map((row, index) => {
+    const failed = (errors: Record<string, string[]>) => ({
+      row: index, email: row.email ?? '', status: 'failed' as const,
+      agent: null, temporary_password: null, invite_url: null, errors,
+    });
+    const branch = row.branch_name ? fixtures.branches.find((b) => b.name === row.branch_name) : undefined;
+    if (row.branch_name && !branch) return failed({ branch_name: [`Unknown branch "${row.branch_name}".`] });
+    const template = row.role_template
+      ? roleTemplates.find((t) => t.id === row.role_template && t.company === req.user!.company)
+      : undefined;
+    if (row.role_template && !template) return failed({ role_template: ['Unknown role template.'] });
+    const password = sendInvites ? undefined : temporaryPassword();
+    try {
+      const agent = addAgent(req, {
+        ...row,
+        branch: branch?.id,
+        allowed_branches: branch ? [branch.name] : [],
+        permissions_list: template?.permissions_list ?? DEFAULT_AGENT_PERMISSIONS,
+        temporary_password: password,
+        send_invite: sendInvites,
+      });
+      return {
+        row: index, email: agent.email, status: 'created' as const, agent: listItem(agent),
+        temporary_password: password ?? null, invite_url: agent.invite ? inviteUrl(agent.invite) : null, errors: null,
+      };
+    } catch (err) {
+      if (err instanceof MockHttpError) return failed(err.data as Record<string, string[]>);
+      throw err;
+    }
+  });
+  const created = results.filter((r) => r.status === 'created').length;
+  return { created, failed: results.length - created, results };
+});
+
+/** An agent of the manager's company who has not accepted their invitation yet. */
+function invitedAgent(req: MockRequest): MockUser & { invite: MockInvite } {
+  requireRole(req, 'manager');
+  const agent = users.find((u) => u.id === req.params.id && u.role === 'agent' && u.company === req.user!.company);
+  if (!agent) throw notFound();
+  if (agent.status !== 'invited' || !agent.invite) {
+    throw new MockHttpError(400, { detail: 'This agent has already accepted their invitation.' });
+  }
+  return agent as MockUser & { invite: MockInvite };
+}
+
+route('POST', '/users/agents/:id/invite/resend/', (req) => {
+  const agent = invitedAgent(req);
+  const before = { invitation: invitation(agent.invite).status, expires_at: agent.invite.expires_at };
+  const url = sendInvite(agent, req.user!.full_name);
+  audit(req, 'user.invite_resend', userTarget(agent), before, { invitation: 'pending', expires_at: agent.invite!.expires_at });
+  return { message: `Invitation sent to ${agent.email}.`, invitation: invitation(agent.invite!), invite_url: url };
+});
+
+route('DELETE', '/users/agents/:id/invite/', (req) => {
+  const agent = invitedAgent(req);
+  const before = invitation(agent.invite).status;
+  if (before === 'revoked') throw new MockHttpError(400, { detail: 'This invitation was already revoked.' });
+  agent.invite.status = 'revoked';
+  audit(req, 'user.invite_revoke', userTarget(agent), { invitation: before }, { invitation: 'revoked' });
+  return { message: 'Invitation revoked.' };
+});
+
+route('DELETE', '/users/agents/:id/', (req) => {
+  requireRole(req, 'manager');
+  const index = users.findIndex((u) => u.id === req.params.id && u.role === 'agent');
+  if (index < 0) throw notFound();
+  const [agent] = users.splice(index, 1);
+  audit(req, 'user.delete', userTarget(agent), {
+    role: agent.role,
+    status: agent.status,
+    permissions_list: agent.permissions_list,
+  }, null);
+  return { message: 'Agent deleted.' };
+});
+
+const companyTemplate = (req: MockRequest) => {
+  const template = roleTemplates.find((t) => t.id === req.params.id && t.company === req.user!.company);
+  if (!template) throw notFound();
+  return template;
+};
+
+const templateTarget = (template: MockRoleTemplate): AuditTarget => ({
+  type: 'role_template',
+  id: template.id,
+  label: template.name,
+});
+
+function templateFields(body: unknown) {
+  requireFields(body, 'name');
+  return {
+    name: String(field(body, 'name')).trim(),
+    description: String(field(body, 'description') ?? ''),
+    permissions_list: field<string[]>(body, 'permissions_list') ?? [],
+  };
+}
+
+route('GET', '/users/role-templates/', (req) => {
+  requireRole(req, 'manager');
+  const list = roleTemplates.filter((t) => t.company === req.user!.company);
+  return { count: list.length, templates: list.map(templateItem) };
+});
+
+route('POST', '/users/role-templates/', (req) => {
+  requireRole(req, 'manager');
+  const now = new Date().toISOString();
+  const created: MockRoleTemplate = {
+    id: mockId(11, nextTemplate++),
+    ...templateFields(req.body),
+    company: req.user!.company!,
+    created_at: now,
+    updated_at: now,
+  };
+  if (roleTemplates.some((t) => t.company === created.company && t.name === created.name)) {
+    throw new MockHttpError(400, { name: ['A role template with this name already exists.'] });
+  }
+  roleTemplates.push(created);
+  audit(req, 'role_template.create', templateTarget(created), null, {
+    name: created.name,
+    permissions_list: created.permissions_list,
+  });
+  return new MockResponse(201, JSON.stringify(templateItem(created)));
+});
+
+route('PATCH', '/users/role-templates/:id/', (req) => {
+  requireRole(req, 'manager');
+  const template = companyTemplate(req);
+  const changes = templateFields(req.body);
+  if (roleTemplates.some((t) => t !== template && t.company === template.company && t.name === changes.name)) {
+    throw new MockHttpError(400, { name: ['A role template with this name already exists.'] });
+  }
+  const before = { name: template.name, description: template.description, permissions_list: template.permissions_list };
+  Object.assign(template, changes, { updated_at: new Date().toISOString() });
+  audit(req, 'role_template.update', templateTarget(template), before, changes);
+  return templateItem(template);
+});
+
+route('DELETE', '/users/role-templates/:id/', (req) => {
+  requireRole(req, 'manager');
+  const template = companyTemplate(req);
+  roleTemplates.splice(roleTemplates.indexOf(template), 1);
+  audit(req, 'role_template.delete', templateTarget(template), {
+    name: template.name,
+    permissions_list: template.permissions_list,
+  }, null);
+  users.forEach((u) => {
+    if (u.role_template === template.id) u.role_template = null;
+  });
+  return { message: 'Role template deleted.' };
+});
+
+route('POST', '/users/role-templates/:id/apply/', (req) => {
+  requireRole(req, 'manager');
+  const template = companyTemplate(req);
+  const ids = field<string[]>(req.body, 'user_ids');
+  const targets = users.filter((u) =>
+    u.role === 'agent'
+    && u.company === template.company
+    && (ids ? ids.includes(u.id) : u.role_template === template.id));
+  targets.forEach((u) => {
+    audit(req, 'role_template.apply', userTarget(u), { permissions_list: u.permissions_list }, {
+      permissions_list: template.permissions_list,
+      role_template: template.name,
+    });
+    u.permissions_list = [...template.permissions_list];
+    u.role_template = template.id;
+  });
+  return { message: `Permissions updated for ${targets.length} agent(s).`, updated: targets.length };
+});
+
+route('GET', '/users/users/', (req) => {
+  requireRole(req, 'admin');
+  const role = req.query.get('role');
+  const status = req.query.get('status');
+  const statuses = status?.split(',');
+  const list = users.filter((u) => (!role || u.role === role) && (!statuses || statuses.includes(u.status)));
+  return { count: list.length, users: list.map(listItem) };
+});
+
+route('PATCH', '/users/users/:id/permissions/', (req) => {
+  requireRole(req, 'admin', 'manager');
+  const target = users.find((u) => u.id === req.params.id);
+  if (!target) throw notFound();
+  const before = { permissions_list: target.permissions_list, allowed_branches: target.allowed_branches };
+  target.permissions_list = field<string[]>(req.body, 'permissions_list') ?? [];
+  const allowed = field<string[]>(req.body, 'allowed_branches');
+  if (allowed) target.allowed_branches = knownBranches(allowed);
+  audit(req, 'user.permissions', userTarget(target), before, {
+    permissions_list: target.permissions_list,
+    allowed_branches: target.allowed_branches,
+  });
+  return {
+    message: 'Permissions updated.',
+    permissions_list: target.permissions_list,
+    allowed_branches: target.allowed_branches,
+  };
+});
+
+route('PATCH', '/users/users/:id/status/', (req) => {
+  requireRole(req, 'admin');
+  const target = users.find((u) => u.id === req.params.id);
+  if (!target) throw notFound();
+  const before = { status: target.status };
+  target.status = field(req.body, 'status') === 'suspended' ? 'suspended' : 'active';
+  audit(req, 'user.status', userTarget(target), before, {
+    status: target.status,
+    ...(field(req.body, 'reason') ? { reason: field(req.body, 'reason') } : {}),
+  });
+  return { message: `User ${target.status}.` };
+});
+
+route('GET', '/companies/', (req) => {
+  requireRole(req, 'admin');
+  return { count: companies.length, companies };
+});
+
+route('POST', '/companies/', (req) => {
+  requireRole(req, 'admin');
+  requireFields(req.body, 'name');
+  const created: Company = {
+    id: mockId(1, companies.length + 1),
+    name: String(field(req.body, 'name')),
+    industry: field(req.body, 'industry') ?? null,
+    phone: field(req.body, 'phone') ?? null,
+    address: field(req.body, 'address') ?? null,
+    is_active: field(req.body, 'is_active') ?? true,
+    created_at: new Date().toISOString(),
+  };
+  companies.push(created);
+  audit(req, 'company.create', { type: 'company', id: created.id, label: created.name, company: created.id }, null, {
+    name: created.name,
+    is_active: created.is_active,
+  });
+  return new MockResponse(201, JSON.stringify(created));
+});
+
+route('PATCH', '/companies/:id/', (req) => {
+  requireRole(req, 'admin');
+  const target = companies.find((c) => c.id === req.params.id);
+  if (!target) throw notFound();
+  const { id: _id, created_at: _created, ...changes } = req.body as Partial<Company>;
+  const before = Object.fromEntries(Object.keys(changes).map((key) => [key, target[key as keyof Company]]));
+  audit(req, 'company.update', { type: 'company', id: target.id, label: target.name, company: target.id }, before, changes);
+  return Object.assign(target, changes);
+});
+
+// ─────────────────────────────────────────────
+// Routes — audit
+// ─────────────────────────────────────────────
+
+route('GET', '/audit/', (req) => {
+  requireRole(req, 'admin', 'manager');
+  const { query } = req;
+  const actions = query.get('action')?.split(',').filter(Boolean);
+  const search = query.get('search')?.trim().toLowerCase();
+  const list = auditLog.filter((e) =>
+    (req.user!.role === 'admin' || e.company === req.user!.company)
+    && (!actions?.length || actions.includes(e.action))
+    && (!query.get('target_type') || e.target_type === query.get('target_type'))
+    && (!query.get('target_id') || e.target_id === query.get('target_id'))
+    && (!query.get('actor') || e.actor === query.get('actor'))
+    && inRange(e.timestamp.slice(0, 10), query)
+    && (!search || [e.actor_name, e.actor_email, e.target_label, JSON.stringify(e.before), JSON.stringify(e.after)]
+      .some((text) => text.toLowerCase().includes(search))));
+  const page = paginate(list, query, 'entries', 50);
+  return { ...page, entries: page.entries.map(({ company: _company, ...entry }) => entry) };
+});
+
+// ─────────────────────────────────────────────
+// Routes — import
+// ─────────────────────────────────────────────
+
+/** An uploaded workbook, headers renamed by its column mapping. */
+interface ParsedUpload {
+  fileType: string;
+  fileName: string;
+  rows: string[][];
+}
+
+async function parseUpload(req: MockRequest, form = req.body as FormData): Promise<ParsedUpload> {
+  const file = form.get('file');
+  const rows = await readSheet(file);
+  const columnMapping = form.get('column_mapping');
+  if (columnMapping) {
+    // Rename the file's headers to the template columns they were mapped to.
+    const headers = (rows[0] ?? []).map(String);
+    const mapping = parseMapping(columnMapping, 'column_mapping');
+    const missing = Object.values(mapping).filter((source) => !headers.includes(source));
+    if (missing.length) {
+      throw new MockHttpError(400, { column_mapping: [`Not a column of this file: ${missing.join(', ')}.`] });
+    }
+    const targets = new Map(Object.entries(mapping).map(([target, source]) => [source, target]));
+    rows[0] = headers.map((header) => targets.get(header) ?? header);
+  }
+  const detected = detectType((rows[0] ?? []).map(String));
+  const fileType = String(form.get('file_type') || detected);
+  if (IMPORT_PERMISSIONS.includes(`import-${fileType}`)) requirePermission(req, `import-${fileType}`);
+  return { fileType, fileName: (file as File).name ?? 'upload.xlsx', rows };
+}
+
+function recordImport(req: MockRequest, { fileType, fileName, rows }: ParsedUpload): MockImportLog {
+  const total = Math.max(0, rows.filter((r) => r.some((cell) => String(cell).trim())).length - 1);
+  const startedAt = new Date().toISOString();
+  const log: MockImportLog = {
+    id: mockId(9, importLogs.length + 1),
+    file_type: fileType,
+    original_filename: fileName,
+    uploaded_by: req.user!.id,
+    uploaded_by_name: req.user!.full_name,
+    company: req.user!.company,
+    status: total > 0 ? 'success' : 'failed',
+    row_count: total,
+    success_count: total,
+    error_count: 0,
+    error_details: total > 0 ? [] : [{ error: 'The file contains no data rows.' }],
+    started_at: startedAt,
+    completed_at: new Date().toISOString(),
+  };
+  importLogs.unshift(log);
+  return log;
+}
+
+const importLogItem = ({ company: _company, ...log }: MockImportLog): ImportLogEntry => log;
+
+function importUpload(req: MockRequest, upload: ParsedUpload): MockResponse {
+  const log = recordImport(req, upload);
+  return new MockResponse(
+    201,
+    JSON.stringify({
+      message: log.row_count > 0 ? `${log.row_count} rows imported.` : 'Nothing to import.',
+      import_log: importLogItem(log),
+      result: { file_type: log.file_type, total_rows: log.row_count, created: log.row_count, updated: 0, errors: [] },
+    }),
+  );
+}
+
+route('POST', '/import/upload/', async (req) => importUpload(req, await parseUpload(req)));
+
+// ── Chunked uploads ─────────────────────────
+
+/** Small enough that the demo workbooks still arrive in a few chunks. */
+const CHUNK_SIZE = 64 * 1024;
+const CHUNKED_UPLOAD_TTL = DAY;
+/** How long a completed chunked upload stays `processing`, so the page has something to poll. */
+const PROCESSING_TIME = 3_000;
+
+interface MockChunkedUpload extends Omit<ChunkedUpload, 'import_log'> {
+  user: string;
+  parts: Blob[];
+  /** The upload form fields other than the file, sent with startChunkedUpload. */
+  fields: Record<string, string>;
+  importLog: MockImportLog | null;
+}
+
+/** By client-chosen id, see StartChunkedUploadPayload. */
+const chunkedUploads = new Map<string, MockChunkedUpload>();
+
+function chunkedUploadItem({ user: _user, parts: _parts, fields: _fields, importLog, ...upload }: MockChunkedUpload): ChunkedUpload {
+  return { ...upload, import_log: importLog && importLogItem(importLog) };
+}
+
+/** One of the caller's chunked uploads that has not expired, or 404. */
+function ownChunkedUpload(req: MockRequest): MockChunkedUpload {
+  const upload = chunkedUploads.get(req.params.id);
+  if (!upload || upload.user !== req.user!.id || Date.parse(upload.expires_at) < Date.now()) throw notFound();
+  return upload;
+}
+
+route('POST', '/import/uploads/', (req) => {
+  requireFields(req.body, 'id', 'file_name', 'size');
+  const id = String(field(req.body, 'id'));
+  if (chunkedUploads.has(id)) throw new MockHttpError(409, { id: ['This upload id is already taken.'] });
+  const size = Number(field(req.body, 'size'));
+  if (!Number.isInteger(size) || size <= 0) throw new MockHttpError(400, { size: ['Expected a positive number of bytes.'] });
+  const fields: Record<string, string> = {};
+  for (const key of ['file_type', 'snapshot_date', 'report_date']) {
+    const value = field<string>(req.body, key);
+    if (value) fields[key] = value;
+  }
+  const mapping = field(req.body, 'column_mapping');
+  if (mapping) fields.column_mapping = JSON.stringify(parseMapping(mapping, 'column_mapping'));
+  const upload: MockChunkedUpload = {
+    id,
+    file_name: String(field(req.body, 'file_name')),
+    size,
+    chunk_size: CHUNK_SIZE,
+    received: 0,
+    status: 'uploading',
+    expires_at: new Date(Date.now() + CHUNKED_UPLOAD_TTL).toISOString(),
+    user: req.user!.id,
+    parts: [],
+    fields,
+    importLog: null,
+  };
+  chunkedUploads.set(upload.id, upload);
+  return new MockResponse(201, JSON.stringify(chunkedUploadItem(upload)));
+});
+
+route('GET', '/import/uploads/:id/', (req) => chunkedUploadItem(ownChunkedUpload(req)));
+
+route('POST', '/import/uploads/:id/chunks/', (req) => {
+  const upload = ownChunkedUpload(req);
+  if (upload.status !== 'uploading') throw new MockHttpError(400, { detail: `This upload is ${upload.status}.` });
+  const form = req.body as FormData;
+  const chunk = form.get('chunk');
+  if (!(chunk instanceof Blob)) throw new MockHttpError(400, { chunk: ['No chunk was submitted.'] });
+  const offset = Number(form.get('offset'));
+  if (offset !== upload.received) {
+    throw new MockHttpError(409, { code: 'offset_mismatch', received: upload.received, detail: 'The chunk does not start where the upload left off.' });
+  }
+  if (chunk.size > upload.chunk_size || upload.received + chunk.size > upload.size) {
+    throw new MockHttpError(400, { chunk: ['The chunk is larger than expected.'] });
+  }
+  upload.parts.push(chunk);
+  upload.received += chunk.size;
+  return chunkedUploadItem(upload);
+});
+
+route('POST', '/import/uploads/:id/complete/', async (req) => {
+  const upload = ownChunkedUpload(req);
+  // Completing twice (e.g. after the first response was lost) returns the same import.
+  if (upload.importLog) return new MockResponse(202, JSON.stringify(importLogItem(upload.importLog)));
+  if (upload.status !== 'uploading') throw new MockHttpError(400, { detail: `This upload is ${upload.status}.` });
+  if (upload.received < upload.size) {
+    throw new MockHttpError(400, { detail: `${upload.size - upload.received} bytes have not arrived yet.` });
+  }
+  const form = new FormData();
+  form.append('file', new File(upload.parts, upload.file_name));
+  Object.entries(upload.fields).forEach(([key, value]) => form.append(key, value));
+  const log = recordImport(req, await parseUpload(req, form));
+  upload.status = 'complete';
+  upload.parts = [];
+  upload.importLog = log;
+  // Hold the result back for a while, as a worker would.
+  const finished = { ...log };
+  Object.assign(log, { status: 'processing', success_count: 0, error_count: 0, error_details: [], completed_at: null });
+  setTimeout(() => Object.assign(log, finished, { completed_at: new Date().toISOString() }), PROCESSING_TIME);
+  return new MockResponse(202, JSON.stringify(importLogItem(log)));
+});
+
+route('DELETE', '/import/uploads/:id/', (req) => {
+  const upload = ownChunkedUpload(req);
+  if (upload.status === 'complete') throw new MockHttpError(400, { detail: 'This upload has already been imported.' });
+  upload.status = 'cancelled';
+  upload.parts = [];
+  return { message: 'Upload cancelled.' };
+});
+
+// ── Dry runs ────────────────────────────────
+
+const PREVIEW_TTL = 60 * 60 * 1000;
+
+interface MockImportPreview extends ParsedUpload {
+  id: string;
+  user: string;
+  expiresAt: number;
+}
+
+const importPreviews = new Map<string, MockImportPreview>();
+let nextImportPreview = 1;
+
+/** The data rows of a mapped upload as objects keyed by (whitespace-normalised) template header. */
+function uploadRecords(rows: string[][]): Record<string, string>[] {
+  const headers = (rows[0] ?? []).map((h) => String(h).replace(/\s+/g, ' ').trim());
+  return rows.slice(1)
+    .filter((r) => r.some((cell) => String(cell).trim()))
+    .map((r) => Object.fromEntries(headers.map((h, i) => [h, String(r[i] ?? '').trim()])));
+}
+
+const amount = (value: string | undefined) => Number(String(value ?? '').replace(/,/g, '')) || 0;
+
+/** What importing `upload` would change, compared with the current mock data. */
+function diffUpload({ fileType, rows }: ParsedUpload, form: FormData): { diff: ImportDiff; created: number; updated: number } {
+  const records = uploadRecords(rows);
+  const diff: ImportDiff = {
+    replaces: null, new_customers: [], changed_balances: [], quantity_changes: [], removed: [], unchanged_count: 0,
+  };
+  let created = 0;
+  let updated = 0;
+
+  if (fileType === 'customers') {
+    const known = new Set(fixtures.customers.map((c) => c.code));
+    records.forEach((r) => {
+      const code = r['رمز الحساب'];
+      if (code && known.has(code)) { diff.unchanged_count++; updated++; return; }
+      diff.new_customers.push({ account_code: code ?? '', name: r['اسم العميل'] ?? '' });
+      created++;
+    });
+  } else if (fileType === 'aging') {
+    const date = String(form.get('report_date') || TODAY);
+    const existing = agingRecords.filter((r) => r.report_date === date);
+    if (existing.length) diff.replaces = `Aging report of ${date}`;
+    const byAccount = new Map(existing.map((r) => [r.account, r]));
+    const knownNames = new Set(fixtures.customers.map((c) => c.name));
+    const seen = new Set<string>();
+    records.forEach((r) => {
+      const account = r['الحساب'];
+      if (!account) return;
+      seen.add(account);
+      const after = round(amount(r['المجموع']));
+      const before = byAccount.get(account);
+      if (!before) {
+        if (!knownNames.has(account)) diff.new_customers.push({ account_code: '', name: account });
+        created++;
+      } else if (Math.abs(before.total - after) >= 0.01) {
+        diff.changed_balances.push({
+          account_code: before.account_code, account, before: before.total, after, change: round(after - before.total),
+        });
+        updated++;
+      } else {
+        diff.unchanged_count++;
+      }
+    });
+    existing.filter((r) => !seen.has(r.account)).forEach((r) => diff.removed.push({ key: r.account_code, label: r.account }));
+  } else if (fileType === 'inventory') {
+    const date = String(form.get('snapshot_date') || '');
+    const sameDate = snapshots.find((s) => s.snapshot.snapshot_date === date);
+    const baseline = sameDate ?? snapshots[0];
+    if (sameDate) diff.replaces = sameDate.snapshot.label;
+    const names = new Map(baseline.lines.map((l) => [l.product_code, l.product_name]));
+    const seen = new Set<string>();
+    records.forEach((r) => {
+      const code = r['رمز المادة'];
+      if (!code) return;
+      seen.add(code);
+      const after = amount(r['إجمالي كمية (الوحدة الافتراضية)']);
+      if (!names.has(code)) { created++; return; }
+      const before = productStock(baseline.lines, code);
+      if (before === after) { diff.unchanged_count++; return; }
+      diff.quantity_changes.push({
+        product_code: code,
+        product_name: r['اسم المادة'] || names.get(code)!,
+        before,
+        after,
+        change_pct: before ? round(((after - before) / before) * 100, 1) : null,
+      });
+      updated++;
+    });
+    [...names].filter(([code]) => !seen.has(code)).forEach(([code, name]) => diff.removed.push({ key: code, label: name }));
+  } else {
+    created = records.length;
+  }
+  return { diff, created, updated };
+}
+
+/** A live preview of the caller's, or 404. */
+function ownPreview(req: MockRequest): MockImportPreview {
+  const preview = importPreviews.get(req.params.id);
+  if (!preview || preview.user !== req.user!.id || preview.expiresAt < Date.now()) throw notFound();
+  return preview;
+}
+
+route('POST', '/import/previews/', async (req) => {
+  const upload = await parseUpload(req);
+  const { diff, created, updated } = diffUpload(upload, req.body as FormData);
+  const preview: MockImportPreview = {
+    ...upload,
+    id: mockId(17, nextImportPreview++),
+    user: req.user!.id,
+    expiresAt: Date.now() + PREVIEW_TTL,
+  };
+  importPreviews.set(preview.id, preview);
+  return new MockResponse(201, JSON.stringify({
+    id: preview.id,
+    file_type: preview.fileType,
+    original_filename: preview.fileName,
+    expires_at: new Date(preview.expiresAt).toISOString(),
+    result: { file_type: preview.fileType, total_rows: uploadRecords(preview.rows).length, created, updated, errors: [] },
+    diff,
+  }));
+});
+
+route('POST', '/import/previews/:id/commit/', (req) => {
+  const preview = ownPreview(req);
+  importPreviews.delete(preview.id);
+  return importUpload(req, preview);
+});
+
+route('DELETE', '/import/previews/:id/', (req) => {
+  importPreviews.delete(ownPreview(req).id);
+  return { message: 'Preview discarded.' };
+});
+
+route('POST', '/import/detect/', async ({ body }) => {
+  const file = (body as FormData).get('file');
+  const [headerRow = [], ...rows] = await readSheet(file);
+  const headers = headerRow.map(String);
+  return {
+    filename: (file as File).name ?? 'upload.xlsx',
+    detected_file_type: detectType(headers),
+    headers,
+    preview_rows: rows.slice(0, 5).map((row) => Object.fromEntries(headers.map((h, i) => [h, String(row[i] ?? '')]))),
+    total_rows_estimate: rows.length,
+  };
+});
+
+route('GET', '/import/logs/', (req) => {
+  const { query } = req;
+  const visible = importLogs.filter((l) => req.user!.role === 'admin' || l.company === req.user!.company);
+  const type = query.get('file_type');
+  const status = query.get('status');
+  const uploader = query.get('uploaded_by');
+  const logs = visible.filter((l) =>
+    (!type || l.file_type === type)
+    && (!status || l.status === status)
+    && (!uploader || l.uploaded_by === uploader)
+    && inRange(l.started_at.slice(0, 10), query));
+  const uploaders = new Map(visible.filter((l) => l.uploaded_by).map((l) => [l.uploaded_by!, l.uploaded_by_name]));
+  const page = paginate(logs, query, 'logs', 20);
+  return {
+    ...page,
+    logs: page.logs.map(importLogItem),
+    uploaders: [...uploaders].map(([id, name]) => ({ id, name })),
+  };
+});
+
+route('GET', '/import/logs/:id/', (req) => {
+  const log = importLogs.find((l) => l.id === req.params.id && (req.user!.role === 'admin' || l.company === req.user!.company));
+  if (!log) throw notFound();
+  return importLogItem(log);
+});
+
+function mappingProfileFields(req: MockRequest) {
+  requireFields(req.body, 'name', 'file_type', 'mapping');
+  const fileType = String(field(req.body, 'file_type'));
+  if (!TEMPLATE_HEADERS[fileType]) throw new MockHttpError(400, { file_type: ['Unknown file type.'] });
+  requirePermission(req, `import-${fileType}`);
+  const name = String(field(req.body, 'name')).trim();
+  if (!name) throw new MockHttpError(400, { name: ['This field is required.'] });
+  return {
+    name,
+    file_type: fileType,
+    mapping: parseMapping(field(req.body, 'mapping'), 'mapping'),
+  };
+}
+
+function companyMappingProfile(req: MockRequest) {
+  const found = mappingProfiles.find((p) => p.id === req.params.id && p.company === req.user!.company);
+  if (!found) throw notFound();
+  requirePermission(req, `import-${found.file_type}`);
+  return found;
+}
+
+function checkProfileName(profile: { name: string; file_type: string }, company: string | null, self?: MockMappingProfile) {
+  if (mappingProfiles.some((p) => p !== self && p.company === company && p.file_type === profile.file_type && p.name === profile.name)) {
+    throw new MockHttpError(400, { name: ['A profile with this name already exists for this file type.'] });
+  }
+}
+
+const mappingProfileItem = ({ company: _company, ...profile }: MockMappingProfile): MappingProfile => profile;
+
+route('GET', '/import/mapping-profiles/', (req) => {
+  const type = req.query.get('file_type');
+  const list = mappingProfiles.filter((p) => p.company === req.user!.company && (!type || p.file_type === type));
+  return { count: list.length, profiles: list.map(mappingProfileItem) };
+});
+
+route('POST', '/import/mapping-profiles/', (req) => {
+  const fields = mappingProfileFields(req);
+  checkProfileName(fields, req.user!.company);
+  const now = new Date().toISOString();
+  const created: MockMappingProfile = {
+    id: mockId(16, nextMappingProfile++),
+    ...fields,
+    created_by_name: req.user!.full_name,
+    company: req.user!.company,
+    created_at: now,
+    updated_at: now,
+  };
+  mappingProfiles.push(created);
+  return new MockResponse(201, JSON.stringify(mappingProfileItem(created)));
+});
+
+route('PATCH', '/import/mapping-profiles/:id/', (req) => {
+  const profile = companyMappingProfile(req);
+  const fields = mappingProfileFields(req);
+  checkProfileName(fields, profile.company, profile);
+  Object.assign(profile, fields, { updated_at: new Date().toISOString() });
+  return mappingProfileItem(profile);
+});
+
+route('DELETE', '/import/mapping-profiles/:id/', (req) => {
+  const profile = companyMappingProfile(req);
+  mappingProfiles.splice(mappingProfiles.indexOf(profile), 1);
+  return { message: 'Profile deleted.' };
+});
+
+route('GET', '/import/template/:type/', ({ params }) => {
+  const headers = TEMPLATE_HEADERS[params.type];
+  if (!headers) throw notFound();
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([headers]), params.type);
+  const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+  return new MockResponse(200, data, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+});
+
+// ─────────────────────────────────────────────
+// Routes — products & customers
+// ─────────────────────────────────────────────
+
+const backendProducts = fixtures.products.map((p) => ({
+  id: mockId(10, Number(p.id)),
+  product_code: p.sku,
+  lab_code: null,
+  product_name: p.name,
+  category: p.category,
+  movement_count: movements.filter((m) => m.material_code === p.sku).length,
+  latest_snapshot_date: snapshots[0].snapshot.snapshot_date,
+  total_stock: productStock(snapshots[0].lines, p.sku),
+  created_at: '2025-01-15T09:00:00Z',
+  updated_at: `${TODAY}T08:00:00Z`,
+}));
+
+const backendCustomers = fixtures.customers.map((c) => {
+  const aging = agingRecords.find((r) => r.account_code === c.code);
+  return {
+    id: mockId(8, Number(c.id)),
+    customer_name: c.name,
+    account_code: c.code,
+    area_code: `R${(Number(c.id) % 4) + 1}`,
+    phone: c.phone,
+    email: c.email,
+    address: null,
+    movement_count: movements.filter((m) => m.customer_name === c.name).length,
+    latest_aging_total: aging?.total ?? null,
+    latest_aging_risk: aging?.risk_score ?? null,
+    created_at: '2025-01-15T09:00:00Z',
+  };
+});
+
+function findBy<T extends { id: string }>(items: T[], id: string): T {
+  const found = items.find((item) => item.id === id);
+  if (!found) throw notFound();
+  return found;
+}
+
+route('GET', '/products/', ({ query }) => {
+  const category = query.get('category');
+  const list = backendProducts.filter(
+    (p) => (!category || p.category === category) && matches(query, p.product_name, p.product_code),
+  );
+  return paginate(order(list, query.get('ordering'), 'product_name'), query, 'products');
+});
+route('GET', '/products/categories/', () => ({
+  categories: [...new Set(backendProducts.map((p) => p.category))].sort(),
+}));
+route('GET', '/products/:id/', ({ params }) => findBy(backendProducts, params.id));
+route('GET', '/products/:id/inventory/', ({ params }) => {
+  const product = findBy(backendProducts, params.id);
+  return {
+    product_code: product.product_code,
+    history: snapshots.map(({ snapshot, lines }) => ({
+      snapshot_id: snapshot.id,
+      snapshot_date: snapshot.snapshot_date,
+      quantity: productStock(lines, product.product_code),
+    })),
+  };
+});
+route('GET', '/products/:id/movements/', ({ params, query }) => {
+  const product = findBy(backendProducts, params.id);
+  return paginate(
+    movementsFor(query).filter((m) => m.material_code === product.product_code),
+    query,
+    'movements',
+  );
+});
+
+route('GET', '/customers/', ({ query }) => {
+  const area = query.get('area_code');
+  const list = backendCustomers.filter(
+    (c) => (!area || c.area_code === area) && matches(query, c.customer_name, c.account_code),
+  );
+  return paginate(order(list, query.get('ordering'), 'customer_name'), query, 'customers');
+});
+route('GET', '/customers/:id/', ({ params }) => findBy(backendCustomers, params.id));
+route('GET', '/customers/:id/movements/', ({ params, query }) => {
+  const customer = findBy(backendCustomers, params.id);
+  return paginate(
+    movementsFor(query).filter((m) => m.customer_name === customer.customer_name),
+    query,
+    'movements',
+  );
+});
+route('GET', '/customers/:id/aging/', ({ params }) => {
+  const customer = findBy(backendCustomers, params.id);
+  return { records: agingRecords.filter((r) => r.account_code === customer.account_code) };
+});
+
+// ─────────────────────────────────────────────
+// Routes — inventory
+// ─────────────────────────────────────────────
+
+route('GET', '/inventory/', ({ query }) => {
+  const list = snapshots
+    .map((s) => s.snapshot)
+    .filter((s) => matches(query, s.label, s.source_file, s.notes));
+  return paginate(list, query, 'items');
+});
+
+route('GET', '/inventory/dates/', () => ({
+  dates: snapshots.map((s) => s.snapshot.snapshot_date),
+}));
+
+function branchTotals<K extends string>(lines: InventorySnapshotLine[], by: (l: InventorySnapshotLine) => string, key: K) {
+  return [...groupBy(lines, by)].map(([name, group]) => ({
+    [key]: name,
+    total_qty: sum(group, (l) => l.quantity),
+    total_value: round(sum(group, (l) => l.line_value)),
+  })) as Array<Record<K, string> & { total_qty: number; total_value: number }>;
+}
+
+route('GET', '/inventory/branch-summary/', ({ query }) => {
+  const lines = snapshotFor(query).lines.filter((l) => inBranch(query, l.branch_name));
+  return { branches: branchTotals(lines, (l) => l.branch_name, 'branch') };
+});
+
+route('GET', '/inventory/category-breakdown/', ({ query }) => {
+  const lines = snapshotFor(query).lines.filter((l) => inBranch(query, l.branch_name));
+  return { categories: branchTotals(lines, (l) => l.product_category, 'category') };
+});
+
+route('GET', '/inventory/:id/', ({ params }) => findBy(snapshots.map((s) => s.snapshot), params.id));
+
+route('DELETE', '/inventory/:id/', (req) => {
+  requirePermission(req, 'manage-inventory');
+  const index = snapshots.findIndex((s) => s.snapshot.id === req.params.id);
+  if (index < 0) throw notFound();
+  const [{ snapshot }] = snapshots.splice(index, 1);
+  audit(req, 'inventory.delete', {
+    type: 'inventory_snapshot',
+    id: snapshot.id,
+    label: snapshot.source_file || snapshot.label || 'Inventory',
+  }, { uploaded_at: snapshot.uploaded_at, source_file: snapshot.source_file }, null);
+  return new MockResponse(204, null);
+});
+
+route('GET', '/inventory/:id/lines/', ({ params, query }) => {
+  const state = snapshots.find((s) => s.snapshot.id === params.id);
+  if (!state) throw notFound();
+  const lines = state.lines.filter(
+    (l) => inBranch(query, l.branch_name) && matches(query, l.product_name, l.product_code),
+  );
+  const perProduct = [...groupBy(lines, (l) => l.product_code)].map(([code, group]) => ({
+    qty: sum(group, (l) => l.quantity),
+    min: fixtures.products.find((p) => p.sku === code)?.minStock ?? 0,
+  }));
+  return {
+    snapshot_id: state.snapshot.id,
+    ...paginate(order(lines, query.get('ordering'), 'product_name'), query, 'lines', 50),
+    totals: {
+      grand_total_qty: sum(lines, (l) => l.quantity),
+      grand_total_value: round(sum(lines, (l) => l.line_value)),
+      distinct_products: perProduct.length,
+      out_of_stock_count: perProduct.filter((p) => p.qty === 0).length,
+      critical_count: perProduct.filter((p) => p.qty > 0 && p.qty < p.min).length,
+      low_count: perProduct.filter((p) => p.qty >= p.min && p.qty < p.min * 2).length,
+    },
+  };
+});
+
+// ─────────────────────────────────────────────
+// Routes — transactions
+// ─────────────────────────────────────────────
+
+route('GET', '/transactions/', ({ query }) => {
+  const list = movementsFor(query);
+  return {
+    ...paginate(order(list, query.get('ordering'), '-movement_date'), query, 'movements', 50),
+    totals: {
+      total_in_value: round(sum(list, (m) => m.total_in)),
+      total_out_value: round(sum(list, (m) => m.total_out)),
+    },
+  };
+});
+
+route('GET', '/transactions/movement-types/', () => ({
+  types: [...new Set(movements.map((m) => m.movement_type))],
+}));
+
+route('GET', '/transactions/summary/', ({ query }) => {
+  const year = query.get('year');
+  const months = intParam(query, 'months', 12);
+  const cutoff = new Date();
+  cutoff.setMonth(cutoff.getMonth() - months + 1, 1);
+  const from = year ? `${year}-01-01` : isoDate(cutoff).slice(0, 8) + '01';
+  const to = year ? `${year}-12-31` : TODAY;
+  const list = movements.filter(
+    (m) => inBranch(query, m.branch_name) && m.movement_date >= from && m.movement_date <= to,
+  );
+  const summary = [...groupBy(list, (m) => m.movement_date.slice(0, 7))]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => {
+      const [y, mo] = key.split('-').map(Number);
+      const sales = salesOf(group);
+      const purchases = group.filter((m) => isPurchaseType(m.movement_type));
+      const revenue = sum(sales, saleAmount);
+      return {
+        year: y,
+        month: mo,
+        month_label: monthLabel(y, mo),
+        total_sales: round(revenue),
+        total_purchases: round(sum(purchases, (m) => m.total_in)),
+        total_profit: round(revenue - sum(sales, (m) => saleQty(m) * m.balance_price)),
+        total_qty: sum(sales, saleQty),
+        sales_count: sales.length,
+        purchases_count: purchases.length,
+      };
+    });
+  return { summary };
+});
+
+route('GET', '/transactions/type-breakdown/', ({ query }) => {
+  const list = movements.filter((m) => inBranch(query, m.branch_name) && inRange(m.movement_date, query));
+  return {
+    breakdown: [...groupBy(list, (m) => m.movement_type)].map(([type, group]) => ({
+      movement_type: type,
+      label: MOVEMENT_TYPE_LABELS[type] ?? type,
+      count: group.length,
+      total_in: round(sum(group, (m) => m.total_in)),
+      total_out: round(sum(group, (m) => m.total_out)),
+    })),
+  };
+});
+
+const amountOf = (m: Movement) => (isSaleType(m.movement_type) ? m.total_out : m.total_in);
+
+route('GET', '/transactions/branch-breakdown/', ({ query }) => {
+  const type = query.get('movement_type') || MOVEMENT_TYPES.SALE;
+  const list = movements.filter(
+    (m) => m.movement_type === type && inBranch(query, m.branch_name) && inRange(m.movement_date, query),
+  );
+  return {
+    movement_type: type,
+    branches: [...groupBy(list, (m) => m.branch_name ?? '—')].map(([branch, group]) => ({
+      branch,
+      count: group.length,
+      total: round(sum(group, amountOf)),
+    })),
+  };
+});
+
+route('GET', '/transactions/branch-monthly/', ({ query }) => {
+  const type = query.get('movement_type') || MOVEMENT_TYPES.SALE;
+  const year = query.get('year');
+  const list = movements.filter(
+    (m) =>
+      m.movement_type === type &&
+      inBranch(query, m.branch_name) &&
+      (!year || m.movement_date.startsWith(year)) &&
+      inRange(m.movement_date, query),
+  );
+  const names = branchNames.filter((name) => inBranch(query, name));
+  const monthly = [...groupBy(list, (m) => m.movement_date.slice(0, 7))]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => {
+      const [y, mo] = key.split('-').map(Number);
+      const row: Record<string, string | number> = { month: monthLabel(y, mo), year: y };
+      names.forEach((name) => {
+        row[name] = round(sum(group.filter((m) => m.branch_name === name), amountOf));
+      });
+      return row;
+    });
+  return { movement_type: type, branches: names, monthly_data: monthly };
+});
+
+route('GET', '/transactions/branches/', ({ query }) => ({
+  branches: branchNames.filter((name) => inBranch(query, name)),
+}));
+
+route('GET', '/transactions/:id/', ({ params }) => findBy(movements, params.id));
+
+// ─────────────────────────────────────────────
+// Routes — aging & credit KPI
+// ─────────────────────────────────────────────
+
+route('GET', '/aging/', ({ query }) => {
+  const list = agingFor(query);
+  return {
+    report_date: TODAY,
+    ...paginate(order(list, query.get('ordering'), '-total'), query, 'records'),
+    grand_total: round(sum(list, (r) => r.total)),
+  };
+});
+route('GET', '/aging/dates/', () => ({ dates: [TODAY] }));
+route('GET', '/aging/risk/', ({ query }) => {
+  const top = order(agingFor(query), '-overdue_total').slice(0, intParam(query, 'limit', 10));
+  return {
+    report_date: TODAY,
+    count: top.length,
+    top_risk: top.map(({ id, account, account_code, customer_name, total, overdue_total, risk_score }) => ({
+      id,
+      account,
+      account_code,
+      customer_name,
+      total,
+      overdue_total,
+      risk_score,
+    })),
+  };
+});
+route('GET', '/aging/distribution/', ({ query }) => {
+  const records = agingFor(query);
+  return {
+    report_date: TODAY,
+    grand_total: round(sum(records, (r) => r.total)),
+    distribution: agingDistribution(records),
+  };
+});
+route('GET', '/aging/:id/', ({ params }) => findBy(agingRecords, params.id));
+
+route('GET', '/kpi/credit/', () => {
+  const receivables = sum(agingRecords, (r) => r.total);
+  const overdue = sum(agingRecords, (r) => r.overdue_total);
+  const sales = salesOf(movements);
+  const caTotal = sum(sales, saleAmount);
+  const creditNames = new Set(agingRecords.map((r) => r.customer_name));
+  const caCredit = sum(sales.filter((m) => creditNames.has(m.customer_name)), saleAmount);
+  const dmp = receivables ? sum(agingRecords, (r) => dmpDays(r) * r.total) / receivables : 0;
+  const pct = (value: number) => round(value * 100);
+  const kpi = (value: number, label: string, unit: string, description: string, extra: object = {}) => ({
+    value,
+    label,
+    unit,
+    description,
+    ...extra,
+  });
+
+  return {
+    report_date: TODAY,
+    kpis: {
+      taux_clients_credit: kpi(
+        pct(creditNames.size / fixtures.customers.length),
+        'Credit customers',
+        '%',
+        'Share of customers with an open balance',
+        { numerator: creditNames.size, denominator: fixtures.customers.length },
+      ),
+      taux_credit_total: kpi(pct(caCredit / caTotal), 'Credit sales', '%', 'Share of revenue sold on credit', {
+        ca_credit: round(caCredit),
+        ca_total: round(caTotal),
+      }),
+      taux_impayes: kpi(pct(overdue / receivables), 'Overdue rate', '%', 'Overdue share of receivables', {
+        overdue_amount: round(overdue),
+        total_receivables: round(receivables),
+      }),
+      dmp: kpi(round(dmp, 1), 'Average payment delay', 'days', 'Receivable-weighted days outstanding'),
+      taux_recouvrement: kpi(
+        pct(1 - overdue / receivables),
+        'Recovery rate',
+        '%',
+        'Receivables collected on time',
+        { recovered_amount: round(receivables - overdue), total_credit: round(receivables) },
+      ),
+    },
+    top5_risky_customers: order(agingRecords, '-overdue_total')
+      .slice(0, 5)
+      .map((r) => ({
+        id: r.id,
+        account: r.account,
+        account_code: r.account_code,
+        customer_name: r.customer_name ?? '',
+        total: r.total,
+        current: r.current,
+        overdue_total: r.overdue_total,
+        risk_score: r.risk_score,
+        overdue_percentage: r.total ? pct(r.overdue_total / r.total) : 0,
+        dmp_days: dmpDays(r),
+        buckets: Object.fromEntries(BUCKETS.map(([key]) => [key, r[key]])),
+      })),
+    bucket_distribution: agingDistribution(agingRecords).map(({ total, ...rest }) => ({ ...rest, amount: total })),
+    summary: {
+      total_customers: fixtures.customers.length,
+      credit_customers: creditNames.size,
+      grand_total_receivables: round(receivables),
+      overdue_amount: round(overdue),
+      ca_credit: round(caCredit),
+      ca_total: round(caTotal),
+    },
+  };
+});
+
+// ─────────────────────────────────────────────
+// Routes — sales & stock KPI
+// ─────────────────────────────────────────────
+
+/** Period of a KPI request: explicit dates, else the requested (or current) year. */
+function kpiPeriod(query: URLSearchParams) {
+  const year = intParam(query, 'year', new Date().getFullYear());
+  const from = query.get('date_from') || `${year}-01-01`;
+  const to = query.get('date_to') || (year === new Date().getFullYear() ? TODAY : `${year}-12-31`);
+  return { year, from, to, days: Math.max(1, Math.round((Date.parse(to) - Date.parse(from)) / DAY) + 1) };
+}
+
+function productRows(sales: Movement[]): SalesKPIProduct[] {
+  const revenue = sum(sales, saleAmount);
+  return [...groupBy(sales, (m) => m.material_code)].map(([code, group]) => {
+    const total = sum(group, saleAmount);
+    const qty = sum(group, saleQty);
+    const profit = total - sum(group, (m) => saleQty(m) * m.balance_price);
+    return {
+      material_code: code,
+      material_name: group[0].material_name,
+      total_revenue: round(total),
+      total_qty: qty,
+      total_profit: round(profit),
+      transaction_count: group.length,
+      revenue_share: revenue ? round((total / revenue) * 100) : 0,
+      margin_pct: total ? round((profit / total) * 100) : 0,
+      total_price_out_x_qty: round(total),
+      total_balance_price_x_qty: round(sum(group, (m) => saleQty(m) * m.balance_price)),
+    };
+  });
+}
+
+route('GET', '/kpi/sales/', ({ query }) => {
+  const period = kpiPeriod(query);
+  const topN = intParam(query, 'top_n', 10);
+  const inPeriod = (m: Movement, from: string, to: string) =>
+    isSaleType(m.movement_type) &&
+    inBranch(query, m.branch_name) &&
+    m.movement_date >= from &&
+    m.movement_date <= to;
+  const sales = movements.filter((m) => inPeriod(m, period.from, period.to));
+  const shift = (date: string) => `${Number(date.slice(0, 4)) - 1}${date.slice(4)}`;
+  const previous = sum(movements.filter((m) => inPeriod(m, shift(period.from), shift(period.to))), saleAmount);
+  const total = sum(sales, saleAmount);
+  const products = productRows(sales);
+  const evolution = previous ? ((total - previous) / previous) * 100 : 0;
+
+  return {
+    year: period.year,
+    period_from: period.from,
+    period_to: period.to,
+    ca: { total: round(total), previous: round(previous), label: "Chiffre d'Affaires", unit: 'LYD' },
+    sales_evolution: {
+      value: round(evolution),
+      is_up: evolution >= 0,
+      label: 'Sales Evolution',
+      unit: '%',
+      description: 'Comparison with previous period',
+    },
+    top_products: order(products, '-total_revenue').slice(0, topN),
+    monthly_sales: [...groupBy(sales, (m) => m.movement_date.slice(0, 7))]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, group]) => {
+        const [y, mo] = key.split('-').map(Number);
+        return {
+          year: y,
+          month: mo,
+          month_label: monthLabel(y, mo),
+          total_revenue: round(sum(group, saleAmount)),
+          total_qty: sum(group, saleQty),
+          count: group.length,
+        };
+      }),
+    product_margins: order(products, '-margin_pct').slice(0, topN),
+    top_clients: order(
+      [...groupBy(sales, (m) => m.customer_name ?? '—')].map(([name, group]) => {
+        const revenue = sum(group, saleAmount);
+        return {
+          customer_name: name,
+          total_revenue: round(revenue),
+          total_profit: round(revenue - sum(group, (m) => saleQty(m) * m.balance_price)),
+          transaction_count: group.length,
+          revenue_share: total ? round((revenue / total) * 100) : 0,
+        };
+      }),
+      '-total_revenue',
+    ).slice(0, topN),
+    sales_velocity: {
+      avg_daily_revenue: round(total / period.days),
+      avg_daily_qty: round(sum(sales, saleQty) / period.days),
+      n_days: period.days,
+      by_product: order(products, '-total_qty')
+        .slice(0, topN)
+        .map((p) => {
+          const dailyQty = p.total_qty / period.days;
+          return {
+            material_code: p.material_code,
+            material_name: p.material_name,
+            avg_daily_revenue: round(p.total_revenue / period.days),
+            avg_daily_qty: round(dailyQty),
+            days_to_sell_100: dailyQty ? round(100 / dailyQty, 1) : 0,
+            total_qty: p.total_qty,
+          };
+        }),
+    },
+    avg_price_out: round(total / Math.max(1, sum(sales, saleQty))),
+    avg_balance_price: round(sum(sales, (m) => m.balance_price) / Math.max(1, sales.length)),
+  };
+});
+
+function stockRows(query: URLSearchParams): { year: number; rows: StockKPIProduct[] } {
+  const period = kpiPeriod(query);
+  const snapshotDate = query.get('snapshot_date');
+  const state = snapshots.find((s) => s.snapshot.snapshot_date === snapshotDate) ?? snapshots[0];
+  const lines = (state?.lines ?? []).filter((l) => inBranch(query, l.branch_name));
+  const yearMovements = movements.filter(
+    (m) =>
+      inBranch(query, m.branch_name) &&
+      m.movement_date >= period.from &&
+      m.movement_date <= period.to,
+  );
+
+  const rows = fixtures.products.map((p): StockKPIProduct => {
+    const own = lines.filter((l) => l.product_code === p.sku);
+    const moves = yearMovements.filter((m) => m.material_code === p.sku);
+    const stockQty = sum(own, (l) => l.quantity);
+    const qtySold = sum(salesOf(moves), saleQty);
+    const qtyPurchased = sum(moves.filter((m) => isPurchaseType(m.movement_type)), (m) => m.qty_in);
+    const qtyOpening = Math.max(0, stockQty + qtySold - qtyPurchased);
+    const denominator = qtyOpening + qtyPurchased;
+    const dailySold = qtySold / period.days;
+    return {
+      material_code: p.sku,
+      product_name: p.name,
+      category: p.category,
+      stock_qty: stockQty,
+      stock_value: round(sum(own, (l) => l.line_value)),
+      cost_price: p.purchasePrice,
+      qty_sold: qtySold,
+      revenue: round(sum(salesOf(moves), saleAmount)),
+      rotation_rate: denominator ? round(qtySold / denominator, 3) : 0,
+      coverage_days: dailySold > 0 ? round(stockQty / dailySold, 1) : null,
+      qty_opening: qtyOpening,
+      qty_purchased: qtyPurchased,
+      denominator,
+    };
+  });
+  return { year: period.year, rows };
+}
+
+route('GET', '/kpi/stock/', ({ query }) => {
+  const { year, rows } = stockRows(query);
+  const threshold = Number(query.get('low_rotation_threshold') ?? 0.5);
+  const low = rows.filter((r) => r.stock_qty > 0 && r.rotation_rate < threshold);
+  return {
+    snapshot_date: snapshots[0]?.snapshot.snapshot_date ?? null,
+    year,
+    rotation_formula: 'qty_sold / (stock_initial + achats)',
+    stock_summary: {
+      total_products: rows.length,
+      total_qty: sum(rows, (r) => r.stock_qty),
+      total_value: round(sum(rows, (r) => r.stock_value)),
+      zero_stock_count: rows.filter((r) => r.stock_qty === 0).length,
+      low_rotation_count: low.length,
+      low_rotation_threshold: threshold,
+      avg_rotation_rate: round(sum(rows, (r) => r.rotation_rate) / Math.max(1, rows.length), 3),
+    },
+    top_rotation_products: order(rows, '-rotation_rate').slice(0, 10),
+    low_rotation_products: order(low, 'rotation_rate').slice(0, 10),
+    zero_stock_products: rows.filter((r) => r.stock_qty === 0),
+    coverage_at_risk: order(
+      rows.filter((r) => r.coverage_days !== null && r.coverage_days < 30),
+      'coverage_days',
+    ),
+  };
+});
+
+// ─────────────────────────────────────────────
+// Routes — AI insights
+// ─────────────────────────────────────────────
+
+/** Smart alerts are built client-side; only who resolved which one is stored. */
+const alertResolutions = new Map<string, { type: string; message: string; company: string | null }>();
+
+route('GET', '/ai-insights/alerts/resolutions/', (req) => ({
+  resolved_ids: [...alertResolutions].filter(([, r]) => r.company === req.user!.company).map(([id]) => id),
+}));
+
+route('POST', '/ai-insights/alerts/resolve/', (req) => {
+  requirePermission(req, 'resolve-alerts');
+  requireFields(req.body, 'alert_id');
+  const id = String(field(req.body, 'alert_id'));
+  const message = String(field(req.body, 'alert_message') ?? id);
+  alertResolutions.set(id, { type: String(field(req.body, 'alert_type') ?? ''), message, company: req.user!.company });
+  audit(req, 'alert.resolve', { type: 'alert', id, label: message }, { status: 'pending' }, { status: 'resolved' });
+  return new MockResponse(201, JSON.stringify({ message: 'Alert resolved.' }));
+});
+
+route('DELETE', '/ai-insights/alerts/resolve/:id/', (req) => {
+  requirePermission(req, 'resolve-alerts');
+  const resolution = alertResolutions.get(req.params.id);
+  if (!resolution || resolution.company !== req.user!.company) throw notFound();
+  alertResolutions.delete(req.params.id);
+  audit(req, 'alert.reopen', { type: 'alert', id: req.params.id, label: resolution.message }, { status: 'resolved' }, { status: 'pending' });
+  return new MockResponse(204, null);
+});
+
+const severityOf = (score: number): Severity =>
+  score >= 80 ? 'critical' : score >= 60 ? 'high' : score >= 35 ? 'medium' : 'low';
+
+/** Net sales per calendar month, oldest first. */
+function monthlyRevenue() {
+  return [...groupBy(salesOf(movements), (m) => m.movement_date.slice(0, 7))]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => ({ key, revenue: sum(group, saleAmount) }));
+}
+
+/** Least-squares line through `values` (x = 0, 1, …). */
+function linearTrend(values: number[]) {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = sum(values, (v) => v) / Math.max(1, n);
+  const sxx = values.reduce((acc, _, i) => acc + (i - meanX) ** 2, 0);
+  const slope = sxx ? values.reduce((acc, v, i) => acc + (i - meanX) * (v - meanY), 0) / sxx : 0;
+  const intercept = meanY - slope * meanX;
+  const ssTot = values.reduce((acc, v) => acc + (v - meanY) ** 2, 0);
+  const ssRes = values.reduce((acc, v, i) => acc + (v - (intercept + slope * i)) ** 2, 0);
+  return {
+    slope,
+    intercept,
+    meanY,
+    r2: ssTot ? 1 - ssRes / ssTot : 0,
+    residualStd: Math.sqrt(ssRes / Math.max(1, n - 2)),
+  };
+}
+
+const aiResult = <T extends object>(query: URLSearchParams, result: T) => ({
+  ...result,
+  // The real service caches for an hour unless ?refresh=true.
+  cached: query.get('refresh') !== 'true',
+});
+
+route('GET', '/ai-insights/critical/', ({ query }) => {
+  const alertSeverity: Record<string, Severity> = { critical: 'critical', medium: 'medium', low: 'low' };
+  const situations: CriticalSituation[] = fixtures.alerts
+    .filter((a) => a.status === 'pending')
+    .map((alert) => {
+      const severity = alertSeverity[alert.severity];
+      const product = alert.productId ? productById.get(alert.productId) : undefined;
+      const customer = alert.customerId ? customerById.get(alert.customerId) : undefined;
+      const aging = customer ? agingRecords.find((r) => r.account_code === customer.code) : undefined;
+      const exposure = aging?.overdue_total ?? (product ? product.salePrice * product.minStock : 0);
+      return {
+        source: alert.type === 'overdue' || alert.type === 'risk' ? 'aging' : product ? 'stock' : 'sales',
+        title: alert.message,
+        severity,
+        composite_score: severity === 'critical' ? 88 : severity === 'medium' ? 55 : 25,
+        summary: alert.aiExplanation ?? alert.message,
+        financial_exposure_lyd: round(exposure),
+        recommended_action: alert.aiExplanation?.split('. ').pop() ?? 'Review the situation.',
+        urgency_hours: severity === 'critical' ? 24 : severity === 'medium' ? 72 : 168,
+        ...(customer ? { account_name: customer.name } : {}),
+        ...(product ? { product_name: product.name } : {}),
+      };
+    });
+  const exposure = sum(situations, (s) => s.financial_exposure_lyd);
+  const bySeverity = (...levels: Severity[]) =>
+    situations
+      .filter((s) => levels.includes(s.severity))
+      .map((s) => ({ situation: s.title, action: s.recommended_action, owner: s.source === 'aging' ? 'Finance' : 'Operations' }));
+
+  return aiResult(query, {
+    generated_at: new Date().toISOString(),
+    critical_count: situations.filter((s) => s.severity === 'critical').length,
+    total_situations: situations.length,
+    total_exposure_lyd: round(exposure),
+    risk_level: situations.some((s) => s.severity === 'critical') ? 'critical' : 'medium',
+    executive_briefing: `${situations.length} open situations with ${round(exposure).toLocaleString('en-US')} LYD at stake. Overdue receivables and low stock on fast movers need attention first.`,
+    situations,
+    causal_clusters: [
+      {
+        cluster_name: 'Collections',
+        situations: situations.filter((s) => s.source === 'aging').map((s) => s.title),
+        common_cause: 'Payment delays from a few large accounts',
+        unified_action: 'Run a collection call campaign and review credit limits',
+        combined_exposure_lyd: round(sum(situations.filter((s) => s.source === 'aging'), (s) => s.financial_exposure_lyd)),
+      },
+    ],
+    grouped_actions: {
+      act_within_24h: bySeverity('critical'),
+      act_this_week: bySeverity('high', 'medium'),
+      monitor: bySeverity('low'),
+    },
+    confidence: 'medium' as const,
+  });
+});
+
+route('GET', '/ai-insights/kpis/', ({ query }) => {
+  const months = monthlyRevenue();
+  const current = months[months.length - 1]?.revenue ?? 0;
+  const baseline = sum(months.slice(0, -1), (m) => m.revenue) / Math.max(1, months.length - 1);
+  const receivables = sum(agingRecords, (r) => r.total);
+  const overdue = sum(agingRecords, (r) => r.overdue_total);
+  const stockValue = snapshots[0] ? sum(snapshots[0].lines, (l) => l.line_value) : 0;
+  const previousStock = snapshots[1] ? sum(snapshots[1].lines, (l) => l.line_value) : stockValue;
+  const value = (cur: number, base: number, higherIsBetter = true) => {
+    const delta = base ? ((cur - base) / base) * 100 : 0;
+    const good = higherIsBetter ? delta : -delta;
+    return {
+      current: round(cur),
+      baseline: round(base),
+      delta_pct: round(delta),
+      status: (good >= 0 ? 'green' : good > -15 ? 'amber' : 'red') as 'green' | 'amber' | 'red',
+    };
+  };
+  const kpis = {
+    monthly_revenue: value(current, baseline),
+    overdue_ratio: value((overdue / receivables) * 100, 35, false),
+    stock_value: value(stockValue, previousStock),
+    receivables: value(receivables, receivables * 0.9, false),
+  };
+  const statuses = Object.values(kpis).map((k) => k.status);
+  const green = statuses.filter((s) => s === 'green').length;
+  const score = round((green / statuses.length) * 100, 0);
+
+  return aiResult(query, {
+    period_days: 30,
+    computed_at: new Date().toISOString(),
+    health_score: score,
+    health_label: score >= 75 ? 'Healthy' : score >= 50 ? 'Watch' : 'At risk',
+    kpis,
+    executive_summary: 'Revenue is tracking its 12-month average while receivables keep growing.',
+    top_insight: 'Collections, not sales, are the main lever this month.',
+    kpi_commentary: {
+      monthly_revenue: 'Compared with the average of the previous months.',
+      overdue_ratio: 'Target is below 35% of receivables.',
+    },
+    recommended_actions: [
+      { priority: 1, action: 'Follow up the five most overdue accounts', owner: 'Finance', impact: 'Cash' },
+      { priority: 2, action: 'Reorder fast movers below their minimum stock', owner: 'Operations', impact: 'Sales' },
+    ],
+    risk_flags: statuses.includes('red') ? ['At least one KPI is in the red zone'] : [],
+    summary: {
+      total_kpis: statuses.length,
+      green,
+      amber: statuses.filter((s) => s === 'amber').length,
+      red: statuses.filter((s) => s === 'red').length,
+    },
+    confidence: 'medium' as const,
+  });
+});
+
+route('GET', '/ai-insights/anomalies/', ({ query }) => {
+  const months = monthlyRevenue();
+  const mean = sum(months, (m) => m.revenue) / Math.max(1, months.length);
+  const std = Math.sqrt(sum(months, (m) => (m.revenue - mean) ** 2) / Math.max(1, months.length)) || 1;
+  const anomalies = order(
+    months.map((m) => ({ ...m, z: (m.revenue - mean) / std })),
+    '-z',
+  )
+    .filter((m) => Math.abs(m.z) >= 1)
+    .map((m) => {
+      const severity: Severity = Math.abs(m.z) >= 2.5 ? 'critical' : Math.abs(m.z) >= 2 ? 'high' : Math.abs(m.z) >= 1.5 ? 'medium' : 'low';
+      return {
+        stream: 'revenue',
+        date: `${m.key}-01`,
+        observed_value: round(m.revenue),
+        expected_value: round(mean),
+        z_score: round(m.z),
+        deviation_pct: round(((m.revenue - mean) / mean) * 100),
+        direction: (m.z > 0 ? 'spike' : 'drop') as 'spike' | 'drop',
+        severity,
+        anomaly_type: 'monthly_revenue',
+        baseline_mean: round(mean),
+        baseline_std: round(std),
+        ai_explanation: `Revenue for ${m.key} is ${Math.abs(round(m.z, 1))} standard deviations ${m.z > 0 ? 'above' : 'below'} the 12-month mean.`,
+        likely_causes: m.z > 0 ? ['Promotional activity', 'Large one-off orders'] : ['Stock-outs on top products', 'Seasonal slowdown'],
+        business_impact: `${round(Math.abs(m.revenue - mean)).toLocaleString('en-US')} LYD versus a normal month.`,
+        recommended_actions: ['Compare with the same month last year', 'Check the branch breakdown'],
+        confidence: 'medium' as const,
+      };
+    });
+  const count = (s: Severity) => anomalies.filter((a) => a.severity === s).length;
+
+  return aiResult(query, {
+    detection_window_days: 30,
+    baseline_weeks: 52,
+    summary: {
+      total: anomalies.length,
+      critical: count('critical'),
+      high: count('high'),
+      medium: count('medium'),
+      low: count('low'),
+    },
+    anomalies,
+  });
+});
+
+const MONTH_NAMES = Array.from({ length: 12 }, (_, i) =>
+  new Date(2000, i, 1).toLocaleDateString('en-US', { month: 'long' }),
+);
+
+route('GET', '/ai-insights/seasonal/', ({ query }) => {
+  const months = monthlyRevenue();
+  const mean = sum(months, (m) => m.revenue) / Math.max(1, months.length);
+  const trend = linearTrend(months.map((m) => m.revenue));
+  const indices = Object.fromEntries(
+    MONTH_NAMES.map((name, i) => {
+      const points = months.filter((m) => Number(m.key.slice(5)) === i + 1);
+      const avg = sum(points, (p) => p.revenue) / Math.max(1, points.length);
+      const index = points.length ? round(avg / mean, 3) : null;
+      const label: 'peak' | 'trough' | 'normal' | 'no_data' =
+        index === null ? 'no_data' : index >= 1.1 ? 'peak' : index <= 0.9 ? 'trough' : 'normal';
+      return [
+        String(i + 1),
+        {
+          month_num: i + 1,
+          month_name: name,
+          seasonality_index: index,
+          avg_monthly_revenue_lyd: round(avg),
+          data_points: points.length,
+          label,
+        },
+      ];
+    }),
+  );
+  const entries = Object.values(indices);
+  const peaks = entries.filter((e) => e.label === 'peak');
+  const troughs = entries.filter((e) => e.label === 'trough');
+  const nextMonth = ((new Date().getMonth() + 1) % 12) + 1;
+
+  return aiResult(query, {
+    history_months: months.length,
+    current_season: indices[String(new Date().getMonth() + 1)].label,
+    upcoming_peak_alert: indices[String(nextMonth)].label === 'peak',
+    trend: {
+      direction: trend.slope >= 0 ? 'up' : 'down',
+      slope_pct_per_month: round((trend.slope / (mean || 1)) * 100),
+      slope_lyd_per_month: round(trend.slope),
+      r_squared: round(trend.r2, 3),
+    },
+    seasonality_indices: indices,
+    peak_months: peaks.map((p) => p.month_num),
+    peak_month_names: peaks.map((p) => p.month_name),
+    trough_months: troughs.map((t) => t.month_num),
+    trough_month_names: troughs.map((t) => t.month_name),
+    category_patterns: [],
+    seasonal_narrative: peaks.length
+      ? `Sales peak in ${peaks.map((p) => p.month_name).join(', ')}.`
+      : 'No strong seasonal pattern in the last twelve months.',
+    stock_preparation_calendar: peaks.map((p) => ({
+      month: MONTH_NAMES[(p.month_num + 10) % 12],
+      action: `Build stock ahead of ${p.month_name}`,
+      lead_time_weeks: 4,
+      rationale: `Seasonality index ${p.seasonality_index}`,
+    })),
+    staffing_implications: 'Plan extra branch staff for peak months.',
+    ai_recommendations: ['Align purchase orders with the seasonal peaks'],
+    confidence: (months.length >= 12 ? 'medium' : 'low') as 'medium' | 'low',
+  });
+});
+
+route('GET', '/ai-insights/churn/', ({ query }) => {
+  const topN = intParam(query, 'top_n', 20);
+  const now = Date.now();
+  const predictions = order(
+    fixtures.customers.map((c) => {
+      const bought = salesOf(movements).filter((m) => m.customer_name === c.name);
+      const last = bought[0]?.movement_date;
+      const days = last ? Math.round((now - Date.parse(last)) / DAY) : 365;
+      const revenue = sum(bought, saleAmount);
+      const aging = agingRecords.find((r) => r.account_code === c.code);
+      const overdueRatio = aging?.total ? aging.overdue_total / aging.total : 0;
+      const score = Math.min(100, round(days * 0.6 + overdueRatio * 40 + c.riskScore * 0.3, 0));
+      return {
+        customer_id: mockId(8, Number(c.id)),
+        account_code: c.code,
+        customer_name: c.name,
+        churn_score: score,
+        churn_label: severityOf(score),
+        days_since_last_purchase: days,
+        purchase_count_12m: bought.length,
+        avg_monthly_revenue_lyd: round(revenue / 12),
+        avg_order_value_lyd: round(revenue / Math.max(1, bought.length)),
+        revenue_trend: 0,
+        aging_risk_score: aging?.risk_score ?? 'low',
+        overdue_ratio: round(overdueRatio, 3),
+        total_receivable_lyd: aging?.total ?? 0,
+        ai_explanation: `${days} days since the last purchase; ${round(overdueRatio * 100, 0)}% of the balance is overdue.`,
+        recommended_actions: score >= 60 ? ['Call the account manager', 'Offer a payment plan'] : ['Keep in the regular follow-up'],
+        key_risk_factors: [days > 30 ? 'Purchase gap' : null, overdueRatio > 0.5 ? 'Overdue balance' : null].filter(
+          (f): f is string => f !== null,
+        ),
+        confidence: 'medium' as const,
+      };
+    }),
+    '-churn_score',
+  ).slice(0, topN);
+  const count = (s: Severity) => predictions.filter((p) => p.churn_label === s).length;
+
+  return aiResult(query, {
+    company_id: company.id,
+    top_n: topN,
+    ai_used: query.get('use_ai') === 'true',
+    summary: {
+      total: predictions.length,
+      critical: count('critical'),
+      high: count('high'),
+      medium: count('medium'),
+      low: count('low'),
+      avg_churn_score: round(sum(predictions, (p) => p.churn_score) / Math.max(1, predictions.length), 1),
+    },
+    predictions,
+  });
+});
+
+route('GET', '/ai-insights/stock/', ({ query }) => {
+  const LEAD_TIME = 14;
+  const WINDOW = 90;
+  const since = isoDate(new Date(Date.now() - WINDOW * DAY));
+  const recent = salesOf(movements).filter((m) => m.movement_date >= since);
+  const revenueTotal = sum(recent, saleAmount);
+  let cumulative = 0;
+  const items: StockItem[] = order(
+    fixtures.products.map((p) => {
+      const sold = recent.filter((m) => m.material_code === p.sku);
+      return { p, revenue: sum(sold, saleAmount), qty: sum(sold, saleQty) };
+    }),
+    '-revenue',
+  ).map(({ p, revenue, qty }) => {
+    cumulative += revenue;
+    const cumulativePct = revenueTotal ? (cumulative / revenueTotal) * 100 : 100;
+    const abc: 'A' | 'B' | 'C' = cumulativePct <= 80 ? 'A' : cumulativePct <= 95 ? 'B' : 'C';
+    const stock = productStock(snapshots[0]?.lines ?? [], p.sku);
+    const daily = qty / WINDOW;
+    const safety = Math.ceil(daily * 7);
+    const reorderPoint = Math.ceil(daily * LEAD_TIME + safety);
+    const daysLeft = daily > 0 ? round(stock / daily, 1) : null;
+    const urgency: StockItem['urgency'] =
+      stock <= safety ? 'immediate' : stock <= reorderPoint ? 'soon' : daysLeft !== null && daysLeft < 45 ? 'watch' : 'ok';
+    const eoq = Math.ceil(Math.sqrt((2 * qty * 4 * 50) / Math.max(1, p.purchasePrice * 0.2)));
+    return {
+      product_code: p.sku,
+      product_name: p.name,
+      abc_class: abc,
+      total_revenue_lyd: round(revenue),
+      revenue_pct: revenueTotal ? round((revenue / revenueTotal) * 100) : 0,
+      cumulative_pct: round(cumulativePct),
+      current_stock: stock,
+      avg_daily_demand: round(daily, 2),
+      revenue_per_unit_lyd: qty ? round(revenue / qty) : p.salePrice,
+      reorder_point: reorderPoint,
+      safety_stock: safety,
+      eoq,
+      estimated_days_to_stockout: daysLeft,
+      urgency,
+      ai_recommendation:
+        urgency === 'immediate' || urgency === 'soon' ? `Order ${eoq} units now.` : 'Stock level is adequate.',
+      order_suggestion: {
+        quantity: urgency === 'ok' ? 0 : eoq,
+        timing: urgency === 'immediate' ? 'Today' : urgency === 'soon' ? 'This week' : 'Next review',
+        rationale: `Reorder point ${reorderPoint} with ${LEAD_TIME} days lead time.`,
+      },
+      revenue_at_risk_lyd: urgency === 'immediate' ? round((revenue / WINDOW) * LEAD_TIME) : 0,
+      confidence: 'medium',
+    };
+  });
+  const count = (pred: (i: StockItem) => boolean) => items.filter(pred).length;
+
+  return aiResult(query, {
+    analysis_window_days: WINDOW,
+    lead_time_days: LEAD_TIME,
+    service_level: '95%',
+    total_sku_count: items.length,
+    summary: {
+      total_items: items.length,
+      class_a_count: count((i) => i.abc_class === 'A'),
+      class_b_count: count((i) => i.abc_class === 'B'),
+      class_c_count: count((i) => i.abc_class === 'C'),
+      immediate_reorders: count((i) => i.urgency === 'immediate'),
+      soon_reorders: count((i) => i.urgency === 'soon'),
+      items_at_or_below_rop: count((i) => i.current_stock <= i.reorder_point),
+      total_revenue_covered_lyd: round(revenueTotal),
+    },
+    items,
+  });
+});
+
+route('GET', '/ai-insights/predict/', ({ query }) => {
+  const HORIZON = 3;
+  const months = monthlyRevenue();
+  const trend = linearTrend(months.map((m) => m.revenue));
+  const receivables = sum(agingRecords, (r) => r.total);
+  const overdue = sum(agingRecords, (r) => r.overdue_total);
+  const collectionRate = receivables ? 1 - overdue / receivables : 1;
+  const activeCustomers = new Set(salesOf(movements).map((m) => m.customer_name)).size;
+  const now = new Date();
+
+  const forecast: ForecastMonth[] = Array.from({ length: HORIZON }, (_, i) => {
+    const date = new Date(now.getFullYear(), now.getMonth() + i + 1, 1);
+    const t = months.length + i;
+    const base = Math.max(0, trend.intercept + trend.slope * t);
+    const band = trend.residualStd * 1.28;
+    return {
+      month: date.getMonth() + 1,
+      year: date.getFullYear(),
+      period: isoDate(date).slice(0, 7),
+      base_lyd: round(base),
+      optimistic_lyd: round(base + band),
+      pessimistic_lyd: round(Math.max(0, base - band)),
+      seasonality_index: 1,
+      trend_component: round(trend.slope * t),
+      upside_pct: base ? round((band / base) * 100) : 0,
+      downside_pct: base ? round((band / base) * 100) : 0,
+    };
+  });
+
+  return aiResult(query, {
+    forecast_months: HORIZON,
+    history_months_used: months.length,
+    trend_model: {
+      slope: round(trend.slope),
+      intercept: round(trend.intercept),
+      slope_pct: round((trend.slope / (trend.meanY || 1)) * 100),
+      r_squared: round(trend.r2, 3),
+      residual_std: round(trend.residualStd),
+      last_t: months.length - 1,
+      avg_revenue: round(trend.meanY),
+      direction: trend.slope >= 0 ? 'up' : 'down',
+    },
+    revenue_forecast: forecast,
+    forecast_total_base_lyd: round(sum(forecast, (f) => f.base_lyd)),
+    forecast_total_optimistic_lyd: round(sum(forecast, (f) => f.optimistic_lyd)),
+    forecast_total_pessimistic_lyd: round(sum(forecast, (f) => f.pessimistic_lyd)),
+    customer_forecast: forecast.map((f) => ({
+      period: f.period,
+      projected_active_customers: activeCustomers,
+      trend_per_month: 0,
+    })),
+    cash_flow_forecast: {
+      current_receivable_lyd: round(receivables),
+      current_overdue_lyd: round(overdue),
+      collection_rate_pct: round(collectionRate * 100),
+      monthly_projections: forecast.map((f) => ({
+        period: f.period,
+        expected_revenue_lyd: f.base_lyd,
+        expected_cash_collected_lyd: round(f.base_lyd * collectionRate),
+        collection_rate_pct: round(collectionRate * 100),
+        collection_gap_lyd: round(f.base_lyd * (1 - collectionRate)),
+      })),
+    },
+    forecast_narrative: `Revenue is expected to trend ${trend.slope >= 0 ? 'up' : 'down'} over the next ${HORIZON} months.`,
+    primary_risk: 'Collections lag behind sales growth.',
+    recommendations: [
+      {
+        month_target: forecast[0].period,
+        action: 'Tighten credit terms for high-risk accounts',
+        owner: 'Finance',
+        expected_impact_lyd: round(overdue * 0.1),
+      },
+    ],
+    confidence: (trend.r2 > 0.5 ? 'high' : 'medium') as 'high' | 'medium',
+  });
+});
+
+// ─────────────────────────────────────────────
+// Transport
+// ─────────────────────────────────────────────
+
+const API_PATH = new URL(BASE_URL, 'http://localhost').pathname.replace(/\/$/, '');
+
+function json(status: number, data: unknown): Response {
+  return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(new DOMException('Aborted', 'AbortError'));
+    if (signal?.aborted) return abort();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      abort();
+    }, { once: true });
+  });
+}
+
+function parseBody(body: BodyInit | null | undefined): unknown {
+  if (body instanceof FormData || body === null || body === undefined) return body ?? null;
+  if (typeof body !== 'string') return null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+/** Answers apiFetch requests from the in-memory data above. */
+export const mockTransport: Transport = async (url, init, onUploadProgress) => {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const parsed = new URL(url, 'http://localhost');
+  const path = parsed.pathname.startsWith(API_PATH) ? parsed.pathname.slice(API_PATH.length) : parsed.pathname;
+
+  if (onUploadProgress) {
+    for (const percent of [25, 50, 75, 100]) {
+      await delay(LATENCY / 2, init.signal);
+      onUploadProgress(percent);
+    }
+  }
+  await delay(LATENCY, init.signal);
+
+  let params: Record<string, string> = {};
+  const found = routes.find((r) => {
+    if (r.method !== method) return false;
+    const match = r.pattern.exec(path);
+    if (!match) return false;
+    params = Object.fromEntries(r.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+    return true;
+  });
+  if (!found) return json(404, { detail: `No mock for ${method} ${path}` });
+
+  const headers = new Headers(init.headers);
+  const auth = fromAccess(headers.get('Authorization'));
+  const user = auth?.user ?? null;
+  if (!found.isPublic && !user) {
+    return json(401, { detail: 'Given token not valid for any token type', code: 'token_not_valid' });
+  }
+  if (auth) {
+    auth.session.last_activity = new Date().toISOString();
+    enforceBranchScope(parsed.searchParams, auth.user.allowed_branches);
+  }
+
+  try {
+    const result = await found.handler({
+      method,
+      path,
+      query: parsed.searchParams,
+      params,
+      body: parseBody(init.body),
+      user,
+      session: auth?.session ?? null,
+    });
+    if (result instanceof MockResponse) {
+      return new Response(result.body, { status: result.status, headers: { 'Content-Type': result.contentType } });
+    }
+    return json(200, result);
+  } catch (err) {
+    if (err instanceof MockHttpError) return json(err.status, err.data);
+    console.error('[mock api]', method, path, err);
+    return json(500, { detail: 'Mock handler failed.' });
+  }
+};
+
+/** Route every request to the mock backend (called from main.tsx in mock mode). */
+export function installMockBackend() {
+  setTransport(mockTransport);
+  console.info('[api] mock backend enabled — sign in with manager@fasi.demo / demo1234');
+}
@@ -1,5 +1,17 @@
 // Mock data for FASI platform
 
+// Seeded PRNG (mulberry32): the fixtures are identical on every load, so demos
+// and component tests see the same numbers.
+const random = (() => {
+  let seed = 0x5eed;
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+})();
+
 export interface Product {
   id: string;
   name: string;
@@ -128,23 +140,23 @@ const generateSales = (): Sale[] => {
   let invoiceCounter = 1000;
   
   for (let month = 0; month < 12; month++) {
-    const numSales = Math.floor(Math.random() * 20) + 30;
+    const numSales = Math.floor(random() * 20) + 30;
     for (let i = 0; i < numSales; i++) {
       const date = new Date();
       date.setMonth(date.getMonth() - month);
-      date.setDate(Math.floor(Math.random() * 28) + 1);
+      date.setDate(Math.floor(random() * 28) + 1);
       
-      const product = products[Math.floor(Math.random() * products.length)];
-      const quantity = Math.floor(Math.random() * 10) + 1;
-      const unitPrice = product.salePrice * (0.9 + Math.random() * 0.2); // ±10% variation
+      const product = products[Math.floor(random() * products.length)];
+      const quantity = Math.floor(random() * 10) + 1;
+      const unitPrice = product.salePrice * (0.9 + random() * 0.2); // ±10% variation
       
       sales.push({
         id: `sale-${invoiceCounter}`,
         invoiceNumber: `INV-${invoiceCounter}`,
         date: date.toISOString().split('T')[0],
         productId: product.id,
-        branchId: branches[Math.floor(Math.random() * branches.length)].id,
-        customerId: customers[Math.floor(Math.random() * customers.length)].id,
+        branchId: branches[Math.floor(random() * branches.length)].id,
+        customerId: customers[Math.floor(random() * customers.length)].id,
         quantity,
         unitPrice,
         total: quantity * unitPrice,
@@ -162,22 +174,22 @@ const generatePurchases = (): Purchase[] => {
   let invoiceCounter = 2000;
   
   for (let month = 0; month < 12; month++) {
-    const numPurchases = Math.floor(Math.random() * 15) + 20;
+    const numPurchases = Math.floor(random() * 15) + 20;
     for (let i = 0; i < numPurchases; i++) {
       const date = new Date();
       date.setMonth(date.getMonth() - month);
-      date.setDate(Math.floor(Math.random() * 28) + 1);
+      date.setDate(Math.floor(random() * 28) + 1);
       
-      const product = products[Math.floor(Math.random() * products.length)];
-      const quantity = Math.floor(Math.random() * 20) + 5;
-      const unitPrice = product.purchasePrice * (0.95 + Math.random() * 0.1);
+      const product = products[Math.floor(random() * products.length)];
+      const quantity = Math.floor(random() * 20) + 5;
+      const unitPrice = product.purchasePrice * (0.95 + random() * 0.1);
       
       purchases.push({
         id: `purchase-${invoiceCounter}`,
         invoiceNumber: `PUR-${invoiceCounter}`,
         date: date.toISOString().split('T')[0],
         productId: product.id,
-        branchId: branches[Math.floor(Math.random() * branches.length)].id,
+        branchId: branches[Math.floor(random() * branches.length)].id,
         quantity,
         unitPrice,
         total: quantity * unitPrice,
@@ -195,7 +207,7 @@ const generateInventory = (): InventoryItem[] => {
   
   products.forEach(product => {
     branches.forEach(branch => {
-      const quantity = Math.floor(Math.random() * product.maxStock);
+      const quantity = Math.floor(random() * product.maxStock);
       inventory.push({
         id: `inv-${product.id}-${branch.id}`,
         productId: product.id,
@@ -310,24 +322,24 @@ const generateAgingReceivables = (): AgingReceivable[] => {
   let counter = 1;
   
   customers.forEach(customer => {
-    const numInvoices = Math.floor(Math.random() * 4) + 1;
+    const numInvoices = Math.floor(random() * 4) + 1;
     for (let i = 0; i < numInvoices; i++) {
       const invoiceDate = new Date();
-      invoiceDate.setDate(invoiceDate.getDate() - Math.floor(Math.random() * 120));
+      invoiceDate.setDate(invoiceDate.getDate() - Math.floor(random() * 120));
       
       const dueDate = new Date(invoiceDate);
       dueDate.setDate(dueDate.getDate() + 30);
       
       const daysOverdue = Math.max(0, Math.floor((new Date().getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24)));
       
-      const totalAmount = Math.floor(Math.random() * 15000) + 1000;
-      const paidAmount = Math.random() > 0.5 ? Math.floor(totalAmount * (Math.random() * 0.5)) : 0;
+      const totalAmount = Math.floor(random() * 15000) + 1000;
+      const paidAmount = random() > 0.5 ? Math.floor(totalAmount * (random() * 0.5)) : 0;
       
       if (paidAmount < totalAmount) {
         receivables.push({
           id: `rec-${counter}`,
           customerId: customer.id,
-          branchId: branches[Math.floor(Math.random() * branches.length)].id,
+          branchId: branches[Math.floor(random() * branches.length)].id,
           invoiceNumber: `INV-${3000 + counter}`,
           invoiceDate: invoiceDate.toISOString().split('T')[0],
           dueDate: dueDate.toISOString().split('T')[0],
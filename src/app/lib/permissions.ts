@@ -1,30 +1,208 @@
+import type { UserRole } from './generated/fasiApi';
+
+// ─────────────────────────────────────────────
+// Permission registry
+// The one list of permissions a user can be granted, and of who may open each
+// page or use each action. Routes (routes.tsx), the sidebar, the header and
+// the page buttons all read it.
+// ─────────────────────────────────────────────
+
+export type PermissionAction = 'view' | 'export' | 'import' | 'resolve' | 'manage';
+
+/** What an action applies to: a page, or for `import` the workbook file type. */
+export type PermissionResource =
+  | 'dashboard' | 'reports' | 'kpi' | 'ai-insights'
+  | 'sales' | 'inventory' | 'aging' | 'customers' | 'branches' | 'movements'
+  | 'alerts' | 'profile' | 'team';
+
+export type PermissionCategory = 'data' | 'analytics' | 'sales' | 'system';
+
 export interface Permission {
+  /** Stored in the user's permissions_list; `${action}-${resource}` except for older ids. */
   id: string;
+  action: PermissionAction;
+  resource: PermissionResource;
   label: string;
   description: string;
-  category: 'data' | 'analytics' | 'sales' | 'system';
+  category: PermissionCategory;
 }
 
 export const AVAILABLE_PERMISSIONS: Permission[] = [
-  { id: 'import-data',           label: 'Import Data',              description: 'Import Excel files into the database',       category: 'data' },
-  { id: 'view-dashboard',        label: 'View Dashboard',           description: 'Access main dashboard with KPIs',            category: 'analytics' },
-  { id: 'view-reports',          label: 'View Reports',             description: 'Access and view all reports',                category: 'analytics' },
-  { id: 'view-kpi',              label: 'View KPIs',                description: 'Access KPI Engine and metrics',              category: 'analytics' },
-  { id: 'view-sales',            label: 'View Sales',               description: 'Access sales and purchases data',            category: 'sales' },
-  { id: 'view-inventory',        label: 'View Inventory',           description: 'Check product availability and stock levels', category: 'sales' },
-  { id: 'view-aging',            label: 'View Aging Receivables',   description: 'Track overdue payments and receivables',     category: 'sales' },
-  { id: 'receive-notifications', label: 'Receive Notifications',    description: 'Get notified about important events',        category: 'system' },
-  { id: 'view-profile',          label: 'View Profile',             description: 'Access personal profile',                   category: 'system' },
-  { id: 'ai-insights',           label: 'AI Insights',              description: 'Access AI-powered insights and chat',        category: 'analytics' },
+  { id: 'import-customers',      action: 'import',  resource: 'customers',   label: 'Import Customers',        description: 'Import the customers workbook',                category: 'data' },
+  { id: 'import-branches',       action: 'import',  resource: 'branches',    label: 'Import Branches',         description: 'Import the branches workbook',                 category: 'data' },
+  { id: 'import-aging',          action: 'import',  resource: 'aging',       label: 'Import Aging',            description: 'Import the aging receivables workbook',        category: 'data' },
+  { id: 'import-inventory',      action: 'import',  resource: 'inventory',   label: 'Import Inventory',        description: 'Import year-end inventory snapshots',          category: 'data' },
+  { id: 'import-movements',      action: 'import',  resource: 'movements',   label: 'Import Movements',        description: 'Import stock movements (sales and purchases)', category: 'data' },
+  { id: 'manage-inventory',      action: 'manage',  resource: 'inventory',   label: 'Manage Inventory',        description: 'Delete inventory snapshots',                   category: 'data' },
+  { id: 'view-dashboard',        action: 'view',    resource: 'dashboard',   label: 'View Dashboard',          description: 'Access main dashboard with KPIs',              category: 'analytics' },
+  { id: 'view-reports',          action: 'view',    resource: 'reports',     label: 'View Reports',            description: 'Access and view all reports',                  category: 'analytics' },
+  { id: 'export-reports',        action: 'export',  resource: 'reports',     label: 'Export Reports',          description: 'Print reports and save them as PDF',           category: 'analytics' },
+  { id: 'view-kpi',              action: 'view',    resource: 'kpi',         label: 'View KPIs',               description: 'Access KPI Engine and metrics',                category: 'analytics' },
+  { id: 'ai-insights',           action: 'view',    resource: 'ai-insights', label: 'AI Insights',             description: 'Access AI-powered insights and chat',          category: 'analytics' },
+  { id: 'export-ai-insights',    action: 'export',  resource: 'ai-insights', label: 'Export AI Conversations', description: 'Download AI chat conversations',               category: 'analytics' },
+  { id: 'view-sales',            action: 'view',    resource: 'sales',       label: 'View Sales',              description: 'Access sales and purchases data',              category: 'sales' },
+  { id: 'view-inventory',        action: 'view',    resource: 'inventory',   label: 'View Inventory',          description: 'Check product availability and stock levels',  category: 'sales' },
+  { id: 'view-aging',            action: 'view',    resource: 'aging',       label: 'View Aging Receivables',  description: 'Track overdue payments and receivables',       category: 'sales' },
+  { id: 'export-aging',          action: 'export',  resource: 'aging',       label: 'Export Aging Receivables', description: 'Download the aging list as CSV',              category: 'sales' },
+  { id: 'receive-notifications', action: 'view',    resource: 'alerts',      label: 'Receive Notifications',   description: 'Get notified about important events',          category: 'system' },
+  { id: 'resolve-alerts',        action: 'resolve', resource: 'alerts',      label: 'Resolve Alerts',          description: 'Mark alerts as resolved or reopen them',       category: 'system' },
+  { id: 'view-profile',          action: 'view',    resource: 'profile',     label: 'View Profile',            description: 'Access personal profile',                      category: 'system' },
+  { id: 'view-team',             action: 'view',    resource: 'team',        label: 'View Team',               description: 'See the agents of the team',                   category: 'system' },
 ];
 
+export const PERMISSION_CATEGORY_LABELS: Record<PermissionCategory, string> = {
+  data: 'Data Management',
+  analytics: 'Analytics & Reports',
+  sales: 'Sales & Inventory',
+  system: 'System Access',
+};
+
+export const PERMISSION_ACTION_LABELS: Record<PermissionAction, string> = {
+  view: 'View',
+  export: 'Export',
+  import: 'Import',
+  resolve: 'Resolve',
+  manage: 'Manage',
+};
+
+export const PERMISSION_RESOURCE_LABELS: Record<PermissionResource, string> = {
+  'dashboard': 'Dashboard',
+  'reports': 'Reports',
+  'kpi': 'KPI Engine',
+  'ai-insights': 'AI Insights',
+  'sales': 'Sales & Purchases',
+  'inventory': 'Inventory',
+  'aging': 'Aging Receivables',
+  'customers': 'Customers',
+  'branches': 'Branches',
+  'movements': 'Stock Movements',
+  'alerts': 'Alerts',
+  'profile': 'Profile',
+  'team': 'Team',
+};
+
+/** Every import-by-file-type permission. */
+export const IMPORT_PERMISSIONS: string[] = AVAILABLE_PERMISSIONS
+  .filter(p => p.action === 'import')
+  .map(p => p.id);
+
+// Ids granted before import was split by file type. Still found in the
+// permissions_list of older accounts, so they are read as what they stood for.
+const LEGACY_PERMISSIONS: Record<string, string[]> = {
+  'import-data': IMPORT_PERMISSIONS,
+};
+
+/** A permissions_list with the legacy ids replaced by the permissions they cover. */
+export function expandPermissions(permissions: string[]): string[] {
+  return [...new Set(permissions.flatMap(id => LEGACY_PERMISSIONS[id] ?? [id]))];
+}
+
+/** The permission id for an action on a resource, e.g. `('import', 'aging')` → `import-aging`. */
+export function permissionFor(action: PermissionAction, resource: PermissionResource): string {
+  return AVAILABLE_PERMISSIONS.find(p => p.action === action && p.resource === resource)?.id
+    ?? `${action}-${resource}`;
+}
+
 export const DEFAULT_AGENT_PERMISSIONS: string[] = [
-  'import-data',
+  ...IMPORT_PERMISSIONS,
   'view-dashboard',
   'view-reports',
+  'export-reports',
   'view-kpi',
   'receive-notifications',
+  'resolve-alerts',
   'view-profile',
 ];
 
-export const DEFAULT_MANAGER_PERMISSIONS: string[] = AVAILABLE_PERMISSIONS.map(p => p.id);
\ No newline at end of file
+export const DEFAULT_MANAGER_PERMISSIONS: string[] = AVAILABLE_PERMISSIONS.map(p => p.id);
+
+export interface PermissionDiff {
+  added: string[];
+  removed: string[];
+}
+
+/** What replacing `current` with `next` grants and takes away. */
+export function permissionDiff(current: string[], next: string[]): PermissionDiff {
+  const from = new Set(expandPermissions(current));
+  const to = new Set(expandPermissions(next));
+  return {
+    added: [...to].filter(id => !from.has(id)),
+    removed: [...from].filter(id => !to.has(id)),
+  };
+}
+
+// ─────────────────────────────────────────────
+// Access rules
+// ─────────────────────────────────────────────
+
+/** Who may do something: every listed condition must hold. */
+export interface AccessRule {
+  /**
+   * Permission id from AVAILABLE_PERMISSIONS, or a list of which any one is
+   * enough. Managers and admins hold them all.
+   */
+  permission?: string | readonly string[];
+  roles?: readonly UserRole[];
+}
+
+/** The part of the signed-in user the rules look at. */
+export interface AccessSubject {
+  role: UserRole;
+  permissions: string[];
+}
+
+// Company data pages: the platform admin has no company, so they are not shown.
+const COMPANY_ROLES: readonly UserRole[] = ['manager', 'agent'];
+
+/** Pages under /dashboard, keyed by path segment (`dashboard` is the index page). */
+export const PAGE_ACCESS = {
+  'dashboard':          { permission: 'view-dashboard', roles: COMPANY_ROLES },
+  'team':               { permission: 'view-team', roles: COMPANY_ROLES },
+  'alerts':             { permission: 'receive-notifications', roles: COMPANY_ROLES },
+  'import':             { permission: IMPORT_PERMISSIONS, roles: COMPANY_ROLES },
+  'kpi':                { permission: 'view-kpi', roles: COMPANY_ROLES },
+  'sales':              { permission: 'view-sales', roles: COMPANY_ROLES },
+  'inventory':          { permission: 'view-inventory', roles: COMPANY_ROLES },
+  'aging':              { permission: 'view-aging', roles: COMPANY_ROLES },
+  'reports':            { permission: 'view-reports', roles: COMPANY_ROLES },
+  'ai-insights':        { permission: 'ai-insights', roles: COMPANY_ROLES },
+  'settings':           { permission: 'view-profile' },
+  'profile':            { permission: 'view-profile' },
+  'admin-verification': { roles: ['admin'] },
+  'audit':              { roles: ['admin', 'manager'] },
+} satisfies Record<string, AccessRule>;
+
+export type PageId = keyof typeof PAGE_ACCESS;
+
+/** `handle` of every route under /dashboard (routes.tsx). */
+export interface PageHandle {
+  page: PageId;
+}
+
+/** Actions outside a page of their own (header menu…). */
+export const ACTION_ACCESS = {
+  manageTeam: { roles: ['manager'] },
+} satisfies Record<string, AccessRule>;
+
+export function hasPermission(user: AccessSubject | null, permission: string): boolean {
+  if (!user) return false;
+  if (user.role === 'manager' || user.role === 'admin') return true;
+  return expandPermissions(user.permissions).includes(permission);
+}
+
+export function canAccess(user: AccessSubject | null, rule: AccessRule): boolean {
+  if (!user) return false;
+  if (rule.roles && !rule.roles.includes(user.role)) return false;
+  if (!rule.permission) return true;
+  const anyOf = typeof rule.permission === 'string' ? [rule.permission] : rule.permission;
+  return anyOf.some(permission => hasPermission(user, permission));
+}
+
+export function pagePath(page: PageId): string {
+  return page === 'dashboard' ? '/dashboard' : `/dashboard/${page}`;
+}
+
+/** Where to send a user who landed on a page they can't open. */
+export function firstAccessiblePage(user: AccessSubject | null): PageId | null {
+  return (Object.keys(PAGE_ACCESS) as PageId[]).find(page => canAccess(user, PAGE_ACCESS[page])) ?? null;
+}
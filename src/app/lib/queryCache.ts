@@ -0,0 +1,203 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Query cache
+//
+// Shared by every hook in dataHooks.ts. Entries are keyed by endpoint + params
+// (see queryKey). Identical requests that are in flight at the same time are
+// merged into a single promise, cached data is served immediately and
+// revalidated in the background once it is older than the stale time, and
+// invalidateQueries() marks a whole family of keys (e.g. every "/transactions/"
+// key after an import) as stale so mounted hooks refetch.
+//
+// A shared request is only cancelled once every caller waiting on it has
+// aborted, so one hook switching params never kills another hook's data.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** How long (ms) a cached response is considered fresh. */
+export const DEFAULT_STALE_TIME = 30_000;
+
+interface CacheEntry {
+  data?: unknown;
+  /** Timestamp of the last successful fetch — 0 when never loaded or invalidated. */
+  updatedAt: number;
+  /** The shared in-flight request, if any. */
+  promise?: Promise<unknown>;
+  /** Aborts the shared request once no caller is waiting on it any more. */
+  controller?: AbortController;
+  /** Callers currently waiting on `promise`. */
+  waiters: number;
+}
+
+type Listener = () => void;
+
+const entries = new Map<string, CacheEntry>();
+const listeners = new Map<string, Set<Listener>>();
+
+/** JSON.stringify with sorted keys and undefined values dropped. */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const obj = value as Record<string, unknown>;
+  const body = Object.keys(obj)
+    .filter((k) => obj[k] !== undefined)
+    .sort()
+    .map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+    .join(",");
+  return `{${body}}`;
+}
+
+function notify(key: string) {
+  listeners.get(key)?.forEach((listener) => listener());
+}
+
+/**
+ * Build a cache key from an endpoint path and its params.
+ * `{ a: 1, b: undefined }` and `{ a: 1 }` produce the same key, and the key
+ * always starts with the endpoint so it can be matched by invalidateQueries().
+ */
+export function queryKey(endpoint: string, params?: object): string {
+  if (!params) return endpoint;
+  const serialized = stableStringify(params);
+  return serialized === "{}" ? endpoint : `${endpoint}?${serialized}`;
+}
+
+/** Last successfully fetched value for `key`, or undefined. */
+export function getQueryData<T>(key: string): T | undefined {
+  return entries.get(key)?.data as T | undefined;
+}
+
+/** True when `key` was never loaded, was invalidated, or is older than `staleTime`. */
+export function isQueryStale(key: string, staleTime = DEFAULT_STALE_TIME): boolean {
+  const entry = entries.get(key);
+  return !entry || entry.updatedAt === 0 || Date.now() - entry.updatedAt > staleTime;
+}
+
+function abortError(): DOMException {
+  return new DOMException("Aborted", "AbortError");
+}
+
+/** Detach one waiter from `promise`, cancelling it when nobody is left. */
+function leave(entry: CacheEntry, promise: Promise<unknown>) {
+  if (entry.promise !== promise) return;
+  entry.waiters -= 1;
+  if (entry.waiters <= 0) {
+    entry.controller?.abort();
+    entry.promise = undefined;
+    entry.controller = undefined;
+  }
+}
+
+/**
+ * Run `fetchFn` for `key`, or join the request already in flight for it.
+ * On success the result is stored and every subscriber of `key` is notified.
+ *
+ * `signal` cancels this caller's wait: the returned promise rejects with an
+ * AbortError, and the underlying request is aborted if no one else needs it.
+ */
+export function fetchQuery<T>(
+  key: string,
+  fetchFn: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { updatedAt: 0, waiters: 0 };
+    entries.set(key, entry);
+  }
+
+  if (!entry.promise) {
+    const controller = new AbortController();
+    const promise: Promise<T> = fetchFn(controller.signal).then(
+      (data) => {
+        // Ignore results of a request that was invalidated while in flight.
+        const current = entries.get(key);
+        if (current?.promise === promise) {
+          entries.set(key, { data, updatedAt: Date.now(), waiters: 0 });
+          notify(key);
+        }
+        return data;
+      },
+      (err) => {
+        const current = entries.get(key);
+        if (current?.promise === promise) {
+          current.promise = undefined;
+          current.controller = undefined;
+          current.waiters = 0;
+        }
+        throw err;
+      },
+    );
+    entry.promise = promise;
+    entry.controller = controller;
+    entry.waiters = 0;
+  }
+
+  const shared = entry.promise as Promise<T>;
+  entry.waiters += 1;
+  // Callers without a signal can never leave, so the request always completes.
+  if (!signal) return shared;
+
+  const owner = entry;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      leave(owner, shared);
+      reject(abortError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    shared.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+/**
+ * Listen for changes to `key` (new data or invalidation).
+ * Returns the unsubscribe function.
+ */
+export function subscribeQuery(key: string, listener: Listener): () => void {
+  let set = listeners.get(key);
+  if (!set) {
+    set = new Set();
+    listeners.set(key, set);
+  }
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+    if (set!.size === 0) listeners.delete(key);
+  };
+}
+
+/**
+ * Mark every key starting with one of `prefixes` as stale.
+ * Cached data is kept (and still served) until the refetch completes;
+ * mounted hooks refetch immediately, unmounted ones on their next mount.
+ */
+export function invalidateQueries(...prefixes: string[]) {
+  const matched: string[] = [];
+  entries.forEach((entry, key) => {
+    if (prefixes.some((prefix) => key.startsWith(prefix))) {
+      // An in-flight request is left to finish for whoever awaits it,
+      // but its result no longer counts as fresh.
+      entry.updatedAt = 0;
+      entry.promise = undefined;
+      entry.controller = undefined;
+      entry.waiters = 0;
+      matched.push(key);
+    }
+  });
+  matched.forEach(notify);
+}
+
+/**
+ * Drop every cached entry — used on logout so another account never sees stale data.
+ * Mounted hooks are notified so they clear their data and refetch.
+ */
+export function clearQueryCache() {
+  entries.clear();
+  [...listeners.keys()].forEach(notify);
+}
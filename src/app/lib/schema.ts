@@ -0,0 +1,372 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Runtime response schemas
+//
+// The backend sends DecimalFields as strings, renames fields between versions
+// and occasionally drops them. Every dataApi response goes through a schema
+// declared next to its TypeScript interface, which:
+//   - coerces numeric strings ("1234.50") to numbers,
+//   - fills a fallback/default for missing or unusable values, so a drift
+//     never reaches the UI as NaN or undefined,
+//   - collects every mismatch and, in dev builds, logs them as ONE warning
+//     naming the endpoint and the offending fields.
+//
+//   const productSchema = s.object<Product>({ id: s.string(), ... });
+//   api.get(...).then((raw) => parseResponse(productSchema, raw, "/products/1/"));
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SchemaIssue {
+  /** Dotted path of the field, e.g. "ca.total" or "records[].d1_30". */
+  field: string;
+  expected: string;
+  /** What arrived instead: "missing", "null", or a short description of the value. */
+  received: string;
+}
+
+interface ParseContext {
+  issues: SchemaIssue[];
+}
+
+const INVALID = Symbol("invalid");
+type Coerced<T> = T | typeof INVALID;
+
+function isMissing(value: unknown): value is null | undefined {
+  return value === undefined || value === null;
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return "missing";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") {
+    return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+  }
+  if (typeof value === "number") return `number ${value}`;
+  return typeof value;
+}
+
+function report(ctx: ParseContext, path: string, expected: string, value: unknown) {
+  ctx.issues.push({ field: path || "(response)", expected, received: describe(value) });
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/** Read `a.b.c` from a plain object. */
+function readPath(source: Record<string, unknown>, dotted: string): unknown {
+  return dotted.split(".").reduce<unknown>(
+    (value, key) =>
+      value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+    source,
+  );
+}
+
+// ─────────────────────────────────────────────
+// Base
+// ─────────────────────────────────────────────
+
+export abstract class Schema<T> {
+  /** Type name shown in drift reports. */
+  abstract readonly expected: string;
+
+  /** Value used when the field is missing or unusable. */
+  protected abstract fallback(): T;
+
+  /** Convert a present (non-null) value, or return INVALID. */
+  protected abstract coerce(value: unknown, ctx: ParseContext, path: string): Coerced<T>;
+
+  parse(value: unknown, ctx: ParseContext, path: string): T {
+    if (!isMissing(value)) {
+      const result = this.coerce(value, ctx, path);
+      if (result !== INVALID) return result;
+    }
+    report(ctx, path, this.expected, value);
+    return this.fallback();
+  }
+
+  /** Missing or null → undefined, without a drift report. */
+  optional(): Schema<T | undefined> {
+    return new WrappedSchema<T, undefined>(this, () => undefined);
+  }
+
+  /** Missing or null → null, without a drift report. */
+  nullable(): Schema<T | null> {
+    return new WrappedSchema<T, null>(this, () => null);
+  }
+
+  /** Missing or null → `value`, without a drift report. */
+  default(value: T | (() => T)): Schema<T> {
+    return new WrappedSchema<T, T>(this, () =>
+      typeof value === "function" ? (value as () => T)() : value,
+    );
+  }
+}
+
+class WrappedSchema<T, E> extends Schema<T | E> {
+  readonly expected: string;
+
+  constructor(
+    private readonly inner: Schema<T>,
+    private readonly whenMissing: () => E,
+  ) {
+    super();
+    this.expected = inner.expected;
+  }
+
+  protected fallback(): T | E {
+    return this.whenMissing();
+  }
+
+  protected coerce(): Coerced<T | E> {
+    return INVALID;
+  }
+
+  parse(value: unknown, ctx: ParseContext, path: string): T | E {
+    return isMissing(value) ? this.whenMissing() : this.inner.parse(value, ctx, path);
+  }
+}
+
+// ─────────────────────────────────────────────
+// Primitives
+// ─────────────────────────────────────────────
+
+class StringSchema extends Schema<string> {
+  readonly expected = "string";
+
+  protected fallback() {
+    return "";
+  }
+
+  protected coerce(value: unknown): Coerced<string> {
+    if (typeof value === "string") return value;
+    // Numeric ids / codes are accepted as-is.
+    if (typeof value === "number" && Number.isFinite(value)) return String(value);
+    return INVALID;
+  }
+}
+
+class NumberSchema extends Schema<number> {
+  readonly expected = "number";
+
+  protected fallback() {
+    return 0;
+  }
+
+  protected coerce(value: unknown): Coerced<number> {
+    if (typeof value === "number") return Number.isFinite(value) ? value : INVALID;
+    // DecimalField values arrive as strings.
+    if (typeof value === "string" && value.trim() !== "") {
+      const parsed = Number(value);
+      return Number.isFinite(parsed) ? parsed : INVALID;
+    }
+    return INVALID;
+  }
+}
+
+class BooleanSchema extends Schema<boolean> {
+  readonly expected = "boolean";
+
+  protected fallback() {
+    return false;
+  }
+
+  protected coerce(value: unknown): Coerced<boolean> {
+    return typeof value === "boolean" ? value : INVALID;
+  }
+}
+
+class EnumSchema<T extends string> extends Schema<T> {
+  readonly expected: string;
+
+  constructor(private readonly values: readonly T[]) {
+    super();
+    this.expected = values.join(" | ");
+  }
+
+  protected fallback() {
+    return this.values[0];
+  }
+
+  protected coerce(value: unknown): Coerced<T> {
+    return this.values.includes(value as T) ? (value as T) : INVALID;
+  }
+}
+
+class UnknownSchema extends Schema<unknown> {
+  readonly expected = "any";
+
+  protected fallback() {
+    return undefined;
+  }
+
+  protected coerce(value: unknown) {
+    return value;
+  }
+
+  parse(value: unknown): unknown {
+    return value;
+  }
+}
+
+// ─────────────────────────────────────────────
+// Containers
+// ─────────────────────────────────────────────
+
+class ArraySchema<T> extends Schema<T[]> {
+  readonly expected: string;
+
+  constructor(private readonly item: Schema<T>) {
+    super();
+    this.expected = `${item.expected}[]`;
+  }
+
+  protected fallback(): T[] {
+    return [];
+  }
+
+  protected coerce(value: unknown, ctx: ParseContext, path: string): Coerced<T[]> {
+    if (!Array.isArray(value)) return INVALID;
+    // Items share one path so 500 rows missing a field make one issue, not 500.
+    return value.map((item) => this.item.parse(item, ctx, `${path}[]`));
+  }
+}
+
+class RecordSchema<T> extends Schema<Record<string, T>> {
+  readonly expected: string;
+
+  constructor(private readonly value: Schema<T>) {
+    super();
+    this.expected = `Record<string, ${value.expected}>`;
+  }
+
+  protected fallback(): Record<string, T> {
+    return {};
+  }
+
+  protected coerce(value: unknown, ctx: ParseContext, path: string): Coerced<Record<string, T>> {
+    if (typeof value !== "object" || Array.isArray(value)) return INVALID;
+    const out: Record<string, T> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+      out[key] = this.value.parse(entry, ctx, join(path, key));
+    });
+    return out;
+  }
+}
+
+/** A field read from the first of several source keys (renamed fields). */
+class Aliased<T> {
+  constructor(
+    readonly keys: string[],
+    readonly schema: Schema<T>,
+  ) {}
+}
+
+type Field<T> = Schema<T> | Aliased<T>;
+
+/** One schema per property of T — optional properties included. */
+export type Shape<T> = { [K in keyof Required<T>]: Field<T[K]> };
+
+class ObjectSchema<T> extends Schema<T> {
+  readonly expected = "object";
+
+  constructor(
+    private readonly shape: Shape<T>,
+    private readonly passthrough: boolean,
+  ) {
+    super();
+  }
+
+  protected fallback(): T {
+    // The object itself was reported; don't also report each of its fields.
+    return this.coerce({}, { issues: [] }, "") as T;
+  }
+
+  protected coerce(value: unknown, ctx: ParseContext, path: string): Coerced<T> {
+    if (typeof value !== "object" || Array.isArray(value)) return INVALID;
+    const source = value as Record<string, unknown>;
+    const out: Record<string, unknown> = this.passthrough ? { ...source } : {};
+
+    (Object.keys(this.shape) as Array<keyof T & string>).forEach((key) => {
+      const field = this.shape[key] as Field<unknown>;
+      if (field instanceof Aliased) {
+        const found = field.keys.find((k) => !isMissing(readPath(source, k)));
+        out[key] = field.schema.parse(
+          found === undefined ? undefined : readPath(source, found),
+          ctx,
+          join(path, key),
+        );
+      } else {
+        out[key] = field.parse(source[key], ctx, join(path, key));
+      }
+    });
+    return out as T;
+  }
+}
+
+// ─────────────────────────────────────────────
+// Builders
+// ─────────────────────────────────────────────
+
+export const s = {
+  string: () => new StringSchema(),
+  /** Finite number; numeric strings (DecimalField) are converted. */
+  number: () => new NumberSchema(),
+  boolean: () => new BooleanSchema(),
+  enumOf: <T extends string>(values: readonly T[]) => new EnumSchema<T>(values),
+  /** No validation — for payloads the UI passes through untouched. */
+  unknown: () => new UnknownSchema(),
+  array: <T>(item: Schema<T>) => new ArraySchema<T>(item),
+  record: <T>(value: Schema<T>) => new RecordSchema<T>(value),
+  /**
+   * Object with one schema per declared property. Pass the interface as the
+   * type argument so the compiler checks the schema against it.
+   * `passthrough` keeps undeclared keys (for index-signature types).
+   */
+  object: <T>(shape: Shape<T>, options: { passthrough?: boolean } = {}) =>
+    new ObjectSchema<T>(shape, options.passthrough ?? false),
+  /**
+   * Read a field from the first present key — for fields the backend has
+   * renamed (`["total_revenue", "revenue"]`). Dotted keys reach into nested
+   * objects (`"period.from"`).
+   */
+  alias: <T>(keys: string[], schema: Schema<T>) => new Aliased<T>(keys, schema),
+};
+
+// ─────────────────────────────────────────────
+// Entry point
+// ─────────────────────────────────────────────
+
+// Each distinct drift is logged once per page load, not on every refetch.
+const reportedDrift = new Set<string>();
+
+/**
+ * Validate and normalize a response body. Never throws: unusable values are
+ * replaced by their fallback, and in dev builds the mismatches are logged as
+ * a single console warning for `endpoint`.
+ */
+export function parseResponse<T>(schema: Schema<T>, data: unknown, endpoint: string): T {
+  const ctx: ParseContext = { issues: [] };
+  const result = schema.parse(data, ctx, "");
+
+  if (import.meta.env.DEV && ctx.issues.length > 0) {
+    const name = endpoint.split("?")[0];
+    const issues = dedupe(ctx.issues);
+    const signature = `${name} ${issues.map((i) => `${i.field}:${i.received}`).join(",")}`;
+    if (!reportedDrift.has(signature)) {
+      reportedDrift.add(signature);
+      console.warn(
+        `[api] ${name} does not match its schema (${issues.length} field${issues.length > 1 ? "s" : ""})`,
+        { endpoint: name, issues },
+      );
+    }
+  }
+  return result;
+}
+
+function dedupe(issues: SchemaIssue[]): SchemaIssue[] {
+  const seen = new Map<string, SchemaIssue>();
+  issues.forEach((issue) => {
+    if (!seen.has(issue.field)) seen.set(issue.field, issue);
+  });
+  return [...seen.values()];
+}
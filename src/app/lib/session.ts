@@ -0,0 +1,209 @@
+/**
+ * Session manager
+ * Owns the JWTs, keeps every open tab on the same session and tracks how
+ * recently the user was active and entered their password.
+ *
+ * - The access token lives in memory only. The refresh token is the one value
+ *   persisted (localStorage), so a reload or a new tab can resume the session.
+ * - Login, logout, token refresh and profile/permission changes are broadcast
+ *   to the other tabs of the app over a BroadcastChannel.
+ * - The access token is refreshed shortly before its `exp` claim, instead of
+ *   waiting for a request to fail with 401.
+ *
+ * The refresh itself is done by api.ts (see refreshSession), which registers
+ * it here with setRefreshHandler.
+ */
+
+const REFRESH_KEY = 'fasi_refresh_token';
+const AUTH_TIME_KEY = 'fasi_authenticated_at';
+const ACTIVITY_KEY = 'fasi_last_activity';
+// Written by earlier versions, which kept the access token and the whole user
+// object in localStorage. Removed on load.
+const LEGACY_KEYS = ['fasi_access_token', 'fasi_user'];
+
+/** Refresh this long before the access token expires. */
+const REFRESH_MARGIN = 60_000;
+
+const minutes = (value: string | undefined, fallback: number) =>
+  (value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Number(value) : fallback) * 60_000;
+
+export interface SessionPolicy {
+  /** Sign out after this long without any activity in any tab (ms). 0 disables it. */
+  idleTimeout: number;
+  /** Show the countdown warning this long before the idle sign-out (ms). */
+  idleWarning: number;
+  /** Sensitive actions ask for the password again once the last sign-in is older than this (ms). */
+  reauthAfter: number;
+}
+
+export const sessionPolicy: SessionPolicy = {
+  idleTimeout: minutes(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES, 15),
+  idleWarning: 60_000,
+  reauthAfter: minutes(import.meta.env.VITE_REAUTH_AFTER_MINUTES, 10),
+};
+
+/** Change the session policy at runtime (e.g. `configureSessionPolicy({ idleTimeout: 5 * 60_000 })`). */
+export function configureSessionPolicy(policy: Partial<SessionPolicy>) {
+  Object.assign(sessionPolicy, policy);
+}
+
+/** What one tab tells the others. Listeners only see events from other tabs. */
+export type SessionEvent =
+  | { type: 'login'; access: string }
+  | { type: 'token'; access: string }
+  | { type: 'logout' }
+  /** The signed-in user or their team changed (permissions, profile…) — reload it. */
+  | { type: 'profile' };
+
+type Listener = (event: SessionEvent) => void;
+
+let accessToken: string | null = null;
+let refreshHandler: (() => Promise<unknown>) | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<Listener>();
+
+const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel('fasi-session');
+
+LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+
+// ─────────────────────────────────────────────
+// Token Management
+// ─────────────────────────────────────────────
+
+export const TokenStorage = {
+  getAccess: () => accessToken,
+  getRefresh: () => localStorage.getItem(REFRESH_KEY),
+  setTokens: (access: string, refresh: string) => {
+    localStorage.setItem(REFRESH_KEY, refresh);
+    markAuthenticated();
+    setAccessToken(access);
+    broadcastSessionEvent({ type: 'login', access });
+  },
+  setAccess: (access: string) => {
+    setAccessToken(access);
+    broadcastSessionEvent({ type: 'token', access });
+  },
+  /** Backends that rotate refresh tokens send a new one with every refresh. */
+  setRefresh: (refresh: string) => localStorage.setItem(REFRESH_KEY, refresh),
+  clear: () => {
+    const hadSession = accessToken !== null || localStorage.getItem(REFRESH_KEY) !== null;
+    localStorage.removeItem(REFRESH_KEY);
+    localStorage.removeItem(AUTH_TIME_KEY);
+    setAccessToken(null);
+    if (hadSession) broadcastSessionEvent({ type: 'logout' });
+  },
+};
+
+/** Expiry of a JWT in ms since the epoch, or null when it has no readable `exp`. */
+export function tokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload)) as { exp?: unknown };
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when a session exists but the access token is missing (reload, new tab)
+ * or about to expire — apiFetch refreshes before sending in that case.
+ */
+export function needsRefresh(): boolean {
+  if (!TokenStorage.getRefresh()) return false;
+  if (!accessToken) return true;
+  const expiry = tokenExpiry(accessToken);
+  return expiry !== null && expiry - Date.now() < REFRESH_MARGIN;
+}
+
+function setAccessToken(access: string | null) {
+  accessToken = access;
+  scheduleRefresh();
+}
+
+function scheduleRefresh() {
+  clearTimeout(refreshTimer);
+  const expiry = accessToken ? tokenExpiry(accessToken) : null;
+  if (expiry === null) return;
+  refreshTimer = setTimeout(runRefresh, Math.max(0, expiry - Date.now() - REFRESH_MARGIN));
+}
+
+function runRefresh() {
+  // Failures are handled by the handler (it ends the session); nothing to add here.
+  if (refreshHandler && needsRefresh()) refreshHandler().catch(() => {});
+}
+
+/** Register the function that refreshes the access token (api.ts does this). */
+export function setRefreshHandler(handler: () => Promise<unknown>) {
+  refreshHandler = handler;
+}
+
+/**
+ * Run `fn` while holding a lock shared by every tab, so two tabs whose timers
+ * fire together don't both spend the refresh token. Without the Web Locks API
+ * `fn` just runs.
+ */
+export function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return fn();
+  return navigator.locks.request('fasi-token-refresh', () => fn()) as Promise<T>;
+}
+
+// Timers are throttled in background tabs: catch up when the tab comes back.
+document.addEventListener('visibilitychange', () => {
+  if (document.visibilityState === 'visible') runRefresh();
+});
+
+// ─────────────────────────────────────────────
+// Re-authentication & inactivity
+// ─────────────────────────────────────────────
+
+// Both timestamps live in localStorage so that every tab shares them: a
+// password typed in one tab counts for all, and activity in any tab keeps the
+// others signed in.
+
+/** Record that the user just proved their identity (sign-in or password prompt). */
+export function markAuthenticated() {
+  localStorage.setItem(AUTH_TIME_KEY, String(Date.now()));
+}
+
+/** True when the last sign-in is recent enough for a sensitive action (see sessionPolicy.reauthAfter). */
+export function isRecentlyAuthenticated(): boolean {
+  const at = Number(localStorage.getItem(AUTH_TIME_KEY));
+  return at > 0 && Date.now() - at < sessionPolicy.reauthAfter;
+}
+
+let lastActivityWrite = 0;
+
+/** Record user activity. Writes are throttled: pointer moves fire constantly. */
+export function markActivity() {
+  const now = Date.now();
+  if (now - lastActivityWrite < 5_000) return;
+  lastActivityWrite = now;
+  localStorage.setItem(ACTIVITY_KEY, String(now));
+}
+
+/** Last activity in any tab (ms since the epoch). */
+export function lastActivityAt(): number {
+  return Math.max(lastActivityWrite, Number(localStorage.getItem(ACTIVITY_KEY)) || 0);
+}
+
+// ─────────────────────────────────────────────
+// Cross-tab events
+// ─────────────────────────────────────────────
+
+/** Tell the other tabs about a session change. */
+export function broadcastSessionEvent(event: SessionEvent) {
+  channel?.postMessage(event);
+}
+
+/** Subscribe to session changes made in other tabs. Returns the unsubscribe function. */
+export function onSessionEvent(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+channel?.addEventListener('message', ({ data }: MessageEvent<SessionEvent>) => {
+  if (data.type === 'login' || data.type === 'token') setAccessToken(data.access);
+  if (data.type === 'logout') setAccessToken(null);
+  listeners.forEach(listener => listener(data));
+});
@@ -0,0 +1,67 @@
+import * as XLSX from 'xlsx';
+
+// ─────────────────────────────────────────────
+// Workbook parsing for the import pre-check (see readSheetRows and withoutRows
+// in ./importValidation.ts). Runs in a Web Worker: a large workbook takes
+// seconds to parse and would otherwise freeze the page.
+// ─────────────────────────────────────────────
+
+/** `exclude` asks for the workbook without those rows of its first sheet instead of the rows. */
+export interface SheetRowsRequest {
+  file: File;
+  exclude?: number[];
+}
+
+export type SheetRowsMessage = { rows: unknown[][] } | { workbook: ArrayBuffer } | { error: string };
+
+/** Removes sheet rows (1-based) and moves the rows below them up, with their cells, merges and heights. */
+function deleteRows(sheet: XLSX.WorkSheet, rows: number[]) {
+  const removed = [...new Set(rows.map(row => row - 1))].sort((a, b) => a - b);
+  const isRemoved = (r: number) => removed.includes(r);
+  const shift = (r: number) => removed.filter(index => index < r).length;
+
+  const cells: XLSX.WorkSheet = {};
+  for (const address of Object.keys(sheet)) {
+    if (address.startsWith('!')) continue;
+    const { r, c } = XLSX.utils.decode_cell(address);
+    if (!isRemoved(r)) cells[XLSX.utils.encode_cell({ r: r - shift(r), c })] = sheet[address];
+    delete sheet[address];
+  }
+  Object.assign(sheet, cells);
+
+  if (sheet['!ref']) {
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    range.e.r -= shift(range.e.r + 1);
+    sheet['!ref'] = XLSX.utils.encode_range(range);
+  }
+  sheet['!merges'] = sheet['!merges']
+    ?.filter(merge => !removed.some(r => r >= merge.s.r && r <= merge.e.r))
+    .map(merge => ({ s: { ...merge.s, r: merge.s.r - shift(merge.s.r) }, e: { ...merge.e, r: merge.e.r - shift(merge.e.r) } }));
+  sheet['!rows'] = sheet['!rows']?.filter((_, r) => !isRemoved(r));
+}
+
+function sheetRows(data: ArrayBuffer): unknown[][] {
+  const workbook = XLSX.read(data, { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  // `range: 0` reads from the top of the sheet, so rows[i] is sheet row i + 1 even when the used range starts lower.
+  return sheet ? XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: true, blankrows: true, range: 0 }) : [];
+}
+
+/** The workbook with its other sheets and the formatting sheetjs can write back; only the rows go. */
+function withoutRows(data: ArrayBuffer, exclude: number[]): ArrayBuffer {
+  const workbook = XLSX.read(data, { type: 'array', cellStyles: true, cellNF: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (sheet) deleteRows(sheet, exclude);
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx', cellStyles: true });
+}
+
+self.onmessage = async ({ data: { file, exclude } }: MessageEvent<SheetRowsRequest>) => {
+  let message: SheetRowsMessage;
+  try {
+    const data = await file.arrayBuffer();
+    message = exclude ? { workbook: withoutRows(data, exclude) } : { rows: sheetRows(data) };
+  } catch (err) {
+    message = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(message, { transfer: 'workbook' in message ? [message.workbook] : [] });
+};
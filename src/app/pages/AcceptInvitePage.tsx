@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Link, useNavigate, useParams } from 'react-router';
+import { ArrowLeft, Lock, Eye, EyeOff, CheckCircle2, Loader2, Clock, Ban, LinkIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { authApi, type InviteDetails } from '../lib/authApi';
+
+type InviteProblem = 'invite_expired' | 'invite_revoked' | 'invite_used' | 'invite_invalid';
+
+const PROBLEMS: Record<InviteProblem, { icon: typeof Clock; title: string; text: string }> = {
+  invite_expired: {
+    icon: Clock,
+    title: 'This invitation has expired',
+    text: 'Invitation links are valid for 7 days. Ask your manager to send you a new one.',
+  },
+  invite_revoked: {
+    icon: Ban,
+    title: 'This invitation was revoked',
+    text: 'Your manager cancelled this invitation. Contact them if you still need an account.',
+  },
+  invite_used: {
+    icon: CheckCircle2,
+    title: 'This invitation was already used',
+    text: 'Your account is set up — log in with the password you chose, or reset it if you forgot it.',
+  },
+  invite_invalid: {
+    icon: LinkIcon,
+    title: 'This invitation link is not valid',
+    text: 'Check that you opened the full link from your invitation email.',
+  },
+};
+
+// ── WEEG Logo mark ─────────────────────────────────────────────────────────
+function WeegMark({ size = 48 }: { size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 40 40" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <linearGradient id="aiWBlue" x1="0" y1="0" x2="1" y2="1">
+          <stop offset="0%" stopColor="#38bdf8" />
+          <stop offset="100%" stopColor="#0284c7" />
+        </linearGradient>
+        <linearGradient id="aiWOrange" x1="0" y1="0" x2="1" y2="0">
+          <stop offset="0%" stopColor="#f97316" />
+          <stop offset="100%" stopColor="#ea580c" />
+        </linearGradient>
+      </defs>
+      <text x="2" y="31" fontFamily="Arial Black, Arial, sans-serif" fontWeight="900" fontSize="30" fill="url(#aiWBlue)">W</text>
+      <path d="M 4 28 Q 20 36 36 22" stroke="url(#aiWOrange)" strokeWidth="2.5" strokeLinecap="round" fill="none" opacity="0.9" />
+    </svg>
+  );
+}
+
+const Wrapper = ({ children }: { children: React.ReactNode }) => (
+  <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center p-4">
+    <div className="w-full max-w-md">
+      {/* Logo */}
+      <div className="text-center mb-8">
+        <div className="flex justify-center mb-3">
+          <WeegMark size={52} />
+        </div>
+        <h1 className="text-3xl font-black" style={{ color: '#1e2130' }}>
+          <span className="dark:text-white">Weeg</span>
+        </h1>
+        <p className="text-muted-foreground text-sm mt-1">
+          Where Data Finds <span style={{ color: '#f97316' }} className="font-semibold">Balance</span>
+        </p>
+      </div>
+
+      {/* Card */}
+      <div className="bg-background border rounded-2xl shadow-xl p-8">
+        {children}
+      </div>
+
+      <div className="mt-4 text-center">
+        <Link
+          to="/login"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-sky-600 transition-colors"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Back to login
+        </Link>
+      </div>
+    </div>
+  </div>
+);
+
+/** The 404 / 410 `code` of a dead invitation link, or null for any other error. */
+function inviteProblem(err: any): InviteProblem | null {
+  if (err?.status === 404) return 'invite_invalid';
+  const code = err?.data?.code;
+  return err?.status === 410 && code in PROBLEMS ? code : null;
+}
+
+export function AcceptInvitePage() {
+  const { token = '' } = useParams();
+  const navigate = useNavigate();
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [problem, setProblem] = useState<InviteProblem | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+
+  useEffect(() => {
+    authApi.getInvite(token)
+      .then(setInvite)
+      .catch((err: any) => {
+        const found = inviteProblem(err);
+        if (found) setProblem(found);
+        else setLoadError(err?.status ? err.userMessage : 'Unable to reach the server.');
+      });
+  }, [token]);
+
+  const handleAccept = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) { toast.error('Passwords do not match.'); return; }
+    setIsLoading(true);
+    setPasswordError(null);
+    try {
+      await authApi.acceptInvite(token, password, confirmPassword);
+      setDone(true);
+    } catch (err: any) {
+      // The link may have expired or been revoked while the page was open.
+      const found = inviteProblem(err);
+      if (found) { setProblem(found); return; }
+      const fieldError = err?.fieldErrors?.password?.[0] ?? err?.fieldErrors?.password_confirm?.[0];
+      if (fieldError) setPasswordError(fieldError);
+      else toast.error(err?.status ? err.userMessage : 'Unable to reach the server.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (problem) {
+    const { icon: Icon, title, text } = PROBLEMS[problem];
+    return (
+      <Wrapper>
+        <div className="text-center py-4">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-amber-100 dark:bg-amber-900/30 mx-auto mb-4">
+            <Icon className="h-8 w-8 text-amber-600" />
+          </div>
+          <h2 className="text-2xl font-bold mb-2">{title}</h2>
+          <p className="text-muted-foreground text-sm mb-6">{text}</p>
+          {problem === 'invite_used' && (
+            <Button className="w-full text-white"
+              style={{ background: 'linear-gradient(135deg, #0284c7, #0ea5e9)' }}
+              onClick={() => navigate('/login')}>
+              Log in
+            </Button>
+          )}
+        </div>
+      </Wrapper>
+    );
+  }
+
+  if (done) return (
+    <Wrapper>
+      <div className="text-center py-4">
+        <div className="flex h-16 w-16 items-center justify-center rounded-full bg-green-100 dark:bg-green-900/30 mx-auto mb-4">
+          <CheckCircle2 className="h-8 w-8 text-green-600" />
+        </div>
+        <h2 className="text-2xl font-bold mb-2">Your account is ready</h2>
+        <p className="text-muted-foreground text-sm mb-6">
+          Log in as <strong>{invite?.email}</strong> with the password you just chose.
+        </p>
+        <Button className="w-full text-white"
+          style={{ background: 'linear-gradient(135deg, #0284c7, #0ea5e9)' }}
+          onClick={() => navigate('/login')}>
+          Log in
+        </Button>
+      </div>
+    </Wrapper>
+  );
+
+  if (!invite) return (
+    <Wrapper>
+      {loadError ? (
+        <p className="text-center text-sm text-red-500">{loadError}</p>
+      ) : (
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground mx-auto" />
+      )}
+    </Wrapper>
+  );
+
+  return (
+    <Wrapper>
+      <div className="mb-6">
+        <div className="flex h-10 w-10 items-center justify-center rounded-full mb-3" style={{ background: '#e0f2fe' }}>
+          <Lock className="h-5 w-5" style={{ color: '#0284c7' }} />
+        </div>
+        <h2 className="text-2xl font-bold">Welcome, {invite.first_name}</h2>
+        <p className="text-muted-foreground text-sm mt-1">
+          {invite.invited_by} invited you to join {invite.company_name ?? 'their team'}.
+          Choose a password for <strong>{invite.email}</strong>.
+        </p>
+      </div>
+      <form onSubmit={handleAccept} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="password">Password</Label>
+          <div className="relative">
+            <Input id="password" type={showPassword ? 'text' : 'password'} placeholder="••••••••"
+              value={password} onChange={e => setPassword(e.target.value)} required disabled={isLoading}
+              autoComplete="new-password" className="pr-10" />
+            <button type="button" onClick={() => setShowPassword(!showPassword)}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+              {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </button>
+          </div>
+          {passwordError && <p className="text-xs text-red-500">{passwordError}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="confirm-password">Confirm password</Label>
+          <Input id="confirm-password" type={showPassword ? 'text' : 'password'} placeholder="••••••••"
+            value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} required disabled={isLoading}
+            autoComplete="new-password" />
+          {confirmPassword && password !== confirmPassword && (
+            <p className="text-xs text-red-500">Passwords do not match.</p>
+          )}
+        </div>
+        <Button type="submit" className="w-full text-white"
+          style={{ background: 'linear-gradient(135deg, #0284c7, #0ea5e9)' }}
+          disabled={isLoading || !password || password !== confirmPassword}>
+          {isLoading ? <><Loader2 className="h-4 w-4 animate-spin mr-2" />Saving...</> : 'Set password'}
+        </Button>
+        <p className="text-xs text-muted-foreground text-center">
+          This link expires on {new Date(invite.expires_at).toLocaleDateString('en-US', { day: 'numeric', month: 'long' })}.
+        </p>
+      </form>
+    </Wrapper>
+  );
+}
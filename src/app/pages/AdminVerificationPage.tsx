@@ -1,13 +1,16 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Button } from '../components/ui/button';
+import { Switch } from '../components/ui/switch';
 import {
   Check, X, Mail, Calendar, User as UserIcon, Building2,
   Loader2, RefreshCw, Ban, UserCheck, Filter,
   Globe, MapPin, Server, Briefcase, Shield, ChevronRight,
-  Users, Clock, AlertCircle, TrendingUp,
+  Users, Clock, AlertCircle, TrendingUp, KeyRound, FileSearch,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { api } from '../lib/api';
+import { useReauth } from '../contexts/ReauthContext';
+import { ManagerApplicationDialog } from '../components/ManagerApplicationDialog';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -195,6 +198,7 @@ function SuspendModal({ user, onConfirm, onCancel, isLoading }: {
 
 const statusConfig: Record<string, { label: string; color: string; bg: string; dot: string }> = {
   pending:   { label: 'Pending',   color: '#d97706', bg: 'rgba(217,119,6,0.1)',   dot: '#f59e0b' },
+  info_requested: { label: 'Info requested', color: '#ea580c', bg: 'rgba(234,88,12,0.1)', dot: '#f97316' },
   active:    { label: 'Active',    color: '#059669', bg: 'rgba(5,150,105,0.1)',   dot: '#10b981' },
   approved:  { label: 'Approved',  color: '#059669', bg: 'rgba(5,150,105,0.1)',   dot: '#10b981' },
   suspended: { label: 'Suspended', color: '#dc2626', bg: 'rgba(220,38,38,0.1)',   dot: '#ef4444' },
@@ -217,7 +221,7 @@ const formatDate = (d: string) =>
 type TabId = 'pending' | 'managers' | 'agents' | 'suspended' | 'all';
 
 const TABS: { id: TabId; label: string; url: string; icon: React.ReactNode }[] = [
-  { id: 'pending',   label: 'Pending',   url: '/users/users/?status=pending',   icon: <Clock className="h-3.5 w-3.5" /> },
+  { id: 'pending',   label: 'Pending',   url: '/users/users/?status=pending,info_requested', icon: <Clock className="h-3.5 w-3.5" /> },
   { id: 'managers',  label: 'Managers',  url: '/users/users/?role=manager',     icon: <Shield className="h-3.5 w-3.5" /> },
   { id: 'agents',    label: 'Agents',    url: '/users/users/?role=agent',       icon: <Users className="h-3.5 w-3.5" /> },
   { id: 'suspended', label: 'Suspended', url: '/users/users/?status=suspended', icon: <Ban className="h-3.5 w-3.5" /> },
@@ -263,8 +267,9 @@ function CompanyInfo({ user }: { user: ManagerUser }) {
 // UserCard
 // ---------------------------------------------------------------------------
 
-function UserCard({ user, onApprove, onReject, onSuspend, onReactivate, isActing }: {
+function UserCard({ user, onReview, onApprove, onReject, onSuspend, onReactivate, isActing }: {
   user: ManagerUser;
+  onReview: () => void;
   onApprove: () => void;
   onReject: () => void;
   onSuspend: () => void;
@@ -272,7 +277,7 @@ function UserCard({ user, onApprove, onReject, onSuspend, onReactivate, isActing
   isActing: boolean;
 }) {
   const [hovered, setHovered] = useState(false);
-  const isPending   = user.status === 'pending';
+  const isPending   = user.status === 'pending' || user.status === 'info_requested';
   const isSuspended = user.status === 'suspended';
   const canSuspend  = user.role === 'manager' && (user.status === 'active' || user.status === 'approved');
   const sConf = statusConfig[user.status] ?? statusConfig.rejected;
@@ -363,6 +368,21 @@ function UserCard({ user, onApprove, onReject, onSuspend, onReactivate, isActing
 
         {/* Actions */}
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexShrink: 0 }}>
+          {user.role === 'manager' && (
+            <button
+              onClick={onReview}
+              style={{
+                display: 'flex', alignItems: 'center', gap: '6px',
+                background: 'rgba(99,102,241,0.08)', color: '#6366f1',
+                border: '1px solid rgba(99,102,241,0.2)', borderRadius: '10px',
+                padding: '8px 16px', fontSize: '0.8rem',
+                fontFamily: "'Sora', sans-serif", fontWeight: 600,
+                cursor: 'pointer', transition: 'all 0.2s ease',
+              }}
+            >
+              <FileSearch className="h-3.5 w-3.5" />{isPending ? 'Review' : 'History'}
+            </button>
+          )}
           {isPending && (
             <>
               <button
@@ -443,6 +463,64 @@ function UserCard({ user, onApprove, onReject, onSuspend, onReactivate, isActing
   );
 }
 
+// ---------------------------------------------------------------------------
+// SecurityPolicyBar
+// ---------------------------------------------------------------------------
+
+function SecurityPolicyBar() {
+  const [requireManager2fa, setRequireManager2fa] = useState<boolean | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { requireRecentAuth } = useReauth();
+
+  useEffect(() => {
+    api.get<{ require_manager_2fa?: boolean }>('/users/security-policy/')
+      .then(res => setRequireManager2fa(!!res.require_manager_2fa))
+      .catch(() => setRequireManager2fa(null));
+  }, []);
+
+  const handleToggle = async (checked: boolean) => {
+    if (!(await requireRecentAuth())) return;
+    setIsSaving(true);
+    try {
+      const res = await api.patch<{ require_manager_2fa: boolean }>('/users/security-policy/', { require_manager_2fa: checked });
+      setRequireManager2fa(res.require_manager_2fa);
+      toast.success(res.require_manager_2fa
+        ? 'Managers must now set up two-factor authentication'
+        : 'Two-factor authentication is optional for managers');
+    } catch (err: any) {
+      toast.error(err?.userMessage ?? 'Error updating the security policy');
+    } finally { setIsSaving(false); }
+  };
+
+  if (requireManager2fa === null) return null;
+
+  return (
+    <div style={{
+      display: 'flex', alignItems: 'center', gap: '14px', marginBottom: '16px',
+      padding: '14px 18px', borderRadius: '14px', background: 'var(--card)',
+      border: '1px solid rgba(0,0,0,0.07)', boxShadow: '0 1px 4px rgba(0,0,0,0.04)',
+    }}>
+      <div style={{
+        width: '36px', height: '36px', borderRadius: '10px', flexShrink: 0,
+        background: 'rgba(99,102,241,0.08)',
+        display: 'flex', alignItems: 'center', justifyContent: 'center',
+      }}>
+        <KeyRound className="h-4 w-4" style={{ color: '#6366f1' }} />
+      </div>
+      <div style={{ flex: 1 }}>
+        <label htmlFor="require-manager-2fa" style={{ fontFamily: "'Sora', sans-serif", fontWeight: 600, fontSize: '0.85rem', cursor: 'pointer' }}>
+          Require two-factor authentication for managers
+        </label>
+        <p style={{ fontSize: '0.78rem', color: 'var(--muted-foreground)', marginTop: '2px' }}>
+          Managers without 2FA are sent to their security settings to set it up before using the dashboard.
+        </p>
+      </div>
+      {isSaving && <Loader2 className="h-4 w-4 animate-spin" style={{ color: '#6366f1' }} />}
+      <Switch id="require-manager-2fa" checked={requireManager2fa} onCheckedChange={handleToggle} disabled={isSaving} />
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main Page
 // ---------------------------------------------------------------------------
@@ -454,6 +532,8 @@ export function AdminVerificationPage() {
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [rejectTarget, setRejectTarget]   = useState<ManagerUser | null>(null);
   const [suspendTarget, setSuspendTarget] = useState<ManagerUser | null>(null);
+  const [reviewTarget, setReviewTarget]   = useState<ManagerUser | null>(null);
+  const { requireRecentAuth } = useReauth();
 
   const fetchUsers = useCallback(async (tab: TabId) => {
     setIsLoading(true);
@@ -478,10 +558,12 @@ export function AdminVerificationPage() {
   const handleTabChange = (tab: TabId) => { setActiveTab(tab); setUsers([]); };
 
   const handleApprove = async (user: ManagerUser) => {
+    if (!(await requireRecentAuth())) return;
     setActionLoading(user.id);
     try {
       await api.post(`/users/signup/review/${user.id}/`, { action: 'approve' });
       toast.success(`✓ ${user.full_name} approved.`);
+      setReviewTarget(null);
       fetchUsers(activeTab);
     } catch (err: any) {
       toast.error(err?.data?.error ?? 'Error during approval');
@@ -490,6 +572,7 @@ export function AdminVerificationPage() {
 
   const handleRejectConfirm = async (reason: string) => {
     if (!rejectTarget) return;
+    if (!(await requireRecentAuth())) return;
     setActionLoading(rejectTarget.id);
     try {
       await api.post(`/users/signup/review/${rejectTarget.id}/`, { action: 'reject', reason });
@@ -503,6 +586,7 @@ export function AdminVerificationPage() {
 
   const handleSuspendConfirm = async (reason: string) => {
     if (!suspendTarget) return;
+    if (!(await requireRecentAuth())) return;
     setActionLoading(suspendTarget.id);
     try {
       await api.patch(`/users/users/${suspendTarget.id}/status/`, { status: 'suspended', ...(reason ? { reason } : {}) });
@@ -515,6 +599,7 @@ export function AdminVerificationPage() {
   };
 
   const handleReactivate = async (user: ManagerUser) => {
+    if (!(await requireRecentAuth())) return;
     setActionLoading(user.id);
     try {
       await api.patch(`/users/users/${user.id}/status/`, { status: 'active' });
@@ -536,6 +621,14 @@ export function AdminVerificationPage() {
         <RejectModal manager={rejectTarget} onConfirm={handleRejectConfirm}
           onCancel={() => setRejectTarget(null)} isLoading={actionLoading === rejectTarget.id} />
       )}
+      <ManagerApplicationDialog
+        managerId={reviewTarget?.id ?? null}
+        onClose={() => setReviewTarget(null)}
+        onStatusChanged={() => fetchUsers(activeTab)}
+        onApprove={() => reviewTarget && handleApprove(reviewTarget)}
+        // The reject modal is not a Radix dialog, so it cannot open on top of this one.
+        onReject={() => { setRejectTarget(reviewTarget); setReviewTarget(null); }}
+      />
       {suspendTarget && (
         <SuspendModal user={suspendTarget} onConfirm={handleSuspendConfirm}
           onCancel={() => setSuspendTarget(null)} isLoading={actionLoading === suspendTarget.id} />
@@ -587,6 +680,8 @@ export function AdminVerificationPage() {
           </div>
         </div>
 
+        <SecurityPolicyBar />
+
         {/* Tabs */}
         <div style={{
           display: 'flex', gap: '4px', marginBottom: '24px',
@@ -686,6 +781,7 @@ export function AdminVerificationPage() {
               <UserCard
                 key={user.id}
                 user={user}
+                onReview={() => setReviewTarget(user)}
                 onApprove={() => handleApprove(user)}
                 onReject={() => setRejectTarget(user)}
                 onSuspend={() => setSuspendTarget(user)}
@@ -1,7 +1,7 @@
 // src/app/pages/AgingPage.tsx
 import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
 import { createPortal } from 'react-dom';
-import axios from 'axios';
+import { api } from '../lib/api';
 import {
   Search, RefreshCw, Loader2, AlertCircle, Download,
   TrendingUp, AlertTriangle, CheckCircle2, Clock,
@@ -17,6 +17,7 @@ import {
 } from 'recharts';
 import { useAgingDates, type AgingRow } from '../lib/dataHooks';
 import { formatCurrency, formatNumber } from '../lib/utils';
+import { usePermission } from '../contexts/AuthContext';
 import { DataTable } from '../components/DataTable';
 import { AgingHistoricalTrend } from '../components/AgingHistoricalTrend';
 
@@ -34,11 +35,6 @@ function normalizeRow(r: AgingRow): AgingRow {
   };
 }
 
-function getAuthHeaders() {
-  const token = localStorage.getItem('fasi_access_token');
-  return token ? { Authorization: `Bearer ${token}` } : {};
-}
-
 // ── Period → date range helper ─────────────────────────────────────────────
 function periodToDates(period: string): { date_from?: string; date_to?: string } {
   if (period === 'all') return {};
@@ -318,6 +314,7 @@ function ChartTooltip({ active, payload, label }: any) {
 
 // ── Page ──────────────────────────────────────────────────────────────────────
 export function AgingReceivablePage() {
+  const canExport = usePermission('export', 'aging');
   const { data: datesData } = useAgingDates();
 
   // ✅ All 4 filters
@@ -354,8 +351,8 @@ export function AgingReceivablePage() {
 
   // ── Load available branches ───────────────────────────────────────────────
   useEffect(() => {
-    axios.get('/api/transactions/branches/', { headers: getAuthHeaders() })
-      .then(res => setAvailableBranches(res.data.branches ?? [])).catch(() => {});
+    api.get<any>('/transactions/branches/')
+      .then(res => setAvailableBranches(res.branches ?? [])).catch(() => {});
   }, []);
 
   // ── ✅ Fetch aging rows — re-fetches on date OR period change ─────────────
@@ -366,11 +363,9 @@ export function AgingReceivablePage() {
     setLoading(true);
     setError(null);
     try {
-      const res = await axios.get('/api/aging/', {
-        headers: getAuthHeaders(),
+      const data = await api.get<any>('/aging/', {
         params: { report_date: dateToFetch, page_size: 500, page: 1 },
       });
-      const data = res.data;
       setReportDate(data.report_date || dateToFetch);
       setTotalAccounts(data.total_accounts ?? 0);
       const normalized = (data.records ?? [])
@@ -378,7 +373,7 @@ export function AgingReceivablePage() {
         .map(normalizeRow);
       setRows(normalized);
     } catch (e: any) {
-      setError(e.response?.data?.error || e.message || 'Failed to load aging data');
+      setError(e.message || 'Failed to load aging data');
     } finally {
       setLoading(false);
     }
@@ -392,12 +387,11 @@ export function AgingReceivablePage() {
   useEffect(() => {
     if (branchFilter === 'all') { setCustomerNamesInBranch(null); return; }
     setBranchFilterLoading(true);
-    axios.get('/api/transactions/', {
-      headers: getAuthHeaders(),
+    api.get<any>('/transactions/', {
       params: { movement_type: 'ف بيع', branch: branchFilter, page_size: 500, page: 1 },
     }).then(res => {
       const names = new Set<string>(
-        (res.data.movements ?? []).map((m: any) => m.customer_name).filter(Boolean)
+        (res.movements ?? []).map((m: any) => m.customer_name).filter(Boolean)
       );
       setCustomerNamesInBranch(names);
     }).catch(() => setCustomerNamesInBranch(null))
@@ -411,10 +405,10 @@ export function AgingReceivablePage() {
     if (dateRange.date_from) params.date_from = dateRange.date_from;
     if (dateRange.date_to)   params.date_to   = dateRange.date_to;
 
-    axios.get('/api/transactions/branch-monthly/', { headers: getAuthHeaders(), params })
+    api.get<any>('/transactions/branch-monthly/', { params })
       .then(res => {
-        setBranchTrend(res.data.monthly_data ?? []);
-        setBranchTrendBranches(res.data.branches ?? []);
+        setBranchTrend(res.monthly_data ?? []);
+        setBranchTrendBranches(res.branches ?? []);
       })
       .catch(() => {})
       .finally(() => setBranchTrendLoading(false));
@@ -424,8 +418,8 @@ export function AgingReceivablePage() {
   useEffect(() => {
     if (!effectiveDate) return;
     setCreditKPILoading(true);
-    axios.get('/api/kpi/credit/', { headers: getAuthHeaders(), params: { report_date: effectiveDate } })
-      .then(res => setCreditKPI(res.data)).catch(() => {}).finally(() => setCreditKPILoading(false));
+    api.get<any>('/kpi/credit/', { params: { report_date: effectiveDate } })
+      .then(res => setCreditKPI(res)).catch(() => {}).finally(() => setCreditKPILoading(false));
   }, [effectiveDate]);
 
   // ── ✅ filtered = aging rows after applying ALL 4 filters ─────────────────
@@ -577,14 +571,16 @@ export function AgingReceivablePage() {
           </p>
         </div>
         <div style={{ display: 'flex', gap: 8 }}>
-          <button onClick={exportCSV} disabled={filtered.length === 0} style={{
-            display: 'flex', alignItems: 'center', gap: 6, height: 36, padding: '0 14px',
-            borderRadius: 10, border: `1px solid ${css.border}`, background: css.card,
-            color: css.cardFg, fontSize: 13, cursor: filtered.length === 0 ? 'not-allowed' : 'pointer',
-            opacity: filtered.length === 0 ? 0.5 : 1, boxShadow: '0 1px 3px rgba(0,0,0,0.06)',
-          }}>
-            <Download size={14} /> Export CSV
-          </button>
+          {canExport && (
+            <button onClick={exportCSV} disabled={filtered.length === 0} style={{
+              display: 'flex', alignItems: 'center', gap: 6, height: 36, padding: '0 14px',
+              borderRadius: 10, border: `1px solid ${css.border}`, background: css.card,
+              color: css.cardFg, fontSize: 13, cursor: filtered.length === 0 ? 'not-allowed' : 'pointer',
+              opacity: filtered.length === 0 ? 0.5 : 1, boxShadow: '0 1px 3px rgba(0,0,0,0.06)',
+            }}>
+              <Download size={14} /> Export CSV
+            </button>
+          )}
           <button onClick={fetchAgingRows} disabled={loading} style={{
             display: 'flex', alignItems: 'center', gap: 6, height: 36, padding: '0 14px',
             borderRadius: 10, border: `1px solid ${css.border}`, background: css.card,
@@ -6,7 +6,7 @@
 // ═══════════════════════════════════════════════════════════════════
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import axios from 'axios';
+import { api } from '../lib/api';
 import {
   RefreshCw, Loader2, AlertCircle, TrendingUp, AlertTriangle,
   Clock, Target, BarChart3, Printer, ChevronDown, ChevronUp,
@@ -18,6 +18,7 @@ import {
   ComposedChart, Line,
 } from 'recharts';
 import { formatCurrency } from '../lib/utils';
+import { usePermission } from '../contexts/AuthContext';
 
 // ─── Design Tokens ────────────────────────────────────────────────
 const C = {
@@ -80,7 +81,6 @@ const norm = (r: AgingRow): AgingRow => ({
   over_330: num(r.over_330), total: num(r.total), overdue_total: num(r.overdue_total),
   customer_name: r.customer_name || r.account || null,
 });
-function auth() { const t = localStorage.getItem('fasi_access_token'); return t ? { Authorization: `Bearer ${t}` } : {}; }
 function pct(a: number, b: number) { return b > 0 ? +((a / b) * 100).toFixed(1) : 0; }
 function shortName(row: AgingRow, maxLen = 30): string {
   const raw = row.customer_name ?? row.account ?? '';
@@ -566,6 +566,7 @@ function BranchStackedVisual({
 // MAIN COMPONENT
 // ═══════════════════════════════════════════════════════════════════
 export function AgingReport() {
+  const canExport = usePermission('export', 'reports');
   const [dates, setDates] = useState<string[]>([]);
   const [activeDate, setActiveDate] = useState('');
   const [rows, setRows] = useState<AgingRow[]>([]);
@@ -577,12 +578,12 @@ export function AgingReport() {
   const [error, setError] = useState('');
 
   useEffect(() => {
-    axios.get('/api/aging/dates/', { headers: auth() }).then(r => {
-      const d: string[] = r.data?.dates ?? [];
+    api.get<any>('/aging/dates/').then(r => {
+      const d: string[] = r?.dates ?? [];
       setDates(d); if (d.length) setActiveDate(d[0]);
     }).catch(() => {});
-    axios.get('/api/transactions/branch-monthly/', { params: { movement_type: 'ف بيع' }, headers: auth() })
-      .then(r => { setBranchMonthly(r.data?.monthly_data ?? []); })
+    api.get<any>('/transactions/branch-monthly/', { params: { movement_type: 'ف بيع' } })
+      .then(r => { setBranchMonthly(r?.monthly_data ?? []); })
       .catch(() => {}).finally(() => setLoadBranch(false));
   }, []);
 
@@ -590,8 +591,8 @@ export function AgingReport() {
     if (!date) return;
     setLoadRows(true); setError('');
     try {
-      const r = await axios.get('/api/aging/', { params: { report_date: date, page_size: 200 }, headers: auth() });
-      setRows(((r.data?.records ?? r.data?.results ?? []) as AgingRow[]).map(norm));
+      const r = await api.get<any>('/aging/', { params: { report_date: date, page_size: 200 } });
+      setRows(((r?.records ?? r?.results ?? []) as AgingRow[]).map(norm));
     } catch (e: any) { setError(e.message ?? 'Loading error'); }
     finally { setLoadRows(false); }
   }, []);
@@ -599,8 +600,8 @@ export function AgingReport() {
   const fetchKpi = useCallback(async (date: string) => {
     setLoadKpi(true);
     try {
-      const r = await axios.get('/api/kpi/credit/', { params: { report_date: date || undefined }, headers: auth() });
-      setKpi(r.data);
+      const r = await api.get<any>('/kpi/credit/', { params: { report_date: date || undefined } });
+      setKpi(r);
     } catch {} finally { setLoadKpi(false); }
   }, []);
 
@@ -871,10 +872,12 @@ div[style*="border-top:"]{break-inside:avoid;page-break-inside:avoid;}
               style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${css.border}`, background: css.card, color: '#64748b', fontSize: 13, cursor: 'pointer' }}>
               <RefreshCw size={13} />Refresh
             </button>
-            <button onClick={handlePrint}
-              style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${C.indigo}40`, background: `${C.indigo}10`, color: C.indigo, fontSize: 13, fontWeight: 700, cursor: 'pointer' }}>
-              <Printer size={13} />Print / Export PDF
-            </button>
+            {canExport && (
+              <button onClick={handlePrint}
+                style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${C.indigo}40`, background: `${C.indigo}10`, color: C.indigo, fontSize: 13, fontWeight: 700, cursor: 'pointer' }}>
+                <Printer size={13} />Print / Export PDF
+              </button>
+            )}
           </div>
         </div>
         {dates.length > 1 && (
@@ -21,6 +21,7 @@ import {
   useTransactionSummary, useAgingList,
 } from '../lib/dataHooks';
 import { formatCurrency, formatDate, toNum } from '../lib/utils';
+import { usePermission } from '../contexts/AuthContext';
 import { api } from '../lib/api';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -324,6 +325,7 @@ function HVCustomerCard({ customer, rank }: { customer: HVCustomer; rank: number
 // ─────────────────────────────────────────────────────────────────────────────
 
 export function AlertsPage() {
+  const canResolve = usePermission('resolve', 'alerts');
   const [selectedAlert, setSelectedAlert] = useState<SmartAlert | null>(null);
   const [aiExplanation, setAiExplanation] = useState<AIExplanation | null>(null);
   const [aiLoading, setAiLoading]         = useState(false);
@@ -561,7 +563,7 @@ export function AlertsPage() {
 
   const handleResolve = async (alert: SmartAlert) => {
     setResolvingId(alert.id);
-    try { await api.post('/ai-insights/alerts/resolve/', { alert_id: alert.id, alert_type: alert.type }); } catch { /* optimistic */ }
+    try { await api.post('/ai-insights/alerts/resolve/', { alert_id: alert.id, alert_type: alert.type, alert_message: alert.message }); } catch { /* optimistic */ }
     setResolvedIds(prev => new Set([...prev, alert.id]));
     if (selectedAlert?.id === alert.id) setSelectedAlert(null);
     setResolvingId(null);
@@ -745,7 +747,7 @@ export function AlertsPage() {
     { key: 'actions', label: 'Actions',
       render: (row: SmartAlert) => (
         <div className="flex gap-2 flex-wrap">
-          {row.status === 'pending' ? (
+          {!canResolve ? null : row.status === 'pending' ? (
             <Button variant="outline" size="sm" onClick={() => handleResolve(row)} disabled={resolvingId === row.id}>
               {resolvingId === row.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-1" />}
               Resolve
@@ -1381,7 +1383,7 @@ export function AlertsPage() {
 
               {/* Actions */}
               <div className="flex gap-3 pt-1">
-                {selectedAlert.status === 'pending' && (
+                {canResolve && selectedAlert.status === 'pending' && (
                   <Button className="flex-1" onClick={() => handleResolve(selectedAlert)} disabled={resolvingId === selectedAlert.id}>
                     {resolvingId === selectedAlert.id ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
                     Mark as Resolved
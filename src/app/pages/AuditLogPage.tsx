@@ -0,0 +1,312 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router';
+import { History, Download, RefreshCw, Loader2, Search, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+import { Card, CardContent } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { DataTable } from '../components/DataTable';
+import {
+  auditApi,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_LABELS,
+  type AuditAction,
+  type AuditLogEntry,
+  type AuditTargetType,
+  type ListAuditLogParams,
+} from '../lib/auditApi';
+import { AVAILABLE_PERMISSIONS } from '../lib/permissions';
+
+const PAGE_SIZE = 50;
+
+// Action filter groups — each sends a comma-separated `action` list.
+const ACTION_GROUPS: Array<{ key: string; label: string; actions: AuditAction[] }> = [
+  { key: 'users',       label: 'Users',           actions: ['user.create', 'user.delete', 'user.status', 'user.invite_resend', 'user.invite_revoke'] },
+  { key: 'permissions', label: 'Permissions',     actions: ['user.permissions', 'role_template.apply'] },
+  { key: 'approvals',   label: 'Manager reviews', actions: ['manager.approve', 'manager.reject', 'manager.request_info'] },
+  { key: 'templates',   label: 'Role templates',  actions: ['role_template.create', 'role_template.update', 'role_template.delete'] },
+  { key: 'companies',   label: 'Companies',       actions: ['company.create', 'company.update'] },
+  { key: 'data',        label: 'Data & alerts',   actions: ['inventory.delete', 'alert.resolve', 'alert.reopen'] },
+  { key: 'security',    label: 'Security',        actions: ['user.two_factor_enable', 'user.two_factor_disable', 'security_policy.update'] },
+];
+
+const ACTION_TONE: Partial<Record<AuditAction, string>> = {
+  'user.delete':          'bg-rose-100 text-rose-700 dark:bg-rose-900 dark:text-rose-300',
+  'manager.reject':       'bg-rose-100 text-rose-700 dark:bg-rose-900 dark:text-rose-300',
+  'role_template.delete': 'bg-rose-100 text-rose-700 dark:bg-rose-900 dark:text-rose-300',
+  'inventory.delete':     'bg-rose-100 text-rose-700 dark:bg-rose-900 dark:text-rose-300',
+  'user.create':          'bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300',
+  'manager.approve':      'bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300',
+  'alert.resolve':        'bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300',
+};
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const permissionLabel = (id: string) => AVAILABLE_PERMISSIONS.find(p => p.id === id)?.label ?? id;
+
+function formatValue(key: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'none';
+    return (key === 'permissions_list' ? value.map(v => permissionLabel(String(v))) : value).join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+interface FieldChange {
+  field: string;
+  text: string;
+}
+
+/** One line per changed field; lists show what was added and removed. */
+function describeChanges(entry: AuditLogEntry): FieldChange[] {
+  const before = entry.before ?? {};
+  const after = entry.after ?? {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields.map(field => {
+    const from = before[field];
+    const to = after[field];
+    if (Array.isArray(from) && Array.isArray(to)) {
+      const added = to.filter(v => !from.includes(v));
+      const removed = from.filter(v => !to.includes(v));
+      const parts = [
+        added.length > 0 ? `+ ${formatValue(field, added)}` : '',
+        removed.length > 0 ? `− ${formatValue(field, removed)}` : '',
+      ].filter(Boolean);
+      return { field, text: parts.join('  ') || 'unchanged' };
+    }
+    if (!entry.before) return { field, text: formatValue(field, to) };
+    if (!entry.after) return { field, text: formatValue(field, from) };
+    return { field, text: `${formatValue(field, from)} → ${formatValue(field, to)}` };
+  });
+}
+
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+function downloadCsv(entries: AuditLogEntry[]) {
+  const headers = ['Timestamp', 'Actor', 'Actor email', 'Action', 'Target type', 'Target', 'Before', 'After'];
+  const rows = entries.map(e => [
+    e.timestamp,
+    e.actor_name,
+    e.actor_email,
+    AUDIT_ACTION_LABELS[e.action] ?? e.action,
+    AUDIT_TARGET_LABELS[e.target_type] ?? e.target_type,
+    e.target_label || e.target_id,
+    e.before ? JSON.stringify(e.before) : '',
+    e.after ? JSON.stringify(e.after) : '',
+  ].map(v => csvCell(String(v))).join(','));
+  const csv  = [headers.join(','), ...rows].join('\n');
+  const blob = new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8;' });
+  const a    = Object.assign(document.createElement('a'), {
+    href: URL.createObjectURL(blob),
+    download: `audit_log_${new Date().toISOString().slice(0, 10)}.csv`,
+  });
+  a.click();
+}
+
+export function AuditLogPage() {
+  // `target_id` / `target` come from the "History" link of a team member.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const targetId    = searchParams.get('target_id') ?? '';
+  const targetLabel = searchParams.get('target') ?? '';
+
+  const [entries, setEntries]         = useState<AuditLogEntry[]>([]);
+  const [count, setCount]             = useState(0);
+  const [page, setPage]               = useState(1);
+  const [loading, setLoading]         = useState(true);
+  const [exporting, setExporting]     = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch]           = useState('');
+  const [actionGroup, setActionGroup] = useState('');
+  const [targetType, setTargetType]   = useState<AuditTargetType | ''>('');
+  const [dateFrom, setDateFrom]       = useState('');
+  const [dateTo, setDateTo]           = useState('');
+  const [reloadKey, setReloadKey]     = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => { setSearch(searchInput.trim()); setPage(1); }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const filters: ListAuditLogParams = {
+    ...(search ? { search } : {}),
+    ...(actionGroup ? { action: ACTION_GROUPS.find(g => g.key === actionGroup)!.actions.join(',') } : {}),
+    ...(targetType ? { target_type: targetType } : {}),
+    ...(targetId ? { target_id: targetId } : {}),
+    ...(dateFrom ? { date_from: dateFrom } : {}),
+    ...(dateTo ? { date_to: dateTo } : {}),
+  };
+  const filterKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    auditApi.list({ ...filters, page, page_size: PAGE_SIZE })
+      .then(res => {
+        if (cancelled) return;
+        setEntries(res.entries);
+        setCount(res.count);
+      })
+      .catch((err: any) => { if (!cancelled) toast.error(err?.userMessage ?? 'Error loading the audit log'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+    // `filterKey` stands for `filters`, which is rebuilt on every render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filterKey, page, reloadKey]);
+
+  const changeFilter = <T,>(set: (value: T) => void) => (value: T) => { set(value); setPage(1); };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setActionGroup('');
+    setTargetType('');
+    setDateFrom('');
+    setDateTo('');
+    setPage(1);
+    if (targetId) setSearchParams({});
+  };
+
+  const hasFilters = !!(searchInput || actionGroup || targetType || dateFrom || dateTo || targetId);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const all = await auditApi.listAll(filters);
+      if (all.length === 0) {
+        toast.info('Nothing to export');
+        return;
+      }
+      downloadCsv(all);
+    } catch (err: any) {
+      toast.error(err?.userMessage ?? 'Error exporting the audit log');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const columns = [
+    { key: 'timestamp', label: 'When',
+      render: (row: AuditLogEntry) => <span className="text-sm whitespace-nowrap">{formatTimestamp(row.timestamp)}</span> },
+    { key: 'actor', label: 'Actor',
+      render: (row: AuditLogEntry) => (
+        <div>
+          <p className="text-sm font-medium">{row.actor_name || 'System'}</p>
+          {row.actor_email && <p className="text-xs text-muted-foreground">{row.actor_email}</p>}
+        </div>
+      )},
+    { key: 'action', label: 'Action',
+      render: (row: AuditLogEntry) => (
+        <Badge variant="outline" className={`whitespace-nowrap ${ACTION_TONE[row.action] ?? ''}`}>
+          {AUDIT_ACTION_LABELS[row.action] ?? row.action}
+        </Badge>
+      )},
+    { key: 'target', label: 'Target',
+      render: (row: AuditLogEntry) => (
+        <div>
+          <p className="text-sm">{row.target_label || row.target_id}</p>
+          <p className="text-xs text-muted-foreground">{AUDIT_TARGET_LABELS[row.target_type] ?? row.target_type}</p>
+        </div>
+      )},
+    { key: 'changes', label: 'Before → After',
+      render: (row: AuditLogEntry) => (
+        <div className="space-y-0.5 max-w-[420px]">
+          {describeChanges(row).map(c => (
+            <p key={c.field} className="text-xs">
+              <span className="text-muted-foreground">{c.field}: </span>{c.text}
+            </p>
+          ))}
+        </div>
+      )},
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between flex-wrap gap-3">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            <History className="h-7 w-7 text-indigo-600" />Audit Log
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Who changed users, permissions, templates and company data — and when
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => setReloadKey(k => k + 1)} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            <span className="ml-2">Refresh</span>
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting || count === 0}>
+            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            <span className="ml-2">Export CSV</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6 flex flex-wrap items-end gap-3">
+          <div className="relative flex-1 min-w-[220px]">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input className="pl-9" placeholder="Search actor, target or values…"
+              value={searchInput} onChange={e => setSearchInput(e.target.value)} />
+          </div>
+          <select className="h-9 rounded-md border bg-background px-3 text-sm"
+            value={actionGroup} onChange={e => changeFilter(setActionGroup)(e.target.value)}>
+            <option value="">All actions</option>
+            {ACTION_GROUPS.map(g => <option key={g.key} value={g.key}>{g.label}</option>)}
+          </select>
+          <select className="h-9 rounded-md border bg-background px-3 text-sm"
+            value={targetType} onChange={e => changeFilter(setTargetType)(e.target.value as AuditTargetType | '')}>
+            <option value="">All targets</option>
+            {(Object.keys(AUDIT_TARGET_LABELS) as AuditTargetType[]).map(t => (
+              <option key={t} value={t}>{AUDIT_TARGET_LABELS[t]}</option>
+            ))}
+          </select>
+          <label className="text-xs text-muted-foreground flex flex-col gap-1">
+            From
+            <Input type="date" className="h-9" value={dateFrom} max={dateTo || undefined}
+              onChange={e => changeFilter(setDateFrom)(e.target.value)} />
+          </label>
+          <label className="text-xs text-muted-foreground flex flex-col gap-1">
+            To
+            <Input type="date" className="h-9" value={dateTo} min={dateFrom || undefined}
+              onChange={e => changeFilter(setDateTo)(e.target.value)} />
+          </label>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>Clear filters</Button>
+          )}
+        </CardContent>
+        {targetId && (
+          <CardContent className="pt-0">
+            <span className="inline-flex items-center gap-2 text-sm px-3 py-1 rounded-full bg-indigo-50 text-indigo-700 dark:bg-indigo-950 dark:text-indigo-300">
+              History of {targetLabel || targetId}
+              <button onClick={() => { setSearchParams({}); setPage(1); }} aria-label="Show all entries">
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </span>
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardContent className="pt-6">
+          {loading && entries.length === 0 ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <DataTable data={entries} columns={columns}
+              emptyMessage={hasFilters ? 'No entries match these filters' : 'No changes recorded yet'}
+              serverPagination={{ totalCount: count, page, pageSize: PAGE_SIZE, onPageChange: setPage }}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
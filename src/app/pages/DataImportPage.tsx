@@ -1,14 +1,28 @@
 // src/app/pages/DataImportPage.tsx
 // Design unified with DashboardPage — zero functional changes
 
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Upload, CheckCircle2, AlertCircle, Download,
   Users, GitBranch, Clock, Package, ArrowLeftRight,
-  Loader2,
+  Loader2, ChevronDown, ChevronRight, RefreshCw, Trash2, AlertTriangle, Eye, Pause, Play, X,
 } from 'lucide-react';
-import { dataImportApi, ImportResult, DetectResult } from '../lib/dataApi';
-import axios from 'axios';
+import { toast } from 'sonner';
+import {
+  dataImportApi, DetectResult, ImportPreview, UploadOptions,
+  ImportLogEntry, ImportStatus, ImportUploader, MappingProfile,
+} from '../lib/dataApi';
+import {
+  ColumnMatches, MatchKind, needsMapping, pickProfile, suggestMatches, toColumnMapping,
+} from '../lib/columnMapping';
+import {
+  IMPORT_RULES, SheetRows, ValidationReport, readSheetRows, validateSheet, withoutRows,
+} from '../lib/importValidation';
+import { ChunkedUploadHandle, UploadProgress, uploadInChunks } from '../lib/chunkedUpload';
+import { invalidateAfterImport } from '../lib/dataHooks';
+import { isAbortError, type ApiError } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { IMPORT_PERMISSIONS, hasPermission } from '../lib/permissions';
 import * as XLSX from 'xlsx';
 
 // ── Brand palette (identical to DashboardPage) ────────────────────────────────
@@ -55,7 +69,6 @@ const templates = [
     accent: C.indigo,
     columns: ['Customer Name', 'Account Code', 'Detailed Address', 'Region Code', 'Phone Number', 'Email'],
     exactHeaders: ['اسم العميل', 'رمز الحساب', 'العنوان التفصيلي', 'رمز المنطقة', 'رقم الهاتف1', 'بريد الكتروني'],
-    role: ['agent', 'manager'],
   },
   {
     id: 'branches',
@@ -67,7 +80,6 @@ const templates = [
     accent: C.emerald,
     columns: ['Branch', 'Address / Location', 'Phone Number'],
     exactHeaders: ['الفرع', 'العنوان / الموقع', 'رقم الهاتف'],
-    role: ['agent', 'manager'],
   },
   {
     id: 'aging',
@@ -79,7 +91,6 @@ const templates = [
     accent: C.amber,
     columns: ['#', 'Account', 'Current', '1-30 Days', '31-60 Days', '61-90 Days', '91-120 Days', '…', 'Over 330 Days', 'Total'],
     exactHeaders: ['#', 'الحساب', 'الحالي', '1-30 يوم', '31-60 يوم', '61-90 يوم', '91-120 يوم', '121-150 يوم', '151-180 يوم', '181-210 يوم', '211-240 يوم', '241-270 يوم', '271-300 يوم', '301-330 يوم', 'أكثر من 330 يوم', 'المجموع'],
-    role: ['agent', 'manager'],
   },
   {
     id: 'inventory',
@@ -91,7 +102,6 @@ const templates = [
     accent: C.violet,
     columns: ['Index', 'Item Code', 'Item Name', 'Quantities (per branch)', 'Values (per branch)', 'Total Quantity', 'Price', 'Total Value'],
     exactHeaders: ['الفهرس', 'رمز المادة', 'اسم المادة', 'فرع الكريمية','قيمة   جرد   فرع  الكريمية  ', 'مخزن بنغازي', ' قيمة مخزن بنغازي','مخزن المزرعة', 'قيمة   مخزن   المزرعة  ', 'مخزن صالة عرض الدهماني', 'قيمة   فرع  الدهماني  ', 'مخزن صالة عرض جنزور', 'قيمة   فرع  جنزور ', 'مخزن صالة عرض مصراتة', 'قيمة   فرع   مصراتة ', 'إجمالي كمية (الوحدة الافتراضية)', 'السعر (كلفة الشركة)', 'إجمالي قيمة'],
-    role: ['agent', 'manager'],
   },
   {
     id: 'movements',
@@ -103,12 +113,22 @@ const templates = [
     accent: C.rose,
     columns: ['Index', 'Item Code', 'Item Name', 'Date', 'Input Qty', 'Input Price', 'Output Qty', 'Output Price', 'Balance Price', 'Branch', 'Customer'],
     exactHeaders: ['الفهرس', 'رمز  المادة', 'رمز المعمل', 'اسم   المادة', 'تاريخ', 'حركة.1', 'كمية  الادخلات', 'سعر  الادخلات', 'اجمالي  الادخلات', 'كمية  الاخراجات', 'سعر  الاخراجات', 'اجمالي   الاخراجات', 'سعر  الرصيد', 'الفرع', 'العميل'],
-    role: ['agent', 'manager'],
   },
 ];
 
 // ── Small shared UI pieces ────────────────────────────────────────────────────
 
+const fieldStyle: React.CSSProperties = {
+  height: 34, padding: '0 10px', borderRadius: 8, fontSize: 12,
+  background: css.bg, color: css.fg, border: `1px solid ${css.border}`,
+};
+
+const thStyle: React.CSSProperties = {
+  padding: '10px 14px', textAlign: 'left', fontWeight: 700,
+  color: css.mutedFg, whiteSpace: 'nowrap', borderBottom: `1px solid ${css.border}`,
+  fontSize: 11, letterSpacing: '0.04em', textTransform: 'uppercase',
+};
+
 function Badge({ children, style }: { children: React.ReactNode; style?: React.CSSProperties }) {
   return (
     <span style={{
@@ -141,20 +161,925 @@ function Panel({ title, sub, children }: { title: string; sub?: string; children
   );
 }
 
+// ── Column mapping ────────────────────────────────────────────────────────────
+
+const MATCH_STYLE: Record<MatchKind | 'missing', { label: string; color: string }> = {
+  exact:   { label: 'Same name',    color: C.emerald },
+  profile: { label: 'From profile', color: C.violet },
+  similar: { label: 'Suggested',    color: C.amber },
+  manual:  { label: 'Set by hand',  color: C.cyan },
+  missing: { label: 'Not in file',  color: C.rose },
+};
+
+interface ColumnMappingStepProps {
+  preview: DetectResult;
+  fileType: string;
+  onFileTypeChange: (fileType: string) => void;
+  canImport: (fileType: string) => boolean;
+  matches: ColumnMatches;
+  onMatchesChange: (matches: ColumnMatches) => void;
+  disabled: boolean;
+}
+
+/**
+ * Lines up the headers of the selected file with the columns of the chosen
+ * template. Suggestions come from a fitting saved profile, identical and
+ * similar header names; saving the result as a profile makes the next export
+ * from the same source map itself.
+ */
+function ColumnMappingStep({
+  preview, fileType, onFileTypeChange, canImport, matches, onMatchesChange, disabled,
+}: ColumnMappingStepProps) {
+  const [profiles, setProfiles]       = useState<MappingProfile[]>([]);
+  const [profileId, setProfileId]     = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [saving, setSaving]           = useState(false);
+
+  const template = templates.find(t => t.id === fileType);
+  const targets = template?.exactHeaders ?? [];
+  const profile = profiles.find(p => p.id === profileId) ?? null;
+  const missing = targets.filter(target => !matches[target]).length;
+
+  useEffect(() => {
+    setProfileId('');
+    setProfiles([]);
+    if (!template) { onMatchesChange({}); return; }
+    onMatchesChange(suggestMatches(template.exactHeaders, preview.headers));
+    let cancelled = false;
+    dataImportApi.getMappingProfiles(template.id)
+      .then(res => {
+        if (cancelled) return;
+        setProfiles(res.profiles);
+        const fitting = pickProfile(res.profiles, preview.headers);
+        if (fitting) {
+          setProfileId(fitting.id);
+          onMatchesChange(suggestMatches(template.exactHeaders, preview.headers, fitting));
+        }
+      })
+      .catch(() => { /* Profiles are optional — the name-based suggestions still apply. */ });
+    return () => { cancelled = true; };
+  }, [preview, template, onMatchesChange]);
+
+  const applyProfile = (id: string) => {
+    setProfileId(id);
+    onMatchesChange(suggestMatches(targets, preview.headers, profiles.find(p => p.id === id)));
+  };
+
+  // A file column feeds one template column at most.
+  const setSource = (target: string, source: string) => {
+    const next: ColumnMatches = {};
+    for (const [t, match] of Object.entries(matches)) {
+      if (t !== target && match.source !== source) next[t] = match;
+    }
+    if (source) next[target] = { source, kind: 'manual' };
+    onMatchesChange(next);
+  };
+
+  const saveProfile = async (existing: MappingProfile | null) => {
+    const name = existing ? existing.name : profileName.trim();
+    if (!template || !name) return;
+    setSaving(true);
+    try {
+      const body = { name, file_type: template.id, mapping: toColumnMapping(matches) };
+      const saved = existing
+        ? await dataImportApi.updateMappingProfile(existing.id, body)
+        : await dataImportApi.createMappingProfile(body);
+      setProfiles(list => [...list.filter(p => p.id !== saved.id), saved]);
+      setProfileId(saved.id);
+      setProfileName('');
+      toast.success(existing ? `Profile "${saved.name}" updated` : `Saved as "${saved.name}"`);
+    } catch (err) {
+      toast.error((err as ApiError)?.fieldErrors?.name?.[0] ?? (err as ApiError)?.userMessage ?? 'Could not save the profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!profile || !window.confirm(`Delete the profile "${profile.name}"?`)) return;
+    try {
+      await dataImportApi.deleteMappingProfile(profile.id);
+      setProfiles(list => list.filter(p => p.id !== profile.id));
+      setProfileId('');
+      toast.success(`Profile "${profile.name}" deleted`);
+    } catch (err) {
+      toast.error((err as ApiError)?.userMessage ?? 'Could not delete the profile');
+    }
+  };
+
+  return (
+    <Panel
+      title="Column Mapping"
+      sub="Match the columns of your file to the template — suggestions are filled in, change any that are wrong"
+    >
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginBottom: 16 }}>
+        <span style={{ fontSize: 12, color: css.mutedFg }}>Import as</span>
+        <select style={fieldStyle} value={fileType} disabled={disabled}
+          onChange={e => onFileTypeChange(e.target.value)} aria-label="Import as">
+          {!template && <option value="">Choose a file type</option>}
+          {templates.map(t => (
+            <option key={t.id} value={t.id} disabled={!canImport(t.id)}>{t.titleEn}</option>
+          ))}
+        </select>
+        {template && (
+          <>
+            <span style={{ fontSize: 12, color: css.mutedFg, marginLeft: 8 }}>Profile</span>
+            <select style={fieldStyle} value={profileId} disabled={disabled}
+              onChange={e => applyProfile(e.target.value)} aria-label="Mapping profile">
+              <option value="">None</option>
+              {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            {profile && (
+              <button onClick={deleteProfile} disabled={disabled} title="Delete profile"
+                style={{ ...fieldStyle, display: 'flex', alignItems: 'center', cursor: 'pointer', color: C.rose }}>
+                <Trash2 size={13} />
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {!template ? (
+        <p style={{ fontSize: 13, color: css.mutedFg, margin: 0 }}>
+          We could not tell what this file contains. Choose its type to map its columns.
+        </p>
+      ) : (
+        <>
+          <div style={{ overflowX: 'auto', borderRadius: 10, border: `1px solid ${css.border}` }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+              <thead>
+                <tr style={{ background: css.muted }}>
+                  <th style={thStyle}>Template column</th>
+                  <th style={thStyle}>Column in your file</th>
+                  <th style={thStyle}>First row</th>
+                  <th style={thStyle}>Match</th>
+                </tr>
+              </thead>
+              <tbody>
+                {targets.map(target => {
+                  const match = matches[target];
+                  const { label, color } = MATCH_STYLE[match?.kind ?? 'missing'];
+                  return (
+                    <tr key={target} style={{ borderBottom: `1px solid ${css.border}` }}>
+                      <td style={{ padding: '8px 14px', color: css.cardFg, fontWeight: 600, whiteSpace: 'nowrap' }}>{target}</td>
+                      <td style={{ padding: '8px 14px' }}>
+                        <select style={{ ...fieldStyle, minWidth: 200 }} value={match?.source ?? ''} disabled={disabled}
+                          onChange={e => setSource(target, e.target.value)} aria-label={`File column for ${target}`}>
+                          <option value="">— Not in this file —</option>
+                          {preview.headers.filter(h => h.trim()).map(h => <option key={h} value={h}>{h}</option>)}
+                        </select>
+                      </td>
+                      <td style={{ padding: '8px 14px', color: css.mutedFg, fontFamily: 'monospace', whiteSpace: 'nowrap' }}>
+                        {match ? preview.preview_rows[0]?.[match.source] || '—' : '—'}
+                      </td>
+                      <td style={{ padding: '8px 14px' }}>
+                        <Badge style={{ fontFamily: 'inherit', background: `${color}12`, color, border: `1px solid ${color}30` }}>{label}</Badge>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {missing > 0 && (
+            <p style={{ fontSize: 12, color: C.amber, margin: '12px 0 0', fontWeight: 500 }}>
+              {missing} template column{missing === 1 ? ' is' : 's are'} not matched and will be imported empty.
+            </p>
+          )}
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginTop: 16 }}>
+            <input style={{ ...fieldStyle, minWidth: 220 }} placeholder="Profile name, e.g. Misrata branch ERP"
+              value={profileName} onChange={e => setProfileName(e.target.value)} disabled={disabled || saving} />
+            <button onClick={() => saveProfile(null)} disabled={disabled || saving || !profileName.trim()}
+              style={{ ...fieldStyle, cursor: 'pointer', fontWeight: 700, color: C.indigo }}>
+              Save as new profile
+            </button>
+            {profile && (
+              <button onClick={() => saveProfile(profile)} disabled={disabled || saving}
+                style={{ ...fieldStyle, cursor: 'pointer', fontWeight: 700, color: C.indigo }}>
+                Update "{profile.name}"
+              </button>
+            )}
+            {saving && <Loader2 size={14} className="animate-spin" style={{ color: css.mutedFg }} />}
+          </div>
+        </>
+      )}
+    </Panel>
+  );
+}
+
+// ── Pre-check ─────────────────────────────────────────────────────────────────
+
+/** Rows drawn in the grid at most; the counts above it still cover the whole file. */
+const PRECHECK_ROW_LIMIT = 200;
+
+interface PreCheckPanelProps {
+  report: ValidationReport;
+  fileType: string;
+  excluded: Set<number>;
+  onExcludedChange: (excluded: Set<number>) => void;
+  disabled: boolean;
+}
+
+/** What the browser found wrong with the file, row by row, before it is uploaded. */
+function PreCheckPanel({ report, fileType, excluded, onExcludedChange, disabled }: PreCheckPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+
+  const flagged = report.rows.filter(r => r.issues.length > 0);
+  const withErrors = flagged.filter(r => r.issues.some(i => i.severity === 'error'));
+  const sentWithErrors = withErrors.filter(r => !excluded.has(r.row)).length;
+  const listed = showAll ? report.rows : flagged;
+  const rules = IMPORT_RULES[fileType]?.columns ?? {};
+
+  const toggle = (row: number) => {
+    const next = new Set(excluded);
+    if (next.has(row)) next.delete(row);
+    else next.add(row);
+    onExcludedChange(next);
+  };
+
+  const clean = report.errorCount === 0 && report.warningCount === 0;
+  const tone = report.errorCount ? C.rose : report.warningCount ? C.amber : C.emerald;
+
+  return (
+    <Panel title="Pre-check" sub="Checked in your browser against the template rules — nothing has been uploaded yet">
+      {/* Summary */}
+      <div style={{
+        padding: '12px 16px', borderRadius: 10, marginBottom: 16,
+        background: `${tone}08`, border: `1px solid ${tone}30`,
+        display: 'flex', alignItems: 'flex-start', gap: 10,
+      }}>
+        {clean
+          ? <CheckCircle2 size={16} style={{ color: tone, flexShrink: 0, marginTop: 1 }} />
+          : <AlertTriangle size={16} style={{ color: tone, flexShrink: 0, marginTop: 1 }} />}
+        <div style={{ fontSize: 13, color: css.cardFg }}>
+          <p style={{ margin: 0, fontWeight: 700, color: tone }}>
+            {clean
+              ? `All ${report.rows.length.toLocaleString()} rows pass the checks`
+              : `${report.errorCount.toLocaleString()} error${report.errorCount === 1 ? '' : 's'} · ${report.warningCount.toLocaleString()} warning${report.warningCount === 1 ? '' : 's'} in ${report.rows.length.toLocaleString()} rows`}
+          </p>
+          {report.missingColumns.length > 0 && (
+            <p style={{ margin: '4px 0 0', color: C.rose }}>
+              Required columns missing: {report.missingColumns.join(' · ')}. Map them above before importing.
+            </p>
+          )}
+          {excluded.size > 0 && (
+            <p style={{ margin: '4px 0 0', color: css.mutedFg }}>
+              {excluded.size.toLocaleString()} row{excluded.size === 1 ? '' : 's'} excluded — the rest of the file is uploaded without them.
+            </p>
+          )}
+          {sentWithErrors > 0 && (
+            <p style={{ margin: '4px 0 0', color: css.mutedFg }}>
+              {sentWithErrors.toLocaleString()} row{sentWithErrors === 1 ? ' with errors is' : 's with errors are'} still included and will be rejected by the import.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+        {withErrors.length > 0 && (
+          <button disabled={disabled} style={{ ...fieldStyle, cursor: 'pointer', fontWeight: 700, color: C.rose }}
+            onClick={() => onExcludedChange(new Set([...excluded, ...withErrors.map(r => r.row)]))}>
+            Exclude rows with errors
+          </button>
+        )}
+        {excluded.size > 0 && (
+          <button disabled={disabled} style={{ ...fieldStyle, cursor: 'pointer' }} onClick={() => onExcludedChange(new Set())}>
+            Include all rows
+          </button>
+        )}
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, color: css.mutedFg, marginLeft: 'auto', cursor: 'pointer' }}>
+          <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} />
+          Show rows without issues
+        </label>
+      </div>
+
+      {/* Annotated grid */}
+      {listed.length > 0 && (
+        <div style={{ overflow: 'auto', maxHeight: 420, borderRadius: 10, border: `1px solid ${css.border}` }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr style={{ background: css.muted }}>
+                <th style={{ ...thStyle, width: 36 }} title="Include in the upload" />
+                <th style={thStyle}>Row</th>
+                {report.columns.map(column => (
+                  <th key={column} style={thStyle}>
+                    {column}
+                    {rules[column]?.field && <span style={{ fontFamily: 'monospace', textTransform: 'none', marginLeft: 4 }}>({rules[column].field})</span>}
+                  </th>
+                ))}
+                <th style={thStyle}>Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {listed.slice(0, PRECHECK_ROW_LIMIT).map(r => {
+                const isExcluded = excluded.has(r.row);
+                return (
+                  <tr key={r.row} style={{ borderBottom: `1px solid ${css.border}`, opacity: isExcluded ? 0.45 : 1 }}>
+                    <td style={{ padding: '8px 0 8px 14px' }}>
+                      <input type="checkbox" checked={!isExcluded} disabled={disabled}
+                        onChange={() => toggle(r.row)} aria-label={`Include row ${r.row}`} />
+                    </td>
+                    <td style={{ padding: '8px 14px', color: css.mutedFg, fontFamily: 'monospace' }}>{r.row}</td>
+                    {report.columns.map(column => {
+                      const issue = r.issues.find(i => i.column === column);
+                      const color = issue?.severity === 'error' ? C.rose : C.amber;
+                      return (
+                        <td key={column} title={issue?.message} style={{
+                          padding: '8px 14px', whiteSpace: 'pre', color: css.cardFg,
+                          ...(issue ? { background: `${color}14`, boxShadow: `inset 0 0 0 1px ${color}50` } : {}),
+                        }}>
+                          {r.values[column] || '—'}
+                        </td>
+                      );
+                    })}
+                    <td style={{ padding: '8px 14px', minWidth: 220 }}>
+                      {r.issues.map((issue, i) => (
+                        <div key={i} style={{ color: issue.severity === 'error' ? C.rose : C.amber }}>
+                          {issue.column}: {issue.message}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {listed.length > PRECHECK_ROW_LIMIT && (
+        <p style={{ fontSize: 12, color: css.mutedFg, margin: '8px 0 0' }}>
+          Showing the first {PRECHECK_ROW_LIMIT} of {listed.length.toLocaleString()} rows.
+        </p>
+      )}
+    </Panel>
+  );
+}
+
+// ── Dry-run diff ──────────────────────────────────────────────────────────────
+
+/** Rows listed per diff section; the section title still counts them all. */
+const DIFF_ROW_LIMIT = 100;
+
+const DEFAULT_QUANTITY_THRESHOLD = 10;
+
+const formatAmount = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+const signed = (value: number) => `${value > 0 ? '+' : ''}${formatAmount(value)}`;
+
+function DiffSection({ title, count, color, children }: {
+  title: string; count: number; color: string; children: React.ReactNode;
+}) {
+  if (count === 0) return null;
+  return (
+    <div style={{ marginTop: 16 }}>
+      <p style={{ fontSize: 12, fontWeight: 700, color, margin: '0 0 8px' }}>
+        {title} · {count.toLocaleString()}
+      </p>
+      <div style={{ overflow: 'auto', maxHeight: 280, borderRadius: 10, border: `1px solid ${css.border}` }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>{children}</table>
+      </div>
+      {count > DIFF_ROW_LIMIT && (
+        <p style={{ fontSize: 11, color: css.mutedFg, margin: '6px 0 0' }}>
+          Showing the first {DIFF_ROW_LIMIT} of {count.toLocaleString()}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface DiffPanelProps {
+  preview: ImportPreview;
+  committing: boolean;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+/** What a dry-run upload would change, with the Commit / Cancel decision under it. */
+function DiffPanel({ preview, committing, onCommit, onCancel }: DiffPanelProps) {
+  const [threshold, setThreshold] = useState(DEFAULT_QUANTITY_THRESHOLD);
+  const { diff, result } = preview;
+  // A product that did not have stock before always counts as a big change.
+  const bigChanges = diff.quantity_changes.filter(q => q.change_pct === null || Math.abs(q.change_pct) > threshold);
+  const td: React.CSSProperties = { padding: '8px 14px', color: css.cardFg, whiteSpace: 'nowrap' };
+  const num: React.CSSProperties = { ...td, textAlign: 'right', fontFamily: 'monospace' };
+  const changeColor = (value: number) => (value > 0 ? C.emerald : value < 0 ? C.rose : css.mutedFg);
+
+  return (
+    <Panel
+      title="Changes Preview"
+      sub={`${preview.original_filename} · ${result.total_rows.toLocaleString()} rows · would create ${result.created.toLocaleString()} and update ${result.updated.toLocaleString()} — nothing has been written yet`}
+    >
+      {diff.replaces && (
+        <div style={{
+          padding: '12px 16px', borderRadius: 10, marginBottom: 8,
+          background: `${C.amber}08`, border: `1px solid ${C.amber}30`,
+          display: 'flex', alignItems: 'flex-start', gap: 10,
+        }}>
+          <AlertTriangle size={16} style={{ color: C.amber, flexShrink: 0, marginTop: 1 }} />
+          <p style={{ fontSize: 13, color: C.amber, margin: 0, fontWeight: 600 }}>
+            Committing overwrites the {diff.replaces}.
+          </p>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8 }}>
+        <Badge style={{ fontFamily: 'inherit', color: C.indigo }}>New customers: {diff.new_customers.length.toLocaleString()}</Badge>
+        <Badge style={{ fontFamily: 'inherit', color: C.cyan }}>Changed balances: {diff.changed_balances.length.toLocaleString()}</Badge>
+        <Badge style={{ fontFamily: 'inherit', color: C.violet }}>Quantity changes: {diff.quantity_changes.length.toLocaleString()}</Badge>
+        <Badge style={{ fontFamily: 'inherit', color: C.rose }}>Removed: {diff.removed.length.toLocaleString()}</Badge>
+        <Badge style={{ fontFamily: 'inherit' }}>Unchanged: {diff.unchanged_count.toLocaleString()}</Badge>
+      </div>
+
+      <DiffSection title="New customers" count={diff.new_customers.length} color={C.indigo}>
+        <thead><tr style={{ background: css.muted }}><th style={thStyle}>Account code</th><th style={thStyle}>Name</th></tr></thead>
+        <tbody>
+          {diff.new_customers.slice(0, DIFF_ROW_LIMIT).map((c, i) => (
+            <tr key={i} style={{ borderBottom: `1px solid ${css.border}` }}>
+              <td style={{ ...td, fontFamily: 'monospace' }}>{c.account_code || '—'}</td>
+              <td style={td}>{c.name}</td>
+            </tr>
+          ))}
+        </tbody>
+      </DiffSection>
+
+      <DiffSection title="Changed balances" count={diff.changed_balances.length} color={C.cyan}>
+        <thead>
+          <tr style={{ background: css.muted }}>
+            <th style={thStyle}>Account</th>
+            <th style={{ ...thStyle, textAlign: 'right' }}>Before</th>
+            <th style={{ ...thStyle, textAlign: 'right' }}>After</th>
+            <th style={{ ...thStyle, textAlign: 'right' }}>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {diff.changed_balances.slice(0, DIFF_ROW_LIMIT).map(b => (
+            <tr key={b.account_code || b.account} style={{ borderBottom: `1px solid ${css.border}` }}>
+              <td style={td}>{b.account} <span style={{ color: css.mutedFg, fontFamily: 'monospace' }}>{b.account_code}</span></td>
+              <td style={num}>{formatAmount(b.before)}</td>
+              <td style={num}>{formatAmount(b.after)}</td>
+              <td style={{ ...num, color: changeColor(b.change), fontWeight: 700 }}>{signed(b.change)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </DiffSection>
+
+      {diff.quantity_changes.length > 0 && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 16, fontSize: 12, color: css.mutedFg }}>
+          Show quantity changes above
+          <input type="number" min={0} step={1} value={threshold} aria-label="Quantity change threshold"
+            onChange={e => setThreshold(Math.max(0, Number(e.target.value) || 0))}
+            style={{ ...fieldStyle, width: 72 }} />
+          %
+          <span>({bigChanges.length.toLocaleString()} of {diff.quantity_changes.length.toLocaleString()} changed products)</span>
+        </div>
+      )}
+      <DiffSection title={`Quantity changes above ${threshold}%`} count={bigChanges.length} color={C.violet}>
+        <thead>
+          <tr style={{ background: css.muted }}>
+            <th style={thStyle}>Product</th>
+            <th style={{ ...thStyle, textAlign: 'right' }}>Before</th>
+            <th style={{ ...thStyle, textAlign: 'right' }}>After</th>
+            <th style={{ ...thStyle, textAlign: 'right' }}>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {bigChanges.slice(0, DIFF_ROW_LIMIT).map(q => (
+            <tr key={q.product_code} style={{ borderBottom: `1px solid ${css.border}` }}>
+              <td style={td}>{q.product_name} <span style={{ color: css.mutedFg, fontFamily: 'monospace' }}>{q.product_code}</span></td>
+              <td style={num}>{formatAmount(q.before)}</td>
+              <td style={num}>{formatAmount(q.after)}</td>
+              <td style={{ ...num, color: changeColor(q.after - q.before), fontWeight: 700 }}>
+                {q.change_pct === null ? 'new stock' : `${signed(q.change_pct)}%`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </DiffSection>
+
+      <DiffSection title="Removed — in the current data but not in this file" count={diff.removed.length} color={C.rose}>
+        <thead><tr style={{ background: css.muted }}><th style={thStyle}>Code</th><th style={thStyle}>Name</th></tr></thead>
+        <tbody>
+          {diff.removed.slice(0, DIFF_ROW_LIMIT).map(r => (
+            <tr key={r.key || r.label} style={{ borderBottom: `1px solid ${css.border}` }}>
+              <td style={{ ...td, fontFamily: 'monospace' }}>{r.key || '—'}</td>
+              <td style={td}>{r.label}</td>
+            </tr>
+          ))}
+        </tbody>
+      </DiffSection>
+
+      <div style={{ marginTop: 24, display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: 12 }}>
+        <span style={{ fontSize: 11, color: css.mutedFg, marginRight: 'auto' }}>
+          This preview expires at {new Date(preview.expires_at).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}.
+        </span>
+        <button
+          onClick={onCancel}
+          disabled={committing}
+          style={{
+            padding: '10px 24px', borderRadius: 9, fontSize: 13, fontWeight: 600,
+            background: 'transparent', border: `1px solid ${css.border}`,
+            color: css.mutedFg, cursor: committing ? 'not-allowed' : 'pointer',
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onCommit}
+          disabled={committing}
+          style={{
+            display: 'flex', alignItems: 'center', gap: 8,
+            padding: '10px 28px', borderRadius: 9, fontSize: 13, fontWeight: 700,
+            background: C.emerald, color: '#fff', border: 'none',
+            cursor: committing ? 'not-allowed' : 'pointer',
+            boxShadow: `0 2px 12px ${C.emerald}40`,
+          }}
+        >
+          {committing && <Loader2 size={14} className="animate-spin" />}
+          {committing ? 'Committing...' : 'Commit Import'}
+        </button>
+      </div>
+    </Panel>
+  );
+}
+
+// ── Import history ────────────────────────────────────────────────────────────
+
+const STATUS_STYLE: Record<ImportStatus, { label: string; color: string }> = {
+  pending:    { label: 'Pending',    color: C.cyan },
+  processing: { label: 'Processing', color: C.indigo },
+  success:    { label: 'Loaded',     color: C.emerald },
+  partial:    { label: 'Partial',    color: C.amber },
+  failed:     { label: 'Failed',     color: C.rose },
+};
+
+const HISTORY_PAGE_SIZE = 10;
+
+const typeLabel = (fileType: string) => templates.find(t => t.id === fileType)?.titleEn ?? fileType;
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Writes a log's row errors to a workbook the uploader can fix the source file from. */
+function downloadErrors(log: ImportLogEntry) {
+  const ws = XLSX.utils.aoa_to_sheet([
+    ['Row', 'Column', 'Value', 'Error'],
+    ...log.error_details.map(d => [d.row ?? '', d.column ?? '', d.value ?? '', d.error]),
+  ]);
+  ws['!cols'] = [{ wch: 8 }, { wch: 24 }, { wch: 24 }, { wch: 48 }];
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Errors');
+  XLSX.writeFile(wb, `${log.original_filename.replace(/\.xlsx?$/i, '')}-errors.xlsx`);
+}
+
+function ImportHistory({ reloadKey }: { reloadKey: number }) {
+  const [logs, setLogs]             = useState<ImportLogEntry[]>([]);
+  const [uploaders, setUploaders]   = useState<ImportUploader[]>([]);
+  const [count, setCount]           = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [page, setPage]             = useState(1);
+  const [loading, setLoading]       = useState(true);
+  const [error, setError]           = useState<string | null>(null);
+  const [fileType, setFileType]     = useState('');
+  const [status, setStatus]         = useState<ImportStatus | ''>('');
+  const [uploadedBy, setUploadedBy] = useState('');
+  const [dateFrom, setDateFrom]     = useState('');
+  const [dateTo, setDateTo]         = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    dataImportApi.getImportLogs({
+      page,
+      page_size: HISTORY_PAGE_SIZE,
+      ...(fileType ? { file_type: fileType } : {}),
+      ...(status ? { status } : {}),
+      ...(uploadedBy ? { uploaded_by: uploadedBy } : {}),
+      ...(dateFrom ? { date_from: dateFrom } : {}),
+      ...(dateTo ? { date_to: dateTo } : {}),
+    })
+      .then(res => {
+        if (cancelled) return;
+        setLogs(res.logs);
+        setUploaders(res.uploaders);
+        setCount(res.count);
+        setTotalPages(res.total_pages);
+      })
+      .catch(err => { if (!cancelled) setError((err as ApiError)?.userMessage ?? 'Could not load the import history'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [page, fileType, status, uploadedBy, dateFrom, dateTo, reloadKey, refreshKey]);
+
+  // Any filter change starts again from the first page.
+  const filter = <T,>(set: (value: T) => void) => (value: T) => { set(value); setPage(1); };
+  const hasFilters = fileType || status || uploadedBy || dateFrom || dateTo;
+
+  return (
+    <Panel title="Import History" sub="Past uploads, newest first — open one to see the rows that did not load">
+      {/* Filters */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginBottom: 16 }}>
+        <select style={fieldStyle} value={fileType} onChange={e => filter(setFileType)(e.target.value)} aria-label="File type">
+          <option value="">All file types</option>
+          {templates.map(t => <option key={t.id} value={t.id}>{t.titleEn}</option>)}
+        </select>
+        <select style={fieldStyle} value={status} onChange={e => filter(setStatus)(e.target.value as ImportStatus | '')} aria-label="Status">
+          <option value="">All statuses</option>
+          {(Object.keys(STATUS_STYLE) as ImportStatus[]).map(s => <option key={s} value={s}>{STATUS_STYLE[s].label}</option>)}
+        </select>
+        <select style={fieldStyle} value={uploadedBy} onChange={e => filter(setUploadedBy)(e.target.value)} aria-label="Uploaded by">
+          <option value="">Anyone</option>
+          {uploaders.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+        </select>
+        <input type="date" style={fieldStyle} value={dateFrom} max={dateTo || undefined}
+          onChange={e => filter(setDateFrom)(e.target.value)} aria-label="From" />
+        <span style={{ fontSize: 12, color: css.mutedFg }}>to</span>
+        <input type="date" style={fieldStyle} value={dateTo} min={dateFrom || undefined}
+          onChange={e => filter(setDateTo)(e.target.value)} aria-label="To" />
+        {hasFilters && (
+          <button
+            onClick={() => { setFileType(''); setStatus(''); setUploadedBy(''); setDateFrom(''); setDateTo(''); setPage(1); }}
+            style={{ ...fieldStyle, cursor: 'pointer', color: css.mutedFg, background: 'transparent' }}
+          >
+            Clear filters
+          </button>
+        )}
+        <button
+          onClick={() => setRefreshKey(k => k + 1)}
+          disabled={loading}
+          title="Refresh"
+          style={{ ...fieldStyle, marginLeft: 'auto', display: 'flex', alignItems: 'center', cursor: loading ? 'not-allowed' : 'pointer' }}
+        >
+          <RefreshCw size={13} className={loading ? 'animate-spin' : undefined} />
+        </button>
+      </div>
+
+      {error && <p style={{ fontSize: 13, color: C.rose, margin: '0 0 12px', fontWeight: 500 }}>{error}</p>}
+
+      <div style={{ overflowX: 'auto', borderRadius: 10, border: `1px solid ${css.border}` }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+          <thead>
+            <tr style={{ background: css.muted }}>
+              <th style={{ ...thStyle, width: 32 }} />
+              <th style={thStyle}>Started</th>
+              <th style={thStyle}>File</th>
+              <th style={thStyle}>Type</th>
+              <th style={thStyle}>Uploaded by</th>
+              <th style={thStyle}>Status</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Rows</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Loaded</th>
+              <th style={{ ...thStyle, textAlign: 'right' }}>Errors</th>
+            </tr>
+          </thead>
+          <tbody>
+            {!loading && logs.length === 0 && (
+              <tr>
+                <td colSpan={9} style={{ padding: 24, textAlign: 'center', color: css.mutedFg }}>
+                  {hasFilters ? 'No imports match these filters.' : 'No files have been imported yet.'}
+                </td>
+              </tr>
+            )}
+            {logs.map(log => {
+              const isExpanded = expandedId === log.id;
+              const { label, color } = STATUS_STYLE[log.status];
+              return [
+                <tr key={log.id}
+                  onClick={() => setExpandedId(isExpanded ? null : log.id)}
+                  style={{ borderBottom: `1px solid ${css.border}`, cursor: 'pointer', background: isExpanded ? `${C.indigo}06` : 'transparent' }}
+                >
+                  <td style={{ padding: '10px 0 10px 14px', color: css.mutedFg }}>
+                    {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                  </td>
+                  <td style={{ padding: '10px 14px', color: css.cardFg, whiteSpace: 'nowrap' }}>{formatDate(log.started_at)}</td>
+                  <td style={{ padding: '10px 14px', color: css.cardFg, fontWeight: 600 }}>{log.original_filename}</td>
+                  <td style={{ padding: '10px 14px', color: css.mutedFg, whiteSpace: 'nowrap' }}>{typeLabel(log.file_type)}</td>
+                  <td style={{ padding: '10px 14px', color: css.mutedFg, whiteSpace: 'nowrap' }}>{log.uploaded_by_name || '—'}</td>
+                  <td style={{ padding: '10px 14px' }}>
+                    <Badge style={{ fontFamily: 'inherit', background: `${color}12`, color, border: `1px solid ${color}30` }}>{label}</Badge>
+                  </td>
+                  <td style={{ padding: '10px 14px', textAlign: 'right', color: css.cardFg }}>{log.row_count.toLocaleString()}</td>
+                  <td style={{ padding: '10px 14px', textAlign: 'right', color: C.emerald, fontWeight: 600 }}>{log.success_count.toLocaleString()}</td>
+                  <td style={{ padding: '10px 14px', textAlign: 'right', color: log.error_count ? C.rose : css.mutedFg, fontWeight: 600 }}>
+                    {log.error_count.toLocaleString()}
+                  </td>
+                </tr>,
+                isExpanded && (
+                  <tr key={`${log.id}-details`} style={{ borderBottom: `1px solid ${css.border}` }}>
+                    <td colSpan={9} style={{ padding: '12px 14px 16px 46px', background: `${C.indigo}04` }}>
+                      <ImportLogDetails log={log} />
+                    </td>
+                  </tr>
+                ),
+              ];
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: 12, fontSize: 12, color: css.mutedFg }}>
+        <span>{loading ? 'Loading…' : `${count} import${count === 1 ? '' : 's'}`}</span>
+        {totalPages > 1 && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <button style={{ ...fieldStyle, cursor: 'pointer' }} disabled={page <= 1 || loading} onClick={() => setPage(p => p - 1)}>Previous</button>
+            <span>Page {page} of {totalPages}</span>
+            <button style={{ ...fieldStyle, cursor: 'pointer' }} disabled={page >= totalPages || loading} onClick={() => setPage(p => p + 1)}>Next</button>
+          </div>
+        )}
+      </div>
+    </Panel>
+  );
+}
+
+function ImportLogDetails({ log }: { log: ImportLogEntry }) {
+  const finished = log.completed_at ? `finished ${formatDate(log.completed_at)}` : 'still running';
+
+  if (log.error_details.length === 0) {
+    return (
+      <p style={{ fontSize: 12, color: css.mutedFg, margin: 0 }}>
+        {log.status === 'success'
+          ? `All ${log.row_count.toLocaleString()} rows loaded — ${finished}.`
+          : `No row errors reported — ${finished}.`}
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 10 }}>
+        <p style={{ fontSize: 12, color: css.mutedFg, margin: 0 }}>
+          {log.error_count.toLocaleString()} of {log.row_count.toLocaleString()} rows were not loaded — {finished}.
+        </p>
+        <button
+          onClick={() => downloadErrors(log)}
+          style={{
+            display: 'flex', alignItems: 'center', gap: 6,
+            padding: '6px 14px', borderRadius: 8, fontSize: 12, fontWeight: 700,
+            background: `${C.rose}10`, color: C.rose, border: `1px solid ${C.rose}30`, cursor: 'pointer',
+          }}
+        >
+          <Download size={13} /> Download errors
+        </button>
+      </div>
+      <div style={{ maxHeight: 280, overflowY: 'auto', borderRadius: 8, border: `1px solid ${css.border}`, background: css.card }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+          <thead>
+            <tr style={{ background: css.muted }}>
+              <th style={{ ...thStyle, width: 64 }}>Row</th>
+              <th style={thStyle}>Column</th>
+              <th style={thStyle}>Value</th>
+              <th style={thStyle}>Error</th>
+            </tr>
+          </thead>
+          <tbody>
+            {log.error_details.map((detail, i) => (
+              <tr key={i} style={{ borderBottom: `1px solid ${css.border}` }}>
+                <td style={{ padding: '8px 14px', color: css.mutedFg, fontFamily: 'monospace' }}>{detail.row ?? '—'}</td>
+                <td style={{ padding: '8px 14px', color: css.cardFg }}>{detail.column ?? '—'}</td>
+                <td style={{ padding: '8px 14px', color: css.cardFg, fontFamily: 'monospace' }}>{detail.value || '—'}</td>
+                <td style={{ padding: '8px 14px', color: C.rose }}>{detail.error}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+// ── Upload progress ───────────────────────────────────────────────────────────
+
+const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(2);
+
+function TransferStatus({ progress, onPause, onResume, onCancel }: {
+  progress: UploadProgress; onPause: () => void; onResume: () => void; onCancel: () => void;
+}) {
+  const { phase, sent, total } = progress;
+  const percent = total ? Math.round((sent / total) * 100) : 100;
+  const stalled = phase === 'paused' || phase === 'reconnecting';
+  const bytes = `${toMB(sent)} of ${toMB(total)} MB`;
+  const text = {
+    uploading:    `${percent}% — ${bytes} uploaded`,
+    paused:       `Paused at ${bytes}`,
+    reconnecting: `Connection lost at ${bytes} — reconnecting...`,
+    processing:   'Uploaded — the server is importing the file...',
+    done:         'Import finished',
+    cancelled:    'Cancelling...',
+  }[phase];
+  const canControl = phase === 'uploading' || stalled;
+  const buttonStyle: React.CSSProperties = {
+    display: 'flex', alignItems: 'center', gap: 6, padding: '5px 12px', borderRadius: 7,
+    fontSize: 12, fontWeight: 600, background: 'transparent', border: `1px solid ${css.border}`,
+    color: css.mutedFg, cursor: 'pointer',
+  };
+
+  return (
+    <div style={{ marginTop: 24 }}>
+      <div style={{ height: 6, borderRadius: 999, background: css.muted, overflow: 'hidden' }}>
+        <div
+          className={phase === 'processing' ? 'animate-pulse' : undefined}
+          style={{
+            height: '100%', borderRadius: 999,
+            width: `${percent}%`,
+            background: stalled ? C.amber : `linear-gradient(90deg, ${C.indigo}70, ${C.indigo})`,
+            transition: 'width 0.3s ease',
+          }}
+        />
+      </div>
+      <p style={{ textAlign: 'center', fontSize: 12, color: stalled ? C.amber : css.mutedFg, marginTop: 8, fontWeight: 600 }}>
+        {text}
+      </p>
+      {canControl && (
+        <div style={{ display: 'flex', justifyContent: 'center', gap: 8, marginTop: 8 }}>
+          {phase === 'paused' ? (
+            <button onClick={onResume} style={buttonStyle}><Play size={12} /> Resume</button>
+          ) : (
+            <button onClick={onPause} style={buttonStyle}><Pause size={12} /> Pause</button>
+          )}
+          <button onClick={onCancel} style={{ ...buttonStyle, color: C.rose }}><X size={12} /> Cancel upload</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The finished import: green when every row loaded, amber when some failed,
+ * red when none did. An import the server is still working on points to the
+ * import history, where it shows up once it ends.
+ */
+function ImportOutcome({ log }: { log: ImportLogEntry }) {
+  const { color } = STATUS_STYLE[log.status];
+  const running = log.status === 'pending' || log.status === 'processing';
+  const Icon = running ? Clock : log.status === 'success' ? CheckCircle2 : log.status === 'partial' ? AlertTriangle : AlertCircle;
+  const message = running
+    ? 'The file is uploaded and still being processed.'
+    : log.status === 'success'
+      ? (log.row_count > 0 ? `${log.success_count} rows imported.` : 'Nothing to import.')
+      : log.status === 'partial'
+        ? `${log.success_count} of ${log.row_count} rows imported.`
+        : 'The import failed.';
+
+  return (
+    <div style={{
+      marginTop: 16, padding: '12px 16px', borderRadius: 10,
+      background: `${color}08`, border: `1px solid ${color}30`,
+      display: 'flex', alignItems: 'flex-start', gap: 10,
+    }}>
+      <Icon size={16} style={{ color, flexShrink: 0, marginTop: 1 }} />
+      <div>
+        <p style={{ fontSize: 13, color, margin: 0, fontWeight: 700 }}>{message}</p>
+        <p style={{ fontSize: 12, color: css.mutedFg, margin: '4px 0 0' }}>
+          {running ? 'Check Import History for the result.' : <>
+            Imported rows: {log.success_count}
+            {log.error_count > 0 && <> · Errors: {log.error_count} — see Import History for details</>}
+          </>}
+        </p>
+      </div>
+    </div>
+  );
+}
+
 // ── Component ─────────────────────────────────────────────────────────────────
 export function DataImportPage() {
   const [selectedFile, setSelectedFile]   = useState<File | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading]     = useState(false);
-  const [uploadResult, setUploadResult]   = useState<ImportResult | null>(null);
+  const [importedLog, setImportedLog]     = useState<ImportLogEntry | null>(null);
+  const [transfer, setTransfer]           = useState<UploadProgress | null>(null);
   const [previewData, setPreviewData]     = useState<DetectResult | null>(null);
   const [errorMsg, setErrorMsg]           = useState<string | null>(null);
   const [expandedTemplate, setExpandedTemplate] = useState<string | null>(null);
   const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [historyKey, setHistoryKey]       = useState(0);
+  const [importType, setImportType]       = useState('');
+  const [matches, setMatches]             = useState<ColumnMatches>({});
+  const [sheetRows, setSheetRows]         = useState<SheetRows | null>(null);
+  const [excludedRows, setExcludedRows]   = useState<Set<number>>(new Set());
+  const [dryRun, setDryRun]               = useState<ImportPreview | null>(null);
+  const [isDryRunning, setIsDryRunning]   = useState(false);
+  const [isCommitting, setIsCommitting]   = useState(false);
+  const transferRef = useRef<ChunkedUploadHandle | null>(null);
+  // The selected file, so a slow detection or pre-check of an earlier pick is ignored.
+  const checkedFileRef = useRef<File | null>(null);
 
-  const userRole = 'manager'; // Replace with real role from auth context
+  // Aborted when the page unmounts. That ends a running upload, but the server
+  // keeps what it received, so picking the same file again resumes it.
+  const pageSignalRef = useRef<AbortSignal | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    pageSignalRef.current = controller.signal;
+    return () => controller.abort();
+  }, []);
 
-  // ── All handlers are 100% unchanged ───────────────────────────────────────
+  const { user } = useAuth();
+  // Import permissions are per file type: `import-${template.id}`.
+  const canImport = (fileType: string) => hasPermission(user, `import-${fileType}`);
+  const isKnownType = (fileType: string) => IMPORT_PERMISSIONS.includes(`import-${fileType}`);
+  const blockedType = importType && isKnownType(importType) && !canImport(importType) ? importType : null;
 
   const handleDownloadTemplate = (e: React.MouseEvent, template: typeof templates[0]) => {
     e.stopPropagation();
@@ -183,50 +1108,136 @@ export function DataImportPage() {
     setSelectedFile(file);
     setErrorMsg(null);
     setPreviewData(null);
-    setUploadResult(null);
+    setImportedLog(null);
     setUploadProgress(0);
+    setImportType('');
+    setMatches({});
+    setSheetRows(null);
+    setExcludedRows(new Set());
+    discardDryRun();
+    // The pre-check is a convenience: a workbook the browser cannot read is still uploaded as is.
+    checkedFileRef.current = file;
+    readSheetRows(file)
+      .then(rows => { if (checkedFileRef.current === file) setSheetRows(rows); })
+      .catch(() => { if (checkedFileRef.current === file) setSheetRows(null); });
     try {
       const detect = await dataImportApi.detectFile(file);
+      if (checkedFileRef.current !== file) return;
       setPreviewData(detect);
-    } catch (err: any) {
-      setErrorMsg(err.message || 'File detection failed');
+      setImportType(templates.some(t => t.id === detect.detected_file_type) ? detect.detected_file_type : '');
+    } catch (err) {
+      if (checkedFileRef.current !== file) return;
+      setErrorMsg((err as ApiError)?.userMessage ?? 'File detection failed');
     }
   };
 
+  // The selected file minus excluded rows, with the chosen type and column mapping.
+  const uploadArgs = async (file: File): Promise<[File, UploadOptions]> => [
+    sheetRows && excludedRows.size > 0 ? await withoutRows(file, excludedRows) : file,
+    {
+      ...(importType ? { file_type: importType } : {}),
+      ...(needsMapping(matches) ? { column_mapping: toColumnMapping(matches) } : {}),
+      onProgress: setUploadProgress,
+    },
+  ];
+
+  const finishImport = (log: ImportLogEntry) => {
+    setImportedLog(log);
+    setUploadProgress(100);
+    invalidateAfterImport(log.file_type);
+  };
+
+  // Large workbooks go up in resumable chunks; the import log is then polled until processing ends.
   const handleUpload = async () => {
-    if (!selectedFile) return;
+    if (!selectedFile || blockedType) return;
     setIsUploading(true);
     setErrorMsg(null);
-    setUploadResult(null);
+    setImportedLog(null);
+    // A workbook rebuilt without the excluded rows is a new File each time; the
+    // picked file and the excluded rows are what identify it after a reload.
+    const resumeKey = excludedRows.size > 0
+      ? JSON.stringify([selectedFile.name, selectedFile.size, selectedFile.lastModified, [...excludedRows].sort((a, b) => a - b)])
+      : undefined;
+    try {
+      const upload = uploadInChunks(...await uploadArgs(selectedFile), setTransfer, {
+        signal: pageSignalRef.current ?? undefined,
+        resumeKey,
+      });
+      transferRef.current = upload;
+      finishImport(await upload.result);
+    } catch (err) {
+      if (!isAbortError(err)) setErrorMsg((err as ApiError)?.userMessage ?? 'Import failed');
+    } finally {
+      transferRef.current = null;
+      setTransfer(null);
+      setIsUploading(false);
+      setHistoryKey(k => k + 1);
+    }
+  };
+
+  const handleDryRun = async () => {
+    if (!selectedFile || blockedType) return;
+    setIsUploading(true);
+    setIsDryRunning(true);
+    setErrorMsg(null);
+    setImportedLog(null);
     setUploadProgress(0);
     try {
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-      const token = localStorage.getItem('fasi_access_token');
-      const response = await axios.post<ImportResult>(
-        '/api/import/upload/',
-        formData,
-        {
-          headers: { Authorization: token ? `Bearer ${token}` : '' },
-          onUploadProgress: (progressEvent) => {
-            if (progressEvent.total) {
-              const percent = Math.round((progressEvent.loaded * 100) / progressEvent.total);
-              setUploadProgress(percent);
-            }
-          },
-        }
-      );
-      setUploadResult(response.data);
-      setUploadProgress(100);
-    } catch (err: any) {
-      const msg = err.response?.data?.error || err.response?.data?.message || err.message || 'Import failed';
-      setErrorMsg(msg);
+      setDryRun(await dataImportApi.previewFile(...await uploadArgs(selectedFile)));
+    } catch (err) {
+      setErrorMsg((err as ApiError)?.userMessage ?? 'Preview failed');
     } finally {
       setIsUploading(false);
+      setIsDryRunning(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!dryRun) return;
+    setIsCommitting(true);
+    setErrorMsg(null);
+    try {
+      finishImport((await dataImportApi.commitPreview(dryRun.id)).import_log);
+      setDryRun(null);
+    } catch (err) {
+      // An expired preview cannot be committed any more; the file has to be checked again.
+      const expired = (err as ApiError)?.status === 404;
+      if (expired) setDryRun(null);
+      setErrorMsg(expired ? 'This preview has expired. Preview the file again.' : (err as ApiError)?.userMessage ?? 'Import failed');
+    } finally {
+      setIsCommitting(false);
+      setHistoryKey(k => k + 1);
     }
   };
 
+  const discardDryRun = () => {
+    if (dryRun) dataImportApi.discardPreview(dryRun.id).catch(() => { /* It expires on its own. */ });
+    setDryRun(null);
+  };
+
   const hasPreview = previewData && previewData.preview_rows.length > 0;
+  const report = useMemo(
+    () => (sheetRows && importType ? validateSheet(sheetRows, importType, matches) : null),
+    [sheetRows, importType, matches],
+  );
+  const cannotStart = !selectedFile || isUploading || blockedType !== null || (previewData !== null && !importType)
+    || (report !== null && report.missingColumns.length > 0) || dryRun !== null || isCommitting;
+  // The file, its mapping and its excluded rows are fixed while a dry run waits for Commit or Cancel.
+  const isLocked = isUploading || dryRun !== null || isCommitting;
+
+  const clearFile = () => {
+    discardDryRun();
+    checkedFileRef.current = null;
+    setSelectedFile(null);
+    setPreviewData(null);
+    setImportType('');
+    setMatches({});
+    setSheetRows(null);
+    setExcludedRows(new Set());
+    setErrorMsg(null);
+    setImportedLog(null);
+    setUploadProgress(0);
+  };
 
   // ── Render ─────────────────────────────────────────────────────────────────
   return (
@@ -303,12 +1314,25 @@ export function DataImportPage() {
           <div style={{ marginTop: 16, textAlign: 'center' }}>
             <p style={{ fontSize: 13, fontWeight: 600, color: css.cardFg, margin: 0 }}>{selectedFile.name}</p>
             <p style={{ fontSize: 12, color: css.mutedFg, margin: '2px 0 0' }}>
-              {(selectedFile.size / (1024 * 1024)).toFixed(2)} MB
+              {toMB(selectedFile.size)} MB
             </p>
           </div>
         )}
 
         {/* Error alert */}
+        {blockedType && (
+          <div style={{
+            marginTop: 16, padding: '12px 16px', borderRadius: 10,
+            background: `${C.amber}08`, border: `1px solid ${C.amber}30`,
+            display: 'flex', alignItems: 'flex-start', gap: 10,
+          }}>
+            <AlertCircle size={16} style={{ color: C.amber, flexShrink: 0, marginTop: 1 }} />
+            <p style={{ fontSize: 13, color: C.amber, margin: 0, fontWeight: 500 }}>
+              This looks like a {templates.find(t => t.id === blockedType)?.titleEn ?? blockedType} file, which you are not allowed to import. Ask your manager for the permission.
+            </p>
+          </div>
+        )}
+
         {errorMsg && (
           <div style={{
             marginTop: 16, padding: '12px 16px', borderRadius: 10,
@@ -321,7 +1345,15 @@ export function DataImportPage() {
         )}
 
         {/* Progress bar (DashboardPage mini-bar style, wider) */}
-        {isUploading && (
+        {transfer && (
+          <TransferStatus
+            progress={transfer}
+            onPause={() => transferRef.current?.pause()}
+            onResume={() => transferRef.current?.resume()}
+            onCancel={() => transferRef.current?.cancel()}
+          />
+        )}
+        {isDryRunning && (
           <div style={{ marginTop: 24 }}>
             <div style={{ height: 6, borderRadius: 999, background: css.muted, overflow: 'hidden' }}>
               <div style={{
@@ -337,45 +1369,44 @@ export function DataImportPage() {
           </div>
         )}
 
-        {/* Success alert */}
-        {uploadResult && (
-          <div style={{
-            marginTop: 16, padding: '12px 16px', borderRadius: 10,
-            background: `${C.emerald}08`, border: `1px solid ${C.emerald}30`,
-            display: 'flex', alignItems: 'flex-start', gap: 10,
-          }}>
-            <CheckCircle2 size={16} style={{ color: C.emerald, flexShrink: 0, marginTop: 1 }} />
-            <div>
-              <p style={{ fontSize: 13, color: C.emerald, margin: 0, fontWeight: 700 }}>{uploadResult.message}</p>
-              <p style={{ fontSize: 12, color: css.mutedFg, margin: '4px 0 0' }}>
-                Imported rows: {uploadResult.result.total_rows}
-                {uploadResult.result.errors.length > 0 && <> · Errors: {uploadResult.result.errors.length}</>}
-              </p>
-            </div>
-          </div>
-        )}
+        {/* Result alert */}
+        {importedLog && <ImportOutcome log={importedLog} />}
 
         {/* Action buttons */}
         <div style={{ marginTop: 24, display: 'flex', justifyContent: 'center', gap: 12 }}>
           <button
             onClick={handleUpload}
-            disabled={!selectedFile || isUploading}
+            disabled={cannotStart}
             style={{
               display: 'flex', alignItems: 'center', gap: 8,
               padding: '10px 28px', borderRadius: 9, fontSize: 13, fontWeight: 700,
-              background: !selectedFile || isUploading ? css.muted : C.indigo,
-              color: !selectedFile || isUploading ? css.mutedFg : '#fff',
-              border: 'none', cursor: !selectedFile || isUploading ? 'not-allowed' : 'pointer',
-              boxShadow: !selectedFile || isUploading ? 'none' : `0 2px 12px ${C.indigo}40`,
+              background: cannotStart ? css.muted : C.indigo,
+              color: cannotStart ? css.mutedFg : '#fff',
+              border: 'none', cursor: cannotStart ? 'not-allowed' : 'pointer',
+              boxShadow: cannotStart ? 'none' : `0 2px 12px ${C.indigo}40`,
               minWidth: 148,
             }}
           >
-            {isUploading && <Loader2 size={14} className="animate-spin" />}
-            {isUploading ? 'Importing...' : 'Start Import'}
+            {isUploading && !isDryRunning && <Loader2 size={14} className="animate-spin" />}
+            {isUploading && !isDryRunning ? (transfer?.phase === 'processing' ? 'Processing...' : 'Importing...') : 'Start Import'}
           </button>
           <button
-            onClick={() => { setSelectedFile(null); setPreviewData(null); setErrorMsg(null); setUploadResult(null); setUploadProgress(0); }}
-            disabled={isUploading}
+            onClick={handleDryRun}
+            disabled={cannotStart}
+            title="Upload without writing anything and see what would change"
+            style={{
+              display: 'flex', alignItems: 'center', gap: 8,
+              padding: '10px 24px', borderRadius: 9, fontSize: 13, fontWeight: 700,
+              background: 'transparent', border: `1px solid ${cannotStart ? css.border : C.indigo + '60'}`,
+              color: cannotStart ? css.mutedFg : C.indigo, cursor: cannotStart ? 'not-allowed' : 'pointer',
+            }}
+          >
+            {isDryRunning ? <Loader2 size={14} className="animate-spin" /> : <Eye size={14} />}
+            {isDryRunning ? 'Previewing...' : 'Preview Changes'}
+          </button>
+          <button
+            onClick={clearFile}
+            disabled={isUploading || isCommitting}
             style={{
               padding: '10px 24px', borderRadius: 9, fontSize: 13, fontWeight: 600,
               background: 'transparent', border: `1px solid ${css.border}`,
@@ -387,6 +1418,13 @@ export function DataImportPage() {
         </div>
       </div>
 
+      {/* ── Dry-run diff ── */}
+      {dryRun && (
+        <div style={{ marginBottom: 16 }}>
+          <DiffPanel preview={dryRun} committing={isCommitting} onCommit={handleCommit} onCancel={discardDryRun} />
+        </div>
+      )}
+
       {/* ── File Preview (wrapped in Panel) ── */}
       {hasPreview && (
         <div style={{ marginBottom: 16 }}>
@@ -430,6 +1468,34 @@ export function DataImportPage() {
         </div>
       )}
 
+      {/* ── Column Mapping ── */}
+      {previewData && previewData.headers.length > 0 && (
+        <div style={{ marginBottom: 16 }}>
+          <ColumnMappingStep
+            preview={previewData}
+            fileType={importType}
+            onFileTypeChange={setImportType}
+            canImport={canImport}
+            matches={matches}
+            onMatchesChange={setMatches}
+            disabled={isLocked}
+          />
+        </div>
+      )}
+
+      {/* ── Pre-check ── */}
+      {report && (
+        <div style={{ marginBottom: 16 }}>
+          <PreCheckPanel
+            report={report}
+            fileType={importType}
+            excluded={excludedRows}
+            onExcludedChange={setExcludedRows}
+            disabled={isLocked}
+          />
+        </div>
+      )}
+
       {/* ── Download Templates ── */}
       <Panel
         title="Download Templates"
@@ -437,7 +1503,7 @@ export function DataImportPage() {
       >
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 16 }}>
           {templates.map((template) => {
-            const canDownload   = template.role.includes(userRole);
+            const canDownload   = canImport(template.id);
             const IconComponent = template.icon;
             const isExpanded    = expandedTemplate === template.id;
             const accent        = template.accent;
@@ -540,6 +1606,11 @@ export function DataImportPage() {
           })}
         </div>
       </Panel>
+
+      {/* ── Import History ── */}
+      <div style={{ marginTop: 16 }}>
+        <ImportHistory reloadKey={historyKey} />
+      </div>
     </div>
   );
 }
\ No newline at end of file
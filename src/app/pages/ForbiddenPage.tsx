@@ -0,0 +1,50 @@
+import { ShieldOff, ArrowLeft } from 'lucide-react';
+import { useNavigate } from 'react-router';
+import { Button } from '../components/ui/button';
+import { useAuth } from '../contexts/AuthContext';
+import { AVAILABLE_PERMISSIONS, firstAccessiblePage, pagePath, type AccessRule } from '../lib/permissions';
+
+interface ForbiddenPageProps {
+  /** The rule the user failed, to tell them what is missing. */
+  rule?: AccessRule;
+}
+
+/** 403 — rendered by MainLayout in place of a page the user may not open. */
+export function ForbiddenPage({ rule }: ForbiddenPageProps) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const home = firstAccessiblePage(user);
+  const anyOf = typeof rule?.permission === 'string' ? [rule.permission] : rule?.permission ?? [];
+  const permissions = AVAILABLE_PERMISSIONS.filter(p => anyOf.includes(p.id));
+
+  return (
+    <div className="flex flex-col items-center justify-center py-24 px-4 text-center">
+      <div className="flex h-20 w-20 items-center justify-center rounded-full bg-red-50 dark:bg-red-950 mb-4">
+        <ShieldOff className="h-10 w-10 text-red-500" />
+      </div>
+      <p className="text-sm font-semibold text-red-500 mb-1">403</p>
+      <h1 className="text-2xl font-semibold mb-2">You don't have access to this page</h1>
+      <p className="text-sm text-muted-foreground mb-6 max-w-md">
+        {permissions.length > 0
+          ? <>
+              It requires {permissions.length > 1 ? 'one of the' : 'the'}{' '}
+              <span className="font-medium">{permissions.map(p => p.label).join(', ')}</span>{' '}
+              permission{permissions.length > 1 ? 's' : ''}. Ask your manager to grant it.
+            </>
+          : <>This page is not available for your role.</>
+        }
+      </p>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => navigate(-1)}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Go back
+        </Button>
+        {home && (
+          <Button onClick={() => navigate(pagePath(home))}>
+            Go to an allowed page
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,8 +5,9 @@ import { Label } from '../components/ui/label';
 import { Link, useNavigate } from 'react-router';
 import { ArrowLeft, Mail, KeyRound, Lock, Eye, EyeOff, CheckCircle2, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
+import { api } from '../lib/api';
 
-const API_BASE = '/api/users';
+const API_BASE = '/users';
 
 type Step = 'request' | 'verify' | 'reset' | 'done';
 
@@ -122,16 +123,13 @@ export function ForgotPasswordPage() {
     e.preventDefault();
     setIsLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/forgot-password/request/`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email }),
-      });
-      const data = await res.json();
-      if (!res.ok) { toast.error(data.error ?? 'An error occurred.'); return; }
+      await api.post(`${API_BASE}/forgot-password/request/`, { email }, { skipAuth: true });
       toast.success('Code sent — check your inbox.');
       setStep('verify');
-    } catch { toast.error('Unable to reach the server.'); }
+    } catch (err: any) {
+      if (!err?.status) { toast.error('Unable to reach the server.'); return; }
+      toast.error(err.data?.error ?? 'An error occurred.');
+    }
     finally { setIsLoading(false); }
   };
 
@@ -139,19 +137,16 @@ export function ForgotPasswordPage() {
     e.preventDefault();
     setIsLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/forgot-password/verify/`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, code }),
-      });
-      const data = await res.json();
-      if (!res.ok) {
-        if (data.attempts_remaining !== undefined) setAttemptsRemaining(data.attempts_remaining);
-        toast.error(data.error ?? 'Incorrect code.'); return;
-      }
+      const data = await api.post<{ reset_token: string }>(
+        `${API_BASE}/forgot-password/verify/`, { email, code }, { skipAuth: true }
+      );
       setResetToken(data.reset_token);
       setStep('reset');
-    } catch { toast.error('Unable to reach the server.'); }
+    } catch (err: any) {
+      if (!err?.status) { toast.error('Unable to reach the server.'); return; }
+      if (err.data?.attempts_remaining !== undefined) setAttemptsRemaining(err.data.attempts_remaining);
+      toast.error(err.data?.error ?? 'Incorrect code.');
+    }
     finally { setIsLoading(false); }
   };
 
@@ -160,17 +155,17 @@ export function ForgotPasswordPage() {
     if (newPassword !== confirmPassword) { toast.error('Passwords do not match.'); return; }
     setIsLoading(true);
     try {
-      const res = await fetch(`${API_BASE}/forgot-password/reset/`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ reset_token: resetToken, new_password: newPassword, new_password_confirm: confirmPassword }),
-      });
-      const data = await res.json();
-      if (!res.ok) {
-        toast.error(Array.isArray(data.error) ? data.error.join(' ') : data.error ?? 'Error during reset.'); return;
-      }
+      await api.post(
+        `${API_BASE}/forgot-password/reset/`,
+        { reset_token: resetToken, new_password: newPassword, new_password_confirm: confirmPassword },
+        { skipAuth: true }
+      );
       setStep('done');
-    } catch { toast.error('Unable to reach the server.'); }
+    } catch (err: any) {
+      if (!err?.status) { toast.error('Unable to reach the server.'); return; }
+      const error = err.data?.error;
+      toast.error(Array.isArray(error) ? error.join(' ') : error ?? 'Error during reset.');
+    }
     finally { setIsLoading(false); }
   };
 
@@ -7,7 +7,7 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import axios from 'axios';
+import { api } from '../lib/api';
 import {
   TrendingUp, ShoppingCart, DollarSign, Package,
   Users, BarChart3,
@@ -22,6 +22,7 @@ import {
 } from 'recharts';
 import { salesKpiApi, stockKpiApi, MOVEMENT_TYPES } from '../lib/dataApi';
 import { formatCurrency, formatNumber } from '../lib/utils';
+import { usePermission, useBranchScope } from '../contexts/AuthContext';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Design tokens (identical to ReportsPage palette)
@@ -55,10 +56,6 @@ const legendStyle = { fontSize: 11, paddingTop: 8 };
 // ─────────────────────────────────────────────────────────────────────────────
 const num = (v: unknown): number => { const n = Number(v); return isFinite(n) ? n : 0; };
 const pct = (a: number, b: number) => b > 0 ? +((a / b) * 100).toFixed(1) : 0;
-function auth() {
-  const t = localStorage.getItem('fasi_access_token');
-  return t ? { Authorization: `Bearer ${t}` } : {};
-}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Atoms
@@ -218,6 +215,8 @@ function MarginBadge({ pct: p }: { pct: number }) {
 // Main report component
 // ─────────────────────────────────────────────────────────────────────────────
 export function GeneralReport() {
+  const canExport = usePermission('export', 'reports');
+  const branchScope = useBranchScope();
   const currentYear = new Date().getFullYear();
   const yearOptions = [currentYear, currentYear - 1, currentYear - 2].map(y => ({ key: String(y), label: String(y) }));
 
@@ -249,23 +248,23 @@ export function GeneralReport() {
       const [sales, stock, saleBrRes, purchBrRes, salesMonthly, purchMonthly, summRes, branchesRes] = await Promise.all([
         salesKpiApi.getAll({ year, branch, top_n: 20 }),
         stockKpiApi.getAll({ year, branch }),
-        axios.get('/api/transactions/branch-breakdown/', { headers: auth(), params: { movement_type: MOVEMENT_TYPES.SALE, year } }),
-        axios.get('/api/transactions/branch-breakdown/', { headers: auth(), params: { movement_type: MOVEMENT_TYPES.PURCHASE, year } }),
-        axios.get('/api/transactions/branch-monthly/', { headers: auth(), params: { movement_type: MOVEMENT_TYPES.SALE, year } }),
-        axios.get('/api/transactions/branch-monthly/', { headers: auth(), params: { movement_type: MOVEMENT_TYPES.PURCHASE, year } }),
-        axios.get('/api/transactions/summary/', { headers: auth(), params: { year, ...(branch ? { branch } : {}) } }),
-        axios.get('/api/transactions/branches/', { headers: auth() }),
+        api.get<any>('/transactions/branch-breakdown/', { params: { movement_type: MOVEMENT_TYPES.SALE, year } }),
+        api.get<any>('/transactions/branch-breakdown/', { params: { movement_type: MOVEMENT_TYPES.PURCHASE, year } }),
+        api.get<any>('/transactions/branch-monthly/', { params: { movement_type: MOVEMENT_TYPES.SALE, year } }),
+        api.get<any>('/transactions/branch-monthly/', { params: { movement_type: MOVEMENT_TYPES.PURCHASE, year } }),
+        api.get<any>('/transactions/summary/', { params: { year, branch } }),
+        api.get<any>('/transactions/branches/'),
       ]);
       setSalesKPI(sales);
       setStockKPI(stock);
-      setSaleBranches(saleBrRes.data.branches ?? []);
-      setPurchaseBranches(purchBrRes.data.branches ?? []);
-      setBranchMonthlySales(salesMonthly.data.monthly_data ?? []);
-      setSalesBranchNames(salesMonthly.data.branches ?? []);
-      setBranchMonthlyPurchases(purchMonthly.data.monthly_data ?? []);
-      setPurchBranchNames(purchMonthly.data.branches ?? []);
-      setMonthlySummary(summRes.data.summary ?? []);
-      setAvailableBranches(branchesRes.data.branches ?? []);
+      setSaleBranches(saleBrRes.branches ?? []);
+      setPurchaseBranches(purchBrRes.branches ?? []);
+      setBranchMonthlySales(salesMonthly.monthly_data ?? []);
+      setSalesBranchNames(salesMonthly.branches ?? []);
+      setBranchMonthlyPurchases(purchMonthly.monthly_data ?? []);
+      setPurchBranchNames(purchMonthly.branches ?? []);
+      setMonthlySummary(summRes.summary ?? []);
+      setAvailableBranches(branchesRes.branches ?? []);
     } catch (e: any) {
       setError(e.message ?? 'Failed to load data');
     } finally {
@@ -385,10 +384,7 @@ export function GeneralReport() {
       })).sort((a, b) => b.sales - a.sales);
   }, [saleBranches, purchaseBranches, selectedBranch]);
 
-  const branchOptions = [
-    { key: 'all', label: 'All Branches' },
-    ...availableBranches.map(b => ({ key: b, label: b })),
-  ];
+  const branchOptions = branchScope.options(availableBranches);
 
   // ── Print ────────────────────────────────────────────────────────────────
   const handlePrint = () => {
@@ -543,9 +539,11 @@ ${clone.outerHTML}
             <button onClick={fetchAll} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${css.border}`, background: css.card, color: css.cardFg, fontSize: 13, cursor: 'pointer' }}>
               <RefreshCw size={13} />Refresh
             </button>
-            <button onClick={handlePrint} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${C.emerald}40`, background: `${C.emerald}10`, color: C.emerald, fontSize: 13, fontWeight: 700, cursor: 'pointer' }}>
-              <Printer size={13} />Print
-            </button>
+            {canExport && (
+              <button onClick={handlePrint} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${C.emerald}40`, background: `${C.emerald}10`, color: C.emerald, fontSize: 13, fontWeight: 700, cursor: 'pointer' }}>
+                <Printer size={13} />Print
+              </button>
+            )}
           </div>
         </div>
 
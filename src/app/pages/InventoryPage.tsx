@@ -1,8 +1,19 @@
 // src/app/pages/InventoryPage.tsx
 import { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import { Package, AlertTriangle, TrendingUp, RefreshCw, Loader2, ChevronDown, ArrowUpRight } from 'lucide-react';
+import { Package, AlertTriangle, TrendingUp, RefreshCw, Loader2, ChevronDown, ArrowUpRight, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
 import { DataTable } from '../components/DataTable';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../components/ui/alert-dialog';
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid,
   ResponsiveContainer, PieChart, Pie, Cell, Tooltip,
@@ -12,9 +23,12 @@ import {
   useInventoryLines,
   useBranchSummary,
   useCategoryBreakdown,
+  invalidateAfterImport,
   type InventorySnapshotLine,
 } from '../lib/dataHooks';
+import { inventoryApi } from '../lib/dataApi';
 import { formatCurrency, formatNumber, toNum } from '../lib/utils';
+import { usePermission, useBranchScope } from '../contexts/AuthContext';
 
 const C = {
   indigo:  '#6366f1',
@@ -183,12 +197,33 @@ export function InventoryPage() {
   const [openDropdown,       setOpenDropdown]       = useState<'snapshot' | 'branch' | null>(null);
   const [tablePage,          setTablePage]          = useState(1);
   const [tableSearch,        setTableSearch]        = useState('');
+  const [confirmDelete,      setConfirmDelete]      = useState(false);
+  const [deleting,           setDeleting]           = useState(false);
+  const canManage = usePermission('manage', 'inventory');
+  const branchScope = useBranchScope();
 
   const { data: snapshotsData, loading: snapsLoading } = useInventorySnapshots({ page_size: 50 });
   const snapshots     = snapshotsData?.items ?? [];
   const currentSnapId = selectedSnapshotId || snapshots[0]?.id || '';
   const currentSnap   = snapshots.find(s => s.id === currentSnapId) ?? null;
 
+  const handleDeleteSnapshot = async () => {
+    if (!currentSnapId) return;
+    setDeleting(true);
+    try {
+      await inventoryApi.deleteSnapshot(currentSnapId);
+      toast.success('Snapshot deleted');
+      setSelectedSnapshotId('');
+      setSelectedBranch('all');
+      setTablePage(1);
+      invalidateAfterImport('inventory');
+    } catch (err: any) {
+      toast.error(err?.userMessage ?? 'Unable to delete the snapshot');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
   // branchParam: undefined = all, string = exact branch name
   const branchParam = selectedBranch !== 'all' ? selectedBranch : undefined;
 
@@ -260,7 +295,7 @@ export function InventoryPage() {
   }
 
   const snapshotOptions = snapshots.map(s => ({ key: s.id, label: `${s.source_file || s.label || 'Inventory'} — ${s.uploaded_at.split('T')[0]}` }));
-  const branchOptions   = [{ key: 'all', label: 'All Branches' }, ...allBranches.map(b => ({ key: b.branch, label: b.branch }))];
+  const branchOptions   = branchScope.options(allBranches.map(b => b.branch));
 
   const columns = [
     { key: 'product_code', label: 'Code',       render: (row: InventorySnapshotLine) => <span style={{ fontFamily: 'monospace', fontSize: 11, color: css.mutedFg }}>{row.product_code}</span> },
@@ -319,6 +354,16 @@ export function InventoryPage() {
               </button>
             </div>
           )}
+          {canManage && currentSnap && (
+            <div style={{ display: 'flex', flexDirection: 'column', justifyContent: 'flex-end', marginLeft: 'auto' }}>
+              <div style={{ height: 23 }} />
+              <button onClick={() => setConfirmDelete(true)} disabled={deleting}
+                style={{ display: 'flex', alignItems: 'center', gap: 6, height: 38, padding: '0 14px', borderRadius: 10, border: `1px solid ${C.rose}40`, background: `${C.rose}10`, color: C.rose, fontSize: 13, fontWeight: 600, cursor: deleting ? 'not-allowed' : 'pointer', whiteSpace: 'nowrap' }}>
+                {deleting ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+                Delete snapshot
+              </button>
+            </div>
+          )}
         </div>
         {selectedBranch !== 'all' && (
           <div style={{ marginTop: 12, display: 'inline-flex', alignItems: 'center', gap: 8, background: `${C.indigo}10`, border: `1px solid ${C.indigo}25`, borderRadius: 20, padding: '4px 12px' }}>
@@ -467,6 +512,21 @@ export function InventoryPage() {
           />
         )}
       </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this snapshot?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {currentSnap?.source_file || currentSnap?.label || 'The snapshot'} and all its lines will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteSnapshot} className="bg-red-600 hover:bg-red-700">Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
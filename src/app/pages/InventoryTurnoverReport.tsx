@@ -27,6 +27,7 @@ import {
   type BranchSummary, type CategoryBreakdown, type StockKPIData,
 } from '../lib/dataApi';
 import { formatCurrency, formatNumber } from '../lib/utils';
+import { usePermission } from '../contexts/AuthContext';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Design tokens
@@ -183,6 +184,7 @@ function StyledDropdown({ label, options, value, onChange, isOpen, onToggle, onC
 // Main Report Component
 // ─────────────────────────────────────────────────────────────────────────────
 export function InventoryTurnoverReport() {
+  const canExport = usePermission('export', 'reports');
   const currentYear = new Date().getFullYear();
 
   const [snapshots, setSnapshots] = useState<{ id: string; display: string }[]>([]);
@@ -752,9 +754,11 @@ export function InventoryTurnoverReport() {
             <button onClick={fetchAll} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${css.border}`, background: css.card, color: css.cardFg, fontSize: 13, cursor: 'pointer' }}>
               <RefreshCw size={13} />Refresh
             </button>
-            <button onClick={handlePrint} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${C.teal}40`, background: `${C.teal}10`, color: C.teal, fontSize: 13, fontWeight: 700, cursor: 'pointer' }}>
-              <Printer size={13} />Print
-            </button>
+            {canExport && (
+              <button onClick={handlePrint} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${C.teal}40`, background: `${C.teal}10`, color: C.teal, fontSize: 13, fontWeight: 700, cursor: 'pointer' }}>
+                <Printer size={13} />Print
+              </button>
+            )}
           </div>
         </div>
 
@@ -25,6 +25,7 @@ import {
   type MonthlySummaryItem,
 } from '../lib/dataHooks';
 import { formatCurrency, formatNumber } from '../lib/utils';
+import { useBranchScope } from '../contexts/AuthContext';
 
 // ── Brand palette ──────────────────────────────────────────────────────────
 
@@ -237,7 +238,7 @@ function FilterBar({ period, onPeriodChange, branch, onBranchChange, branches }:
   branch: string; onBranchChange: (b: string) => void; branches: string[];
 }) {
   const [openDropdown, setOpenDropdown] = useState<'period' | 'branch' | null>(null);
-  const branchOptions = [{ key: '', label: 'All Branches' }, ...branches.map(b => ({ key: b, label: b }))];
+  const branchOptions = useBranchScope().options(branches, '');
 
   return (
     <Panel title="Filters" sub="Customize your view — all charts update automatically">
@@ -3,9 +3,12 @@ import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '../components/ui/input-otp';
 import { Link, useNavigate } from 'react-router';
-import { Eye, EyeOff, LogIn } from 'lucide-react';
+import { ArrowLeft, CheckCircle2, Eye, EyeOff, FileQuestion, Loader2, LogIn, ShieldCheck } from 'lucide-react';
 import { toast } from 'sonner';
+import { authApi } from '../lib/authApi';
+import { SignupDocumentsField, documentUploads, type DocumentFiles } from '../components/SignupDocumentsField';
 
 import { ImageWithFallback } from '../components/image/ImageWithFallback';
 import dashboardImage from '../components/image/logo.jpeg';
@@ -31,10 +34,20 @@ function WeegMark({ size = 40 }: { size?: number }) {
 }
 
 export function LoginPage() {
-  const { login, isLoading } = useAuth();
+  const { login, verifyTwoFactor, isLoading } = useAuth();
   const navigate = useNavigate();
   const [formData, setFormData] = useState({ email: '', password: '' });
   const [showPassword, setShowPassword] = useState(false);
+  // Second step, once the password is accepted on a 2FA account
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // Pending manager signup the admin asked more information about
+  const [infoRequest, setInfoRequest] = useState<{ message: string; token: string } | null>(null);
+  const [reply, setReply] = useState('');
+  const [replyDocuments, setReplyDocuments] = useState<DocumentFiles>({});
+  const [isSending, setIsSending] = useState(false);
+  const [replySent, setReplySent] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -42,11 +55,64 @@ export function LoginPage() {
     if (result.success) {
       toast.success('Login successful');
       navigate('/dashboard');
+    } else if (result.challenge) {
+      setChallenge(result.challenge);
+      setCode('');
+      setUseRecoveryCode(false);
+    } else if (result.infoRequest) {
+      setInfoRequest(result.infoRequest);
+      setReply('');
+      setReplyDocuments({});
+      setReplySent(false);
     } else {
       toast.error(result.message);
     }
   };
 
+  const submitReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!infoRequest) return;
+    const uploads = documentUploads(replyDocuments);
+    if (!reply.trim() && uploads.length === 0) {
+      toast.error('Add a document or a message for the administrator');
+      return;
+    }
+    setIsSending(true);
+    try {
+      const documents = await authApi.uploadSignupDocuments(uploads);
+      await authApi.resubmitApplication(infoRequest.token, reply.trim(), documents);
+      setReplySent(true);
+    } catch (err: any) {
+      toast.error(err?.userMessage ?? 'Unable to send your answer');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const leaveInfoRequest = () => {
+    setInfoRequest(null);
+    setFormData(prev => ({ ...prev, password: '' }));
+  };
+
+  const submitCode = async (value: string) => {
+    if (!challenge || !value.trim()) return;
+    const result = await verifyTwoFactor(challenge, value.trim());
+    if (result.success) {
+      toast.success('Login successful');
+      navigate('/dashboard');
+      return;
+    }
+    toast.error(result.message);
+    setCode('');
+    if (result.expired) backToPassword();
+  };
+
+  const backToPassword = () => {
+    setChallenge(null);
+    setCode('');
+    setFormData(prev => ({ ...prev, password: '' }));
+  };
+
   return (
     <div className="min-h-screen flex">
 
@@ -141,85 +207,210 @@ export function LoginPage() {
 
           {/* Login Card */}
           <div className="bg-background border rounded-2xl shadow-xl p-8">
-            <div className="mb-6">
-              <h2 className="text-2xl font-bold">Welcome back</h2>
-              <p className="text-muted-foreground text-sm mt-1">Sign in to your account</p>
-            </div>
-
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="email">Email address</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="your@email.com"
-                  value={formData.email}
-                  onChange={e => setFormData({ ...formData, email: e.target.value })}
-                  required
-                  disabled={isLoading}
-                  autoComplete="email"
-                />
-              </div>
+            {infoRequest ? (
+              replySent ? (
+                <div className="text-center py-4">
+                  <div className="flex h-16 w-16 items-center justify-center rounded-full bg-green-100 dark:bg-green-900/30 mx-auto mb-4">
+                    <CheckCircle2 className="h-8 w-8 text-green-600" />
+                  </div>
+                  <h2 className="text-2xl font-bold mb-2">Answer sent</h2>
+                  <p className="text-muted-foreground text-sm mb-6">
+                    Your application is back with the administrator. You can sign in once it is approved.
+                  </p>
+                  <Button variant="outline" className="w-full" onClick={leaveInfoRequest}>Back to sign in</Button>
+                </div>
+              ) : (
+                <>
+                  <div className="mb-5">
+                    <h2 className="text-2xl font-bold flex items-center gap-2">
+                      <FileQuestion className="h-6 w-6" style={{ color: '#f97316' }} /> More information needed
+                    </h2>
+                    <p className="text-muted-foreground text-sm mt-1">
+                      The administrator reviewing your account asked:
+                    </p>
+                    <blockquote className="mt-3 rounded-lg border-l-4 border-orange-400 bg-orange-50 dark:bg-orange-950/30 px-4 py-3 text-sm whitespace-pre-wrap">
+                      {infoRequest.message}
+                    </blockquote>
+                  </div>
 
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label htmlFor="password">Password</Label>
-                  <Link
-                    to="/forgot-password"
-                    className="text-xs font-medium hover:underline"
-                    style={{ color: '#0284c7' }}
-                  >
-                    Forgot password?
-                  </Link>
+                  <form onSubmit={submitReply} className="space-y-4">
+                    <SignupDocumentsField kinds={['commercial_register', 'tax_id', 'other']}
+                      value={replyDocuments} onChange={setReplyDocuments} disabled={isSending} />
+                    <div className="space-y-2">
+                      <Label htmlFor="reply">Message <span className="text-muted-foreground font-normal">(optional)</span></Label>
+                      <textarea
+                        id="reply"
+                        value={reply}
+                        onChange={e => setReply(e.target.value)}
+                        disabled={isSending}
+                        rows={3}
+                        placeholder="Anything the administrator should know"
+                        className="w-full rounded-md border bg-background px-3 py-2 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-sky-400/30"
+                      />
+                    </div>
+                    <Button
+                      type="submit"
+                      className="w-full text-white font-semibold"
+                      style={{ background: 'linear-gradient(135deg, #0284c7, #0ea5e9)' }}
+                      disabled={isSending}
+                    >
+                      {isSending ? <><Loader2 className="h-4 w-4 animate-spin mr-2" />Sending...</> : 'Send to the administrator'}
+                    </Button>
+                  </form>
+
+                  <button type="button" onClick={leaveInfoRequest}
+                    className="flex items-center gap-1 mt-5 text-sm text-muted-foreground hover:text-foreground">
+                    <ArrowLeft className="h-4 w-4" /> Back
+                  </button>
+                </>
+              )
+            ) : challenge ? (
+              <>
+                <div className="mb-6">
+                  <h2 className="text-2xl font-bold flex items-center gap-2">
+                    <ShieldCheck className="h-6 w-6" style={{ color: '#0284c7' }} /> Two-factor authentication
+                  </h2>
+                  <p className="text-muted-foreground text-sm mt-1">
+                    {useRecoveryCode
+                      ? 'Enter one of the recovery codes you saved when you turned on 2FA.'
+                      : 'Enter the 6-digit code from your authenticator app.'}
+                  </p>
                 </div>
-                <div className="relative">
-                  <Input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
-                    placeholder="••••••••"
-                    value={formData.password}
-                    onChange={e => setFormData({ ...formData, password: e.target.value })}
-                    required
-                    disabled={isLoading}
-                    className="pr-10"
-                    autoComplete="current-password"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+
+                <form onSubmit={e => { e.preventDefault(); submitCode(code); }} className="space-y-4">
+                  {useRecoveryCode ? (
+                    <Input
+                      placeholder="xxxx-xxxx"
+                      value={code}
+                      onChange={e => setCode(e.target.value)}
+                      disabled={isLoading}
+                      autoComplete="off"
+                      autoFocus
+                    />
+                  ) : (
+                    <div className="flex justify-center">
+                      <InputOTP
+                        maxLength={6}
+                        value={code}
+                        onChange={setCode}
+                        onComplete={submitCode}
+                        disabled={isLoading}
+                        autoComplete="one-time-code"
+                        inputMode="numeric"
+                        pattern="^[0-9]*$"
+                        autoFocus
+                      >
+                        <InputOTPGroup>
+                          {[0, 1, 2, 3, 4, 5].map(i => <InputOTPSlot key={i} index={i} className="h-11 w-11 text-lg" />)}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+                  )}
+
+                  <Button
+                    type="submit"
+                    className="w-full text-white font-semibold"
+                    style={{ background: 'linear-gradient(135deg, #0284c7, #0ea5e9)' }}
+                    disabled={isLoading || (!useRecoveryCode && code.length < 6)}
                   >
-                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    {isLoading ? 'Verifying...' : 'Verify'}
+                  </Button>
+                </form>
+
+                <div className="flex items-center justify-between mt-5 text-sm">
+                  <button type="button" onClick={backToPassword}
+                    className="flex items-center gap-1 text-muted-foreground hover:text-foreground">
+                    <ArrowLeft className="h-4 w-4" /> Back
+                  </button>
+                  <button type="button" onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); }}
+                    className="font-medium hover:underline" style={{ color: '#0284c7' }}>
+                    {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
                   </button>
                 </div>
-              </div>
+              </>
+            ) : (
+              <>
+                <div className="mb-6">
+                  <h2 className="text-2xl font-bold">Welcome back</h2>
+                  <p className="text-muted-foreground text-sm mt-1">Sign in to your account</p>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email address</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      placeholder="your@email.com"
+                      value={formData.email}
+                      onChange={e => setFormData({ ...formData, email: e.target.value })}
+                      required
+                      disabled={isLoading}
+                      autoComplete="email"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="password">Password</Label>
+                      <Link
+                        to="/forgot-password"
+                        className="text-xs font-medium hover:underline"
+                        style={{ color: '#0284c7' }}
+                      >
+                        Forgot password?
+                      </Link>
+                    </div>
+                    <div className="relative">
+                      <Input
+                        id="password"
+                        type={showPassword ? 'text' : 'password'}
+                        placeholder="••••••••"
+                        value={formData.password}
+                        onChange={e => setFormData({ ...formData, password: e.target.value })}
+                        required
+                        disabled={isLoading}
+                        className="pr-10"
+                        autoComplete="current-password"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                      >
+                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </button>
+                    </div>
+                  </div>
 
-              <Button
-                type="submit"
-                className="w-full text-white font-semibold"
-                style={{ background: 'linear-gradient(135deg, #0284c7, #0ea5e9)' }}
-                disabled={isLoading}
-              >
-                {isLoading ? (
-                  <span className="flex items-center gap-2">
-                    <span className="animate-spin">⏳</span> Signing in...
-                  </span>
-                ) : (
-                  <span className="flex items-center gap-2">
-                    <LogIn className="h-4 w-4" /> Sign in
-                  </span>
-                )}
-              </Button>
-            </form>
-
-            <div className="my-5 h-px bg-gradient-to-r from-transparent via-orange-300 to-transparent opacity-60" />
-
-            <div className="text-center text-sm">
-              <span className="text-muted-foreground">No account? </span>
-              <Link to="/signup" className="font-semibold hover:underline" style={{ color: '#f97316' }}>
-                Manager Sign Up
-              </Link>
-            </div>
+                  <Button
+                    type="submit"
+                    className="w-full text-white font-semibold"
+                    style={{ background: 'linear-gradient(135deg, #0284c7, #0ea5e9)' }}
+                    disabled={isLoading}
+                  >
+                    {isLoading ? (
+                      <span className="flex items-center gap-2">
+                        <span className="animate-spin">⏳</span> Signing in...
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-2">
+                        <LogIn className="h-4 w-4" /> Sign in
+                      </span>
+                    )}
+                  </Button>
+                </form>
+
+                <div className="my-5 h-px bg-gradient-to-r from-transparent via-orange-300 to-transparent opacity-60" />
+
+                <div className="text-center text-sm">
+                  <span className="text-muted-foreground">No account? </span>
+                  <Link to="/signup" className="font-semibold hover:underline" style={{ color: '#f97316' }}>
+                    Manager Sign Up
+                  </Link>
+                </div>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -7,7 +7,7 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import axios from 'axios';
+import { api } from '../lib/api';
 import {
   TrendingUp,
   DollarSign,
@@ -40,6 +40,7 @@ import {
 } from 'recharts';
 import { salesKpiApi, MOVEMENT_TYPES } from '../lib/dataApi';
 import { formatCurrency, formatNumber } from '../lib/utils';
+import { usePermission } from '../contexts/AuthContext';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Design tokens
@@ -73,10 +74,6 @@ const legendStyle = { fontSize: 11, paddingTop: 8 };
 // ─────────────────────────────────────────────────────────────────────────────
 const num = (v: unknown): number => { const n = Number(v); return isFinite(n) ? n : 0; };
 const pct = (a: number, b: number) => b > 0 ? +((a / b) * 100).toFixed(1) : 0;
-function auth() {
-  const t = localStorage.getItem('fasi_access_token');
-  return t ? { Authorization: `Bearer ${t}` } : {};
-}
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Atoms
@@ -229,6 +226,7 @@ function ProfitBadge({ value }: { value: number }) {
 // Main report component
 // ─────────────────────────────────────────────────────────────────────────────
 export function PricingProfitabilityReport() {
+  const canExport = usePermission('export', 'reports');
   const currentYear = new Date().getFullYear();
   const yearOptions = [currentYear, currentYear - 1, currentYear - 2].map(y => ({ key: String(y), label: String(y) }));
 
@@ -255,17 +253,17 @@ export function PricingProfitabilityReport() {
     try {
       const [sales, saleBrRes, salesMonthly, summRes, branchesRes] = await Promise.all([
         salesKpiApi.getAll({ year, branch, top_n: 20 }),
-        axios.get('/api/transactions/branch-breakdown/', { headers: auth(), params: { movement_type: MOVEMENT_TYPES.SALE, year } }),
-        axios.get('/api/transactions/branch-monthly/', { headers: auth(), params: { movement_type: MOVEMENT_TYPES.SALE, metric: 'profit', year } }),
-        axios.get('/api/transactions/summary/', { headers: auth(), params: { year, ...(branch ? { branch } : {}) } }),
-        axios.get('/api/transactions/branches/', { headers: auth() }),
+        api.get<any>('/transactions/branch-breakdown/', { params: { movement_type: MOVEMENT_TYPES.SALE, year } }),
+        api.get<any>('/transactions/branch-monthly/', { params: { movement_type: MOVEMENT_TYPES.SALE, metric: 'profit', year } }),
+        api.get<any>('/transactions/summary/', { params: { year, branch } }),
+        api.get<any>('/transactions/branches/'),
       ]);
       setSalesKPI(sales);
-      setSaleBranches(saleBrRes.data.branches ?? []);
-      setBranchMonthlySales(salesMonthly.data.monthly_data ?? []);
-      setSalesBranchNames(salesMonthly.data.branches ?? []);
-      setMonthlySummary(summRes.data.summary ?? []);
-      setAvailableBranches(branchesRes.data.branches ?? []);
+      setSaleBranches(saleBrRes.branches ?? []);
+      setBranchMonthlySales(salesMonthly.monthly_data ?? []);
+      setSalesBranchNames(salesMonthly.branches ?? []);
+      setMonthlySummary(summRes.summary ?? []);
+      setAvailableBranches(branchesRes.branches ?? []);
     } catch (e: any) {
       setError(e.message ?? 'Failed to load data');
     } finally {
@@ -527,9 +525,11 @@ ${clone.outerHTML}
             <button onClick={fetchAll} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${css.border}`, background: css.card, color: css.cardFg, fontSize: 13, cursor: 'pointer' }}>
               <RefreshCw size={13} />Refresh
             </button>
-            <button onClick={handlePrint} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${C.violet}40`, background: `${C.violet}10`, color: C.violet, fontSize: 13, fontWeight: 700, cursor: 'pointer' }}>
-              <Printer size={13} />Print
-            </button>
+            {canExport && (
+              <button onClick={handlePrint} style={{ display: 'flex', alignItems: 'center', gap: 6, padding: '8px 16px', borderRadius: 10, border: `1px solid ${C.violet}40`, background: `${C.violet}10`, color: C.violet, fontSize: 13, fontWeight: 700, cursor: 'pointer' }}>
+                <Printer size={13} />Print
+              </button>
+            )}
           </div>
         </div>
 
@@ -1,70 +1,69 @@
 import { useState } from 'react';
-import { useAuth, AVAILABLE_PERMISSIONS } from '../contexts/AuthContext';
+import { useForm } from 'react-hook-form';
+import { useAuth } from '../contexts/AuthContext';
+import { AVAILABLE_PERMISSIONS, expandPermissions } from '../lib/permissions';
 import { User, Mail, Calendar, Shield, Key, Check, Loader2, Eye, EyeOff } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
-import { api } from '../lib/api';
+import { api, ApiError } from '../lib/api';
+import { applyServerErrors, type ServerFieldMap } from '../lib/formErrors';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router';
 
+interface PasswordFormValues {
+  old_password: string;
+  new_password: string;
+  new_password_confirm: string;
+  logout_other_sessions: boolean;
+}
+
+const EMPTY_PASSWORD_FORM: PasswordFormValues = {
+  old_password: '', new_password: '', new_password_confirm: '', logout_other_sessions: true,
+};
+
+const PASSWORD_FIELDS: ServerFieldMap<PasswordFormValues> = {
+  old_password: 'old_password',
+  new_password: 'new_password',
+  new_password_confirm: 'new_password_confirm',
+};
+
 export function ProfilePage() {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
   const [showPasswordForm, setShowPasswordForm] = useState(false);
   const [showPasswords, setShowPasswords] = useState({ old: false, new: false, confirm: false });
   const [isSaving, setIsSaving] = useState(false);
-  const [passwordData, setPasswordData] = useState({
-    old_password: '',
-    new_password: '',
-    new_password_confirm: '',
-  });
-  const [passwordErrors, setPasswordErrors] = useState<Record<string, string>>({});
-
-  const handlePasswordChange = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setPasswordErrors({});
-
-    if (!passwordData.old_password) {
-      setPasswordErrors(err => ({ ...err, old_password: 'Required field' }));
-      return;
-    }
-    if (passwordData.new_password.length < 8) {
-      setPasswordErrors(err => ({ ...err, new_password: 'Minimum 8 characters' }));
-      return;
-    }
-    if (passwordData.new_password !== passwordData.new_password_confirm) {
-      setPasswordErrors(err => ({ ...err, new_password_confirm: 'Passwords do not match' }));
-      return;
-    }
-    if (passwordData.old_password === passwordData.new_password) {
-      setPasswordErrors(err => ({ ...err, new_password: 'New password must be different' }));
-      return;
-    }
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    getValues,
+    formState: { errors: passwordErrors },
+  } = useForm<PasswordFormValues>({ defaultValues: EMPTY_PASSWORD_FORM });
 
+  const handlePasswordChange = async (passwordData: PasswordFormValues) => {
     setIsSaving(true);
     try {
       await api.post('/users/change-password/', passwordData);
-      toast.success('Password changed. Signing you out in 2 seconds...');
-      setPasswordData({ old_password: '', new_password: '', new_password_confirm: '' });
+      toast.success(passwordData.logout_other_sessions
+        ? 'Password changed and other devices signed out. Signing you out in 2 seconds...'
+        : 'Password changed. Signing you out in 2 seconds...');
+      reset(EMPTY_PASSWORD_FORM);
       setShowPasswordForm(false);
       setTimeout(async () => {
         await logout();
         navigate('/login');
       }, 2000);
-    } catch (err: any) {
-      const data = err?.data ?? {};
-      if (data.error) {
-        setPasswordErrors({ old_password: data.error });
-      } else if (data.old_password) {
-        setPasswordErrors({ old_password: Array.isArray(data.old_password) ? data.old_password[0] : data.old_password });
-      } else if (data.new_password) {
-        setPasswordErrors({ new_password: Array.isArray(data.new_password) ? data.new_password[0] : data.new_password });
-      } else if (data.new_password_confirm) {
-        setPasswordErrors({ new_password_confirm: Array.isArray(data.new_password_confirm) ? data.new_password_confirm[0] : data.new_password_confirm });
-      } else {
-        toast.error(err?.userMessage ?? 'Error changing password');
+    } catch (err) {
+      // The view answers a wrong current password with a bare { error }.
+      if (err instanceof ApiError && err.status === 400 && (err.data as { error?: string })?.error) {
+        setError('old_password', { type: 'server', message: err.message }, { shouldFocus: true });
+        return;
       }
+      const message = applyServerErrors(err, setError, PASSWORD_FIELDS, 'Error changing password');
+      if (message) toast.error(message);
     } finally {
       setIsSaving(false);
     }
@@ -81,7 +80,8 @@ export function ProfilePage() {
   const getUserPermissions = () => {
     if (!user) return [];
     if (user.permissions.includes('all')) return AVAILABLE_PERMISSIONS;
-    return AVAILABLE_PERMISSIONS.filter(p => user.permissions.includes(p.id));
+    const granted = expandPermissions(user.permissions);
+    return AVAILABLE_PERMISSIONS.filter(p => granted.includes(p.id));
   };
 
   const userPermissions = getUserPermissions();
@@ -152,8 +152,7 @@ export function ProfilePage() {
               variant="outline"
               onClick={() => {
                 setShowPasswordForm(!showPasswordForm);
-                setPasswordErrors({});
-                setPasswordData({ old_password: '', new_password: '', new_password_confirm: '' });
+                reset(EMPTY_PASSWORD_FORM);
               }}
             >
               <Key className="h-4 w-4 mr-2" />
@@ -169,9 +168,9 @@ export function ProfilePage() {
             <div className="border rounded-lg p-6">
               <h3 className="font-semibold text-lg mb-1">Change password</h3>
               <p className="text-sm text-muted-foreground mb-4">
-                After changing, all your sessions will be closed.
+                After changing, you'll need to sign in again on this device.
               </p>
-              <form onSubmit={handlePasswordChange} className="space-y-4">
+              <form onSubmit={handleSubmit(handlePasswordChange)} className="space-y-4">
 
                 {/* Current password */}
                 <div className="space-y-2">
@@ -180,8 +179,7 @@ export function ProfilePage() {
                     <Input
                       id="old_password"
                       type={showPasswords.old ? 'text' : 'password'}
-                      value={passwordData.old_password}
-                      onChange={e => setPasswordData({ ...passwordData, old_password: e.target.value })}
+                      {...register('old_password', { required: 'Required field' })}
                       className={`pr-10 ${passwordErrors.old_password ? 'border-red-500' : ''}`}
                     />
                     <button type="button"
@@ -190,7 +188,7 @@ export function ProfilePage() {
                       {showPasswords.old ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                     </button>
                   </div>
-                  {passwordErrors.old_password && <p className="text-xs text-red-500">{passwordErrors.old_password}</p>}
+                  {passwordErrors.old_password && <p className="text-xs text-red-500">{passwordErrors.old_password.message}</p>}
                 </div>
 
                 {/* New password */}
@@ -200,8 +198,10 @@ export function ProfilePage() {
                     <Input
                       id="new_password"
                       type={showPasswords.new ? 'text' : 'password'}
-                      value={passwordData.new_password}
-                      onChange={e => setPasswordData({ ...passwordData, new_password: e.target.value })}
+                      {...register('new_password', {
+                        minLength: { value: 8, message: 'Minimum 8 characters' },
+                        validate: v => v !== getValues('old_password') || 'New password must be different',
+                      })}
                       className={`pr-10 ${passwordErrors.new_password ? 'border-red-500' : ''}`}
                     />
                     <button type="button"
@@ -210,7 +210,7 @@ export function ProfilePage() {
                       {showPasswords.new ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                     </button>
                   </div>
-                  {passwordErrors.new_password && <p className="text-xs text-red-500">{passwordErrors.new_password}</p>}
+                  {passwordErrors.new_password && <p className="text-xs text-red-500">{passwordErrors.new_password.message}</p>}
                   <p className="text-xs text-muted-foreground">Minimum 8 characters</p>
                 </div>
 
@@ -221,8 +221,9 @@ export function ProfilePage() {
                     <Input
                       id="new_password_confirm"
                       type={showPasswords.confirm ? 'text' : 'password'}
-                      value={passwordData.new_password_confirm}
-                      onChange={e => setPasswordData({ ...passwordData, new_password_confirm: e.target.value })}
+                      {...register('new_password_confirm', {
+                        validate: v => v === getValues('new_password') || 'Passwords do not match',
+                      })}
                       className={`pr-10 ${passwordErrors.new_password_confirm ? 'border-red-500' : ''}`}
                     />
                     <button type="button"
@@ -231,9 +232,14 @@ export function ProfilePage() {
                       {showPasswords.confirm ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                     </button>
                   </div>
-                  {passwordErrors.new_password_confirm && <p className="text-xs text-red-500">{passwordErrors.new_password_confirm}</p>}
+                  {passwordErrors.new_password_confirm && <p className="text-xs text-red-500">{passwordErrors.new_password_confirm.message}</p>}
                 </div>
 
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input type="checkbox" className="h-4 w-4 rounded border-gray-300" {...register('logout_other_sessions')} />
+                  Also sign out of every other device
+                </label>
+
                 <div className="flex gap-2">
                   <Button type="submit" disabled={isSaving}>
                     {isSaving
@@ -242,7 +248,7 @@ export function ProfilePage() {
                     }
                   </Button>
                   <Button type="button" variant="outline"
-                    onClick={() => { setShowPasswordForm(false); setPasswordErrors({}); }}>
+                    onClick={() => { setShowPasswordForm(false); reset(EMPTY_PASSWORD_FORM); }}>
                     Cancel
                   </Button>
                 </div>
@@ -1,14 +1,18 @@
 import { useState, useEffect } from 'react';
-import { User, Building, Bell, Shield, Loader2, Eye, EyeOff, Check, ChevronRight } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { User, Building, Bell, Shield, Loader2, Eye, EyeOff, Check, ChevronRight, KeyRound, Copy, Download, AlertTriangle, Monitor, Smartphone, LogOut } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Label } from '../components/ui/label';
 import { Input } from '../components/ui/input';
 import { Button } from '../components/ui/button';
 import { Switch } from '../components/ui/switch';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '../components/ui/input-otp';
 import { useAuth } from '../contexts/AuthContext';
-import { api } from '../lib/api';
+import { api, ApiError } from '../lib/api';
+import { authApi, type Session, type TwoFactorSetupResponse, type TwoFactorStatus } from '../lib/authApi';
+import { applyServerErrors, type ServerFieldMap } from '../lib/formErrors';
 import { toast } from 'sonner';
-import { useNavigate } from 'react-router';
+import { useNavigate, useSearchParams } from 'react-router';
 
 // ─── Inject fonts + design tokens once ────────────────────────────────────────
 const STYLE = `
@@ -140,6 +144,65 @@ const STYLE = `
     background: color-mix(in srgb, var(--primary) 85%, black);
   }
   .s-btn-primary:disabled { opacity: .5; cursor: not-allowed; }
+  .s-btn-ghost {
+    background: transparent; color: var(--card-foreground);
+    border: 1px solid var(--border);
+  }
+  .s-btn-ghost:hover:not(:disabled) { background: var(--muted); }
+  .s-btn-ghost:disabled { opacity: .5; cursor: not-allowed; }
+  .s-btn-row { display: flex; flex-wrap: wrap; gap: .6rem; }
+
+  /* Two-factor */
+  .tf-status {
+    display: inline-flex; align-items: center; gap: .4rem;
+    font-size: .78rem; font-weight: 600; padding: .25rem .7rem; border-radius: 999px;
+    background: var(--muted); color: var(--muted-foreground);
+  }
+  .tf-status.on { background: color-mix(in srgb, #10b981 15%, transparent); color: #059669; }
+  .tf-warn {
+    display: flex; gap: .6rem; align-items: flex-start;
+    padding: .8rem 1rem; border-radius: 10px; font-size: .84rem;
+    background: color-mix(in srgb, #f59e0b 12%, transparent); color: #b45309;
+  }
+  .tf-setup { display: grid; grid-template-columns: auto 1fr; gap: 1.5rem; align-items: start; }
+  .tf-qr {
+    width: 168px; height: 168px; border-radius: 12px; border: 1px solid var(--border);
+    background: white; padding: .5rem; box-sizing: border-box;
+    display: flex; align-items: center; justify-content: center; text-align: center;
+    font-size: .75rem; color: #64748b;
+  }
+  .tf-qr img { width: 100%; height: 100%; image-rendering: pixelated; }
+  .tf-secret {
+    font-family: ui-monospace, monospace; font-size: .85rem; letter-spacing: .08em;
+    word-break: break-all; background: var(--input-background);
+    border: 1px solid var(--border); border-radius: 10px; padding: .65rem .9rem;
+  }
+  .tf-codes {
+    display: grid; grid-template-columns: repeat(2, 1fr); gap: .4rem 1.5rem;
+    font-family: ui-monospace, monospace; font-size: .9rem;
+    background: var(--input-background); border: 1px solid var(--border);
+    border-radius: 10px; padding: 1rem 1.25rem;
+  }
+
+  /* Sessions */
+  .session-row {
+    display: flex; align-items: center; gap: .9rem;
+    padding: .85rem 0; border-bottom: 1px solid var(--border);
+  }
+  .session-row:last-child { border-bottom: none; }
+  .session-icon {
+    width: 36px; height: 36px; border-radius: 10px; flex-shrink: 0;
+    display: flex; align-items: center; justify-content: center;
+    background: var(--muted); color: var(--muted-foreground);
+  }
+  .session-main { flex: 1; min-width: 0; }
+  .session-main strong { font-size: .875rem; font-weight: 600; color: var(--card-foreground); }
+  .session-main p { font-size: .78rem; color: var(--muted-foreground); margin: .1rem 0 0; }
+  .session-current {
+    font-size: .7rem; font-weight: 600; margin-left: .5rem; padding: .1rem .5rem; border-radius: 999px;
+    background: color-mix(in srgb, #10b981 15%, transparent); color: #059669;
+  }
+  .check-row { display: flex; align-items: center; gap: .6rem; font-size: .85rem; cursor: pointer; }
 
   /* Notification rows */
   .notif-row {
@@ -211,10 +274,322 @@ function Field({ label, hint, error, children }: {
   );
 }
 
+function OtpField({ value, onChange, disabled }: { value: string; onChange: (v: string) => void; disabled?: boolean }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled}
+      inputMode="numeric" pattern="^[0-9]*$" autoComplete="one-time-code">
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map(i => <InputOTPSlot key={i} index={i} />)}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+/** TOTP enrollment, recovery codes and turning 2FA off. */
+function TwoFactorSettings() {
+  const { user, refreshProfile } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  // Shown once, right after they are generated
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<'regenerate' | 'disable' | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadStatus = () =>
+    authApi.getTwoFactorStatus()
+      .then(setStatus)
+      .catch(() => toast.error('Error loading two-factor settings'));
+
+  useEffect(() => { loadStatus(); }, []);
+
+  const run = async (task: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (err) {
+      toast.error((err as ApiError)?.userMessage ?? fallback);
+    } finally { setBusy(false); }
+  };
+
+  const startSetup = () => run(async () => {
+    setSetup(await authApi.setupTwoFactor());
+    setCode('');
+  }, 'Error starting the setup');
+
+  const enable = () => run(async () => {
+    const res = await authApi.enableTwoFactor(code);
+    setRecoveryCodes(res.recovery_codes);
+    setSetup(null);
+    setCode('');
+    toast.success('Two-factor authentication is on');
+    await Promise.all([loadStatus(), refreshProfile()]);
+  }, 'Invalid code');
+
+  const regenerate = () => run(async () => {
+    const res = await authApi.regenerateRecoveryCodes(code);
+    setRecoveryCodes(res.recovery_codes);
+    setAction(null);
+    setCode('');
+    toast.success('New recovery codes generated — the old ones no longer work');
+    await loadStatus();
+  }, 'Invalid code');
+
+  const disable = () => run(async () => {
+    await authApi.disableTwoFactor(password);
+    setAction(null);
+    setPassword('');
+    setRecoveryCodes(null);
+    toast.success('Two-factor authentication is off');
+    await Promise.all([loadStatus(), refreshProfile()]);
+  }, 'Error turning off two-factor authentication');
+
+  const copyCodes = () => {
+    navigator.clipboard.writeText(recoveryCodes!.join('\n'))
+      .then(() => toast.success('Recovery codes copied'))
+      .catch(() => toast.error('Unable to copy — select the codes instead'));
+  };
+
+  const downloadCodes = () => {
+    const text = `FASI recovery codes for ${user?.email}\n\n${recoveryCodes!.join('\n')}\n`;
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'fasi-recovery-codes.txt';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <SCard icon={<KeyRound size={16} />} title="Two-factor authentication"
+      desc="Ask for a code from an authenticator app (Google Authenticator, Authy, 1Password…) when you sign in.">
+      {!status ? (
+        <div style={{ display: 'flex', justifyContent: 'center', padding: '1rem' }}>
+          <Loader2 size={22} className="spin" style={{ color: 'var(--muted-foreground)' }} />
+        </div>
+      ) : (
+        <>
+          <div>
+            <span className={`tf-status${status.enabled ? ' on' : ''}`}>
+              {status.enabled ? <><Check size={13} /> On · {status.recovery_codes_left} recovery codes left</> : 'Off'}
+            </span>
+          </div>
+
+          {status.required && !status.enabled && (
+            <div className="tf-warn">
+              <AlertTriangle size={16} style={{ flexShrink: 0, marginTop: 2 }} />
+              Your administrator requires two-factor authentication for managers. Set it up to keep using the dashboard.
+            </div>
+          )}
+
+          {recoveryCodes && (
+            <>
+              <Field label="Recovery codes" hint="Each code signs you in once if you lose your phone. Store them somewhere safe — they won't be shown again.">
+                <div className="tf-codes">
+                  {recoveryCodes.map(c => <span key={c}>{c}</span>)}
+                </div>
+              </Field>
+              <div className="s-btn-row">
+                <button className="s-btn s-btn-ghost" onClick={copyCodes}><Copy size={14} /> Copy</button>
+                <button className="s-btn s-btn-ghost" onClick={downloadCodes}><Download size={14} /> Download</button>
+                <button className="s-btn s-btn-primary" onClick={() => setRecoveryCodes(null)}><Check size={14} /> I've saved them</button>
+              </div>
+              <div className="divider" />
+            </>
+          )}
+
+          {!status.enabled && !setup && (
+            <div>
+              <button className="s-btn s-btn-primary" onClick={startSetup} disabled={busy}>
+                {busy ? <><Loader2 size={14} className="spin" /> Starting…</> : <><Shield size={14} /> Set up two-factor authentication</>}
+              </button>
+            </div>
+          )}
+
+          {!status.enabled && setup && (
+            <>
+              <div className="tf-setup">
+                <div className="tf-qr">
+                  {setup.qr_code
+                    ? <img src={setup.qr_code} alt="QR code for your authenticator app" />
+                    : 'Enter the key by hand in your authenticator app'}
+                </div>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                  <Field label="1. Scan the QR code" hint="Or type this key into the app, or open the link on your phone.">
+                    <div className="tf-secret">{setup.secret.match(/.{1,4}/g)?.join(' ')}</div>
+                  </Field>
+                  <a href={setup.otpauth_url} style={{ fontSize: '.8rem', color: 'var(--primary)' }}>
+                    Open in authenticator app
+                  </a>
+                </div>
+              </div>
+              <Field label="2. Enter the 6-digit code the app shows">
+                <OtpField value={code} onChange={setCode} disabled={busy} />
+              </Field>
+              <div className="s-btn-row">
+                <button className="s-btn s-btn-primary" onClick={enable} disabled={busy || code.length < 6}>
+                  {busy ? <><Loader2 size={14} className="spin" /> Verifying…</> : <><Check size={14} /> Turn on</>}
+                </button>
+                <button className="s-btn s-btn-ghost" onClick={() => setSetup(null)} disabled={busy}>Cancel</button>
+              </div>
+            </>
+          )}
+
+          {status.enabled && action === null && (
+            <div className="s-btn-row">
+              <button className="s-btn s-btn-ghost" onClick={() => { setCode(''); setAction('regenerate'); }}>
+                <KeyRound size={14} /> New recovery codes
+              </button>
+              {!status.required && (
+                <button className="s-btn s-btn-ghost" onClick={() => { setPassword(''); setAction('disable'); }}>
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+
+          {status.enabled && action === 'regenerate' && (
+            <>
+              <Field label="Code from your authenticator app" hint="The current recovery codes stop working once new ones are generated.">
+                <OtpField value={code} onChange={setCode} disabled={busy} />
+              </Field>
+              <div className="s-btn-row">
+                <button className="s-btn s-btn-primary" onClick={regenerate} disabled={busy || code.length < 6}>
+                  {busy ? <><Loader2 size={14} className="spin" /> Generating…</> : 'Generate new codes'}
+                </button>
+                <button className="s-btn s-btn-ghost" onClick={() => setAction(null)} disabled={busy}>Cancel</button>
+              </div>
+            </>
+          )}
+
+          {status.enabled && action === 'disable' && (
+            <>
+              <Field label="Current password *" hint="Your account will only be protected by its password.">
+                <input className="s-input" type="password" autoComplete="current-password"
+                  value={password} onChange={e => setPassword(e.target.value)} />
+              </Field>
+              <div className="s-btn-row">
+                <button className="s-btn s-btn-primary" onClick={disable} disabled={busy || !password}>
+                  {busy ? <><Loader2 size={14} className="spin" /> Turning off…</> : 'Turn off two-factor authentication'}
+                </button>
+                <button className="s-btn s-btn-ghost" onClick={() => setAction(null)} disabled={busy}>Cancel</button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </SCard>
+  );
+}
+
+const RELATIVE = new Intl.RelativeTimeFormat('en', { numeric: 'auto' });
+
+function lastSeen(iso: string) {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (minutes < 2) return 'Active now';
+  if (minutes < 60) return RELATIVE.format(-minutes, 'minute');
+  if (minutes < 48 * 60) return RELATIVE.format(-Math.round(minutes / 60), 'hour');
+  return RELATIVE.format(-Math.round(minutes / 1440), 'day');
+}
+
+/** The devices signed in to this account, with sign-out per device or for all others. */
+function SessionsSettings() {
+  const [sessions, setSessions] = useState<Session[] | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const loadSessions = () =>
+    authApi.getSessions()
+      .then(res => setSessions(res.sessions))
+      .catch(() => toast.error('Error loading sessions'));
+
+  useEffect(() => { loadSessions(); }, []);
+
+  const revoke = async (session: Session) => {
+    setRevoking(session.id);
+    try {
+      await authApi.revokeSession(session.id);
+      toast.success(`${session.device} · ${session.browser} signed out`);
+      setSessions(prev => prev?.filter(s => s.id !== session.id) ?? null);
+    } catch (err) {
+      toast.error((err as ApiError)?.userMessage ?? 'Error signing the session out');
+    } finally { setRevoking(null); }
+  };
+
+  const revokeOthers = async () => {
+    setRevoking('others');
+    try {
+      const res = await authApi.revokeOtherSessions();
+      toast.success(res.message);
+      await loadSessions();
+    } catch (err) {
+      toast.error((err as ApiError)?.userMessage ?? 'Error signing the other sessions out');
+    } finally { setRevoking(null); }
+  };
+
+  const others = sessions?.filter(s => !s.current).length ?? 0;
+
+  return (
+    <SCard icon={<Monitor size={16} />} title="Sessions"
+      desc="Devices signed in to your account. Sign out any you don't recognize, then change your password.">
+      {!sessions ? (
+        <div style={{ display: 'flex', justifyContent: 'center', padding: '1rem' }}>
+          <Loader2 size={22} className="spin" style={{ color: 'var(--muted-foreground)' }} />
+        </div>
+      ) : (
+        <>
+          <div>
+            {sessions.map(s => (
+              <div key={s.id} className="session-row">
+                <div className="session-icon">
+                  {/iPhone|iPad|Android/.test(s.device) ? <Smartphone size={16} /> : <Monitor size={16} />}
+                </div>
+                <div className="session-main">
+                  <strong>{s.device} · {s.browser}</strong>
+                  {s.current && <span className="session-current">This device</span>}
+                  <p>
+                    {[s.location ?? 'Unknown location', s.ip_address].filter(Boolean).join(' · ')}
+                    {' · '}
+                    {s.current ? 'Active now' : lastSeen(s.last_activity)}
+                  </p>
+                </div>
+                {!s.current && (
+                  <button className="s-btn s-btn-ghost" onClick={() => revoke(s)} disabled={revoking !== null}>
+                    {revoking === s.id ? <Loader2 size={14} className="spin" /> : <LogOut size={14} />} Sign out
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {others > 0 && (
+            <div>
+              <button className="s-btn s-btn-primary" onClick={revokeOthers} disabled={revoking !== null}>
+                {revoking === 'others'
+                  ? <><Loader2 size={14} className="spin" /> Signing out…</>
+                  : <><LogOut size={14} /> Sign out {others} other session{others === 1 ? '' : 's'}</>}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </SCard>
+  );
+}
+
 // ─── Main component ────────────────────────────────────────────────────────────
 
 type Tab = 'profile' | 'company' | 'notifications' | 'security';
 
+interface ProfileFormValues { first_name: string; last_name: string; phone_number: string }
+interface PasswordFormValues { old_password: string; new_password: string; new_password_confirm: string; logout_other_sessions: boolean }
+
+const PROFILE_FIELDS: ServerFieldMap<ProfileFormValues> = {
+  first_name: 'first_name', last_name: 'last_name', phone_number: 'phone_number',
+};
+const PASSWORD_FIELDS: ServerFieldMap<PasswordFormValues> = {
+  old_password: 'old_password', new_password: 'new_password', new_password_confirm: 'new_password_confirm',
+};
+
 const NAV: { id: Tab; label: string; icon: React.ReactNode }[] = [
   { id: 'profile',       label: 'Profile',       icon: <User size={15} /> },
   { id: 'company',       label: 'Company',        icon: <Building size={15} /> },
@@ -226,62 +601,63 @@ export function SettingsPage() {
   inject(STYLE);
   const { user, logout, refreshProfile } = useAuth();
   const navigate = useNavigate();
-  const [tab, setTab] = useState<Tab>('profile');
+  const [searchParams] = useSearchParams();
+  const [tab, setTab] = useState<Tab>(() => NAV.find(n => n.id === searchParams.get('tab'))?.id ?? 'profile');
 
   // ── Profile ──────────────────────────────────────────────────────────────
-  const [profileForm, setProfileForm] = useState({ first_name: '', last_name: '', phone_number: '' });
+  const profileForm = useForm<ProfileFormValues>({ defaultValues: { first_name: '', last_name: '', phone_number: '' } });
+  const profileErrors = profileForm.formState.errors;
   const [loadingProfile, setLoadingProfile] = useState(true);
   const [savingProfile, setSavingProfile] = useState(false);
 
   useEffect(() => {
     api.get<{ first_name: string; last_name: string; phone_number: string | null }>('/users/profile/')
-      .then(d => setProfileForm({ first_name: d.first_name || '', last_name: d.last_name || '', phone_number: d.phone_number || '' }))
+      .then(d => profileForm.reset({ first_name: d.first_name || '', last_name: d.last_name || '', phone_number: d.phone_number || '' }))
       .catch(() => {
         const parts = user?.name?.split(' ') ?? [];
-        setProfileForm({ first_name: parts[0] || '', last_name: parts.slice(1).join(' ') || '', phone_number: '' });
+        profileForm.reset({ first_name: parts[0] || '', last_name: parts.slice(1).join(' ') || '', phone_number: '' });
       })
       .finally(() => setLoadingProfile(false));
   }, []);
 
-  const handleSaveProfile = async () => {
-    if (!profileForm.first_name.trim()) return toast.error('First name is required');
-    if (!profileForm.last_name.trim()) return toast.error('Last name is required');
+  const handleSaveProfile = profileForm.handleSubmit(async values => {
     setSavingProfile(true);
     try {
-      await api.patch('/users/profile/', profileForm);
+      await api.patch('/users/profile/', values);
       await refreshProfile();
       toast.success('Profile updated');
-    } catch (err: any) {
-      const d = err?.data ?? {};
-      toast.error(d.first_name?.[0] || d.last_name?.[0] || d.phone_number?.[0] || err?.userMessage || 'Error updating profile');
+    } catch (err) {
+      const message = applyServerErrors(err, profileForm.setError, PROFILE_FIELDS, 'Error updating profile');
+      if (message) toast.error(message);
     } finally { setSavingProfile(false); }
-  };
+  });
 
   // ── Password ─────────────────────────────────────────────────────────────
-  const [pwForm, setPwForm] = useState({ old_password: '', new_password: '', new_password_confirm: '' });
+  const pwForm = useForm<PasswordFormValues>({
+    defaultValues: { old_password: '', new_password: '', new_password_confirm: '', logout_other_sessions: true },
+  });
+  const pwErrors = pwForm.formState.errors;
   const [showPw, setShowPw] = useState({ old: false, new: false, confirm: false });
   const [savingPw, setSavingPw] = useState(false);
-  const [pwErrors, setPwErrors] = useState<Record<string, string>>({});
-
-  const handleChangePassword = async () => {
-    setPwErrors({});
-    if (!pwForm.old_password) return setPwErrors(e => ({ ...e, old_password: 'Required' }));
-    if (pwForm.new_password.length < 8) return setPwErrors(e => ({ ...e, new_password: 'Minimum 8 characters' }));
-    if (pwForm.new_password !== pwForm.new_password_confirm) return setPwErrors(e => ({ ...e, new_password_confirm: 'Passwords do not match' }));
-    if (pwForm.old_password === pwForm.new_password) return setPwErrors(e => ({ ...e, new_password: 'Must differ from current password' }));
+
+  const handleChangePassword = pwForm.handleSubmit(async values => {
     setSavingPw(true);
     try {
-      await api.post('/users/change-password/', pwForm);
-      toast.success('Password changed — signing you out…');
+      await api.post('/users/change-password/', values);
+      toast.success(values.logout_other_sessions
+        ? 'Password changed and other devices signed out — signing you out…'
+        : 'Password changed — signing you out…');
       setTimeout(async () => { await logout(); navigate('/login'); }, 2000);
-    } catch (err: any) {
-      const d = err?.data ?? {};
-      if (d.error) setPwErrors({ old_password: d.error });
-      else if (d.old_password) setPwErrors({ old_password: [d.old_password].flat()[0] });
-      else if (d.new_password) setPwErrors({ new_password: [d.new_password].flat()[0] });
-      else toast.error(err?.userMessage ?? 'Error changing password');
+    } catch (err) {
+      // The view answers a wrong current password with a bare { error }.
+      if (err instanceof ApiError && err.status === 400 && (err.data as { error?: string })?.error) {
+        pwForm.setError('old_password', { type: 'server', message: err.message }, { shouldFocus: true });
+        return;
+      }
+      const message = applyServerErrors(err, pwForm.setError, PASSWORD_FIELDS, 'Error changing password');
+      if (message) toast.error(message);
     } finally { setSavingPw(false); }
-  };
+  });
 
   // ── Render ────────────────────────────────────────────────────────────────
   return (
@@ -317,13 +693,13 @@ export function SettingsPage() {
               ) : (
                 <>
                   <div className="field-grid">
-                    <Field label="First name *">
-                      <input className="s-input" value={profileForm.first_name} placeholder="First name"
-                        onChange={e => setProfileForm(f => ({ ...f, first_name: e.target.value }))} />
+                    <Field label="First name *" error={profileErrors.first_name?.message}>
+                      <input className={`s-input${profileErrors.first_name ? ' error' : ''}`} placeholder="First name"
+                        {...profileForm.register('first_name', { validate: v => !!v.trim() || 'First name is required' })} />
                     </Field>
-                    <Field label="Last name *">
-                      <input className="s-input" value={profileForm.last_name} placeholder="Last name"
-                        onChange={e => setProfileForm(f => ({ ...f, last_name: e.target.value }))} />
+                    <Field label="Last name *" error={profileErrors.last_name?.message}>
+                      <input className={`s-input${profileErrors.last_name ? ' error' : ''}`} placeholder="Last name"
+                        {...profileForm.register('last_name', { validate: v => !!v.trim() || 'Last name is required' })} />
                     </Field>
                   </div>
 
@@ -331,9 +707,9 @@ export function SettingsPage() {
                     <input className="s-input" type="email" value={user?.email || ''} disabled />
                   </Field>
 
-                  <Field label="Phone number">
-                    <input className="s-input" type="tel" value={profileForm.phone_number} placeholder="+213 6XX XXX XXX"
-                      onChange={e => setProfileForm(f => ({ ...f, phone_number: e.target.value }))} />
+                  <Field label="Phone number" error={profileErrors.phone_number?.message}>
+                    <input className={`s-input${profileErrors.phone_number ? ' error' : ''}`} type="tel" placeholder="+213 6XX XXX XXX"
+                      {...profileForm.register('phone_number')} />
                   </Field>
 
                   <Field label="Role">
@@ -397,49 +773,63 @@ export function SettingsPage() {
 
           {/* ── SECURITY ── */}
           {tab === 'security' && (
-            <SCard icon={<Shield size={16} />} title="Change password" desc="After updating, all sessions will be closed and you'll need to sign in again.">
-              {/* Old */}
-              <Field label="Current password *" error={pwErrors.old_password}>
-                <div className="input-wrap">
-                  <input className={`s-input${pwErrors.old_password ? ' error' : ''}`}
-                    type={showPw.old ? 'text' : 'password'} value={pwForm.old_password}
-                    onChange={e => setPwForm(f => ({ ...f, old_password: e.target.value }))} />
-                  <button className="eye-btn" type="button" onClick={() => setShowPw(s => ({ ...s, old: !s.old }))}>
-                    {showPw.old ? <EyeOff size={15} /> : <Eye size={15} />}
-                  </button>
-                </div>
-              </Field>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+              <TwoFactorSettings />
+              <SCard icon={<Shield size={16} />} title="Change password" desc="After updating, you'll need to sign in again on this device.">
+                {/* Old */}
+                <Field label="Current password *" error={pwErrors.old_password?.message}>
+                  <div className="input-wrap">
+                    <input className={`s-input${pwErrors.old_password ? ' error' : ''}`}
+                      type={showPw.old ? 'text' : 'password'}
+                      {...pwForm.register('old_password', { required: 'Required' })} />
+                    <button className="eye-btn" type="button" onClick={() => setShowPw(s => ({ ...s, old: !s.old }))}>
+                      {showPw.old ? <EyeOff size={15} /> : <Eye size={15} />}
+                    </button>
+                  </div>
+                </Field>
+
+                {/* New */}
+                <Field label="New password *" hint="Minimum 8 characters" error={pwErrors.new_password?.message}>
+                  <div className="input-wrap">
+                    <input className={`s-input${pwErrors.new_password ? ' error' : ''}`}
+                      type={showPw.new ? 'text' : 'password'}
+                      {...pwForm.register('new_password', {
+                        minLength: { value: 8, message: 'Minimum 8 characters' },
+                        validate: v => v !== pwForm.getValues('old_password') || 'Must differ from current password',
+                      })} />
+                    <button className="eye-btn" type="button" onClick={() => setShowPw(s => ({ ...s, new: !s.new }))}>
+                      {showPw.new ? <EyeOff size={15} /> : <Eye size={15} />}
+                    </button>
+                  </div>
+                </Field>
+
+                {/* Confirm */}
+                <Field label="Confirm new password *" error={pwErrors.new_password_confirm?.message}>
+                  <div className="input-wrap">
+                    <input className={`s-input${pwErrors.new_password_confirm ? ' error' : ''}`}
+                      type={showPw.confirm ? 'text' : 'password'}
+                      {...pwForm.register('new_password_confirm', {
+                        validate: v => v === pwForm.getValues('new_password') || 'Passwords do not match',
+                      })} />
+                    <button className="eye-btn" type="button" onClick={() => setShowPw(s => ({ ...s, confirm: !s.confirm }))}>
+                      {showPw.confirm ? <EyeOff size={15} /> : <Eye size={15} />}
+                    </button>
+                  </div>
+                </Field>
 
-              {/* New */}
-              <Field label="New password *" hint="Minimum 8 characters" error={pwErrors.new_password}>
-                <div className="input-wrap">
-                  <input className={`s-input${pwErrors.new_password ? ' error' : ''}`}
-                    type={showPw.new ? 'text' : 'password'} value={pwForm.new_password}
-                    onChange={e => setPwForm(f => ({ ...f, new_password: e.target.value }))} />
-                  <button className="eye-btn" type="button" onClick={() => setShowPw(s => ({ ...s, new: !s.new }))}>
-                    {showPw.new ? <EyeOff size={15} /> : <Eye size={15} />}
-                  </button>
-                </div>
-              </Field>
+                <label className="check-row">
+                  <input type="checkbox" {...pwForm.register('logout_other_sessions')} />
+                  Also sign out of every other device
+                </label>
 
-              {/* Confirm */}
-              <Field label="Confirm new password *" error={pwErrors.new_password_confirm}>
-                <div className="input-wrap">
-                  <input className={`s-input${pwErrors.new_password_confirm ? ' error' : ''}`}
-                    type={showPw.confirm ? 'text' : 'password'} value={pwForm.new_password_confirm}
-                    onChange={e => setPwForm(f => ({ ...f, new_password_confirm: e.target.value }))} />
-                  <button className="eye-btn" type="button" onClick={() => setShowPw(s => ({ ...s, confirm: !s.confirm }))}>
-                    {showPw.confirm ? <EyeOff size={15} /> : <Eye size={15} />}
+                <div>
+                  <button className="s-btn s-btn-primary" onClick={handleChangePassword} disabled={savingPw}>
+                    {savingPw ? <><Loader2 size={14} className="spin" /> Updating…</> : <><Shield size={14} /> Update password</>}
                   </button>
                 </div>
-              </Field>
-
-              <div>
-                <button className="s-btn s-btn-primary" onClick={handleChangePassword} disabled={savingPw}>
-                  {savingPw ? <><Loader2 size={14} className="spin" /> Updating…</> : <><Shield size={14} /> Update password</>}
-                </button>
-              </div>
-            </SCard>
+              </SCard>
+              <SessionsSettings />
+            </div>
           )}
 
         </div>
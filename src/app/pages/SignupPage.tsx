@@ -1,10 +1,14 @@
 import { useState } from 'react';
+import { useForm } from 'react-hook-form';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Link, useNavigate } from 'react-router';
 import { Eye, EyeOff, UserPlus, Check, Building2, Mail, Phone, User, Lock, Globe, MapPin, Server } from 'lucide-react';
+import { applyServerErrors, type ServerFieldMap } from '../lib/formErrors';
+import { authApi } from '../lib/authApi';
+import { SignupDocumentsField, documentUploads, type DocumentFiles } from '../components/SignupDocumentsField';
 import { toast } from 'sonner';
 import logoImage from '../components/image/logo.jpeg';
 
@@ -148,45 +152,77 @@ const COUNTRIES_CITIES: Record<string, string[]> = {
   Other: ['Other'],
 };
 
+// ─── 3. Form ──────────────────────────────────────────────────────────────────
+
+interface SignupFormValues {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  companyName: string;
+  industry: string;
+  country: string;
+  city: string;
+  currentErp: string;
+  password: string;
+  confirmPassword: string;
+}
+
+// Manager signup serializer fields → form inputs.
+const SERVER_FIELDS: ServerFieldMap<SignupFormValues> = {
+  first_name:       'firstName',
+  last_name:        'lastName',
+  email:            'email',
+  phone_number:     'phone',
+  company_name:     'companyName',
+  industry:         'industry',
+  country:          'country',
+  city:             'city',
+  current_erp:      'currentErp',
+  password:         'password',
+  password_confirm: 'confirmPassword',
+};
+
 // ─── Component ────────────────────────────────────────────────────────────────
 
 export function SignupPage() {
-  const { signup, isLoading } = useAuth();
+  const { signup, isLoading: isSigningUp } = useAuth();
   const navigate = useNavigate();
 
-  const [formData, setFormData] = useState({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phone: '',
-    companyName: '',
-    industry: '',
-    country: '',
-    city: '',
-    currentErp: '',
-    password: '',
-    confirmPassword: '',
+  const {
+    register,
+    handleSubmit,
+    setError,
+    setValue,
+    getValues,
+    watch,
+    formState: { errors },
+  } = useForm<SignupFormValues>({
+    defaultValues: {
+      firstName: '', lastName: '', email: '', phone: '',
+      companyName: '', industry: '', country: '', city: '', currentErp: '',
+      password: '', confirmPassword: '',
+    },
   });
   const [showPassword, setShowPassword] = useState(false);
-
-  const set = (key: keyof typeof formData) => (v: string) => {
-    if (key === 'country') {
-      setFormData(prev => ({ ...prev, country: v, city: '' }));
-    } else {
-      setFormData(prev => ({ ...prev, [key]: v }));
+  const [documents, setDocuments] = useState<DocumentFiles>({});
+  const [isUploading, setIsUploading] = useState(false);
+  const isLoading = isSigningUp || isUploading;
+
+  const country = watch('country');
+  const availableCities = country ? (COUNTRIES_CITIES[country] ?? ['Other']) : [];
+
+  const onSubmit = async (formData: SignupFormValues) => {
+    let documentIds: string[];
+    setIsUploading(true);
+    try {
+      documentIds = await authApi.uploadSignupDocuments(documentUploads(documents));
+    } catch (err: any) {
+      toast.error(err?.userMessage ?? 'Unable to upload your documents');
+      return;
+    } finally {
+      setIsUploading(false);
     }
-  };
-
-  const availableCities = formData.country ? (COUNTRIES_CITIES[formData.country] ?? ['Other']) : [];
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!formData.companyName.trim())  { toast.error('Company name is required'); return; }
-    if (!formData.industry)            { toast.error('Please select a business activity'); return; }
-    if (!formData.country)             { toast.error('Please select a country'); return; }
-    if (!formData.city)                { toast.error('Please select a city'); return; }
-    if (formData.password !== formData.confirmPassword) { toast.error('Passwords do not match'); return; }
-    if (formData.password.length < 8)  { toast.error('Password must be at least 8 characters'); return; }
 
     const result = await signup({
       name:        `${formData.firstName} ${formData.lastName}`.trim(),
@@ -199,19 +235,27 @@ export function SignupPage() {
       country:     formData.country,
       city:        formData.city,
       currentErp:  formData.currentErp,
+      documents:   documentIds,
     });
 
     if (result.success) {
       toast.success(result.message);
       setTimeout(() => navigate('/login'), 2000);
-    } else {
-      toast.error(result.message);
+      return;
     }
+    const message = result.error
+      ? applyServerErrors(result.error, setError, SERVER_FIELDS, result.message)
+      : result.message;
+    if (message) toast.error(message);
   };
 
+  const fieldError = (id: keyof SignupFormValues) =>
+    errors[id] && <p className="text-[11px] text-red-500">{errors[id]?.message}</p>;
+
   const textField = (
-    id: keyof typeof formData, label: string, type: string,
-    placeholder: string, icon: React.ReactNode, required = true, hint?: string
+    id: keyof SignupFormValues, label: string, type: string,
+    placeholder: string, icon: React.ReactNode, required = true, hint?: string,
+    requiredMessage = `${label} is required`
   ) => (
     <div className="space-y-1.5">
       <Label htmlFor={id} className="text-xs font-semibold uppercase tracking-wide text-slate-500">
@@ -219,17 +263,19 @@ export function SignupPage() {
       </Label>
       <div className="relative">
         <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">{icon}</span>
-        <Input id={id} type={type} placeholder={placeholder} value={formData[id]}
-          onChange={e => set(id)(e.target.value)} required={required} disabled={isLoading}
-          className="pl-9 h-10 text-sm border-slate-200 focus:border-sky-400 focus:ring-sky-400/20 bg-slate-50 dark:bg-slate-800/50" />
+        <Input id={id} type={type} placeholder={placeholder} disabled={isLoading}
+          {...register(id, required ? { validate: v => !!v.trim() || requiredMessage } : {})}
+          className={`pl-9 h-10 text-sm border-slate-200 focus:border-sky-400 focus:ring-sky-400/20 bg-slate-50 dark:bg-slate-800/50 ${errors[id] ? 'border-red-500' : ''}`} />
       </div>
-      {hint && <p className="text-[11px] text-slate-400">{hint}</p>}
+      {fieldError(id)}
+      {hint && !errors[id] && <p className="text-[11px] text-slate-400">{hint}</p>}
     </div>
   );
 
   const selectField = (
-    id: keyof typeof formData, label: string, options: string[],
-    icon: React.ReactNode, placeholder: string, required = true, disabled = false
+    id: keyof SignupFormValues, label: string, options: string[],
+    icon: React.ReactNode, placeholder: string, required = true, disabled = false,
+    requiredMessage = `Please select a ${label.toLowerCase()}`
   ) => (
     <div className="space-y-1.5">
       <Label htmlFor={id} className="text-xs font-semibold uppercase tracking-wide text-slate-500">
@@ -237,9 +283,13 @@ export function SignupPage() {
       </Label>
       <div className="relative">
         <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none z-10">{icon}</span>
-        <select id={id} value={formData[id]} onChange={e => set(id)(e.target.value)}
-          required={required} disabled={isLoading || disabled}
-          className={`w-full pl-9 pr-8 h-10 text-sm border border-slate-200 rounded-md focus:outline-none focus:border-sky-400 focus:ring-2 focus:ring-sky-400/20 bg-slate-50 dark:bg-slate-800/50 appearance-none ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${!formData[id] ? 'text-slate-400' : 'text-slate-800 dark:text-slate-100'}`}>
+        <select id={id} disabled={isLoading || disabled}
+          {...register(id, {
+            required: required && requiredMessage,
+            // Picking another country invalidates the city.
+            onChange: id === 'country' ? () => setValue('city', '') : undefined,
+          })}
+          className={`w-full pl-9 pr-8 h-10 text-sm border border-slate-200 rounded-md focus:outline-none focus:border-sky-400 focus:ring-2 focus:ring-sky-400/20 bg-slate-50 dark:bg-slate-800/50 appearance-none ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${!watch(id) ? 'text-slate-400' : 'text-slate-800 dark:text-slate-100'} ${errors[id] ? 'border-red-500' : ''}`}>
           <option value="" disabled>{placeholder}</option>
           {options.map(opt => <option key={opt} value={opt}>{opt}</option>)}
         </select>
@@ -247,6 +297,7 @@ export function SignupPage() {
           <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
         </svg>
       </div>
+      {fieldError(id)}
     </div>
   );
 
@@ -290,13 +341,13 @@ export function SignupPage() {
               <p className="text-slate-400 text-sm">Manager access · Pending administrator approval</p>
             </div>
             <div className="flex items-center gap-2 shrink-0">
-              {[1, 2, 3, 4].map(i => (
+              {[1, 2, 3, 4, 5].map(i => (
                 <div key={i} className="h-2 w-8 rounded-full" style={{ background: i === 1 ? '#0284c7' : '#bae6fd' }} />
               ))}
             </div>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-7">
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-7">
 
             {/* Section 1 — Identity */}
             <section>
@@ -325,14 +376,15 @@ export function SignupPage() {
                   <Building2 className="h-4 w-4" />, true, 'If the company already exists, you will be linked to it.')}
 
                 {selectField('industry', 'Business activity', INDUSTRIES,
-                  <Building2 className="h-4 w-4" />, 'Select your activity...')}
+                  <Building2 className="h-4 w-4" />, 'Select your activity...', true, false,
+                  'Please select a business activity')}
 
                 <div className="grid grid-cols-2 gap-4">
                   {selectField('country', 'Country', Object.keys(COUNTRIES_CITIES).sort(),
                     <Globe className="h-4 w-4" />, 'Select a country...')}
                   {selectField('city', 'City', availableCities, <MapPin className="h-4 w-4" />,
-                    formData.country ? 'Select a city...' : 'Select a country first...',
-                    true, !formData.country)}
+                    country ? 'Select a city...' : 'Select a country first...',
+                    true, !country)}
                 </div>
 
                 {/* Current ERP — free text input ✅ */}
@@ -347,20 +399,30 @@ export function SignupPage() {
                     </span>
                     <Input id="currentErp" type="text"
                       placeholder="e.g. SAP, Odoo, Custom software, None..."
-                      value={formData.currentErp}
-                      onChange={e => set('currentErp')(e.target.value)}
+                      {...register('currentErp')}
                       disabled={isLoading}
                       className="pl-9 h-10 text-sm border-slate-200 focus:border-sky-400 focus:ring-sky-400/20 bg-slate-50 dark:bg-slate-800/50" />
                   </div>
+                  {fieldError('currentErp')}
                   <p className="text-[11px] text-slate-400">The software currently used to manage your business (accounting, inventory, etc.)</p>
                 </div>
 
               </div>
             </section>
 
-            {/* Section 4 — Security */}
+            {/* Section 4 — Documents */}
             <section>
-              <SectionHeader index={4} label="Security" />
+              <SectionHeader index={4} label="Documents" />
+              <p className="text-xs text-slate-400 mb-3">
+                Attach your company's commercial register and tax ID certificate so the administrator can validate your account sooner.
+              </p>
+              <SignupDocumentsField kinds={['commercial_register', 'tax_id']} value={documents}
+                onChange={setDocuments} disabled={isLoading} />
+            </section>
+
+            {/* Section 5 — Security */}
+            <section>
+              <SectionHeader index={5} label="Security" />
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-1.5">
                   <Label htmlFor="password" className="text-xs font-semibold uppercase tracking-wide text-slate-500">
@@ -369,14 +431,18 @@ export function SignupPage() {
                   <div className="relative">
                     <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
                     <Input id="password" type={showPassword ? 'text' : 'password'} placeholder="Min. 8 characters"
-                      value={formData.password} onChange={e => setFormData(p => ({ ...p, password: e.target.value }))}
-                      required disabled={isLoading}
-                      className="pl-9 pr-10 h-10 text-sm border-slate-200 focus:border-sky-400 bg-slate-50 dark:bg-slate-800/50" />
+                      {...register('password', {
+                        required: 'Password is required',
+                        minLength: { value: 8, message: 'Password must be at least 8 characters' },
+                      })}
+                      disabled={isLoading}
+                      className={`pl-9 pr-10 h-10 text-sm border-slate-200 focus:border-sky-400 bg-slate-50 dark:bg-slate-800/50 ${errors.password ? 'border-red-500' : ''}`} />
                     <button type="button" onClick={() => setShowPassword(!showPassword)}
                       className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600">
                       {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                     </button>
                   </div>
+                  {fieldError('password')}
                 </div>
                 <div className="space-y-1.5">
                   <Label htmlFor="confirmPassword" className="text-xs font-semibold uppercase tracking-wide text-slate-500">
@@ -385,10 +451,13 @@ export function SignupPage() {
                   <div className="relative">
                     <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
                     <Input id="confirmPassword" type={showPassword ? 'text' : 'password'} placeholder="Repeat your password"
-                      value={formData.confirmPassword} onChange={e => setFormData(p => ({ ...p, confirmPassword: e.target.value }))}
-                      required disabled={isLoading}
-                      className="pl-9 h-10 text-sm border-slate-200 focus:border-sky-400 bg-slate-50 dark:bg-slate-800/50" />
+                      {...register('confirmPassword', {
+                        validate: v => v === getValues('password') || 'Passwords do not match',
+                      })}
+                      disabled={isLoading}
+                      className={`pl-9 h-10 text-sm border-slate-200 focus:border-sky-400 bg-slate-50 dark:bg-slate-800/50 ${errors.confirmPassword ? 'border-red-500' : ''}`} />
                   </div>
+                  {fieldError('confirmPassword')}
                 </div>
               </div>
             </section>
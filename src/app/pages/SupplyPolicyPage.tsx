@@ -5,7 +5,7 @@
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import axios from 'axios';
+import { api } from '../lib/api';
 import {
   ShoppingCart, Package, AlertTriangle, RefreshCw,
   Loader2, ChevronDown, BarChart3, ArrowUpRight,
@@ -17,11 +17,7 @@ import {
   LineChart, Line, Legend,
 } from 'recharts';
 import { formatCurrency, formatNumber } from '../lib/utils';
-
-function getAuthHeaders() {
-  const token = localStorage.getItem('fasi_access_token');
-  return token ? { Authorization: `Bearer ${token}` } : {};
-}
+import { useBranchScope, usePermission } from '../contexts/AuthContext';
 
 const C = {
   indigo:  '#6366f1', violet: '#8b5cf6', cyan:    '#0ea5e9',
@@ -198,6 +194,8 @@ function StatusBadge({ status }: { status: string }) {
 // MAIN PAGE
 // ════════════════════════════════════════════════════════════════
 export function SupplyPolicyPage() {
+  const canExport = usePermission('export', 'reports');
+  const branchScope = useBranchScope();
   const [supply,       setSupply]       = useState<SupplyData | null>(null);
   const [reorderList,  setReorderList]  = useState<StockProduct[]>([]);
   const [stockSummary, setStockSummary] = useState<StockSummary | null>(null);
@@ -215,13 +213,12 @@ export function SupplyPolicyPage() {
   const fetchAll = useCallback(async () => {
     setLoading(true); setError(null);
     try {
-      const headers = getAuthHeaders();
       const [supRes, stockRes] = await Promise.all([
-        axios.get('/api/kpi/supply/', { headers, params: { year: yearFilter, branch: branchFilter, category: catFilter } }),
-        axios.get('/api/kpi/stock/',  { headers, params: { year: yearFilter === 'all' ? undefined : yearFilter } }),
+        api.get<SupplyData>('/kpi/supply/', { params: { year: yearFilter, branch: branchFilter, category: catFilter } }),
+        api.get<any>('/kpi/stock/', { params: { year: yearFilter === 'all' ? undefined : yearFilter } }),
       ]);
-      setSupply(supRes.data as SupplyData);
-      const reorderRaw: StockProduct[] = (stockRes.data.reorder_list ?? []).map((p: any) => ({
+      setSupply(supRes);
+      const reorderRaw: StockProduct[] = (stockRes.reorder_list ?? []).map((p: any) => ({
         material_code: p.material_code ?? '', product_name:  p.product_name  ?? '',
         category:      p.category      ?? '',
         stock_qty:     parseFloat(p.stock_qty)     || 0, stock_value:   parseFloat(p.stock_value)   || 0,
@@ -235,9 +232,9 @@ export function SupplyPolicyPage() {
         status:        p.status ?? 'ok',
       }));
       setReorderList(reorderRaw);
-      setStockSummary(stockRes.data.stock_summary ?? null);
+      setStockSummary(stockRes.stock_summary ?? null);
     } catch (e: any) {
-      setError(e.response?.data?.detail ?? e.message ?? 'Failed to load supply data');
+      setError(e.message ?? 'Failed to load supply data');
     } finally { setLoading(false); }
   }, [yearFilter, branchFilter, catFilter]);
 
@@ -294,7 +291,7 @@ export function SupplyPolicyPage() {
   const itemsWithUsage = reorderList.filter(i => i.monthly_usage > 0).length;
 
   const yearOptions   = [{ key:'all', label:'All Years' },     ...(meta?.years      ?? []).map(y => ({ key:y, label:y }))];
-  const branchOptions = [{ key:'all', label:'All Branches' },  ...(meta?.branches   ?? []).sort().map(b => ({ key:b, label:b }))];
+  const branchOptions = branchScope.options([...(meta?.branches ?? [])].sort());
   const catOptions    = [{ key:'all', label:'All Categories' },...(meta?.categories ?? []).sort().map(c => ({ key:c, label:c }))];
 
   const totalValue = meta?.total_value ?? 0;
@@ -718,10 +715,12 @@ export function SupplyPolicyPage() {
             {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
             Refresh
           </button>
-          <button onClick={printReport} disabled={loading}
-            style={{ display:'flex', alignItems:'center', gap:6, height:36, padding:'0 14px', borderRadius:10, border:`1px solid ${C.indigo}40`, background:`${C.indigo}10`, color:C.indigo, fontSize:13, fontWeight:600, cursor:'pointer', opacity:loading?0.5:1 }}>
-            <Printer size={14} /> Print Report
-          </button>
+          {canExport && (
+            <button onClick={printReport} disabled={loading}
+              style={{ display:'flex', alignItems:'center', gap:6, height:36, padding:'0 14px', borderRadius:10, border:`1px solid ${C.indigo}40`, background:`${C.indigo}10`, color:C.indigo, fontSize:13, fontWeight:600, cursor:'pointer', opacity:loading?0.5:1 }}>
+              <Printer size={14} /> Print Report
+            </button>
+          )}
         </div>
       </div>
 
@@ -2,13 +2,17 @@ import { useState, useEffect, useCallback } from 'react';
 import {
   Users, UserPlus, Shield, Trash2, Loader2,
   Mail, Building2, RefreshCw, AlertTriangle, Search,
-  ArrowUpRight,
+  ArrowUpRight, Layers, History, FileSpreadsheet, Send, Ban,
 } from 'lucide-react';
+import { useNavigate } from 'react-router';
 import { Button } from '../components/ui/button';
 import { CreateUserDialog } from '../components/CreateUserDialog';
 import { ManagePermissionsDialog } from '../components/ManagePermissionsDialog';
+import { RoleTemplatesDialog } from '../components/RoleTemplatesDialog';
+import { BulkImportUsersDialog } from '../components/BulkImportUsersDialog';
 import { useAuth } from '../contexts/AuthContext';
-import { authApi } from '../lib/authApi';
+import { useReauth } from '../contexts/ReauthContext';
+import { authApi, type Invitation } from '../lib/authApi';
 import { toast } from 'sonner';
 
 interface Agent {
@@ -21,6 +25,9 @@ interface Agent {
   company_name: string | null;
   created_at: string;
   permissions_list: string[];
+  allowed_branches?: string[];
+  role_template?: string | null;
+  invitation?: Invitation | null;
 }
 
 // ── Design tokens ─────────────────────────────────────────────────────────
@@ -143,6 +150,7 @@ function StatusBadge({ status }: { status: string }) {
   const [color, label] =
     status === 'active'    ? [C.emerald, 'Active'    ] :
     status === 'suspended' ? [C.rose,    'Suspended' ] :
+    status === 'invited'   ? [C.cyan,    'Invited'   ] :
                              [C.amber,   'Pending'   ];
   return (
     <span style={{
@@ -179,9 +187,47 @@ function PermBadge({ count }: { count: number }) {
   );
 }
 
+// ── Invitation line ───────────────────────────────────────────────────────
+
+const shortDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { day: 'numeric', month: 'short' });
+
+function InviteStatus({ invitation }: { invitation: Invitation }) {
+  const [color, label] =
+    invitation.status === 'expired' ? [C.amber,     `Invitation expired on ${shortDate(invitation.expires_at)}`] :
+    invitation.status === 'revoked' ? [C.rose,      'Invitation revoked'] :
+                                      [css.mutedFg, `Invited ${shortDate(invitation.sent_at)} · link expires ${shortDate(invitation.expires_at)}`];
+  return (
+    <span style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 12, color }}>
+      <Send size={11} />
+      {label}
+    </span>
+  );
+}
+
+const actionButtonStyle: React.CSSProperties = {
+  display:        'flex',
+  alignItems:     'center',
+  gap:             5,
+  height:          34,
+  padding:        '0 14px',
+  borderRadius:    10,
+  border:         `1px solid ${css.border}`,
+  background:     'transparent',
+  color:           css.mutedFg,
+  fontSize:         12,
+  fontWeight:       600,
+  cursor:          'pointer',
+  flexShrink:       0,
+};
+
 // ── Agent row card ────────────────────────────────────────────────────────
 
-function AgentCard({ agent, onDelete }: { agent: Agent; onDelete: () => void }) {
+function AgentCard({ agent, templateName, onHistory, onResendInvite, onRevokeInvite, onDelete }: {
+  agent: Agent; templateName?: string; onHistory: () => void;
+  onResendInvite: () => void; onRevokeInvite: () => void; onDelete: () => void;
+}) {
+  const invitation = agent.status === 'invited' ? agent.invitation : null;
   const [hovered, setHovered] = useState(false);
   const initials = agent.full_name
     .split(' ').slice(0, 2).map(w => w[0]?.toUpperCase() ?? '').join('');
@@ -231,6 +277,23 @@ function AgentCard({ agent, onDelete }: { agent: Agent; onDelete: () => void })
               </p>
               <StatusBadge status={agent.status} />
               <PermBadge count={agent.permissions_list?.length ?? 0} />
+              {templateName && (
+                <span style={{
+                  display:      'inline-flex',
+                  alignItems:   'center',
+                  gap:           4,
+                  padding:      '2px 8px',
+                  borderRadius:  20,
+                  fontSize:      11,
+                  fontWeight:    600,
+                  background:   `${C.cyan}12`,
+                  color:         C.cyan,
+                  border:       `1px solid ${C.cyan}30`,
+                }}>
+                  <Layers size={10} />
+                  {templateName}
+                </span>
+              )}
             </div>
             <div style={{ display: 'flex', alignItems: 'center', gap: 16, marginTop: 5, flexWrap: 'wrap' }}>
               <span style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 12, color: css.mutedFg }}>
@@ -243,10 +306,33 @@ function AgentCard({ agent, onDelete }: { agent: Agent; onDelete: () => void })
                   {agent.company_name}
                 </span>
               )}
+              {invitation && <InviteStatus invitation={invitation} />}
             </div>
           </div>
         </div>
 
+        {/* Invitation controls */}
+        {invitation && (
+          <>
+            <button onClick={onResendInvite} style={{ ...actionButtonStyle, marginLeft: 'auto' }}>
+              <Send size={13} />
+              <span>Resend invite</span>
+            </button>
+            {invitation.status !== 'revoked' && (
+              <button onClick={onRevokeInvite} style={actionButtonStyle}>
+                <Ban size={13} />
+                <span>Revoke</span>
+              </button>
+            )}
+          </>
+        )}
+
+        {/* History link */}
+        <button onClick={onHistory} style={{ ...actionButtonStyle, marginLeft: invitation ? 0 : 'auto' }}>
+          <History size={13} />
+          <span>History</span>
+        </button>
+
         {/* Delete button */}
         <button
           onClick={onDelete}
@@ -389,20 +475,26 @@ function DeleteConfirmModal({
 
 export function TeamPage() {
   const { user, createAgent, updateUserPermissions } = useAuth();
+  const { requireRecentAuth } = useReauth();
+  const navigate = useNavigate();
 
   const [agents,                setAgents]                = useState<Agent[]>([]);
   const [isLoading,             setIsLoading]             = useState(true);
   const [nameSearch,            setNameSearch]            = useState('');
   const [showCreateDialog,      setShowCreateDialog]      = useState(false);
   const [showPermissionsDialog, setShowPermissionsDialog] = useState(false);
+  const [showTemplatesDialog,   setShowTemplatesDialog]   = useState(false);
+  const [showImportDialog,      setShowImportDialog]      = useState(false);
+  const [templateNames,         setTemplateNames]         = useState<Record<string, string>>({});
   const [deleteTarget,          setDeleteTarget]          = useState<Agent | null>(null);
   const [deleteLoading,         setDeleteLoading]         = useState(false);
 
   const fetchAgents = useCallback(async () => {
     setIsLoading(true);
     try {
-      const res = await authApi.getAgents();
+      const [res, templates] = await Promise.all([authApi.getAgents(), authApi.getRoleTemplates()]);
       setAgents(res.agents as Agent[]);
+      setTemplateNames(Object.fromEntries(templates.templates.map(t => [t.id, t.name])));
     } catch (err: any) {
       toast.error(err?.message ?? 'Error loading agents');
     } finally {
@@ -412,22 +504,54 @@ export function TeamPage() {
 
   useEffect(() => { fetchAgents(); }, [fetchAgents]);
 
+  const copyInviteLink = (url: string) => {
+    navigator.clipboard.writeText(url)
+      .then(() => toast.success('Invitation link copied'))
+      .catch(() => toast.error('Unable to copy the invitation link'));
+  };
+
+  const inviteSent = (message: string, url: string) =>
+    toast.success(message, { action: { label: 'Copy link', onClick: () => copyInviteLink(url) } });
+
   const handleCreateAgent = async (userData: {
     name: string; email: string; role: string;
-    permissions: string[]; branchId?: string; tempPassword?: string;
+    permissions: string[]; branchId?: string; allowedBranches?: string[]; roleTemplateId?: string; tempPassword?: string;
+    sendInvite?: boolean;
   }) => {
-    await createAgent(userData);
+    const inviteUrl = await createAgent(userData);
     await fetchAgents();
-    toast.success(`Agent account created for ${userData.name}`);
+    if (inviteUrl) inviteSent(`Invitation sent to ${userData.email}`, inviteUrl);
+    else toast.success(`Agent account created for ${userData.name}`);
+  };
+
+  const handleResendInvite = async (agent: Agent) => {
+    try {
+      const res = await authApi.resendInvite(agent.id);
+      inviteSent(res.message, res.invite_url);
+      await fetchAgents();
+    } catch (err: any) {
+      toast.error(err?.message ?? 'Error resending the invitation');
+    }
   };
 
-  const handleUpdatePermissions = async (userId: string, permissions: string[]) => {
-    await updateUserPermissions(userId, permissions);
+  const handleRevokeInvite = async (agent: Agent) => {
+    try {
+      await authApi.revokeInvite(agent.id);
+      toast.success(`Invitation of ${agent.full_name} revoked — the link no longer works`);
+      await fetchAgents();
+    } catch (err: any) {
+      toast.error(err?.message ?? 'Error revoking the invitation');
+    }
+  };
+
+  const handleUpdatePermissions = async (userId: string, permissions: string[], allowedBranches?: string[]) => {
+    await updateUserPermissions(userId, permissions, allowedBranches);
     await fetchAgents();
   };
 
   const handleDeleteConfirm = async () => {
     if (!deleteTarget) return;
+    if (!(await requireRecentAuth())) return;
     setDeleteLoading(true);
     try {
       await authApi.deleteAgent(deleteTarget.id);
@@ -453,6 +577,7 @@ export function TeamPage() {
     email:       a.email,
     role:        a.role as any,
     permissions: a.permissions_list ?? [],
+    allowedBranches: a.allowed_branches ?? [],
     isVerified:  true,
     createdAt:   a.created_at,
   }));
@@ -484,6 +609,20 @@ export function TeamPage() {
         onUpdatePermissions={handleUpdatePermissions}
       />
 
+      <RoleTemplatesDialog
+        open={showTemplatesDialog}
+        onClose={() => { setShowTemplatesDialog(false); fetchAgents(); }}
+        agents={agents}
+        onAgentsUpdated={fetchAgents}
+      />
+
+      <BulkImportUsersDialog
+        open={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        existingEmails={agents.map(a => a.email)}
+        onCreated={fetchAgents}
+      />
+
       <div style={{ background: css.bg, minHeight: '100vh', padding: '32px 28px' }}>
 
         {/* ── Header ── */}
@@ -556,6 +695,52 @@ export function TeamPage() {
               Manage permissions
             </button>
 
+            {/* Role templates */}
+            <button
+              onClick={() => setShowTemplatesDialog(true)}
+              style={{
+                display:    'flex',
+                alignItems: 'center',
+                gap:         6,
+                height:      36,
+                padding:    '0 16px',
+                borderRadius: 10,
+                border:     `1px solid ${css.border}`,
+                background:  css.card,
+                color:       css.cardFg,
+                fontSize:    13,
+                fontWeight:  600,
+                cursor:     'pointer',
+                boxShadow:  '0 1px 3px rgba(0,0,0,0.06)',
+              }}
+            >
+              <Layers size={14} />
+              Role templates
+            </button>
+
+            {/* Bulk import */}
+            <button
+              onClick={() => setShowImportDialog(true)}
+              style={{
+                display:    'flex',
+                alignItems: 'center',
+                gap:         6,
+                height:      36,
+                padding:    '0 16px',
+                borderRadius: 10,
+                border:     `1px solid ${css.border}`,
+                background:  css.card,
+                color:       css.cardFg,
+                fontSize:    13,
+                fontWeight:  600,
+                cursor:     'pointer',
+                boxShadow:  '0 1px 3px rgba(0,0,0,0.06)',
+              }}
+            >
+              <FileSpreadsheet size={14} />
+              Import agents
+            </button>
+
             {/* Create agent */}
             <button
               onClick={() => setShowCreateDialog(true)}
@@ -684,6 +869,10 @@ export function TeamPage() {
               <AgentCard
                 key={agent.id}
                 agent={agent}
+                templateName={agent.role_template ? templateNames[agent.role_template] : undefined}
+                onHistory={() => navigate(`/dashboard/audit?${new URLSearchParams({ target_id: agent.id, target: agent.full_name })}`)}
+                onResendInvite={() => handleResendInvite(agent)}
+                onRevokeInvite={() => handleRevokeInvite(agent)}
                 onDelete={() => setDeleteTarget(agent)}
               />
             ))}
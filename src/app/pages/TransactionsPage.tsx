@@ -7,8 +7,9 @@ import {
   ArrowUpRight, ArrowDownLeft, ArrowLeftRight,
   Loader2, AlertTriangle, ChevronDown, RefreshCw,
 } from 'lucide-react';
-import axios from 'axios';
+import { api } from '../lib/api';
 import { isSaleType, isPurchaseType } from '../lib/dataApi';
+import { useBranchScope } from '../contexts/AuthContext';
 
 const toNum = (val: unknown): number => parseFloat(String(val ?? 0)) || 0;
 
@@ -285,6 +286,7 @@ function KpiCard({
 
 // ── Page ───────────────────────────────────────────────────────────────────
 export function TransactionsPage() {
+  const branchScope = useBranchScope();
   const [transactions, setTransactions]           = useState<TransactionWithType[]>([]);
   const [loading, setLoading]                     = useState(true);
   const [error, setError]                         = useState<string | null>(null);
@@ -309,18 +311,12 @@ export function TransactionsPage() {
   // Compute date range from period selection
   const dateRange = useMemo(() => periodToDates(selectedPeriod), [selectedPeriod]);
 
-  function getAuthHeaders() {
-    const token = localStorage.getItem('fasi_access_token');
-    return token ? { Authorization: `Bearer ${token}` } : {};
-  }
-
   // Load available movement types and branches once on mount
   useEffect(() => {
-    const h = getAuthHeaders();
-    axios.get('/api/transactions/movement-types/', { headers: h })
-      .then(res => setAvailableTypes(res.data.movement_types ?? [])).catch(() => {});
-    axios.get('/api/transactions/branches/', { headers: h })
-      .then(res => setAvailableBranches(res.data.branches ?? [])).catch(() => {});
+    api.get<any>('/transactions/movement-types/')
+      .then(res => setAvailableTypes(res.movement_types ?? [])).catch(() => {});
+    api.get<any>('/transactions/branches/')
+      .then(res => setAvailableBranches(res.branches ?? [])).catch(() => {});
   }, []);
 
   // ✅ Single fetch function — applies ALL 3 filters simultaneously
@@ -343,10 +339,7 @@ export function TransactionsPage() {
       if (dateRange.date_from) params.date_from = dateRange.date_from;
       if (dateRange.date_to)   params.date_to   = dateRange.date_to;
 
-      const { data } = await axios.get<PaginatedMovements>('/api/transactions/', {
-        params,
-        headers: getAuthHeaders(),
-      });
+      const data = await api.get<PaginatedMovements>('/transactions/', { params });
 
       const mapped: TransactionWithType[] = data.movements.map(m => ({
         ...m, category: getCategory(m.movement_type),
@@ -360,7 +353,7 @@ export function TransactionsPage() {
       setGrandTotalOut(toNum(data.totals?.total_out_value));
       setGrandTotalIn(toNum(data.totals?.total_in_value));
     } catch (err: any) {
-      setError(err.response?.data?.error || err.message || 'Failed to load transactions');
+      setError(err.message || 'Failed to load transactions');
     } finally {
       setLoading(false);
       setKpiLoading(false);
@@ -386,7 +379,7 @@ export function TransactionsPage() {
     { key: 'ytd', label: 'Year to Date'   },
   ];
   const typeOptions   = [{ key: 'all', label: 'All Types'    }, ...availableTypes.map(t => ({ key: t, label: t }))];
-  const branchOptions = [{ key: 'all', label: 'All Branches' }, ...availableBranches.map(b => ({ key: b, label: b }))];
+  const branchOptions = branchScope.options(availableBranches);
 
   // ── Table columns ──────────────────────────────────────────────────────────
   const columns = [
@@ -14,9 +14,15 @@ import { ReportsPage } from './pages/ReportsPage';
 import { AIInsightsPage } from './pages/AIInsightsPage';
 import { SettingsPage } from './pages/SettingsPage';
 import { AdminVerificationPage } from './pages/AdminVerificationPage';
+import { AuditLogPage } from './pages/AuditLogPage';
 import { ProfilePage } from './pages/ProfilePage';
 import { TeamPage } from './pages/TeamPage';
 import { ForgotPasswordPage } from './pages/ForgotPasswordPage';
+import { AcceptInvitePage } from './pages/AcceptInvitePage';
+import type { PageHandle, PageId } from './lib/permissions';
+
+// Every /dashboard page names its entry in PAGE_ACCESS; MainLayout enforces it.
+const page = (id: PageId): PageHandle => ({ page: id });
 
 export const router = createBrowserRouter([
   {
@@ -35,6 +41,10 @@ export const router = createBrowserRouter([
     path: '/forgot-password',
     element: <ForgotPasswordPage />,
   },
+  {
+    path: '/accept-invite/:token',
+    element: <AcceptInvitePage />,
+  },
   {
     path: '/dashboard',
     element: <MainLayout />,
@@ -42,56 +52,73 @@ export const router = createBrowserRouter([
       {
         index: true,
         element: <DashboardPage />,
+        handle: page('dashboard'),
       },
       {
         path: 'team',
         element: <TeamPage />,
+        handle: page('team'),
       },
       {
         path: 'import',
         element: <DataImportPage />,
+        handle: page('import'),
       },
       {
         path: 'kpi',
         element: <KPIEnginePage />,
+        handle: page('kpi'),
       },
       {
         path: 'sales',
         element: <TransactionsPage />,
+        handle: page('sales'),
       },
       {
         path: 'inventory',
         element: <InventoryPage />,
+        handle: page('inventory'),
       },
       {
         path: 'alerts',
         element: <AlertsPage />,
+        handle: page('alerts'),
       },
       {
         path: 'aging',
         element: <AgingPage />,
+        handle: page('aging'),
       },
       {
         path: 'reports',
         element: <ReportsPage />,
+        handle: page('reports'),
       },
       {
         path: 'ai-insights',
         element: <AIInsightsPage />,
+        handle: page('ai-insights'),
       },
       {
         path: 'settings',
         element: <SettingsPage />,
+        handle: page('settings'),
       },
       {
         path: 'admin-verification',
         element: <AdminVerificationPage />,
+        handle: page('admin-verification'),
+      },
+      {
+        path: 'audit',
+        element: <AuditLogPage />,
+        handle: page('audit'),
       },
       {
         path: 'profile',
         element: <ProfilePage />,
+        handle: page('profile'),
       },
-
     ],
   },
 ]);
\ No newline at end of file
@@ -3,5 +3,13 @@
   import App from "./app/App.tsx";
   import "./styles/index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
-  
\ No newline at end of file
+  // VITE_API_MODE=mock serves every request from lib/mockBackend (no server needed).
+  const ready =
+    import.meta.env.VITE_API_MODE === "mock"
+      ? import("./app/lib/mockBackend").then((mock) => mock.installMockBackend())
+      : Promise.resolve();
+
+  ready.then(() => {
+    createRoot(document.getElementById("root")!).render(<App />);
+  });
+  
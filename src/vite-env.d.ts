@@ -3,6 +3,12 @@
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
   readonly VITE_FRONTEND_URL: string;
+  /** `mock` answers every API call in the browser (lib/mockBackend.ts). */
+  readonly VITE_API_MODE?: 'mock' | 'live';
+  /** Idle sign-out delay in minutes (default 15, 0 disables it). */
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  /** Age of the last sign-in, in minutes, after which sensitive actions ask for the password (default 10). */
+  readonly VITE_REAUTH_AFTER_MINUTES?: string;
 }
 
 interface ImportMeta {